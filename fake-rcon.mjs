@@ -0,0 +1,69 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: fake-rcon.mjs
+// PURPOSE: Tiny local RCON server for testing in-game delivery
+//          without a real Minecraft server. Logs every command
+//          it receives and answers like a vanilla server would.
+//
+// USAGE:   node fake-rcon.mjs [port] [password]
+//          then set RCON_HOST=127.0.0.1 RCON_PORT=25575
+//          RCON_PASSWORD=test in .env.local and approve an order.
+//          Commands containing "fail" get an "Unknown command"
+//          reply so the retry path can be exercised.
+// ═══════════════════════════════════════════════════════════════
+
+import net from "net";
+
+const port = parseInt(process.argv[2] || "25575");
+const password = process.argv[3] || "test";
+
+function encode(id, type, body) {
+    const bodyBuffer = Buffer.from(body, "utf8");
+    const size = 4 + 4 + bodyBuffer.length + 2;
+    const packet = Buffer.alloc(4 + size);
+    packet.writeInt32LE(size, 0);
+    packet.writeInt32LE(id, 4);
+    packet.writeInt32LE(type, 8);
+    bodyBuffer.copy(packet, 12);
+    return packet;
+}
+
+const server = net.createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    let authed = false;
+
+    socket.on("data", (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+
+        while (buffer.length >= 4) {
+            const size = buffer.readInt32LE(0);
+            if (buffer.length - 4 < size) break;
+
+            const id = buffer.readInt32LE(4);
+            const type = buffer.readInt32LE(8);
+            const body = buffer.toString("utf8", 12, 4 + size - 2);
+            buffer = buffer.subarray(4 + size);
+
+            if (type === 3) {
+                authed = body === password;
+                console.log(authed ? "✅ Auth OK" : "❌ Auth failed");
+                socket.write(encode(authed ? id : -1, 2, ""));
+                continue;
+            }
+
+            if (!authed) {
+                socket.destroy();
+                return;
+            }
+
+            console.log(`> ${body}`);
+            const reply = body.includes("fail")
+                ? `Unknown or incomplete command, see below for error`
+                : `Executed: ${body}`;
+            socket.write(encode(id, 0, reply));
+        }
+    });
+});
+
+server.listen(port, () => {
+    console.log(`Fake RCON server listening on port ${port} (password: "${password}")`);
+});
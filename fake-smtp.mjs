@@ -0,0 +1,98 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: fake-smtp.mjs
+// PURPOSE: Tiny local SMTP server for testing emails (login links,
+//          order alerts) without a real mailbox. Accepts every
+//          message, prints who it's for and its subject, and lists
+//          any links in it so a login link can be opened straight
+//          from the terminal.
+//
+// USAGE:   node fake-smtp.mjs [port]
+//          then set SMTP_HOST=127.0.0.1 SMTP_PORT=2525
+//          MAIL_FROM=store@localhost in .env.local and request a
+//          login link at /account.
+// ═══════════════════════════════════════════════════════════════
+
+import net from "net";
+
+const port = parseInt(process.argv[2] || "2525");
+
+/** Undoes quoted-printable encoding (soft line breaks, =XX bytes). */
+function decodeQuotedPrintable(text) {
+    const bytes = text
+        .replace(/=\r?\n/g, "")
+        .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+function printMessage(from, to, data) {
+    const subject = data.match(/^Subject: (.*)$/m)?.[1] ?? "(no subject)";
+    const body = decodeQuotedPrintable(data);
+    const links = [...new Set(body.match(/https?:\/\/[^\s"'<>]+/g) ?? [])];
+
+    console.log("═══════════════════════════════════════");
+    console.log(`  From:    ${from}`);
+    console.log(`  To:      ${to.join(", ")}`);
+    console.log(`  Subject: ${subject}`);
+    for (const link of links) console.log(`  Link:    ${link}`);
+    console.log("═══════════════════════════════════════");
+}
+
+const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    let from = "";
+    let to = [];
+    let data = "";
+
+    const reply = (line) => socket.write(`${line}\r\n`);
+    reply("220 fake-smtp ready");
+
+    socket.on("data", (chunk) => {
+        buffer += chunk.toString("latin1");
+
+        while (true) {
+            if (inData) {
+                const end = buffer.indexOf("\r\n.\r\n");
+                if (end === -1) return;
+                data += buffer.slice(0, end);
+                buffer = buffer.slice(end + 5);
+                inData = false;
+                printMessage(from, to, data.replace(/^\.\./gm, "."));
+                reply("250 OK: queued");
+                continue;
+            }
+
+            const newline = buffer.indexOf("\r\n");
+            if (newline === -1) return;
+            const line = buffer.slice(0, newline);
+            buffer = buffer.slice(newline + 2);
+            const command = line.slice(0, 4).toUpperCase();
+
+            if (command === "EHLO" || command === "HELO") {
+                reply("250 fake-smtp");
+            } else if (command === "MAIL") {
+                from = line.slice(10).trim();
+                to = [];
+                reply("250 OK");
+            } else if (command === "RCPT") {
+                to.push(line.slice(8).trim());
+                reply("250 OK");
+            } else if (command === "DATA") {
+                inData = true;
+                data = "";
+                reply("354 End data with <CR><LF>.<CR><LF>");
+            } else if (command === "QUIT") {
+                reply("221 Bye");
+                socket.end();
+                return;
+            } else {
+                // RSET, NOOP, AUTH... — say yes to everything
+                reply(command === "AUTH" ? "235 Authenticated" : "250 OK");
+            }
+        }
+    });
+});
+
+server.listen(port, () => {
+    console.log(`Fake SMTP server listening on port ${port}`);
+});
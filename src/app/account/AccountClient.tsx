@@ -0,0 +1,437 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: AccountClient.tsx
+// PURPOSE: The logged-in player's account page: linked Minecraft
+//          usernames (add after an in-game /verifystore check,
+//          remove, pick the one checkout prefills) and order
+//          history with reorder.
+// LOCATION: src/app/account/AccountClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import {
+    ArrowLeft,
+    Gamepad2,
+    Gift,
+    Loader2,
+    LogOut,
+    Monitor,
+    Package,
+    Plus,
+    RotateCcw,
+    ShieldCheck,
+    Star,
+    Ticket,
+    Trash2,
+    User,
+} from "lucide-react";
+import type { Product } from "@/lib/data";
+import { useCartStore } from "@/store/useCartStore";
+import { linkAccountUsername, setAccountDefaultUsername, unlinkAccountUsername } from "./actions";
+import type { AccountOrder, AccountView } from "./page";
+
+type Edition = "java" | "bedrock";
+
+/** How often the page asks whether /verifystore has been run */
+const VERIFY_POLL_MS = 4000;
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+    pending: { label: "Processing", className: "bg-neon-amber/10 text-neon-amber" },
+    "pending-delivery": { label: "Delivering", className: "bg-cyan-500/10 text-cyan-400" },
+    "delivery-failed": { label: "Delivery Delayed", className: "bg-orange-500/10 text-orange-400" },
+    delivered: { label: "Delivered", className: "bg-neon-green/10 text-neon-green" },
+    success: { label: "Delivered", className: "bg-neon-green/10 text-neon-green" },
+    rejected: { label: "Rejected", className: "bg-red-500/10 text-red-400" },
+};
+
+// ═══════════════════════════════════════════════════════════════
+
+export default function AccountClient({
+    account,
+    orders,
+    products,
+}: {
+    account: AccountView;
+    orders: AccountOrder[];
+    products: Product[];
+}) {
+    const router = useRouter();
+    const { addToCart, updateQuantity, openCart, verifiedPlayers, setVerifiedPlayer } = useCartStore();
+    const [isPending, startTransition] = useTransition();
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState("");
+
+    // Link form
+    const [newUsername, setNewUsername] = useState("");
+    const [newEdition, setNewEdition] = useState<Edition>("java");
+    // A username waiting for its /verifystore code to be run in-game
+    const [linkCode, setLinkCode] = useState<{
+        username: string;
+        edition: Edition;
+        code: string;
+        token: string;
+    } | null>(null);
+
+    // ── Usernames ──────────────────────────────────────────────
+    const run = (key: string, action: () => Promise<{ success: boolean; error?: string }>, after?: () => void) => {
+        setError("");
+        setBusy(key);
+        startTransition(async () => {
+            const result = await action();
+            if (result.success) {
+                after?.();
+            } else {
+                setError(result.error || "Something went wrong.");
+            }
+            setBusy(null);
+        });
+    };
+
+    // ── Link (needs an in-game proof) ──────────────────────────
+    // Tries the link; if the name isn't proven yet, reuses a token
+    // the cart already verified or asks for a /verifystore code
+    const tryLink = (rawUsername: string, edition: Edition, token?: string) => {
+        setError("");
+        setBusy("link");
+        startTransition(async () => {
+            const result = await linkAccountUsername(rawUsername, edition, token);
+            if (result.success) {
+                setNewUsername("");
+                setLinkCode(null);
+            } else if (result.needsVerification && result.username) {
+                const saved = verifiedPlayers[result.username.toLowerCase()];
+                if (saved && saved !== token) {
+                    const retry = await linkAccountUsername(result.username, edition, saved);
+                    if (retry.success) {
+                        setNewUsername("");
+                        setBusy(null);
+                        return;
+                    }
+                }
+                const res = await fetch("/api/verification", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ username: result.username }),
+                });
+                const data = await res.json().catch(() => ({}));
+                if (res.ok) {
+                    setLinkCode({ username: result.username, edition, code: data.code, token: data.token });
+                } else {
+                    setError(data.error || "Failed to create a verification code.");
+                }
+            } else {
+                setError(result.error || "Something went wrong.");
+            }
+            setBusy(null);
+        });
+    };
+
+    const handleLink = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newUsername.trim()) return;
+        tryLink(newUsername, newEdition);
+    };
+
+    // Poll until the plugin reports the code, then finish the link
+    useEffect(() => {
+        if (!linkCode) return;
+        const { username, edition, token } = linkCode;
+        const timer = setInterval(async () => {
+            try {
+                const res = await fetch(
+                    `/api/verification?username=${encodeURIComponent(username)}&token=${encodeURIComponent(token)}`
+                );
+                const data = await res.json();
+                if (res.ok && data.verified) {
+                    clearInterval(timer);
+                    setVerifiedPlayer(username, token);
+                    tryLink(username, edition, token);
+                }
+            } catch {
+                // Try again on the next tick
+            }
+        }, VERIFY_POLL_MS);
+        return () => clearInterval(timer);
+        // tryLink is recreated every render; the code is what matters
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [linkCode]);
+
+    // ── Reorder ────────────────────────────────────────────────
+    // Puts the same items back in the cart at today's prices —
+    // anything no longer sold is skipped
+    const handleReorder = (order: AccountOrder) => {
+        const cart = useCartStore.getState().items;
+        let added = 0;
+        for (const item of order.items) {
+            const product = products.find((p) => p.id === item.id);
+            if (!product) continue;
+            const inCart = cart.find((c) => c.id === product.id)?.quantity ?? 0;
+            if (!addToCart(product)) continue;
+            if (item.quantity > 1) updateQuantity(product.id, inCart + item.quantity);
+            added++;
+        }
+        if (added === 0) {
+            setError("None of the items on that order are sold any more.");
+            return;
+        }
+        openCart();
+        router.push("/");
+    };
+
+    // ── Logout ─────────────────────────────────────────────────
+    const handleLogout = async () => {
+        setBusy("logout");
+        await fetch("/api/account", { method: "DELETE" }).catch(() => { });
+        router.refresh();
+    };
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleDateString("en-IN", {
+            day: "2-digit",
+            month: "short",
+            year: "numeric",
+        });
+
+    return (
+        <div className="min-h-screen bg-surface-primary">
+            {/* ── Background Decoration ── */}
+            <div className="fixed inset-0 pointer-events-none">
+                <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[600px] h-[600px] bg-neon-green/3 rounded-full blur-[120px]" />
+                <div className="absolute bottom-0 right-0 w-[400px] h-[400px] bg-neon-purple/3 rounded-full blur-[100px]" />
+            </div>
+
+            <div className="relative mx-auto max-w-2xl px-4 py-16 md:py-24">
+                <Link
+                    href="/"
+                    className="inline-flex items-center gap-2 text-sm text-white/30 hover:text-white/60 transition-colors mb-8"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back to Store
+                </Link>
+
+                {/* ── Header ── */}
+                <div className="flex items-center justify-between gap-4 mb-10">
+                    <div className="flex items-center gap-4">
+                        <div className="inline-flex items-center justify-center w-14 h-14 rounded-2xl bg-neon-green/10 border border-neon-green/20">
+                            <User className="h-7 w-7 text-neon-green" />
+                        </div>
+                        <div>
+                            <h1 className="font-[family-name:var(--font-display)] text-2xl md:text-3xl font-bold text-white tracking-wide">
+                                My Account
+                            </h1>
+                            <p className="text-white/30 text-sm">{account.email}</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={handleLogout}
+                        disabled={busy === "logout"}
+                        className="flex items-center gap-1.5 rounded-lg border border-white/10 px-3 py-2 text-xs font-medium text-white/50 hover:text-white hover:border-white/20 transition-all cursor-pointer disabled:opacity-50"
+                    >
+                        {busy === "logout" ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <LogOut className="h-3.5 w-3.5" />}
+                        Log Out
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="mb-6 p-4 bg-red-500/5 border border-red-500/15 rounded-xl">
+                        <p className="text-red-400 text-sm">{error}</p>
+                    </div>
+                )}
+
+                {/* ────── Minecraft Usernames ────── */}
+                <div className="p-5 bg-surface-secondary/40 border border-white/5 rounded-2xl mb-6">
+                    <h3 className="text-white/25 text-[10px] uppercase tracking-widest font-semibold mb-4">
+                        Minecraft Usernames
+                    </h3>
+
+                    {account.usernames.length === 0 ? (
+                        <p className="text-white/30 text-sm mb-4">
+                            Link the usernames you play as to see their orders here — you&apos;ll run a quick
+                            /verifystore command in-game to prove each one. The starred one is filled in at checkout.
+                        </p>
+                    ) : (
+                        <div className="space-y-2 mb-4">
+                            {account.usernames.map((u) => {
+                                const isDefault = u.username === account.defaultUsername;
+                                return (
+                                    <div key={u.username} className="flex items-center justify-between py-2 border-b border-white/5 last:border-0">
+                                        <div className="flex items-center gap-2.5">
+                                            {u.edition === "java"
+                                                ? <Monitor className="h-4 w-4 text-white/30" />
+                                                : <Gamepad2 className="h-4 w-4 text-white/30" />}
+                                            <span className="font-mono text-white text-sm">{u.username}</span>
+                                            {u.verified ? (
+                                                <ShieldCheck className="h-3.5 w-3.5 text-neon-green" aria-label="Verified in-game" />
+                                            ) : (
+                                                <button
+                                                    onClick={() => tryLink(u.username, u.edition)}
+                                                    disabled={isPending}
+                                                    title="Orders show once you verify this name in-game"
+                                                    className="text-[10px] font-semibold text-neon-amber hover:underline cursor-pointer disabled:opacity-50"
+                                                >
+                                                    Verify
+                                                </button>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <button
+                                                onClick={() => !isDefault && run(`default-${u.username}`, () => setAccountDefaultUsername(u.username))}
+                                                disabled={isPending}
+                                                title={isDefault ? "Filled in at checkout" : "Use at checkout"}
+                                                className="p-1.5 rounded-lg hover:bg-white/5 transition-colors cursor-pointer disabled:opacity-50"
+                                            >
+                                                <Star className={`h-4 w-4 ${isDefault ? "text-neon-amber fill-neon-amber" : "text-white/25"}`} />
+                                            </button>
+                                            <button
+                                                onClick={() => run(`unlink-${u.username}`, () => unlinkAccountUsername(u.username))}
+                                                disabled={isPending}
+                                                title="Unlink"
+                                                className="p-1.5 rounded-lg text-white/25 hover:text-red-400 hover:bg-white/5 transition-colors cursor-pointer disabled:opacity-50"
+                                            >
+                                                {busy === `unlink-${u.username}` ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {/* /verifystore code for the name being linked */}
+                    {linkCode && (
+                        <div className="mb-4 p-4 bg-neon-amber/5 border border-neon-amber/15 rounded-xl">
+                            <p className="text-white/60 text-sm">
+                                Join the server as <span className="font-mono text-white">{linkCode.username}</span> and run:
+                            </p>
+                            <p className="mt-2 font-mono text-neon-amber text-lg tracking-wider select-all">
+                                /verifystore {linkCode.code}
+                            </p>
+                            <p className="mt-2 flex items-center gap-1.5 text-white/30 text-xs">
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                                Waiting for the server… the code works for 10 minutes.
+                                <button
+                                    onClick={() => setLinkCode(null)}
+                                    className="ml-auto text-white/40 hover:text-white cursor-pointer"
+                                >
+                                    Cancel
+                                </button>
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Link form */}
+                    <form onSubmit={handleLink} className="flex flex-col sm:flex-row gap-2">
+                        <div className="flex rounded-xl border border-white/5 overflow-hidden shrink-0">
+                            {(["java", "bedrock"] as const).map((edition) => (
+                                <button
+                                    key={edition}
+                                    type="button"
+                                    onClick={() => setNewEdition(edition)}
+                                    className={`px-3 py-2.5 text-xs font-semibold capitalize transition-all cursor-pointer ${newEdition === edition
+                                        ? "bg-neon-green/15 text-neon-green"
+                                        : "text-white/40 hover:text-white"
+                                        }`}
+                                >
+                                    {edition}
+                                </button>
+                            ))}
+                        </div>
+                        <input
+                            type="text"
+                            value={newUsername}
+                            onChange={(e) => setNewUsername(e.target.value)}
+                            placeholder="Minecraft username"
+                            maxLength={17}
+                            className="flex-1 px-4 py-2.5 bg-surface-secondary/60 border border-white/5 rounded-xl text-white text-sm placeholder-white/25 outline-none focus:border-neon-green/30 transition-all"
+                        />
+                        <button
+                            type="submit"
+                            disabled={isPending || !newUsername.trim()}
+                            className="flex items-center justify-center gap-1.5 px-4 py-2.5 bg-neon-green/10 border border-neon-green/30 text-neon-green text-sm font-semibold rounded-xl hover:bg-neon-green/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                        >
+                            {busy === "link" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                            Link
+                        </button>
+                    </form>
+                </div>
+
+                {/* ────── Order History ────── */}
+                <div className="p-5 bg-surface-secondary/40 border border-white/5 rounded-2xl">
+                    <h3 className="text-white/25 text-[10px] uppercase tracking-widest font-semibold mb-4">
+                        Order History
+                    </h3>
+
+                    {orders.length === 0 ? (
+                        <div className="text-center py-8">
+                            <Package className="h-8 w-8 text-white/15 mx-auto mb-2" />
+                            <p className="text-white/30 text-sm">No orders yet.</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {orders.map((order) => {
+                                const status = STATUS_LABELS[order.status] ?? STATUS_LABELS.pending;
+                                const canReorder = order.items.some((i) => products.some((p) => p.id === i.id));
+                                return (
+                                    <div key={order.orderId} className="p-4 bg-surface-primary/40 border border-white/5 rounded-xl">
+                                        <div className="flex items-start justify-between gap-3 mb-2">
+                                            <div className="min-w-0">
+                                                <p className="font-mono text-white/60 text-xs truncate">{order.orderId}</p>
+                                                <p className="text-white/30 text-xs mt-0.5">
+                                                    {formatDate(order.createdAt)} · for{" "}
+                                                    <span className="font-mono text-white/50">{order.minecraftUsername}</span>
+                                                    {order.giftFrom && (
+                                                        <span className="inline-flex items-center gap-1 ml-1.5 text-neon-amber/70">
+                                                            <Gift className="h-3 w-3" />
+                                                            from {order.giftFrom}
+                                                        </span>
+                                                    )}
+                                                </p>
+                                            </div>
+                                            <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-semibold ${status.className}`}>
+                                                {status.label}
+                                            </span>
+                                        </div>
+
+                                        <p className="text-white text-sm">
+                                            {order.items.map((i) => `${i.name}${i.quantity > 1 ? ` ×${i.quantity}` : ""}`).join(", ")}
+                                        </p>
+
+                                        {order.giftCardCodes.length > 0 && (
+                                            <div className="mt-3 p-3 bg-neon-pink/5 border border-neon-pink/15 rounded-lg">
+                                                <p className="flex items-center gap-1.5 text-neon-pink text-[10px] uppercase tracking-widest font-semibold mb-1.5">
+                                                    <Ticket className="h-3 w-3" />
+                                                    Gift Card Codes
+                                                </p>
+                                                {order.giftCardCodes.map((code) => (
+                                                    <p key={code} className="font-mono text-white text-sm tracking-wider select-all">
+                                                        {code}
+                                                    </p>
+                                                ))}
+                                            </div>
+                                        )}
+
+                                        <div className="flex items-center justify-between mt-3">
+                                            <p className="text-neon-green font-bold text-sm">₹{order.total.toFixed(2)}</p>
+                                            {canReorder && (
+                                                <button
+                                                    onClick={() => handleReorder(order)}
+                                                    className="flex items-center gap-1.5 rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-white/60 hover:text-white hover:border-neon-green/30 transition-all cursor-pointer"
+                                                >
+                                                    <RotateCcw className="h-3.5 w-3.5" />
+                                                    Reorder
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,130 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: AccountLogin.tsx
+// PURPOSE: Email form for the player login link. Accounts are
+//          optional — the page says so, and links back to the
+//          store for guest checkout.
+// LOCATION: src/app/account/AccountLogin.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import { ArrowLeft, CheckCircle2, Loader2, Mail, User, XCircle } from "lucide-react";
+
+export default function AccountLogin({ linkError }: { linkError: boolean }) {
+    const [email, setEmail] = useState("");
+    const [error, setError] = useState(linkError ? "That login link has expired or was already used. Request a new one." : "");
+    const [sent, setSent] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!email.trim()) {
+            setError("Please enter your email.");
+            return;
+        }
+
+        setIsLoading(true);
+        setError("");
+        try {
+            const res = await fetch("/api/account/login", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ email }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setSent(true);
+            } else {
+                setError(data.error || "Failed to send the login link.");
+            }
+        } catch {
+            setError("Network error. Please try again.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-surface-primary">
+            {/* ── Background Decoration ── */}
+            <div className="fixed inset-0 pointer-events-none">
+                <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[600px] h-[600px] bg-neon-green/3 rounded-full blur-[120px]" />
+                <div className="absolute bottom-0 right-0 w-[400px] h-[400px] bg-neon-purple/3 rounded-full blur-[100px]" />
+            </div>
+
+            <div className="relative mx-auto max-w-md px-4 py-16 md:py-24">
+                <Link
+                    href="/"
+                    className="inline-flex items-center gap-2 text-sm text-white/30 hover:text-white/60 transition-colors mb-8"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back to Store
+                </Link>
+
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.5 }}
+                    className="text-center mb-10"
+                >
+                    <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-neon-green/10 border border-neon-green/20 mb-4">
+                        <User className="h-8 w-8 text-neon-green" />
+                    </div>
+                    <h1 className="font-[family-name:var(--font-display)] text-3xl md:text-4xl font-bold text-white tracking-wide mb-2">
+                        My Account
+                    </h1>
+                    <p className="text-white/30 text-sm">
+                        Log in to see all your orders, reorder in one click and save your usernames.
+                        No account needed to buy.
+                    </p>
+                </motion.div>
+
+                {sent ? (
+                    <div className="flex items-start gap-3 p-5 bg-neon-green/5 border border-neon-green/15 rounded-2xl">
+                        <CheckCircle2 className="h-5 w-5 shrink-0 text-neon-green mt-0.5" />
+                        <div>
+                            <p className="text-white text-sm font-semibold">Check your inbox</p>
+                            <p className="text-white/40 text-xs mt-1">
+                                We sent a login link to {email.trim()}. It works once and expires in 15 minutes.
+                            </p>
+                        </div>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-3">
+                        <div className="relative">
+                            <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-white/25" />
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={(e) => {
+                                    setEmail(e.target.value);
+                                    setError("");
+                                }}
+                                placeholder="you@example.com"
+                                className="w-full pl-11 pr-4 py-3.5 bg-surface-secondary/60 border border-white/5 rounded-xl text-white text-sm placeholder-white/25 outline-none focus:border-neon-green/30 focus:ring-2 focus:ring-neon-green/10 transition-all"
+                            />
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={isLoading}
+                            className="w-full px-6 py-3.5 bg-gradient-to-r from-neon-green/20 to-neon-green/10 border border-neon-green/30 text-neon-green text-sm font-semibold rounded-xl hover:from-neon-green/30 hover:to-neon-green/20 hover:shadow-glow-green transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                        >
+                            {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Email Me a Login Link
+                        </button>
+                    </form>
+                )}
+
+                {error && (
+                    <div className="mt-4 flex items-center gap-3 p-4 bg-red-500/5 border border-red-500/15 rounded-xl">
+                        <XCircle className="h-5 w-5 text-red-400 shrink-0" />
+                        <p className="text-red-400 text-sm">{error}</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
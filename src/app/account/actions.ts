@@ -0,0 +1,106 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Player Account Server Actions)
+// PURPOSE: Server actions for the logged-in player's saved
+//          details: linking and unlinking Minecraft usernames and
+//          picking the one checkout prefills.
+// LOCATION: src/app/account/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+    type Edition,
+    getPlayerAccount,
+    isValidUsername,
+    linkUsername,
+    setDefaultUsername,
+    unlinkUsername,
+} from "@/lib/playerAccounts";
+
+const NOT_LOGGED_IN = "Please log in again.";
+
+// ─── Link Username ─────────────────────────────────────────────
+
+/**
+ * Bedrock names get the "." prefix, same as the cart does. Needs
+ * the token from /api/verification once /verifystore was run —
+ * without it the result says `needsVerification` and carries the
+ * tidied username to ask a code for.
+ */
+export async function linkAccountUsername(rawUsername: string, edition: Edition, verificationToken?: string) {
+    try {
+        const account = await getPlayerAccount();
+        if (!account) {
+            return { success: false, error: NOT_LOGGED_IN };
+        }
+        if (edition !== "java" && edition !== "bedrock") {
+            return { success: false, error: "Pick Java or Bedrock." };
+        }
+
+        const trimmed = String(rawUsername ?? "").trim();
+        const username = edition === "bedrock"
+            ? `.${trimmed.replace(/^\./, "").replace(/ /g, "_")}`
+            : trimmed;
+        if (!isValidUsername(username)) {
+            return { success: false, error: "Usernames are 3–16 letters, numbers or underscores." };
+        }
+
+        const db = await connectToDatabase();
+        const result = await linkUsername(db, account._id, username, edition, verificationToken);
+        if (!result.ok) {
+            return { success: false, error: result.error, needsVerification: result.needsVerification, username };
+        }
+
+        revalidatePath("/account");
+        return { success: true };
+    } catch (error) {
+        console.error("Link username error:", error);
+        return { success: false, error: "Failed to link username." };
+    }
+}
+
+// ─── Unlink Username ───────────────────────────────────────────
+
+export async function unlinkAccountUsername(username: string) {
+    try {
+        const account = await getPlayerAccount();
+        if (!account) {
+            return { success: false, error: NOT_LOGGED_IN };
+        }
+
+        const db = await connectToDatabase();
+        if (!(await unlinkUsername(db, account._id, String(username ?? "")))) {
+            return { success: false, error: "That username isn't linked." };
+        }
+
+        revalidatePath("/account");
+        return { success: true };
+    } catch (error) {
+        console.error("Unlink username error:", error);
+        return { success: false, error: "Failed to unlink username." };
+    }
+}
+
+// ─── Default Username ──────────────────────────────────────────
+
+export async function setAccountDefaultUsername(username: string) {
+    try {
+        const account = await getPlayerAccount();
+        if (!account) {
+            return { success: false, error: NOT_LOGGED_IN };
+        }
+
+        const db = await connectToDatabase();
+        if (!(await setDefaultUsername(db, account._id, String(username ?? "")))) {
+            return { success: false, error: "That username isn't linked." };
+        }
+
+        revalidatePath("/account");
+        return { success: true };
+    } catch (error) {
+        console.error("Set default username error:", error);
+        return { success: false, error: "Failed to save." };
+    }
+}
@@ -0,0 +1,88 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Player Account — Server Component)
+// PURPOSE: "/account" — optional player accounts. Guests see the
+//          email login form; logged-in players see their linked
+//          Minecraft usernames and full order history with
+//          reorder. Checkout works the same either way.
+// LOCATION: src/app/account/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import type { Metadata } from "next";
+import { connectToDatabase } from "@/lib/mongodb";
+import { getAccountOrders, getPlayerAccount } from "@/lib/playerAccounts";
+import { getLiveStoreProducts } from "@/app/actions/productActions";
+import type { Product } from "@/lib/data";
+import AccountLogin from "./AccountLogin";
+import AccountClient from "./AccountClient";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface AccountOrder {
+    orderId: string;
+    minecraftUsername: string;
+    edition: string;
+    giftFrom: string | null;
+    items: { id: string; name: string; quantity: number; lineTotal: number }[];
+    total: number;
+    status: string;
+    giftCardCodes: string[];   // Full codes — only on orders this account paid for
+    createdAt: string;
+}
+
+export interface AccountView {
+    email: string;
+    usernames: { username: string; edition: "java" | "bedrock"; verified: boolean }[];
+    defaultUsername: string | null;
+}
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+    title: "My Account — DevZen Store",
+    robots: { index: false, follow: false },
+};
+
+// ═══════════════════════════════════════════════════════════════
+
+export default async function AccountPage({ searchParams }: { searchParams: Promise<{ error?: string }> }) {
+    const { error } = await searchParams;
+    const account = await getPlayerAccount();
+    if (!account) {
+        return <AccountLogin linkError={error === "link"} />;
+    }
+
+    const db = await connectToDatabase();
+    const [rawOrders, liveProducts] = await Promise.all([getAccountOrders(db, account), getLiveStoreProducts()]);
+
+    const orders: AccountOrder[] = rawOrders.map((o) => ({
+        orderId: o.orderId,
+        minecraftUsername: o.minecraftUsername,
+        edition: o.edition,
+        giftFrom: o.gift?.buyerUsername ?? null,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        items: (o.items || []).map((i: any) => ({
+            id: i.id,
+            name: i.name || "",
+            quantity: i.quantity || 1,
+            lineTotal: i.lineTotal || 0,
+        })),
+        total: o.total || 0,
+        status: o.status || "pending",
+        // Codes spend like cash: only the buyer who placed the order sees
+        // them, not every account that linked the recipient's name
+        giftCardCodes: o.accountId?.equals(account._id) ? o.giftCardsIssued ?? [] : [],
+        createdAt: o.createdAt ? new Date(o.createdAt).toISOString() : new Date().toISOString(),
+    }));
+
+    // Only what reorder needs — products on these orders that are still sold
+    const orderedIds = new Set(orders.flatMap((o) => o.items.map((i) => i.id)));
+    const products: Product[] = liveProducts.filter((p) => orderedIds.has(p.id));
+
+    const view: AccountView = {
+        email: account.email,
+        usernames: account.usernames.map((u) => ({ username: u.username, edition: u.edition, verified: !!u.verifiedAt })),
+        defaultUsername: account.defaultUsername,
+    };
+
+    return <AccountClient account={view} orders={orders} products={products} />;
+}
@@ -31,6 +31,7 @@ export async function getLiveStoreProducts(): Promise<Product[]> {
             return {
                 ...rest,
                 id: _id.toString(), // Map _id back to id expected by frontend
+                slug: typeof rest.id === "string" ? rest.id : undefined, // Lets bundles refer to seeded products
                 // Ensure sale date fields are serialized as ISO strings
                 saleStartAt: p.saleStartAt ? new Date(p.saleStartAt).toISOString() : undefined,
                 saleEndAt: p.saleEndAt ? new Date(p.saleEndAt).toISOString() : undefined,
@@ -19,7 +19,10 @@ import {
     XCircle,
     BarChart3,
     Crown,
+    Truck,
+    AlertTriangle,
 } from "lucide-react";
+import Link from "next/link";
 import AnimatedNumber from "@/components/admin/AnimatedNumber";
 import { motion } from "framer-motion";
 
@@ -103,6 +106,27 @@ export default function DashboardClient({
                         Approved
                     </span>
                 );
+            case "pending-delivery":
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 rounded-full text-[10px] font-medium">
+                        <Truck className="w-2.5 h-2.5" />
+                        Delivering
+                    </span>
+                );
+            case "delivered":
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-full text-[10px] font-medium">
+                        <CheckCircle2 className="w-2.5 h-2.5" />
+                        Delivered
+                    </span>
+                );
+            case "delivery-failed":
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-500/10 border border-orange-500/20 text-orange-400 rounded-full text-[10px] font-medium">
+                        <AlertTriangle className="w-2.5 h-2.5" />
+                        Delivery Failed
+                    </span>
+                );
             case "rejected":
                 return (
                     <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-red-500/10 border border-red-500/20 text-red-400 rounded-full text-[10px] font-medium">
@@ -266,12 +290,12 @@ export default function DashboardClient({
                                 Recent Orders
                             </h2>
                         </div>
-                        <a
+                        <Link
                             href="/admin/orders"
                             className="text-xs text-emerald-400 hover:text-emerald-300 transition-colors"
                         >
                             View All →
-                        </a>
+                        </Link>
                     </div>
 
                     {recentOrders.length === 0 ? (
@@ -414,7 +438,7 @@ export default function DashboardClient({
                     Jump to common tasks
                 </p>
                 <div className="flex flex-wrap gap-3">
-                    <a
+                    <Link
                         href="/admin/orders"
                         className="inline-flex items-center gap-2 px-4 py-2.5 bg-amber-500/10 border border-amber-500/20 text-amber-400 rounded-xl text-sm font-medium hover:bg-amber-500/20 transition-all"
                     >
@@ -425,7 +449,7 @@ export default function DashboardClient({
                                 {pendingOrders}
                             </span>
                         )}
-                    </a>
+                    </Link>
                     <a
                         href="/admin/products"
                         className="inline-flex items-center gap-2 px-4 py-2.5 bg-purple-500/10 border border-purple-500/20 text-purple-400 rounded-xl text-sm font-medium hover:bg-purple-500/20 transition-all"
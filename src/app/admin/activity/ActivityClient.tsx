@@ -1,13 +1,16 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: ActivityClient.tsx
 // PURPOSE: Timeline-style view of admin actions showing who did
-//          what and when (coupon CRUD, order actions, etc.)
+//          what and when (coupon CRUD, order actions, etc.), with
+//          filters for admin, action type and date range and an
+//          expandable before/after diff per entry.
 // LOCATION: src/app/admin/activity/ActivityClient.tsx
 // ═══════════════════════════════════════════════════════════════
 
 "use client";
 
 import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import {
     ScrollText,
@@ -20,17 +23,20 @@ import {
     Edit,
     PlusCircle,
     BarChart3,
+    Truck,
+    KeyRound,
+    FileSpreadsheet,
+    UserCog,
+    Database,
+    Lock,
+    ChevronDown,
+    CreditCard,
+    Megaphone,
+    Star,
+    MessageSquare,
 } from "lucide-react";
-
-// ─── Types ─────────────────────────────────────────────────────
-
-interface ActivityLog {
-    _id: string;
-    action: string;
-    entity: string;
-    details: string;
-    timestamp: string;
-}
+import type { ActivityFilters } from "@/lib/logActivity";
+import type { ActivityLog } from "./page";
 
 // ─── Action Metadata (icons + colors + labels) ─────────────────
 
@@ -48,6 +54,16 @@ const actionMeta: Record<
         color: "text-red-400 bg-red-500/10",
         label: "Order Rejected",
     },
+    order_edited: {
+        icon: Edit,
+        color: "text-blue-400 bg-blue-500/10",
+        label: "Order Edited",
+    },
+    order_note_added: {
+        icon: MessageSquare,
+        color: "text-zinc-300 bg-zinc-500/10",
+        label: "Order Note",
+    },
     product_created: {
         icon: PlusCircle,
         color: "text-blue-400 bg-blue-500/10",
@@ -83,6 +99,96 @@ const actionMeta: Record<
         color: "text-cyan-400 bg-cyan-500/10",
         label: "Stock Updated",
     },
+    delivery_requeued: {
+        icon: Truck,
+        color: "text-cyan-400 bg-cyan-500/10",
+        label: "Delivery Requeued",
+    },
+    delivery_commands_settled: {
+        icon: Truck,
+        color: "text-amber-400 bg-amber-500/10",
+        label: "Unknown Commands Checked",
+    },
+    delivery_server_created: {
+        icon: KeyRound,
+        color: "text-emerald-400 bg-emerald-500/10",
+        label: "Plugin Key Created",
+    },
+    delivery_server_revoked: {
+        icon: KeyRound,
+        color: "text-red-400 bg-red-500/10",
+        label: "Plugin Key Revoked",
+    },
+    payments_reconciled: {
+        icon: FileSpreadsheet,
+        color: "text-emerald-400 bg-emerald-500/10",
+        label: "Payments Reconciled",
+    },
+    admin_created: {
+        icon: UserCog,
+        color: "text-emerald-400 bg-emerald-500/10",
+        label: "Admin Created",
+    },
+    admin_updated: {
+        icon: UserCog,
+        color: "text-blue-400 bg-blue-500/10",
+        label: "Admin Updated",
+    },
+    products_seeded: {
+        icon: Database,
+        color: "text-emerald-400 bg-emerald-500/10",
+        label: "Products Seeded",
+    },
+    login_locked_out: {
+        icon: Lock,
+        color: "text-red-400 bg-red-500/10",
+        label: "Login Locked Out",
+    },
+    gift_card_issued: {
+        icon: CreditCard,
+        color: "text-pink-400 bg-pink-500/10",
+        label: "Gift Card Issued",
+    },
+    gift_card_voided: {
+        icon: CreditCard,
+        color: "text-red-400 bg-red-500/10",
+        label: "Gift Card Voided",
+    },
+    coupon_campaign_created: {
+        icon: Ticket,
+        color: "text-purple-400 bg-purple-500/10",
+        label: "Campaign Created",
+    },
+    coupon_campaign_deleted: {
+        icon: Trash2,
+        color: "text-red-400 bg-red-500/10",
+        label: "Campaign Deleted",
+    },
+    creator_created: {
+        icon: Megaphone,
+        color: "text-purple-400 bg-purple-500/10",
+        label: "Creator Added",
+    },
+    creator_updated: {
+        icon: Edit,
+        color: "text-blue-400 bg-blue-500/10",
+        label: "Creator Updated",
+    },
+    creator_link_reset: {
+        icon: KeyRound,
+        color: "text-amber-400 bg-amber-500/10",
+        label: "Creator Link Reset",
+    },
+    creator_payout_recorded: {
+        icon: CreditCard,
+        color: "text-emerald-400 bg-emerald-500/10",
+        label: "Creator Paid",
+    },
+    loyalty_points_adjusted: {
+        icon: Star,
+        color: "text-amber-400 bg-amber-500/10",
+        label: "Points Adjusted",
+    },
 };
 
 const defaultMeta = {
@@ -93,10 +199,42 @@ const defaultMeta = {
 
 // ═══════════════════════════════════════════════════════════════
 
-export default function ActivityClient({ logs }: { logs: ActivityLog[] }) {
+/** Short, readable form of a diff value. */
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") return "—";
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+export default function ActivityClient({
+    logs,
+    admins,
+    filters,
+}: {
+    logs: ActivityLog[];
+    admins: string[];
+    filters: ActivityFilters;
+}) {
+    const router = useRouter();
     const [visibleCount, setVisibleCount] = useState(30);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
     const visible = logs.slice(0, visibleCount);
 
+    // ── Filters live in the URL so the server can query them ──
+    const setFilter = (key: keyof ActivityFilters, value: string) => {
+        const params = new URLSearchParams();
+        const next = { ...filters, [key]: value };
+        for (const [k, v] of Object.entries(next)) {
+            if (v) params.set(k, v);
+        }
+        const query = params.toString();
+        router.push(query ? `/admin/activity?${query}` : "/admin/activity");
+    };
+    const hasFilters = Object.values(filters).some(Boolean);
+
+    const selectClass =
+        "px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-all cursor-pointer";
+
     return (
         <div>
             {/* ── Header ── */}
@@ -108,10 +246,57 @@ export default function ActivityClient({ logs }: { logs: ActivityLog[] }) {
                     </h1>
                 </div>
                 <p className="text-zinc-500 text-sm">
-                    Recent admin actions and changes • {logs.length} total
+                    Recent admin actions and changes • {logs.length} {hasFilters ? "matching" : "total"}
                 </p>
             </div>
 
+            {/* ── Filters ── */}
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+                <select
+                    value={filters.admin || ""}
+                    onChange={(e) => setFilter("admin", e.target.value)}
+                    className={selectClass}
+                >
+                    <option value="">All admins</option>
+                    {admins.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                    ))}
+                </select>
+                <select
+                    value={filters.action || ""}
+                    onChange={(e) => setFilter("action", e.target.value)}
+                    className={selectClass}
+                >
+                    <option value="">All actions</option>
+                    {Object.entries(actionMeta).map(([key, meta]) => (
+                        <option key={key} value={key}>{meta.label}</option>
+                    ))}
+                </select>
+                <input
+                    type="date"
+                    value={filters.from || ""}
+                    onChange={(e) => setFilter("from", e.target.value)}
+                    className={selectClass}
+                    aria-label="From date"
+                />
+                <span className="text-zinc-600 text-xs">to</span>
+                <input
+                    type="date"
+                    value={filters.to || ""}
+                    onChange={(e) => setFilter("to", e.target.value)}
+                    className={selectClass}
+                    aria-label="To date"
+                />
+                {hasFilters && (
+                    <button
+                        onClick={() => router.push("/admin/activity")}
+                        className="px-3 py-2 text-xs text-zinc-400 hover:text-white transition-colors cursor-pointer"
+                    >
+                        Clear filters
+                    </button>
+                )}
+            </div>
+
             {/* ── Timeline ── */}
             {logs.length === 0 ? (
                 <div className="text-center py-16 bg-zinc-900/50 border border-zinc-800/50 rounded-2xl">
@@ -119,7 +304,9 @@ export default function ActivityClient({ logs }: { logs: ActivityLog[] }) {
                         <ScrollText className="w-8 h-8 text-zinc-600" />
                     </div>
                     <p className="text-zinc-500 text-sm">
-                        No activity yet. Actions will appear here.
+                        {hasFilters
+                            ? "No activity matches these filters."
+                            : "No activity yet. Actions will appear here."}
                     </p>
                 </div>
             ) : (
@@ -159,6 +346,42 @@ export default function ActivityClient({ logs }: { logs: ActivityLog[] }) {
                                             {log.details}
                                         </p>
                                     )}
+                                    <p className="text-zinc-600 text-[11px] mt-1">
+                                        {log.actor
+                                            ? `by ${log.actor.username} (${log.actor.role})`
+                                            : "by system"}
+                                        {log.ip && ` • ${log.ip}`}
+                                        {log.userAgent && (
+                                            <span title={log.userAgent}>
+                                                {` • ${log.userAgent.slice(0, 40)}${log.userAgent.length > 40 ? "…" : ""}`}
+                                            </span>
+                                        )}
+                                    </p>
+
+                                    {/* Before / After diff */}
+                                    {log.changes && (
+                                        <div className="mt-2">
+                                            <button
+                                                onClick={() => setExpandedId(expandedId === log._id ? null : log._id)}
+                                                className="inline-flex items-center gap-1 text-[11px] text-zinc-400 hover:text-white transition-colors cursor-pointer"
+                                            >
+                                                <ChevronDown className={`w-3 h-3 transition-transform ${expandedId === log._id ? "rotate-180" : ""}`} />
+                                                {Object.keys(log.changes).length} field(s) changed
+                                            </button>
+                                            {expandedId === log._id && (
+                                                <div className="mt-2 space-y-1">
+                                                    {Object.entries(log.changes).map(([field, change]) => (
+                                                        <div key={field} className="text-[11px] font-mono break-all">
+                                                            <span className="text-zinc-400">{field}: </span>
+                                                            <span className="text-red-400/80 line-through">{formatValue(change.from)}</span>
+                                                            <span className="text-zinc-600"> → </span>
+                                                            <span className="text-emerald-400/90">{formatValue(change.to)}</span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
 
                                 {/* Time */}
@@ -1,30 +1,42 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: page.tsx  (Admin Activity Log Page — Server Component)
-// PURPOSE: Fetches recent activity logs and passes to client.
+// PURPOSE: Fetches recent activity logs (filtered by admin,
+//          action type and date range from the URL) and passes
+//          them to the client.
 // LOCATION: src/app/admin/activity/page.tsx
 // ═══════════════════════════════════════════════════════════════
 
 import { connectToDatabase } from "@/lib/mongodb";
+import {
+    buildActivityFilter,
+    type ActivityActor,
+    type ActivityChanges,
+    type ActivityFilters,
+} from "@/lib/logActivity";
 import ActivityClient from "./ActivityClient";
 
 export const dynamic = "force-dynamic";
 
-interface ActivityLog {
+export interface ActivityLog {
     _id: string;
     action: string;
     entity: string;
     details: string;
+    actor: ActivityActor | null;     // null for entries from before attribution
+    ip: string | null;
+    userAgent: string | null;
+    changes: ActivityChanges | null;
     timestamp: string;
 }
 
-async function getActivityLogs(): Promise<ActivityLog[]> {
+async function getActivityLogs(filters: ActivityFilters): Promise<ActivityLog[]> {
     try {
         const db = await connectToDatabase();
         const logs = await db
             .collection("activityLogs")
-            .find({})
+            .find(buildActivityFilter(filters))
             .sort({ timestamp: -1 })
-            .limit(100)
+            .limit(200)
             .toArray();
 
         return logs.map((l) => ({
@@ -32,6 +44,11 @@ async function getActivityLogs(): Promise<ActivityLog[]> {
             action: l.action || "",
             entity: l.entity || "",
             details: l.details || "",
+            actor: l.actor || null,
+            ip: l.ip || null,
+            userAgent: l.userAgent || null,
+            // Round-trip through JSON so Dates / ObjectIds become plain values
+            changes: l.changes ? JSON.parse(JSON.stringify(l.changes)) : null,
             timestamp: l.timestamp
                 ? new Date(l.timestamp).toISOString()
                 : new Date().toISOString(),
@@ -42,23 +59,46 @@ async function getActivityLogs(): Promise<ActivityLog[]> {
     }
 }
 
+async function getActivityAdmins(): Promise<string[]> {
+    try {
+        const db = await connectToDatabase();
+        const usernames = await db.collection("activityLogs").distinct("actor.username");
+        return usernames.filter(Boolean).sort();
+    } catch (error) {
+        console.error("Activity admins fetch error:", error);
+        return [];
+    }
+}
+
 import { Suspense } from "react";
 import { Loader2 } from "lucide-react";
+import { requireAdminPage } from "@/lib/adminAuth";
 
-async function ActivityData() {
-    const logs = await getActivityLogs();
-    return <ActivityClient logs={logs} />;
+async function ActivityData({ filters }: { filters: ActivityFilters }) {
+    const [logs, admins] = await Promise.all([
+        getActivityLogs(filters),
+        getActivityAdmins(),
+    ]);
+    return <ActivityClient logs={logs} admins={admins} filters={filters} />;
 }
 
-export default function ActivityPage() {
+export default async function ActivityPage({
+    searchParams,
+}: {
+    searchParams: Promise<Record<string, string | undefined>>;
+}) {
+    await requireAdminPage();
+    const { admin, action, from, to } = await searchParams;
+    const filters: ActivityFilters = { admin, action, from, to };
+
     return (
-        <Suspense fallback={
+        <Suspense key={JSON.stringify(filters)} fallback={
             <div className="flex flex-col items-center justify-center py-32">
                 <Loader2 className="w-8 h-8 text-emerald-500 animate-spin mb-4" />
                 <p className="text-zinc-500 text-sm">Loading activity logs...</p>
             </div>
         }>
-            <ActivityData />
+            <ActivityData filters={filters} />
         </Suspense>
     );
 }
@@ -0,0 +1,229 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: AdminsClient.tsx
+// PURPOSE: Client-side admin account manager — create form,
+//          role selector, activate / deactivate, password reset
+//          and two-factor reset per account.
+// LOCATION: src/app/admin/admins/AdminsClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+    KeyRound,
+    Loader2,
+    Plus,
+    Power,
+    ShieldCheck,
+    ShieldOff,
+    UserCog,
+} from "lucide-react";
+import {
+    createAdmin,
+    resetAdminPassword,
+    resetAdminTwoFactor,
+    setAdminActive,
+    updateAdminRole,
+} from "./actions";
+import { ADMIN_ROLES, type AdminRole } from "@/lib/adminSession";
+import type { AdminRow } from "./page";
+
+const roleStyles: Record<AdminRole, string> = {
+    owner: "bg-amber-500/10 border-amber-500/20 text-amber-400",
+    moderator: "bg-emerald-500/10 border-emerald-500/20 text-emerald-400",
+    support: "bg-blue-500/10 border-blue-500/20 text-blue-400",
+};
+
+// ═══════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════
+
+export default function AdminsClient({
+    admins,
+    currentAdminId,
+}: {
+    admins: AdminRow[];
+    currentAdminId: string;
+}) {
+    const [form, setForm] = useState<{ username: string; password: string; role: AdminRole }>({
+        username: "",
+        password: "",
+        role: "support",
+    });
+    const [error, setError] = useState("");
+    const [loadingId, setLoadingId] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+
+    // Runs an action and shows its error, if any
+    const run = (id: string, action: () => Promise<{ success: boolean; error?: string }>, onSuccess?: () => void) => {
+        setError("");
+        setLoadingId(id);
+        startTransition(async () => {
+            const result = await action();
+            if (!result.success) setError(result.error || "Something went wrong.");
+            else onSuccess?.();
+            setLoadingId(null);
+        });
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        run("new", () => createAdmin(form), () => setForm({ username: "", password: "", role: "support" }));
+    };
+
+    const handleResetPassword = (admin: AdminRow) => {
+        const password = prompt(`New password for ${admin.username} (min 10 characters):`);
+        if (!password) return;
+        run(admin._id, () => resetAdminPassword(admin._id, password));
+    };
+
+    const handleResetTwoFactor = (admin: AdminRow) => {
+        if (!confirm(`Turn off two-factor login for ${admin.username}? They'll sign in with just their password until they set it up again.`)) return;
+        run(admin._id, () => resetAdminTwoFactor(admin._id));
+    };
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleString("en-IN", {
+            day: "2-digit",
+            month: "short",
+            year: "numeric",
+            hour: "2-digit",
+            minute: "2-digit",
+        });
+
+    const inputClass =
+        "px-4 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-sm text-white placeholder:text-zinc-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all";
+
+    return (
+        <div className="space-y-6">
+            {/* ── Create Admin ── */}
+            <form
+                onSubmit={handleCreate}
+                className="flex flex-col md:flex-row gap-2 bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-4"
+            >
+                <input
+                    type="text"
+                    value={form.username}
+                    onChange={(e) => setForm({ ...form, username: e.target.value })}
+                    placeholder="Username"
+                    required
+                    className={`${inputClass} flex-1`}
+                />
+                <input
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    placeholder="Password (min 10)"
+                    autoComplete="new-password"
+                    required
+                    className={`${inputClass} flex-1`}
+                />
+                <select
+                    value={form.role}
+                    onChange={(e) => setForm({ ...form, role: e.target.value as AdminRole })}
+                    className={`${inputClass} cursor-pointer capitalize`}
+                >
+                    {ADMIN_ROLES.map((role) => (
+                        <option key={role} value={role}>{role}</option>
+                    ))}
+                </select>
+                <button
+                    type="submit"
+                    disabled={isPending && loadingId === "new"}
+                    className="flex items-center justify-center gap-2 px-4 py-2.5 bg-emerald-500/15 border border-emerald-500/30 text-emerald-400 rounded-xl text-sm font-medium hover:bg-emerald-500/25 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                >
+                    {isPending && loadingId === "new" ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                        <Plus className="w-4 h-4" />
+                    )}
+                    Add Admin
+                </button>
+            </form>
+
+            {error && (
+                <div className="px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* ── Admin List ── */}
+            <div className="space-y-3">
+                {admins.map((admin) => {
+                    const isSelf = admin._id === currentAdminId;
+                    const busy = isPending && loadingId === admin._id;
+
+                    return (
+                        <div
+                            key={admin._id}
+                            className={`flex flex-wrap items-center justify-between gap-3 bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-4 ${!admin.active ? "opacity-50" : ""}`}
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className="w-10 h-10 rounded-xl bg-zinc-800/50 flex items-center justify-center">
+                                    <UserCog className="w-5 h-5 text-zinc-400" />
+                                </div>
+                                <div>
+                                    <p className="text-white text-sm font-medium">
+                                        {admin.username}
+                                        {isSelf && <span className="ml-2 text-xs text-zinc-500">(you)</span>}
+                                        {admin.twoFactor && (
+                                            <ShieldCheck className="inline ml-2 w-3.5 h-3.5 text-emerald-400" aria-label="Two-factor login on" />
+                                        )}
+                                        {!admin.active && <span className="ml-2 text-xs text-red-400">Deactivated</span>}
+                                    </p>
+                                    <p className="text-zinc-500 text-xs">
+                                        {admin.lastLoginAt ? `Last login ${formatDate(admin.lastLoginAt)}` : "Never logged in"}
+                                    </p>
+                                </div>
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={admin.role}
+                                    disabled={busy || isSelf}
+                                    onChange={(e) => run(admin._id, () => updateAdminRole(admin._id, e.target.value as AdminRole))}
+                                    className={`px-3 py-1.5 border rounded-full text-xs font-medium capitalize cursor-pointer disabled:cursor-not-allowed bg-transparent ${roleStyles[admin.role]}`}
+                                >
+                                    {ADMIN_ROLES.map((role) => (
+                                        <option key={role} value={role} className="bg-zinc-900 text-white">{role}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => handleResetPassword(admin)}
+                                    disabled={busy}
+                                    title="Reset password"
+                                    className="p-2 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-lg transition-all cursor-pointer disabled:opacity-50"
+                                >
+                                    <KeyRound className="w-4 h-4" />
+                                </button>
+                                {admin.twoFactor && (
+                                    <button
+                                        onClick={() => handleResetTwoFactor(admin)}
+                                        disabled={busy}
+                                        title="Reset two-factor login"
+                                        className="p-2 text-zinc-400 hover:text-amber-400 hover:bg-zinc-800 rounded-lg transition-all cursor-pointer disabled:opacity-50"
+                                    >
+                                        <ShieldOff className="w-4 h-4" />
+                                    </button>
+                                )}
+                                {!isSelf && (
+                                    <button
+                                        onClick={() => run(admin._id, () => setAdminActive(admin._id, !admin.active))}
+                                        disabled={busy}
+                                        title={admin.active ? "Deactivate" : "Reactivate"}
+                                        className={`p-2 rounded-lg transition-all cursor-pointer disabled:opacity-50 ${admin.active
+                                            ? "text-red-400 hover:bg-red-500/10"
+                                            : "text-emerald-400 hover:bg-emerald-500/10"
+                                            }`}
+                                    >
+                                        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Power className="w-4 h-4" />}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
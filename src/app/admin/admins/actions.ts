@@ -0,0 +1,230 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Admin Account Server Actions)
+// PURPOSE: Owner-only server actions for managing admin
+//          accounts: create, change role, deactivate, reset
+//          passwords and reset two-factor login for admins who
+//          lost their phone. Always keeps at least one active owner.
+// LOCATION: src/app/admin/admins/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { ObjectId } from "mongodb";
+import { revalidatePath } from "next/cache";
+import { logActivity } from "@/lib/logActivity";
+import {
+    FORBIDDEN,
+    getAdminsCollection,
+    hashPassword,
+    MIN_PASSWORD_LENGTH,
+    normalizeUsername,
+    requirePermission,
+} from "@/lib/adminAuth";
+import { ADMIN_ROLES, type AdminRole } from "@/lib/adminSession";
+
+// ─── Helpers ───────────────────────────────────────────────────
+
+/**
+ * True if `id` is the only active owner — demoting or disabling
+ * them would lock everyone out of settings and admin management.
+ */
+async function isLastOwner(id: string): Promise<boolean> {
+    const admins = await getAdminsCollection();
+    const owners = await admins
+        .find({ role: "owner", active: true }, { projection: { _id: 1 } })
+        .toArray();
+    return owners.length === 1 && owners[0]._id.toString() === id;
+}
+
+// ─── Create Admin ──────────────────────────────────────────────
+
+export async function createAdmin(data: { username: string; password: string; role: AdminRole }) {
+    try {
+        if (!(await requirePermission("admins.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const username = normalizeUsername(data.username);
+        if (!/^[a-z0-9_.-]{3,32}$/.test(username)) {
+            return { success: false, error: "Username must be 3-32 letters, numbers, dots, dashes or underscores." };
+        }
+        if (data.password.length < MIN_PASSWORD_LENGTH) {
+            return { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` };
+        }
+        if (!ADMIN_ROLES.includes(data.role)) {
+            return { success: false, error: "Invalid role." };
+        }
+
+        const admins = await getAdminsCollection();
+        if (await admins.findOne({ username })) {
+            return { success: false, error: "That username is already taken." };
+        }
+
+        const now = new Date();
+        await admins.insertOne({
+            username,
+            passwordHash: await hashPassword(data.password),
+            role: data.role,
+            active: true,
+            sessionVersion: 1,
+            createdAt: now,
+            updatedAt: now,
+            lastLoginAt: null,
+        });
+
+        await logActivity({
+            action: "admin_created",
+            entity: username,
+            details: `Role: ${data.role}`,
+            after: { username, role: data.role, active: true },
+        });
+        revalidatePath("/admin/admins");
+        return { success: true };
+    } catch (error) {
+        console.error("Create admin error:", error);
+        return { success: false, error: "Failed to create admin." };
+    }
+}
+
+// ─── Change Role ───────────────────────────────────────────────
+
+export async function updateAdminRole(id: string, role: AdminRole) {
+    try {
+        const session = await requirePermission("admins.manage");
+        if (!session) {
+            return { success: false, error: FORBIDDEN };
+        }
+        if (!ADMIN_ROLES.includes(role)) {
+            return { success: false, error: "Invalid role." };
+        }
+        if (role !== "owner" && (await isLastOwner(id))) {
+            return { success: false, error: "There must always be at least one owner." };
+        }
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOneAndUpdate(
+            { _id: new ObjectId(id) },
+            { $set: { role, updatedAt: new Date() } }
+        );
+        if (!admin) {
+            return { success: false, error: "Admin not found." };
+        }
+
+        await logActivity({
+            action: "admin_updated",
+            entity: admin.username,
+            details: `Role: ${admin.role} → ${role}`,
+            before: { role: admin.role },
+            after: { role },
+        });
+        revalidatePath("/admin/admins");
+        return { success: true };
+    } catch (error) {
+        console.error("Update admin role error:", error);
+        return { success: false, error: "Failed to update role." };
+    }
+}
+
+// ─── Activate / Deactivate ─────────────────────────────────────
+
+export async function setAdminActive(id: string, active: boolean) {
+    try {
+        const session = await requirePermission("admins.manage");
+        if (!session) {
+            return { success: false, error: FORBIDDEN };
+        }
+        if (!active && session.sub === id) {
+            return { success: false, error: "You can't deactivate your own account." };
+        }
+        if (!active && (await isLastOwner(id))) {
+            return { success: false, error: "There must always be at least one owner." };
+        }
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOneAndUpdate(
+            { _id: new ObjectId(id) },
+            {
+                $set: { active, updatedAt: new Date() },
+                // Deactivating signs the admin out everywhere
+                ...(!active && { $inc: { sessionVersion: 1 } }),
+            }
+        );
+        if (!admin) {
+            return { success: false, error: "Admin not found." };
+        }
+
+        await logActivity({
+            action: "admin_updated",
+            entity: admin.username,
+            details: active ? "Account reactivated" : "Account deactivated",
+            before: { active: admin.active },
+            after: { active },
+        });
+        revalidatePath("/admin/admins");
+        return { success: true };
+    } catch (error) {
+        console.error("Set admin active error:", error);
+        return { success: false, error: "Failed to update admin." };
+    }
+}
+
+// ─── Reset Password ────────────────────────────────────────────
+
+export async function resetAdminPassword(id: string, password: string) {
+    try {
+        if (!(await requirePermission("admins.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` };
+        }
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOneAndUpdate(
+            { _id: new ObjectId(id) },
+            {
+                $set: { passwordHash: await hashPassword(password), updatedAt: new Date() },
+                $inc: { sessionVersion: 1 },   // Old sessions stop working
+            }
+        );
+        if (!admin) {
+            return { success: false, error: "Admin not found." };
+        }
+
+        await logActivity({ action: "admin_updated", entity: admin.username, details: "Password reset" });
+        revalidatePath("/admin/admins");
+        return { success: true };
+    } catch (error) {
+        console.error("Reset admin password error:", error);
+        return { success: false, error: "Failed to reset password." };
+    }
+}
+
+// ─── Reset Two-Factor ──────────────────────────────────────────
+
+export async function resetAdminTwoFactor(id: string) {
+    try {
+        if (!(await requirePermission("admins.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOneAndUpdate(
+            { _id: new ObjectId(id) },
+            {
+                $set: { totp: null, pendingTotpSecret: null, updatedAt: new Date() },
+                $inc: { sessionVersion: 1 },   // Sign in again with just the password
+            }
+        );
+        if (!admin) {
+            return { success: false, error: "Admin not found." };
+        }
+
+        await logActivity({ action: "admin_updated", entity: admin.username, details: "Two-factor login reset" });
+        revalidatePath("/admin/admins");
+        return { success: true };
+    } catch (error) {
+        console.error("Reset admin 2FA error:", error);
+        return { success: false, error: "Failed to reset two-factor login." };
+    }
+}
@@ -0,0 +1,79 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Admin Accounts)
+// PURPOSE: Owner-only list of admin accounts with their roles.
+//          Owners can add admins, change roles, deactivate
+//          accounts, reset passwords and reset two-factor login.
+// LOCATION: src/app/admin/admins/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import { UserCog } from "lucide-react";
+import { getAdminsCollection, requireAdminPage } from "@/lib/adminAuth";
+import type { AdminRole } from "@/lib/adminSession";
+import AdminsClient from "./AdminsClient";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface AdminRow {
+    _id: string;
+    username: string;
+    role: AdminRole;
+    active: boolean;
+    twoFactor: boolean;
+    createdAt: string;
+    lastLoginAt: string | null;
+}
+
+// ─── Data Fetcher ──────────────────────────────────────────────
+
+async function getAdmins(): Promise<AdminRow[]> {
+    try {
+        const admins = await getAdminsCollection();
+        const docs = await admins
+            .find({}, { projection: { passwordHash: 0, pendingTotpSecret: 0 } })
+            .sort({ createdAt: 1 })
+            .toArray();
+
+        return docs.map((a) => ({
+            _id: a._id.toString(),
+            username: a.username,
+            role: a.role,
+            active: a.active,
+            twoFactor: Boolean(a.totp),
+            createdAt: new Date(a.createdAt).toISOString(),
+            lastLoginAt: a.lastLoginAt ? new Date(a.lastLoginAt).toISOString() : null,
+        }));
+    } catch (error) {
+        console.error("Fetch admins error:", error);
+        return [];
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PAGE COMPONENT (Server)
+// ═══════════════════════════════════════════════════════════════
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminAccountsPage() {
+    const session = await requireAdminPage("admins.manage");
+    const admins = await getAdmins();
+
+    return (
+        <div>
+            {/* ── Page Header ── */}
+            <div className="mb-8">
+                <div className="flex items-center gap-3 mb-2">
+                    <UserCog className="w-6 h-6 text-emerald-400" />
+                    <h1 className="text-2xl md:text-3xl font-bold text-white">
+                        Admins
+                    </h1>
+                </div>
+                <p className="text-zinc-500 text-sm">
+                    Support can view orders, moderators can approve them and manage products and coupons, owners can do everything
+                </p>
+            </div>
+
+            <AdminsClient admins={admins} currentAdminId={session?.sub ?? ""} />
+        </div>
+    );
+}
@@ -6,6 +6,7 @@
 // ═══════════════════════════════════════════════════════════════
 
 import { connectToDatabase } from "@/lib/mongodb";
+import { PAID_ORDER_STATUSES, isPaidStatus } from "@/lib/orderStatus";
 import { BarChart3 } from "lucide-react";
 import AnalyticsClient from "./AnalyticsClient";
 
@@ -34,7 +35,7 @@ async function getAnalyticsData() {
                 .aggregate([
                     {
                         $match: {
-                            status: "success",
+                            status: { $in: PAID_ORDER_STATUSES },
                             createdAt: { $gte: thirtyDaysAgo },
                         },
                     },
@@ -66,16 +67,18 @@ async function getAnalyticsData() {
                 ])
                 .toArray(),
 
-            // Top 10 products by revenue
+            // Top 10 products by revenue (bundles counted as their contents)
             ordersCol
                 .aggregate([
-                    { $match: { status: "success" } },
+                    { $match: { status: { $in: PAID_ORDER_STATUSES } } },
                     { $unwind: "$items" },
+                    { $project: { lines: { $ifNull: ["$items.components", ["$items"]] } } },
+                    { $unwind: "$lines" },
                     {
                         $group: {
-                            _id: "$items.name",
-                            totalQty: { $sum: "$items.quantity" },
-                            totalRevenue: { $sum: "$items.lineTotal" },
+                            _id: "$lines.name",
+                            totalQty: { $sum: "$lines.quantity" },
+                            totalRevenue: { $sum: "$lines.lineTotal" },
                             orderCount: { $sum: 1 },
                         },
                     },
@@ -102,7 +105,7 @@ async function getAnalyticsData() {
             // Total revenue
             ordersCol
                 .aggregate([
-                    { $match: { status: "success" } },
+                    { $match: { status: { $in: PAID_ORDER_STATUSES } } },
                     { $group: { _id: null, total: { $sum: "$total" } } },
                 ])
                 .toArray(),
@@ -141,7 +144,7 @@ async function getAnalyticsData() {
             });
         }
 
-        // Status breakdown
+        // Status breakdown (every paid status counts as "success")
         const statusMap: Record<string, number> = {
             pending: 0,
             success: 0,
@@ -149,7 +152,8 @@ async function getAnalyticsData() {
         };
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         statusBreakdownResult.forEach((s: any) => {
-            if (s._id in statusMap) statusMap[s._id] = s.count;
+            const key = isPaidStatus(s._id) ? "success" : s._id;
+            if (key in statusMap) statusMap[key] += s.count;
         });
 
         // Hourly distribution (0-23)
@@ -205,13 +209,15 @@ export const dynamic = "force-dynamic";
 
 import { Suspense } from "react";
 import { Loader2 } from "lucide-react";
+import { requireAdminPage } from "@/lib/adminAuth";
 
 async function AnalyticsData() {
     const data = await getAnalyticsData();
     return <AnalyticsClient data={data} />;
 }
 
-export default function AnalyticsPage() {
+export default async function AnalyticsPage() {
+    await requireAdminPage();
     return (
         <div>
             <div className="mb-8">
@@ -0,0 +1,428 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: CampaignsClient.tsx
+// PURPOSE: Coupon campaigns on the admin coupons page: generate
+//          a batch of single-use codes from a template (giveaways),
+//          export them as CSV, and see how many were redeemed and
+//          what those orders brought in.
+// LOCATION: src/app/admin/coupons/CampaignsClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+    AlertCircle,
+    Download,
+    Gift,
+    Loader2,
+    Percent,
+    DollarSign,
+    Plus,
+    Trash2,
+    X,
+} from "lucide-react";
+import { categories } from "@/lib/data";
+import { createCouponCampaign, deleteCouponCampaign } from "./actions";
+import type { CampaignRow } from "./page";
+
+const RULE_CATEGORIES = categories.filter((c) => c.key !== "all");
+
+const inputClass =
+    "w-full px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50";
+
+// ═══════════════════════════════════════════════════════════════
+
+export default function CampaignsClient({
+    campaigns,
+    products,
+}: {
+    campaigns: CampaignRow[];
+    products: { id: string; name: string }[];
+}) {
+    const [showForm, setShowForm] = useState(false);
+    const [error, setError] = useState("");
+    const [loadingId, setLoadingId] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+
+    // Form state
+    const [formName, setFormName] = useState("");
+    const [formTemplate, setFormTemplate] = useState("");
+    const [formCount, setFormCount] = useState("");
+    const [formType, setFormType] = useState<"percentage" | "flat">("percentage");
+    const [formValue, setFormValue] = useState("");
+    const [formMinOrder, setFormMinOrder] = useState("");
+    const [formMaxDiscount, setFormMaxDiscount] = useState("");
+    const [formExpiry, setFormExpiry] = useState("");
+    const [formCategories, setFormCategories] = useState<string[]>([]);
+    const [formProductIds, setFormProductIds] = useState<string[]>([]);
+    const [formFirstOrder, setFormFirstOrder] = useState(false);
+    const [formStackable, setFormStackable] = useState(false);
+
+    const toggle = (list: string[], value: string) =>
+        list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+    const resetForm = () => {
+        setFormName("");
+        setFormTemplate("");
+        setFormCount("");
+        setFormType("percentage");
+        setFormValue("");
+        setFormMinOrder("");
+        setFormMaxDiscount("");
+        setFormExpiry("");
+        setFormCategories([]);
+        setFormProductIds([]);
+        setFormFirstOrder(false);
+        setFormStackable(false);
+        setError("");
+    };
+
+    // ── Generate Campaign ──────────────────────────────────────
+    const handleCreate = () => {
+        if (!formName.trim() || !formTemplate.trim() || !formCount || !formValue) {
+            setError("Name, template, number of codes and value are required.");
+            return;
+        }
+        setError("");
+        setLoadingId("new");
+        startTransition(async () => {
+            const result = await createCouponCampaign({
+                name: formName,
+                template: formTemplate,
+                count: parseInt(formCount),
+                type: formType,
+                value: parseFloat(formValue),
+                minOrder: formMinOrder ? parseFloat(formMinOrder) : 0,
+                expiresAt: formExpiry ? new Date(formExpiry).toISOString() : null,
+                startsAt: null,
+                categories: formCategories,
+                productIds: formProductIds,
+                maxUsesPerPlayer: 0,
+                maxDiscount: formMaxDiscount ? parseFloat(formMaxDiscount) : 0,
+                firstOrderOnly: formFirstOrder,
+                stackable: formStackable,
+            });
+            if (result.success) {
+                resetForm();
+                setShowForm(false);
+            } else {
+                setError(result.error || "Failed to create campaign.");
+            }
+            setLoadingId(null);
+        });
+    };
+
+    // ── Delete Campaign ────────────────────────────────────────
+    const handleDelete = (campaign: CampaignRow) => {
+        if (!confirm(`Delete "${campaign.name}" and its ${campaign.count} codes? Unused codes stop working.`)) return;
+        setLoadingId(campaign.id);
+        startTransition(async () => {
+            const result = await deleteCouponCampaign(campaign.id);
+            if (!result.success) alert(result.error || "Failed to delete campaign.");
+            setLoadingId(null);
+        });
+    };
+
+    return (
+        <div className="mt-12">
+            {/* ── Header ── */}
+            <div className="flex items-center justify-between mb-6">
+                <div>
+                    <div className="flex items-center gap-3 mb-2">
+                        <Gift className="w-5 h-5 text-emerald-400" />
+                        <h2 className="text-xl font-bold text-white">Campaigns</h2>
+                    </div>
+                    <p className="text-zinc-500 text-sm">
+                        Batches of single-use codes for giveaways
+                    </p>
+                </div>
+                <button
+                    onClick={() => {
+                        resetForm();
+                        setShowForm(!showForm);
+                    }}
+                    className="flex items-center gap-2 px-4 py-2.5 bg-emerald-500/15 text-emerald-400 border border-emerald-500/30 rounded-xl text-sm font-medium hover:bg-emerald-500/25 transition-all cursor-pointer"
+                >
+                    {showForm ? (
+                        <>
+                            <X className="w-4 h-4" /> Cancel
+                        </>
+                    ) : (
+                        <>
+                            <Plus className="w-4 h-4" /> New Campaign
+                        </>
+                    )}
+                </button>
+            </div>
+
+            {/* ── Generate Form ── */}
+            <AnimatePresence>
+                {showForm && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: "auto", opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className="overflow-hidden mb-6"
+                    >
+                        <div className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-6">
+                            <h3 className="text-white font-semibold mb-4">Generate Codes</h3>
+
+                            {error && (
+                                <div className="flex items-center gap-2 px-4 py-2.5 mb-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+                                    <AlertCircle className="w-4 h-4 shrink-0" />
+                                    {error}
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Name *
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={formName}
+                                        onChange={(e) => setFormName(e.target.value)}
+                                        placeholder="e.g. Discord Giveaway — June"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Template *
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={formTemplate}
+                                        onChange={(e) => setFormTemplate(e.target.value.toUpperCase())}
+                                        placeholder="DISCORD-XXXX"
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Number of Codes *
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formCount}
+                                        onChange={(e) => setFormCount(e.target.value)}
+                                        placeholder="e.g. 50"
+                                        min="1"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Discount Type
+                                    </label>
+                                    <div className="flex gap-2">
+                                        {(["percentage", "flat"] as const).map((type) => (
+                                            <button
+                                                key={type}
+                                                onClick={() => setFormType(type)}
+                                                className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-xl text-sm font-medium transition-all cursor-pointer ${formType === type
+                                                    ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                                                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-700/50"
+                                                    }`}
+                                            >
+                                                {type === "percentage" ? <Percent className="w-3.5 h-3.5" /> : <DollarSign className="w-3.5 h-3.5" />}
+                                                {type === "percentage" ? "Percentage" : "Flat ₹"}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        {formType === "percentage" ? "Discount %" : "Discount ₹"} *
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formValue}
+                                        onChange={(e) => setFormValue(e.target.value)}
+                                        min="0"
+                                        max={formType === "percentage" ? "100" : undefined}
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Max Discount (₹)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formMaxDiscount}
+                                        onChange={(e) => setFormMaxDiscount(e.target.value)}
+                                        placeholder="No cap"
+                                        min="0"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Min Order (₹)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formMinOrder}
+                                        onChange={(e) => setFormMinOrder(e.target.value)}
+                                        placeholder="0 (no limit)"
+                                        min="0"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Expires At
+                                    </label>
+                                    <input
+                                        type="datetime-local"
+                                        value={formExpiry}
+                                        onChange={(e) => setFormExpiry(e.target.value)}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Categories / products */}
+                            <div className="mb-4">
+                                <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                    Only On <span className="normal-case tracking-normal text-zinc-600">(none = whole cart)</span>
+                                </label>
+                                <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                                    {RULE_CATEGORIES.map((cat) => (
+                                        <button
+                                            key={cat.key}
+                                            onClick={() => setFormCategories((prev) => toggle(prev, cat.key))}
+                                            className={`px-3 py-1.5 rounded-xl text-xs font-medium transition-all cursor-pointer ${formCategories.includes(cat.key)
+                                                ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                                                : "bg-zinc-800/50 text-zinc-400 border border-zinc-700/50"
+                                                }`}
+                                        >
+                                            {cat.label}
+                                        </button>
+                                    ))}
+                                    {products.map((product) => (
+                                        <button
+                                            key={product.id}
+                                            onClick={() => setFormProductIds((prev) => toggle(prev, product.id))}
+                                            className={`px-3 py-1.5 rounded-xl text-xs font-medium transition-all cursor-pointer ${formProductIds.includes(product.id)
+                                                ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                                                : "bg-zinc-800/50 text-zinc-500 border border-zinc-700/50"
+                                                }`}
+                                        >
+                                            {product.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Flags */}
+                            <div className="flex flex-wrap gap-6 mb-5">
+                                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formFirstOrder}
+                                        onChange={(e) => setFormFirstOrder(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    First order only
+                                </label>
+                                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formStackable}
+                                        onChange={(e) => setFormStackable(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    Stackable with other coupons
+                                </label>
+                            </div>
+
+                            <button
+                                onClick={handleCreate}
+                                disabled={isPending}
+                                className="flex items-center gap-2 px-5 py-2.5 bg-emerald-500/20 text-emerald-400 border border-emerald-500/30 rounded-xl text-sm font-medium hover:bg-emerald-500/30 transition-all disabled:opacity-50 cursor-pointer"
+                            >
+                                {loadingId === "new" && <Loader2 className="w-4 h-4 animate-spin" />}
+                                {loadingId === "new" ? "Generating..." : "Generate Codes"}
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* ── Campaigns List ── */}
+            {campaigns.length === 0 ? (
+                <div className="text-center py-10 bg-zinc-900/50 border border-zinc-800/50 rounded-2xl">
+                    <p className="text-zinc-500 text-sm">No campaigns yet.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {campaigns.map((campaign) => (
+                        <div
+                            key={campaign.id}
+                            className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-5"
+                        >
+                            <div className="flex flex-wrap items-start justify-between gap-4">
+                                <div>
+                                    <p className="text-white font-semibold text-sm">{campaign.name}</p>
+                                    <p className="text-zinc-500 text-xs mt-1">
+                                        <code className="font-mono text-zinc-400">{campaign.template}</code>
+                                        {" • "}
+                                        {campaign.count} codes
+                                        {" • "}
+                                        {campaign.type === "percentage" ? `${campaign.value}% off` : `₹${campaign.value} off`}
+                                        {campaign.expiresAt &&
+                                            ` • Expires ${new Date(campaign.expiresAt).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })}`}
+                                        {` • by ${campaign.createdBy}`}
+                                    </p>
+                                </div>
+
+                                {/* Actions */}
+                                <div className="flex bg-zinc-800/50 rounded-xl overflow-hidden border border-zinc-700/50">
+                                    <a
+                                        href={`/api/admin/coupons/campaigns/${campaign.id}/export`}
+                                        className="flex items-center gap-1.5 px-3 py-2 text-zinc-400 hover:text-white hover:bg-zinc-700/50 text-xs font-medium transition-all border-r border-zinc-700/50"
+                                    >
+                                        <Download className="w-3.5 h-3.5" />
+                                        CSV
+                                    </a>
+                                    <button
+                                        onClick={() => handleDelete(campaign)}
+                                        disabled={isPending}
+                                        className="flex items-center gap-1.5 px-3 py-2 text-red-400 hover:text-red-300 hover:bg-red-500/20 text-xs font-medium transition-all cursor-pointer disabled:opacity-50"
+                                    >
+                                        {loadingId === campaign.id ? (
+                                            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                                        ) : (
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                        )}
+                                        Delete
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Stats */}
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4">
+                                {[
+                                    { label: "Redeemed", value: `${campaign.redeemed} / ${campaign.count}` },
+                                    { label: "Paid Orders", value: campaign.paidOrders.toString() },
+                                    { label: "Discount Given", value: `₹${campaign.discount.toFixed(2)}` },
+                                    { label: "Revenue", value: `₹${campaign.revenue.toFixed(2)}` },
+                                ].map((stat) => (
+                                    <div key={stat.label} className="px-3 py-2 bg-zinc-800/30 rounded-lg">
+                                        <p className="text-zinc-500 text-[10px] uppercase tracking-wider">{stat.label}</p>
+                                        <p className="text-white text-sm font-semibold">{stat.value}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,10 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: CouponsClient.tsx
 // PURPOSE: Client-side admin page for creating, viewing, and
-//          deleting discount coupon codes.
+//          deleting discount coupon codes, including their rules
+//          (categories/products, start date, per-player limit,
+//          max discount, first order only, stackable) and the
+//          orders that used each coupon.
 // LOCATION: src/app/admin/coupons/CouponsClient.tsx
 // ═══════════════════════════════════════════════════════════════
 
@@ -21,10 +24,22 @@ import {
     AlertCircle,
     Infinity,
     Edit2,
+    Layers,
+    ClipboardList,
 } from "lucide-react";
+import { categories } from "@/lib/data";
 
 // ─── Types ─────────────────────────────────────────────────────
 
+interface CouponRedemptionRow {
+    orderId: string;
+    username: string;
+    discount: number;
+    released: boolean;          // Order rejected / never saved — use given back
+    orderStatus: string;
+    createdAt: string;
+}
+
 interface Coupon {
     _id: string;
     code: string;
@@ -34,17 +49,36 @@ interface Coupon {
     maxUses: number;
     usedCount: number;
     expiresAt: string | null;
+    startsAt: string | null;
+    categories: string[];
+    productIds: string[];
+    maxUsesPerPlayer: number;   // 0 = no limit
+    maxDiscount: number;        // 0 = no cap
+    firstOrderOnly: boolean;
+    stackable: boolean;
+    redemptions: CouponRedemptionRow[];
     active: boolean;
     createdAt: string;
 }
 
+interface ProductOption {
+    id: string;
+    name: string;
+}
+
+const RULE_CATEGORIES = categories.filter((c) => c.key !== "all");
+
+const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
 // ═══════════════════════════════════════════════════════════════
 
-export default function CouponsClient({ coupons: initial }: { coupons: Coupon[] }) {
+export default function CouponsClient({ coupons: initial, products }: { coupons: Coupon[]; products: ProductOption[] }) {
     const [coupons, setCoupons] = useState<Coupon[]>(initial);
     const [showForm, setShowForm] = useState(false);
     const [deleting, setDeleting] = useState<string | null>(null);
     const [copiedCode, setCopiedCode] = useState<string | null>(null);
+    const [openOrders, setOpenOrders] = useState<string | null>(null);
     const [error, setError] = useState("");
     const [saving, setSaving] = useState(false);
 
@@ -56,6 +90,16 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
     const [formMinOrder, setFormMinOrder] = useState("");
     const [formMaxUses, setFormMaxUses] = useState("");
     const [formExpiry, setFormExpiry] = useState("");
+    const [formStartsAt, setFormStartsAt] = useState("");
+    const [formMaxDiscount, setFormMaxDiscount] = useState("");
+    const [formPerPlayer, setFormPerPlayer] = useState("");
+    const [formCategories, setFormCategories] = useState<string[]>([]);
+    const [formProductIds, setFormProductIds] = useState<string[]>([]);
+    const [formFirstOrder, setFormFirstOrder] = useState(false);
+    const [formStackable, setFormStackable] = useState(false);
+
+    const toggle = (list: string[], value: string) =>
+        list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
 
     const resetForm = () => {
         setFormCode("");
@@ -64,6 +108,13 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
         setFormMinOrder("");
         setFormMaxUses("");
         setFormExpiry("");
+        setFormStartsAt("");
+        setFormMaxDiscount("");
+        setFormPerPlayer("");
+        setFormCategories([]);
+        setFormProductIds([]);
+        setFormFirstOrder(false);
+        setFormStackable(false);
         setError("");
         setEditMode(null);
     };
@@ -76,6 +127,13 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
         setFormMinOrder(c.minOrder ? c.minOrder.toString() : "");
         setFormMaxUses(c.maxUses === -1 ? "" : c.maxUses.toString());
         setFormExpiry(c.expiresAt ? new Date(c.expiresAt).toISOString().slice(0, 16) : "");
+        setFormStartsAt(c.startsAt ? new Date(c.startsAt).toISOString().slice(0, 16) : "");
+        setFormMaxDiscount(c.maxDiscount ? c.maxDiscount.toString() : "");
+        setFormPerPlayer(c.maxUsesPerPlayer ? c.maxUsesPerPlayer.toString() : "");
+        setFormCategories(c.categories);
+        setFormProductIds(c.productIds);
+        setFormFirstOrder(c.firstOrderOnly);
+        setFormStackable(c.stackable);
         setShowForm(true);
         window.scrollTo({ top: 0, behavior: "smooth" });
     };
@@ -100,6 +158,13 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
                 minOrder: formMinOrder ? parseFloat(formMinOrder) : 0,
                 maxUses: formMaxUses ? parseInt(formMaxUses) : -1,
                 expiresAt: formExpiry ? new Date(formExpiry).toISOString() : null,
+                startsAt: formStartsAt ? new Date(formStartsAt).toISOString() : null,
+                maxDiscount: formMaxDiscount ? parseFloat(formMaxDiscount) : 0,
+                maxUsesPerPlayer: formPerPlayer ? parseInt(formPerPlayer) : 0,
+                categories: formCategories,
+                productIds: formProductIds,
+                firstOrderOnly: formFirstOrder,
+                stackable: formStackable,
             };
 
             const res = await fetch("/api/admin/coupons", {
@@ -334,6 +399,119 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
                                         className="w-full px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
                                     />
                                 </div>
+
+                                {/* Starts At */}
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Starts At
+                                    </label>
+                                    <input
+                                        type="datetime-local"
+                                        value={formStartsAt}
+                                        onChange={(e) =>
+                                            setFormStartsAt(e.target.value)
+                                        }
+                                        className="w-full px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                                    />
+                                </div>
+
+                                {/* Max Discount */}
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Max Discount (₹)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formMaxDiscount}
+                                        onChange={(e) =>
+                                            setFormMaxDiscount(e.target.value)
+                                        }
+                                        placeholder="No cap"
+                                        min="0"
+                                        className="w-full px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                                    />
+                                </div>
+
+                                {/* Uses per Player */}
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Uses per Player
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formPerPlayer}
+                                        onChange={(e) =>
+                                            setFormPerPlayer(e.target.value)
+                                        }
+                                        placeholder="Unlimited"
+                                        min="1"
+                                        className="w-full px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Categories */}
+                            <div className="mb-4">
+                                <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                    Categories <span className="normal-case tracking-normal text-zinc-600">(none = whole cart)</span>
+                                </label>
+                                <div className="flex flex-wrap gap-2">
+                                    {RULE_CATEGORIES.map((cat) => (
+                                        <button
+                                            key={cat.key}
+                                            onClick={() => setFormCategories((prev) => toggle(prev, cat.key))}
+                                            className={`px-3 py-1.5 rounded-xl text-xs font-medium transition-all cursor-pointer ${formCategories.includes(cat.key)
+                                                ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                                                : "bg-zinc-800/50 text-zinc-400 border border-zinc-700/50"
+                                                }`}
+                                        >
+                                            {cat.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Products */}
+                            <div className="mb-4">
+                                <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                    Products <span className="normal-case tracking-normal text-zinc-600">(none = any product)</span>
+                                </label>
+                                <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                                    {products.map((product) => (
+                                        <button
+                                            key={product.id}
+                                            onClick={() => setFormProductIds((prev) => toggle(prev, product.id))}
+                                            className={`px-3 py-1.5 rounded-xl text-xs font-medium transition-all cursor-pointer ${formProductIds.includes(product.id)
+                                                ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                                                : "bg-zinc-800/50 text-zinc-400 border border-zinc-700/50"
+                                                }`}
+                                        >
+                                            {product.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Flags */}
+                            <div className="flex flex-wrap gap-6 mb-5">
+                                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formFirstOrder}
+                                        onChange={(e) => setFormFirstOrder(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    First order only
+                                </label>
+                                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formStackable}
+                                        onChange={(e) => setFormStackable(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    Stackable with other coupons
+                                </label>
                             </div>
 
                             <button
@@ -367,7 +545,14 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
                         const isMaxed =
                             coupon.maxUses !== -1 &&
                             coupon.usedCount >= coupon.maxUses;
-                        const isInactive = isExpired || isMaxed;
+                        const notStarted =
+                            coupon.startsAt &&
+                            new Date(coupon.startsAt) > new Date();
+                        const isInactive = isExpired || isMaxed || notStarted;
+                        const scope = [
+                            ...coupon.categories.map((key) => RULE_CATEGORIES.find((c) => c.key === key)?.label ?? key),
+                            ...coupon.productIds.map((id) => products.find((p) => p.id === id)?.name ?? "Removed product"),
+                        ];
 
                         return (
                             <motion.div
@@ -425,11 +610,28 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
                                                         Maxed Out
                                                     </span>
                                                 )}
+                                                {notStarted && (
+                                                    <span className="px-2 py-0.5 bg-blue-500/10 text-blue-400 rounded-full text-[10px] font-medium">
+                                                        Starts {formatDate(coupon.startsAt!)}
+                                                    </span>
+                                                )}
+                                                {coupon.stackable && (
+                                                    <span className="flex items-center gap-1 px-2 py-0.5 bg-purple-500/10 text-purple-400 rounded-full text-[10px] font-medium">
+                                                        <Layers className="w-2.5 h-2.5" /> Stackable
+                                                    </span>
+                                                )}
+                                                {coupon.firstOrderOnly && (
+                                                    <span className="px-2 py-0.5 bg-cyan-500/10 text-cyan-400 rounded-full text-[10px] font-medium">
+                                                        First Order
+                                                    </span>
+                                                )}
                                             </div>
                                             <p className="text-zinc-500 text-xs">
                                                 {coupon.type === "percentage"
                                                     ? `${coupon.value}% off`
                                                     : `₹${coupon.value} off`}
+                                                {coupon.maxDiscount > 0 &&
+                                                    ` (up to ₹${coupon.maxDiscount})`}
                                                 {coupon.minOrder > 0 &&
                                                     ` • Min ₹${coupon.minOrder}`}
                                                 {" • "}
@@ -440,23 +642,31 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
                                                     coupon.maxUses
                                                 )}{" "}
                                                 uses
+                                                {coupon.maxUsesPerPlayer > 0 &&
+                                                    ` • ${coupon.maxUsesPerPlayer} per player`}
                                                 {coupon.expiresAt &&
-                                                    ` • Expires ${new Date(
-                                                        coupon.expiresAt
-                                                    ).toLocaleDateString(
-                                                        "en-IN",
-                                                        {
-                                                            day: "2-digit",
-                                                            month: "short",
-                                                            year: "numeric",
-                                                        }
-                                                    )}`}
+                                                    ` • Expires ${formatDate(coupon.expiresAt)}`}
                                             </p>
+                                            {scope.length > 0 && (
+                                                <p className="text-zinc-600 text-xs mt-0.5">
+                                                    Only on: {scope.join(", ")}
+                                                </p>
+                                            )}
                                         </div>
                                     </div>
 
                                     {/* Actions */}
                                     <div className="flex bg-zinc-800/50 rounded-xl overflow-hidden border border-zinc-700/50">
+                                        <button
+                                            onClick={() => setOpenOrders(openOrders === coupon.code ? null : coupon.code)}
+                                            className={`flex items-center gap-1.5 px-3 py-2 text-xs font-medium transition-all cursor-pointer border-r border-zinc-700/50 ${openOrders === coupon.code
+                                                ? "text-emerald-400 bg-emerald-500/10"
+                                                : "text-zinc-400 hover:text-white hover:bg-zinc-700/50"
+                                                }`}
+                                        >
+                                            <ClipboardList className="w-3.5 h-3.5" />
+                                            Orders ({coupon.redemptions.filter((r) => !r.released).length})
+                                        </button>
                                         <button
                                             onClick={() => handleEdit(coupon)}
                                             className="flex items-center gap-1.5 px-3 py-2 text-zinc-400 hover:text-white hover:bg-zinc-700/50 text-xs font-medium transition-all cursor-pointer border-r border-zinc-700/50"
@@ -474,6 +684,36 @@ export default function CouponsClient({ coupons: initial }: { coupons: Coupon[]
                                         </button>
                                     </div>
                                 </div>
+
+                                {/* Orders that used this coupon */}
+                                {openOrders === coupon.code && (
+                                    <div className="mt-4 pt-4 border-t border-zinc-800/50">
+                                        {coupon.redemptions.length === 0 ? (
+                                            <p className="text-zinc-600 text-xs">No orders have used this coupon yet.</p>
+                                        ) : (
+                                            <div className="space-y-1.5 max-h-64 overflow-y-auto">
+                                                {coupon.redemptions.map((r) => (
+                                                    <div
+                                                        key={r.orderId}
+                                                        className={`flex items-center justify-between gap-3 px-3 py-2 bg-zinc-800/30 rounded-lg text-xs ${r.released ? "opacity-50" : ""}`}
+                                                    >
+                                                        <div className="flex items-center gap-3 min-w-0">
+                                                            <code className="text-zinc-300 font-mono truncate">{r.orderId}</code>
+                                                            <span className="text-zinc-500 truncate">{r.username}</span>
+                                                        </div>
+                                                        <div className="flex items-center gap-3 shrink-0">
+                                                            <span className="text-emerald-400">−₹{r.discount.toFixed(2)}</span>
+                                                            <span className="text-zinc-500 capitalize">
+                                                                {r.released ? "Use released" : r.orderStatus.replace("-", " ")}
+                                                            </span>
+                                                            <span className="text-zinc-600">{formatDate(r.createdAt)}</span>
+                                                        </div>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
                             </motion.div>
                         );
                     })}
@@ -0,0 +1,164 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Coupon Campaign Server Actions)
+// PURPOSE: Server actions for generating a campaign of single-use
+//          codes (giveaways) and deleting one. Single coupons are
+//          managed through /api/admin/coupons.
+// LOCATION: src/app/admin/coupons/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { ObjectId } from "mongodb";
+import { revalidatePath } from "next/cache";
+import { connectToDatabase } from "@/lib/mongodb";
+import { logActivity } from "@/lib/logActivity";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import { checkCouponValue, readCouponRules } from "@/lib/coupons";
+import {
+    CAMPAIGN_MAX_CODES,
+    type CouponCampaign,
+    generateCampaignCodes,
+    normalizeCodeTemplate,
+} from "@/lib/couponCampaigns";
+
+const NAME_MAX = 60;
+
+export interface CampaignInput {
+    name: string;
+    template: string;
+    count: number;
+    type: "percentage" | "flat";
+    value: number;
+    minOrder: number;
+    expiresAt: string | null;
+    startsAt: string | null;
+    categories: string[];
+    productIds: string[];
+    maxUsesPerPlayer: number;
+    maxDiscount: number;
+    firstOrderOnly: boolean;
+    stackable: boolean;
+}
+
+// ─── Create Campaign ───────────────────────────────────────────
+
+/** Generates `count` single-use codes that share one rule set. */
+export async function createCouponCampaign(input: CampaignInput) {
+    try {
+        const admin = await requirePermission("coupons.manage");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const name = String(input.name ?? "").trim().slice(0, NAME_MAX);
+        if (!name) {
+            return { success: false, error: "Campaign name is required." };
+        }
+        const template = normalizeCodeTemplate(input.template);
+        if (!template) {
+            return { success: false, error: "Template must use A–Z, 0–9 and dashes, with at least 4 X's (e.g. DISCORD-XXXX)." };
+        }
+        const count = Math.floor(Number(input.count));
+        if (!(count >= 1 && count <= CAMPAIGN_MAX_CODES)) {
+            return { success: false, error: `Generate between 1 and ${CAMPAIGN_MAX_CODES} codes.` };
+        }
+        const valueError = checkCouponValue(input.type, input.value);
+        if (valueError) {
+            return { success: false, error: valueError };
+        }
+        const read = readCouponRules(input as unknown as Record<string, unknown>);
+        if ("error" in read) {
+            return { success: false, error: read.error };
+        }
+
+        const db = await connectToDatabase();
+        const codes = await generateCampaignCodes(db, template, count);
+        if (!codes) {
+            return { success: false, error: "Not enough free codes for this template — add more X's." };
+        }
+
+        const now = new Date();
+        const campaign: CouponCampaign = {
+            name,
+            template,
+            count,
+            type: input.type,
+            value: input.value,
+            minOrder: Number(input.minOrder) || 0,
+            expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+            rules: read.rules,
+            createdBy: admin.username,
+            createdAt: now,
+        };
+        const { insertedId } = await db.collection<CouponCampaign>("couponCampaigns").insertOne(campaign);
+
+        await db.collection("coupons").insertMany(
+            codes.map((code) => ({
+                code,
+                type: campaign.type,
+                value: campaign.value,
+                minOrder: campaign.minOrder,
+                maxUses: 1,
+                usedCount: 0,
+                expiresAt: campaign.expiresAt,
+                ...campaign.rules,
+                campaignId: insertedId.toString(),
+                active: true,
+                createdAt: now,
+            }))
+        );
+
+        await logActivity({
+            action: "coupon_campaign_created",
+            entity: name,
+            details: `${count} × ${template} — ${campaign.type === "percentage" ? campaign.value + "%" : "₹" + campaign.value} off`,
+            after: { template, count, type: campaign.type, value: campaign.value },
+        });
+
+        revalidatePath("/admin/coupons");
+        return { success: true, campaignId: insertedId.toString() };
+    } catch (error) {
+        console.error("Create coupon campaign error:", error);
+        return { success: false, error: "Failed to create campaign." };
+    }
+}
+
+// ─── Delete Campaign ───────────────────────────────────────────
+
+/**
+ * Deletes a campaign and its codes. Orders that already used a
+ * code keep their discount and redemption record.
+ */
+export async function deleteCouponCampaign(campaignId: string) {
+    try {
+        if (!(await requirePermission("coupons.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+        if (!ObjectId.isValid(campaignId)) {
+            return { success: false, error: "Campaign not found." };
+        }
+
+        const db = await connectToDatabase();
+        const campaign = await db
+            .collection<CouponCampaign>("couponCampaigns")
+            .findOneAndDelete({ _id: new ObjectId(campaignId) });
+        if (!campaign) {
+            return { success: false, error: "Campaign not found." };
+        }
+        const { deletedCount } = await db.collection("coupons").deleteMany({ campaignId });
+
+        await logActivity({
+            action: "coupon_campaign_deleted",
+            entity: campaign.name,
+            details: `Deleted with ${deletedCount} codes`,
+            before: { template: campaign.template, count: campaign.count },
+            after: null,
+        });
+
+        revalidatePath("/admin/coupons");
+        return { success: true };
+    } catch (error) {
+        console.error("Delete coupon campaign error:", error);
+        return { success: false, error: "Failed to delete campaign." };
+    }
+}
@@ -1,12 +1,36 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: page.tsx  (Admin Coupons Page — Server Component)
 // PURPOSE: Fetches all coupons from MongoDB and passes them
-//          to the CouponsClient for interactive management.
+//          to the CouponsClient for interactive management, along
+//          with the product list for product-scoped coupons and
+//          the orders that used each coupon. Campaign codes are
+//          listed per campaign (CampaignsClient), not one by one.
 // LOCATION: src/app/admin/coupons/page.tsx
 // ═══════════════════════════════════════════════════════════════
 
 import { connectToDatabase } from "@/lib/mongodb";
+import { getCouponRedemptions } from "@/lib/coupons";
+import { type CouponCampaign, getCampaignStats } from "@/lib/couponCampaigns";
 import CouponsClient from "@/app/admin/coupons/CouponsClient";
+import CampaignsClient from "@/app/admin/coupons/CampaignsClient";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface CampaignRow {
+    id: string;
+    name: string;
+    template: string;
+    count: number;
+    type: "percentage" | "flat";
+    value: number;
+    expiresAt: string | null;
+    createdBy: string;
+    createdAt: string;
+    redeemed: number;
+    paidOrders: number;
+    discount: number;
+    revenue: number;
+}
 
 export const dynamic = "force-dynamic";
 
@@ -15,10 +39,21 @@ async function getCoupons() {
         const db = await connectToDatabase();
         const coupons = await db
             .collection("coupons")
-            .find({})
+            .find({ campaignId: { $exists: false } })
             .sort({ createdAt: -1 })
             .toArray();
 
+        // Which orders used each coupon, with where those orders are now
+        const redemptions = await getCouponRedemptions(db, coupons.map((c) => c.code));
+        const orders = await db
+            .collection("orders")
+            .find(
+                { orderId: { $in: [...new Set(redemptions.map((r) => r.orderId))] } },
+                { projection: { orderId: 1, status: 1 } }
+            )
+            .toArray();
+        const orderStatus = new Map(orders.map((o) => [o.orderId as string, o.status as string]));
+
         return coupons.map((c) => ({
             _id: c._id.toString(),
             code: c.code,
@@ -28,6 +63,23 @@ async function getCoupons() {
             maxUses: c.maxUses ?? -1,
             usedCount: c.usedCount || 0,
             expiresAt: c.expiresAt ? new Date(c.expiresAt).toISOString() : null,
+            startsAt: c.startsAt ? new Date(c.startsAt).toISOString() : null,
+            categories: (c.categories || []) as string[],
+            productIds: (c.productIds || []) as string[],
+            maxUsesPerPlayer: c.maxUsesPerPlayer || 0,
+            maxDiscount: c.maxDiscount || 0,
+            firstOrderOnly: !!c.firstOrderOnly,
+            stackable: !!c.stackable,
+            redemptions: redemptions
+                .filter((r) => r.code === c.code)
+                .map((r) => ({
+                    orderId: r.orderId,
+                    username: r.username,
+                    discount: r.discount,
+                    released: r.status === "released",
+                    orderStatus: orderStatus.get(r.orderId) ?? "missing",
+                    createdAt: new Date(r.createdAt).toISOString(),
+                })),
             active: c.active ?? true,
             createdAt: c.createdAt
                 ? new Date(c.createdAt).toISOString()
@@ -39,15 +91,70 @@ async function getCoupons() {
     }
 }
 
+async function getCampaigns(): Promise<CampaignRow[]> {
+    try {
+        const db = await connectToDatabase();
+        const campaigns = await db
+            .collection<CouponCampaign>("couponCampaigns")
+            .find({})
+            .sort({ createdAt: -1 })
+            .toArray();
+        const stats = await getCampaignStats(db, campaigns.map((c) => c._id.toString()));
+
+        return campaigns.map((c) => ({
+            id: c._id.toString(),
+            name: c.name,
+            template: c.template,
+            count: c.count,
+            type: c.type,
+            value: c.value,
+            expiresAt: c.expiresAt ? new Date(c.expiresAt).toISOString() : null,
+            createdBy: c.createdBy,
+            createdAt: new Date(c.createdAt).toISOString(),
+            redeemed: 0,
+            paidOrders: 0,
+            discount: 0,
+            revenue: 0,
+            ...stats.get(c._id.toString()),
+        }));
+    } catch (error) {
+        console.error("Coupon campaigns fetch error:", error);
+        return [];
+    }
+}
+
+async function getProductOptions() {
+    try {
+        const db = await connectToDatabase();
+        const products = await db
+            .collection("products")
+            .find({}, { projection: { name: 1, category: 1 } })
+            .sort({ category: 1, name: 1 })
+            .toArray();
+
+        return products.map((p) => ({ id: p._id.toString(), name: p.name as string }));
+    } catch (error) {
+        console.error("Coupon products fetch error:", error);
+        return [];
+    }
+}
+
 import { Suspense } from "react";
 import { Loader2 } from "lucide-react";
+import { requireAdminPage } from "@/lib/adminAuth";
 
 async function CouponsData() {
-    const coupons = await getCoupons();
-    return <CouponsClient coupons={coupons} />;
+    const [coupons, campaigns, products] = await Promise.all([getCoupons(), getCampaigns(), getProductOptions()]);
+    return (
+        <>
+            <CouponsClient coupons={coupons} products={products} />
+            <CampaignsClient campaigns={campaigns} products={products} />
+        </>
+    );
 }
 
-export default function CouponsPage() {
+export default async function CouponsPage() {
+    await requireAdminPage();
     return (
         <Suspense fallback={
             <div className="flex flex-col items-center justify-center py-32">
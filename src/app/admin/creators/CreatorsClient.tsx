@@ -0,0 +1,398 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: CreatorsClient.tsx
+// PURPOSE: Client-side admin page for creator codes: totals owed,
+//          adding a creator, their dashboard link, commission
+//          rate and recording payouts.
+// LOCATION: src/app/admin/creators/CreatorsClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+    AlertCircle,
+    Banknote,
+    Check,
+    Copy,
+    KeyRound,
+    Loader2,
+    Megaphone,
+    Percent,
+    DollarSign,
+    Plus,
+    X,
+} from "lucide-react";
+import {
+    createCreator,
+    recordCreatorPayout,
+    resetCreatorLink,
+    updateCreatorCommission,
+} from "./actions";
+import type { CreatorRow } from "./page";
+
+const inputClass =
+    "w-full px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50";
+
+// ═══════════════════════════════════════════════════════════════
+
+export default function CreatorsClient({ creators }: { creators: CreatorRow[] }) {
+    const [showForm, setShowForm] = useState(false);
+    const [error, setError] = useState("");
+    const [loadingId, setLoadingId] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+    const [newLink, setNewLink] = useState<{ name: string; url: string } | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    // Form state
+    const [formName, setFormName] = useState("");
+    const [formCode, setFormCode] = useState("");
+    const [formType, setFormType] = useState<"percentage" | "flat">("percentage");
+    const [formValue, setFormValue] = useState("");
+    const [formCommission, setFormCommission] = useState("");
+
+    // ── Stats ──────────────────────────────────────────────────
+    const totalSales = creators.reduce((sum, c) => sum + c.sales, 0);
+    const totalOwed = creators.reduce((sum, c) => sum + c.owed, 0);
+    const totalPaid = creators.reduce((sum, c) => sum + c.paid, 0);
+
+    const linkFor = (token: string) => `${window.location.origin}/creator/${token}`;
+
+    // ── Add Creator ────────────────────────────────────────────
+    const handleCreate = () => {
+        if (!formName.trim() || !formCode.trim() || !formValue || !formCommission) {
+            setError("Name, code, discount and commission are required.");
+            return;
+        }
+        setError("");
+        setLoadingId("new");
+        startTransition(async () => {
+            const result = await createCreator({
+                name: formName,
+                code: formCode,
+                type: formType,
+                value: parseFloat(formValue),
+                commissionPercent: parseFloat(formCommission),
+            });
+            if (result.success && result.token) {
+                setNewLink({ name: formName.trim(), url: linkFor(result.token) });
+                setFormName("");
+                setFormCode("");
+                setFormValue("");
+                setFormCommission("");
+                setShowForm(false);
+            } else {
+                setError(result.error || "Failed to add creator.");
+            }
+            setLoadingId(null);
+        });
+    };
+
+    // ── Row Actions ────────────────────────────────────────────
+    const handleResetLink = (creator: CreatorRow) => {
+        if (!confirm(`Make a new dashboard link for ${creator.name}? The old link stops working.`)) return;
+        setLoadingId(`link-${creator.id}`);
+        startTransition(async () => {
+            const result = await resetCreatorLink(creator.id);
+            if (result.success && result.token) {
+                setNewLink({ name: creator.name, url: linkFor(result.token) });
+            } else {
+                alert(result.error || "Failed to reset link.");
+            }
+            setLoadingId(null);
+        });
+    };
+
+    const handleCommission = (creator: CreatorRow) => {
+        const input = prompt(`New commission % for ${creator.name} (applies to future orders):`, creator.commissionPercent.toString());
+        if (input === null) return;
+        setLoadingId(`rate-${creator.id}`);
+        startTransition(async () => {
+            const result = await updateCreatorCommission(creator.id, parseFloat(input));
+            if (!result.success) alert(result.error || "Failed to update commission.");
+            setLoadingId(null);
+        });
+    };
+
+    const handlePayout = (creator: CreatorRow) => {
+        if (!confirm(`Mark ₹${creator.owed.toFixed(2)} as paid to ${creator.name}? Do this after you've sent the money.`)) return;
+        setLoadingId(`pay-${creator.id}`);
+        startTransition(async () => {
+            const result = await recordCreatorPayout(creator.id);
+            if (!result.success) alert(result.error || "Failed to record payout.");
+            setLoadingId(null);
+        });
+    };
+
+    const copyLink = (url: string) => {
+        navigator.clipboard.writeText(url);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleDateString("en-IN", {
+            day: "2-digit",
+            month: "short",
+            year: "numeric",
+        });
+
+    return (
+        <div>
+            {/* ── Header ── */}
+            <div className="flex items-center justify-between mb-8">
+                <div>
+                    <div className="flex items-center gap-3 mb-2">
+                        <Megaphone className="w-6 h-6 text-emerald-400" />
+                        <h1 className="text-2xl md:text-3xl font-bold text-white">
+                            Creators
+                        </h1>
+                    </div>
+                    <p className="text-zinc-500 text-sm">
+                        Creator codes, commissions and payouts
+                    </p>
+                </div>
+                <button
+                    onClick={() => {
+                        setError("");
+                        setShowForm(!showForm);
+                    }}
+                    className="flex items-center gap-2 px-4 py-2.5 bg-emerald-500/15 text-emerald-400 border border-emerald-500/30 rounded-xl text-sm font-medium hover:bg-emerald-500/25 transition-all cursor-pointer"
+                >
+                    {showForm ? (
+                        <>
+                            <X className="w-4 h-4" /> Cancel
+                        </>
+                    ) : (
+                        <>
+                            <Plus className="w-4 h-4" /> Add Creator
+                        </>
+                    )}
+                </button>
+            </div>
+
+            {/* ── Stats ── */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                {[
+                    { label: "Sales via Codes", value: `₹${totalSales.toFixed(2)}` },
+                    { label: "Commission Owed", value: `₹${totalOwed.toFixed(2)}` },
+                    { label: "Paid Out", value: `₹${totalPaid.toFixed(2)}` },
+                ].map((stat) => (
+                    <div key={stat.label} className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-5">
+                        <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">{stat.label}</p>
+                        <p className="text-white text-2xl font-bold">{stat.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            {/* ── Add Form ── */}
+            <AnimatePresence>
+                {showForm && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: "auto", opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className="overflow-hidden mb-6"
+                    >
+                        <div className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-6">
+                            <h3 className="text-white font-semibold mb-4">Add a Creator</h3>
+
+                            {error && (
+                                <div className="flex items-center gap-2 px-4 py-2.5 mb-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+                                    <AlertCircle className="w-4 h-4 shrink-0" />
+                                    {error}
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Creator Name *
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={formName}
+                                        onChange={(e) => setFormName(e.target.value)}
+                                        placeholder="e.g. SteveGaming"
+                                        maxLength={40}
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Code *
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={formCode}
+                                        onChange={(e) => setFormCode(e.target.value.toUpperCase())}
+                                        placeholder="e.g. STEVE"
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Commission % *
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formCommission}
+                                        onChange={(e) => setFormCommission(e.target.value)}
+                                        placeholder="e.g. 10"
+                                        min="0"
+                                        max="50"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Buyer Discount Type
+                                    </label>
+                                    <div className="flex gap-2">
+                                        {(["percentage", "flat"] as const).map((type) => (
+                                            <button
+                                                key={type}
+                                                onClick={() => setFormType(type)}
+                                                className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-xl text-sm font-medium transition-all cursor-pointer ${formType === type
+                                                    ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                                                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-700/50"
+                                                    }`}
+                                            >
+                                                {type === "percentage" ? <Percent className="w-3.5 h-3.5" /> : <DollarSign className="w-3.5 h-3.5" />}
+                                                {type === "percentage" ? "Percentage" : "Flat ₹"}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        {formType === "percentage" ? "Discount %" : "Discount ₹"} *
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formValue}
+                                        onChange={(e) => setFormValue(e.target.value)}
+                                        min="0"
+                                        max={formType === "percentage" ? "100" : undefined}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+
+                            <button
+                                onClick={handleCreate}
+                                disabled={isPending && loadingId === "new"}
+                                className="flex items-center gap-2 px-5 py-2.5 bg-emerald-500/20 text-emerald-400 border border-emerald-500/30 rounded-xl text-sm font-medium hover:bg-emerald-500/30 transition-all disabled:opacity-50 cursor-pointer"
+                            >
+                                {isPending && loadingId === "new" && <Loader2 className="w-4 h-4 animate-spin" />}
+                                Add Creator
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* ── New Dashboard Link ── */}
+            {newLink && (
+                <div className="mb-6 p-4 bg-emerald-500/5 border border-emerald-500/20 rounded-2xl">
+                    <p className="text-emerald-400 text-xs font-medium mb-2">
+                        Dashboard link for {newLink.name} — send it to them privately. It won&apos;t be shown again.
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 text-xs text-white bg-zinc-900/70 px-3 py-2 rounded-lg font-mono break-all">
+                            {newLink.url}
+                        </code>
+                        <button
+                            onClick={() => copyLink(newLink.url)}
+                            className="p-2 text-zinc-400 hover:text-white transition-colors cursor-pointer"
+                        >
+                            {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* ── Creator List ── */}
+            {creators.length === 0 ? (
+                <div className="text-center py-16 bg-zinc-900/50 border border-zinc-800/50 rounded-2xl">
+                    <div className="inline-flex items-center justify-center w-16 h-16 bg-zinc-800/50 rounded-2xl mb-3">
+                        <Megaphone className="w-8 h-8 text-zinc-600" />
+                    </div>
+                    <p className="text-zinc-500 text-sm">No creators yet.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {creators.map((creator) => (
+                        <div
+                            key={creator.id}
+                            className={`bg-zinc-900/70 border rounded-2xl p-5 ${creator.active ? "border-zinc-800/50" : "border-zinc-800/30 opacity-60"}`}
+                        >
+                            <div className="flex flex-wrap items-start justify-between gap-4">
+                                <div>
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <p className="text-white font-semibold text-sm">{creator.name}</p>
+                                        <code className="px-2 py-0.5 bg-zinc-800/70 text-zinc-300 rounded-md font-mono text-xs">
+                                            {creator.code}
+                                        </code>
+                                    </div>
+                                    <p className="text-zinc-500 text-xs">
+                                        Buyers get {creator.type === "percentage" ? `${creator.value}%` : `₹${creator.value}`} off
+                                        {" • "}
+                                        {creator.commissionPercent}% commission
+                                        {" • "}
+                                        Link <code className="font-mono">{creator.tokenPrefix}…</code>
+                                        {creator.lastPayoutAt && ` • Last paid ${formatDate(creator.lastPayoutAt)}`}
+                                    </p>
+                                </div>
+
+                                {/* Actions */}
+                                <div className="flex bg-zinc-800/50 rounded-xl overflow-hidden border border-zinc-700/50">
+                                    <button
+                                        onClick={() => handleCommission(creator)}
+                                        disabled={isPending}
+                                        className="flex items-center gap-1.5 px-3 py-2 text-zinc-400 hover:text-white hover:bg-zinc-700/50 text-xs font-medium transition-all cursor-pointer border-r border-zinc-700/50 disabled:opacity-50"
+                                    >
+                                        {loadingId === `rate-${creator.id}` ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Percent className="w-3.5 h-3.5" />}
+                                        Rate
+                                    </button>
+                                    <button
+                                        onClick={() => handleResetLink(creator)}
+                                        disabled={isPending}
+                                        className="flex items-center gap-1.5 px-3 py-2 text-zinc-400 hover:text-white hover:bg-zinc-700/50 text-xs font-medium transition-all cursor-pointer border-r border-zinc-700/50 disabled:opacity-50"
+                                    >
+                                        {loadingId === `link-${creator.id}` ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <KeyRound className="w-3.5 h-3.5" />}
+                                        New Link
+                                    </button>
+                                    <button
+                                        onClick={() => handlePayout(creator)}
+                                        disabled={isPending || creator.owed <= 0}
+                                        className="flex items-center gap-1.5 px-3 py-2 text-emerald-400 hover:text-emerald-300 hover:bg-emerald-500/20 text-xs font-medium transition-all cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                                    >
+                                        {loadingId === `pay-${creator.id}` ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Banknote className="w-3.5 h-3.5" />}
+                                        Mark Paid
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Earnings */}
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4">
+                                {[
+                                    { label: "Orders", value: creator.orders.toString() },
+                                    { label: "Sales", value: `₹${creator.sales.toFixed(2)}` },
+                                    { label: "Earned", value: `₹${creator.earned.toFixed(2)}` },
+                                    { label: "Owed", value: `₹${creator.owed.toFixed(2)}` },
+                                ].map((stat) => (
+                                    <div key={stat.label} className="px-3 py-2 bg-zinc-800/30 rounded-lg">
+                                        <p className="text-zinc-500 text-[10px] uppercase tracking-wider">{stat.label}</p>
+                                        <p className="text-white text-sm font-semibold">{stat.value}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,218 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Creator Code Server Actions)
+// PURPOSE: Server actions for creator (referral) codes: adding a
+//          creator, changing their commission, resetting their
+//          dashboard link and recording a payout.
+// LOCATION: src/app/admin/creators/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { ObjectId } from "mongodb";
+import { revalidatePath } from "next/cache";
+import { connectToDatabase } from "@/lib/mongodb";
+import { logActivity } from "@/lib/logActivity";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import { checkCouponValue, normalizeCouponCode } from "@/lib/coupons";
+import {
+    COMMISSION_MAX_PERCENT,
+    type CreatorInfo,
+    generateCreatorToken,
+    recordCreatorPayout as markCommissionsPaid,
+} from "@/lib/creators";
+
+const NAME_MAX = 40;
+const CODE_PATTERN = /^[A-Z0-9_-]{3,24}$/;
+
+function checkCommission(percent: number): string | null {
+    if (!Number.isFinite(percent) || percent < 0 || percent > COMMISSION_MAX_PERCENT) {
+        return `Commission must be between 0% and ${COMMISSION_MAX_PERCENT}%.`;
+    }
+    return null;
+}
+
+// ─── Add Creator ───────────────────────────────────────────────
+
+/**
+ * Creates the creator's code (a coupon) and returns their
+ * dashboard link token — shown once, like plugin API keys.
+ */
+export async function createCreator(input: {
+    name: string;
+    code: string;
+    type: "percentage" | "flat";
+    value: number;
+    commissionPercent: number;
+}) {
+    try {
+        if (!(await requirePermission("creators.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const name = String(input.name ?? "").trim().slice(0, NAME_MAX);
+        const code = normalizeCouponCode(input.code);
+        if (!name) {
+            return { success: false, error: "Creator name is required." };
+        }
+        if (!CODE_PATTERN.test(code)) {
+            return { success: false, error: "Code must be 3–24 letters, numbers, dashes or underscores." };
+        }
+        const error = checkCouponValue(input.type, input.value) ?? checkCommission(input.commissionPercent);
+        if (error) {
+            return { success: false, error };
+        }
+
+        const db = await connectToDatabase();
+        if (await db.collection("coupons").findOne({ code })) {
+            return { success: false, error: "A coupon with this code already exists." };
+        }
+
+        const { token, tokenHash, tokenPrefix } = generateCreatorToken();
+        const creator: CreatorInfo = {
+            name,
+            commissionPercent: input.commissionPercent,
+            tokenHash,
+            tokenPrefix,
+            createdAt: new Date(),
+        };
+        await db.collection("coupons").insertOne({
+            code,
+            type: input.type,
+            value: input.value,
+            minOrder: 0,
+            maxUses: -1,
+            usedCount: 0,
+            expiresAt: null,
+            creator,
+            active: true,
+            createdAt: new Date(),
+        });
+
+        await logActivity({
+            action: "creator_created",
+            entity: code,
+            details: `${name} — ${input.type === "percentage" ? input.value + "%" : "₹" + input.value} off, ${input.commissionPercent}% commission`,
+            after: { name, code, commissionPercent: input.commissionPercent },
+        });
+
+        revalidatePath("/admin/creators");
+        revalidatePath("/admin/coupons");
+        return { success: true, token };
+    } catch (error) {
+        console.error("Create creator error:", error);
+        return { success: false, error: "Failed to add creator." };
+    }
+}
+
+// ─── Commission ────────────────────────────────────────────────
+
+/** New rate for future orders. Commissions already earned keep their rate. */
+export async function updateCreatorCommission(couponId: string, commissionPercent: number) {
+    try {
+        if (!(await requirePermission("creators.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+        const error = checkCommission(commissionPercent);
+        if (error) {
+            return { success: false, error };
+        }
+
+        const db = await connectToDatabase();
+        const before = ObjectId.isValid(couponId)
+            ? await db.collection("coupons").findOneAndUpdate(
+                { _id: new ObjectId(couponId), creator: { $exists: true } },
+                { $set: { "creator.commissionPercent": commissionPercent, updatedAt: new Date() } }
+            )
+            : null;
+        if (!before) {
+            return { success: false, error: "Creator not found." };
+        }
+
+        await logActivity({
+            action: "creator_updated",
+            entity: before.code,
+            details: `Commission ${before.creator.commissionPercent}% → ${commissionPercent}%`,
+            before: { commissionPercent: before.creator.commissionPercent },
+            after: { commissionPercent },
+        });
+
+        revalidatePath("/admin/creators");
+        return { success: true };
+    } catch (error) {
+        console.error("Update creator error:", error);
+        return { success: false, error: "Failed to update creator." };
+    }
+}
+
+// ─── Dashboard Link ────────────────────────────────────────────
+
+/** Issues a new dashboard link; the old one stops working. */
+export async function resetCreatorLink(couponId: string) {
+    try {
+        if (!(await requirePermission("creators.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const { token, tokenHash, tokenPrefix } = generateCreatorToken();
+        const db = await connectToDatabase();
+        const before = ObjectId.isValid(couponId)
+            ? await db.collection("coupons").findOneAndUpdate(
+                { _id: new ObjectId(couponId), creator: { $exists: true } },
+                { $set: { "creator.tokenHash": tokenHash, "creator.tokenPrefix": tokenPrefix } }
+            )
+            : null;
+        if (!before) {
+            return { success: false, error: "Creator not found." };
+        }
+
+        await logActivity({
+            action: "creator_link_reset",
+            entity: before.code,
+            details: `Dashboard link reset for ${before.creator.name}`,
+        });
+
+        revalidatePath("/admin/creators");
+        return { success: true, token };
+    } catch (error) {
+        console.error("Reset creator link error:", error);
+        return { success: false, error: "Failed to reset link." };
+    }
+}
+
+// ─── Payout ────────────────────────────────────────────────────
+
+/** Marks everything the creator is owed as paid (after paying them). */
+export async function recordCreatorPayout(couponId: string) {
+    try {
+        const admin = await requirePermission("creators.manage");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const db = await connectToDatabase();
+        const coupon = ObjectId.isValid(couponId)
+            ? await db.collection("coupons").findOne({ _id: new ObjectId(couponId), creator: { $exists: true } })
+            : null;
+        if (!coupon) {
+            return { success: false, error: "Creator not found." };
+        }
+
+        const payout = await markCommissionsPaid(db, couponId, admin.username);
+        if (payout.orders === 0) {
+            return { success: false, error: "Nothing is owed to this creator." };
+        }
+
+        await logActivity({
+            action: "creator_payout_recorded",
+            entity: coupon.code,
+            details: `Paid ${coupon.creator.name} ₹${payout.amount.toFixed(2)} for ${payout.orders} order${payout.orders === 1 ? "" : "s"}`,
+            after: payout,
+        });
+
+        revalidatePath("/admin/creators");
+        return { success: true, ...payout };
+    } catch (error) {
+        console.error("Record creator payout error:", error);
+        return { success: false, error: "Failed to record payout." };
+    }
+}
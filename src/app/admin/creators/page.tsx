@@ -0,0 +1,92 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Admin Creators Page — Server Component)
+// PURPOSE: Fetches creator codes (coupons with a `creator` block)
+//          and what each has earned, been paid and is owed, for
+//          CreatorsClient.
+// LOCATION: src/app/admin/creators/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import { connectToDatabase } from "@/lib/mongodb";
+import { type CreatorCoupon, getCreatorEarnings } from "@/lib/creators";
+import CreatorsClient from "./CreatorsClient";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface CreatorRow {
+    id: string;                    // coupons._id
+    name: string;
+    code: string;
+    type: "percentage" | "flat";
+    value: number;
+    commissionPercent: number;
+    tokenPrefix: string;
+    active: boolean;
+    orders: number;
+    sales: number;
+    earned: number;
+    paid: number;
+    owed: number;
+    lastPayoutAt: string | null;
+}
+
+export const dynamic = "force-dynamic";
+
+// ─── Data Fetcher ──────────────────────────────────────────────
+
+async function getCreators(): Promise<CreatorRow[]> {
+    try {
+        const db = await connectToDatabase();
+        const coupons = (await db
+            .collection("coupons")
+            .find({ creator: { $exists: true } })
+            .sort({ "creator.createdAt": -1 })
+            .toArray()) as CreatorCoupon[];
+        const earnings = await getCreatorEarnings(db, coupons.map((c) => c._id.toString()));
+
+        return coupons.map((c) => {
+            const e = earnings.get(c._id.toString());
+            return {
+                id: c._id.toString(),
+                name: c.creator.name,
+                code: c.code,
+                type: c.type,
+                value: c.value,
+                commissionPercent: c.creator.commissionPercent,
+                tokenPrefix: c.creator.tokenPrefix,
+                active: c.active ?? true,
+                orders: e?.orders ?? 0,
+                sales: e?.sales ?? 0,
+                earned: e?.earned ?? 0,
+                paid: e?.paid ?? 0,
+                owed: e?.owed ?? 0,
+                lastPayoutAt: e?.lastPayoutAt ? new Date(e.lastPayoutAt).toISOString() : null,
+            };
+        });
+    } catch (error) {
+        console.error("Creators fetch error:", error);
+        return [];
+    }
+}
+
+import { Suspense } from "react";
+import { Loader2 } from "lucide-react";
+import { requireAdminPage } from "@/lib/adminAuth";
+
+async function CreatorsData() {
+    const creators = await getCreators();
+    return <CreatorsClient creators={creators} />;
+}
+
+export default async function CreatorsPage() {
+    await requireAdminPage("creators.manage");
+    return (
+        <Suspense fallback={
+            <div className="flex flex-col items-center justify-center py-32">
+                <Loader2 className="w-8 h-8 text-emerald-500 animate-spin mb-4" />
+                <p className="text-zinc-500 text-sm">Loading creators...</p>
+            </div>
+        }>
+            <CreatorsData />
+        </Suspense>
+    );
+}
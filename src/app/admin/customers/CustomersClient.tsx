@@ -1,13 +1,13 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: CustomersClient.tsx
-// PURPOSE: Client-side customer list with search, sort, and
-//          expandable order history.
+// PURPOSE: Client-side customer list with search, sort,
+//          expandable order history and loyalty point adjustments.
 // LOCATION: src/app/admin/customers/CustomersClient.tsx
 // ═══════════════════════════════════════════════════════════════
 
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useTransition } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
     Search,
@@ -21,8 +21,13 @@ import {
     XCircle,
     Clock,
     Crown,
+    Truck,
+    AlertTriangle,
     XCircle as XIcon,
+    Star,
+    Loader2,
 } from "lucide-react";
+import { adjustLoyaltyPoints } from "./actions";
 
 // ─── Types ─────────────────────────────────────────────────────
 
@@ -41,9 +46,15 @@ interface CustomerOrder {
 }
 
 interface Customer {
-    username: string;
+    key: string;                   // UUID / XUID, or the lowercased name if unresolved
+    username: string;              // Most recent name
+    previousNames: string[];       // Other names seen on this player's orders
+    playerId: string | null;
+    playerIdType: "uuid" | "xuid" | null;
     totalOrders: number;
     totalSpend: number;
+    points: number;
+    accountEmail: string | null;   // Player account that linked this username
     lastOrderDate: string;
     editions: string[];
     orders: CustomerOrder[];
@@ -51,12 +62,89 @@ interface Customer {
 
 type SortKey = "spend" | "orders" | "recent";
 
+// ─── Points Adjuster ───────────────────────────────────────────
+
+function PointsAdjuster({ customer }: { customer: Customer }) {
+    const [points, setPoints] = useState("");
+    const [reason, setReason] = useState("");
+    const [error, setError] = useState("");
+    const [isPending, startTransition] = useTransition();
+
+    const handleAdjust = (sign: 1 | -1) => {
+        const amount = parseInt(points, 10);
+        if (!amount || amount <= 0) {
+            setError("Enter how many points.");
+            return;
+        }
+        if (!reason.trim()) {
+            setError("Give a reason for the adjustment.");
+            return;
+        }
+        setError("");
+        startTransition(async () => {
+            const result = await adjustLoyaltyPoints(customer.username, sign * amount, reason);
+            if (result.success) {
+                setPoints("");
+                setReason("");
+            } else {
+                setError(result.error || "Failed to adjust points.");
+            }
+        });
+    };
+
+    return (
+        <div className="mb-4 p-3 bg-zinc-800/30 rounded-xl">
+            <p className="text-zinc-500 text-xs font-semibold uppercase tracking-wider mb-2">
+                Adjust Points
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                    type="number"
+                    min="1"
+                    value={points}
+                    onChange={(e) => setPoints(e.target.value)}
+                    placeholder="Points"
+                    className="sm:w-28 px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                />
+                <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason (e.g. event prize, refund goodwill)"
+                    maxLength={200}
+                    className="flex-1 px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                />
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => handleAdjust(1)}
+                        disabled={isPending}
+                        className="flex items-center justify-center gap-1.5 px-3 py-2 bg-emerald-500/15 text-emerald-400 border border-emerald-500/30 rounded-lg text-xs font-medium hover:bg-emerald-500/25 transition-all disabled:opacity-50 cursor-pointer"
+                    >
+                        {isPending && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                        Add
+                    </button>
+                    <button
+                        onClick={() => handleAdjust(-1)}
+                        disabled={isPending}
+                        className="flex items-center justify-center gap-1.5 px-3 py-2 bg-red-500/10 text-red-400 border border-red-500/30 rounded-lg text-xs font-medium hover:bg-red-500/20 transition-all disabled:opacity-50 cursor-pointer"
+                    >
+                        Take
+                    </button>
+                </div>
+            </div>
+            {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+        </div>
+    );
+}
+
 // ═══════════════════════════════════════════════════════════════
 
 export default function CustomersClient({
     customers,
+    canAdjustPoints,
 }: {
     customers: Customer[];
+    canAdjustPoints: boolean;
 }) {
     const [searchQuery, setSearchQuery] = useState("");
     const [sortBy, setSortBy] = useState<SortKey>("spend");
@@ -69,7 +157,10 @@ export default function CustomersClient({
         if (searchQuery.trim()) {
             const q = searchQuery.toLowerCase().trim();
             result = result.filter((c) =>
-                c.username.toLowerCase().includes(q)
+                c.username.toLowerCase().includes(q) ||
+                c.previousNames.some((name) => name.toLowerCase().includes(q)) ||
+                c.playerId?.includes(q) ||
+                c.accountEmail?.includes(q)
             );
         }
 
@@ -102,6 +193,27 @@ export default function CustomersClient({
                         Approved
                     </span>
                 );
+            case "pending-delivery":
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-cyan-500/10 text-cyan-400 rounded-full text-[10px] font-medium">
+                        <Truck className="w-2.5 h-2.5" />
+                        Delivering
+                    </span>
+                );
+            case "delivered":
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-emerald-500/10 text-emerald-400 rounded-full text-[10px] font-medium">
+                        <CheckCircle2 className="w-2.5 h-2.5" />
+                        Delivered
+                    </span>
+                );
+            case "delivery-failed":
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-500/10 text-orange-400 rounded-full text-[10px] font-medium">
+                        <AlertTriangle className="w-2.5 h-2.5" />
+                        Delivery Failed
+                    </span>
+                );
             case "rejected":
                 return (
                     <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-red-500/10 text-red-400 rounded-full text-[10px] font-medium">
@@ -128,7 +240,7 @@ export default function CustomersClient({
                     <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
                     <input
                         type="text"
-                        placeholder="Search by username..."
+                        placeholder="Search by username, UUID or email..."
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
                         className="w-full pl-10 pr-4 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all"
@@ -189,7 +301,7 @@ export default function CustomersClient({
                 <div className="space-y-3">
                     {sortedCustomers.map((customer, idx) => (
                         <motion.div
-                            key={customer.username}
+                            key={customer.key}
                             initial={{ opacity: 0, y: 10 }}
                             animate={{ opacity: 1, y: 0 }}
                             transition={{ delay: idx * 0.03 }}
@@ -199,9 +311,9 @@ export default function CustomersClient({
                             <button
                                 onClick={() =>
                                     setExpandedUser(
-                                        expandedUser === customer.username
+                                        expandedUser === customer.key
                                             ? null
-                                            : customer.username
+                                            : customer.key
                                     )
                                 }
                                 className="w-full flex items-center justify-between p-4 md:p-5 cursor-pointer text-left"
@@ -235,6 +347,25 @@ export default function CustomersClient({
                                         <p className="text-white font-medium font-mono text-sm">
                                             {customer.username}
                                         </p>
+                                        {customer.playerId && (
+                                            <p
+                                                className="text-zinc-600 text-[10px] font-mono"
+                                                title={customer.playerIdType === "xuid" ? "Xbox XUID" : "Minecraft UUID"}
+                                            >
+                                                {customer.playerIdType === "xuid" ? "XUID" : "UUID"} {customer.playerId}
+                                            </p>
+                                        )}
+                                        {customer.previousNames.length > 0 && (
+                                            <p className="text-zinc-500 text-xs">
+                                                Also ordered as{" "}
+                                                <span className="font-mono">{customer.previousNames.join(", ")}</span>
+                                            </p>
+                                        )}
+                                        {customer.accountEmail && (
+                                            <p className="text-zinc-400 text-xs">
+                                                {customer.accountEmail}
+                                            </p>
+                                        )}
                                         <p className="text-zinc-600 text-xs">
                                             {customer.editions.join(", ")} •
                                             Last order{" "}
@@ -267,10 +398,18 @@ export default function CustomersClient({
                                                 ₹{customer.totalSpend.toFixed(2)}
                                             </p>
                                         </div>
+                                        <div className="text-right">
+                                            <p className="text-zinc-500 text-[10px] uppercase tracking-wider">
+                                                Points
+                                            </p>
+                                            <p className="text-amber-400 font-semibold text-sm">
+                                                {customer.points}
+                                            </p>
+                                        </div>
                                     </div>
 
                                     {/* Expand Icon */}
-                                    {expandedUser === customer.username ? (
+                                    {expandedUser === customer.key ? (
                                         <ChevronUp className="w-5 h-5 text-zinc-500" />
                                     ) : (
                                         <ChevronDown className="w-5 h-5 text-zinc-500" />
@@ -280,7 +419,7 @@ export default function CustomersClient({
 
                             {/* Expanded Order History */}
                             <AnimatePresence>
-                                {expandedUser === customer.username && (
+                                {expandedUser === customer.key && (
                                     <motion.div
                                         initial={{ height: 0, opacity: 0 }}
                                         animate={{
@@ -311,8 +450,16 @@ export default function CustomersClient({
                                                         total
                                                     </span>
                                                 </div>
+                                                <div className="flex items-center gap-1.5 text-xs">
+                                                    <Star className="w-3.5 h-3.5 text-amber-400" />
+                                                    <span className="text-zinc-400">
+                                                        {customer.points} points
+                                                    </span>
+                                                </div>
                                             </div>
 
+                                            {canAdjustPoints && <PointsAdjuster customer={customer} />}
+
                                             <p className="text-zinc-500 text-xs font-semibold uppercase tracking-wider mb-3">
                                                 Order History
                                             </p>
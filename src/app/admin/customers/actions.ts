@@ -0,0 +1,61 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Customer Server Actions)
+// PURPOSE: Server actions for the customers page — adjusting a
+//          player's loyalty points by hand.
+// LOCATION: src/app/admin/customers/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { connectToDatabase } from "@/lib/mongodb";
+import { logActivity } from "@/lib/logActivity";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import { POINTS_ADJUST_MAX, adjustPoints } from "@/lib/loyalty";
+
+const REASON_MAX = 200;
+
+/**
+ * Adds (positive) or takes (negative) loyalty points. A reason
+ * is required — it goes into the points ledger and activity log.
+ */
+export async function adjustLoyaltyPoints(username: string, points: number, reason: string) {
+    try {
+        const admin = await requirePermission("loyalty.adjust");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const player = String(username ?? "").trim();
+        const note = String(reason ?? "").trim().slice(0, REASON_MAX);
+        if (!player) {
+            return { success: false, error: "Username is required." };
+        }
+        if (!Number.isInteger(points) || points === 0 || Math.abs(points) > POINTS_ADJUST_MAX) {
+            return { success: false, error: `Points must be a whole number between -${POINTS_ADJUST_MAX} and ${POINTS_ADJUST_MAX}, not 0.` };
+        }
+        if (!note) {
+            return { success: false, error: "Give a reason for the adjustment." };
+        }
+
+        const db = await connectToDatabase();
+        const balance = await adjustPoints(db, player, points, note, admin.username);
+        if (balance === null) {
+            return { success: false, error: "That would take the balance below zero." };
+        }
+
+        await logActivity({
+            action: "loyalty_points_adjusted",
+            entity: player,
+            details: `${points > 0 ? "+" : ""}${points} points — ${note}`,
+            before: { points: balance - points },
+            after: { points: balance },
+        });
+
+        revalidatePath("/admin/customers");
+        return { success: true, balance };
+    } catch (error) {
+        console.error("Adjust loyalty points error:", error);
+        return { success: false, error: "Failed to adjust points." };
+    }
+}
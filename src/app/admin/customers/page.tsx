@@ -1,12 +1,19 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: page.tsx  (Admin Customers)
-// PURPOSE: Display unique customers with stats from orders.
+// PURPOSE: Display unique customers with stats from orders and
+//          their loyalty points. Players are told apart by their
+//          Java UUID / Bedrock XUID, so a renamed player keeps
+//          one history.
 // LOCATION: src/app/admin/customers/page.tsx
 // ═══════════════════════════════════════════════════════════════
 
 import { connectToDatabase } from "@/lib/mongodb";
 import { Users } from "lucide-react";
 import CustomersClient from "./CustomersClient";
+import { getAdminSession, requireAdminPage } from "@/lib/adminAuth";
+import { can } from "@/lib/adminSession";
+import { getPointsBalances, loyaltyAccountKey } from "@/lib/loyalty";
+import { getAccountEmails } from "@/lib/playerAccounts";
 
 // ─── Data Fetcher ──────────────────────────────────────────────
 
@@ -15,11 +22,18 @@ async function getCustomersData() {
         const db = await connectToDatabase();
         const ordersCol = db.collection("orders");
 
-        const customersResult = await ordersCol
+        // One row per player: their UUID / XUID when checkout could
+        // resolve it (so renames stay together), else the name
+        const groups = await ordersCol
             .aggregate([
+                { $sort: { createdAt: 1 } },
                 {
                     $group: {
-                        _id: "$minecraftUsername",
+                        _id: { $ifNull: ["$playerId", { $toLower: "$minecraftUsername" }] },
+                        playerId: { $last: "$playerId" },
+                        playerIdType: { $last: "$playerIdType" },
+                        username: { $last: "$minecraftUsername" },   // Most recent name
+                        usernames: { $addToSet: "$minecraftUsername" },
                         totalOrders: { $sum: 1 },
                         totalSpend: { $sum: "$total" },
                         lastOrderDate: { $max: "$createdAt" },
@@ -35,15 +49,30 @@ async function getCustomersData() {
                         },
                     },
                 },
-                { $sort: { totalSpend: -1 } },
             ])
             .toArray();
 
+        const customersResult = mergeUnresolvedOrders(groups);
+
+        const usernames = customersResult.map((c) => String(c.username ?? ""));
+        const [points, accountEmails] = await Promise.all([
+            getPointsBalances(db, usernames),
+            getAccountEmails(db, usernames),
+        ]);
+
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         return customersResult.map((c: any) => ({
-            username: c._id as string,
+            key: String(c._id),
+            username: c.username as string,
+            previousNames: (c.usernames as string[]).filter(
+                (name) => name.toLowerCase() !== String(c.username).toLowerCase()
+            ),
+            playerId: (c.playerId as string | null) ?? null,
+            playerIdType: (c.playerIdType as "uuid" | "xuid" | null) ?? null,
             totalOrders: c.totalOrders as number,
             totalSpend: c.totalSpend as number,
+            points: points.get(loyaltyAccountKey(String(c.username ?? ""))) ?? 0,
+            accountEmail: accountEmails.get(String(c.username ?? "").toLowerCase()) ?? null,
             lastOrderDate: c.lastOrderDate
                 ? new Date(c.lastOrderDate).toISOString()
                 : new Date().toISOString(),
@@ -72,6 +101,39 @@ async function getCustomersData() {
     }
 }
 
+/**
+ * Orders placed before IDs were resolved (or when a lookup
+ * failed) are grouped by name. Fold each such group into the
+ * player who has used that name — unless several have, since a
+ * released name can belong to someone else now.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mergeUnresolvedOrders(groups: any[]) {
+    const resolved = groups.filter((g) => g.playerId);
+    const merged = [...resolved];
+
+    for (const group of groups) {
+        if (group.playerId) continue;
+        const owners = resolved.filter((r) =>
+            (r.usernames as string[]).some((name) => name.toLowerCase() === group._id)
+        );
+        if (owners.length !== 1) {
+            merged.push(group);
+            continue;
+        }
+
+        const owner = owners[0];
+        owner.totalOrders += group.totalOrders;
+        owner.totalSpend += group.totalSpend;
+        if (group.lastOrderDate > owner.lastOrderDate) owner.lastOrderDate = group.lastOrderDate;
+        owner.usernames = [...new Set([...owner.usernames, ...group.usernames])];
+        owner.editions = [...new Set([...owner.editions, ...group.editions])];
+        owner.orders = [...group.orders, ...owner.orders];
+    }
+
+    return merged.sort((a, b) => b.totalSpend - a.totalSpend);
+}
+
 // ═══════════════════════════════════════════════════════════════
 
 export const dynamic = "force-dynamic";
@@ -80,18 +142,19 @@ import { Suspense } from "react";
 import { Loader2 } from "lucide-react";
 
 async function CustomersData() {
-    const customers = await getCustomersData();
+    const [customers, session] = await Promise.all([getCustomersData(), getAdminSession()]);
     return (
         <>
             <p className="text-zinc-500 text-sm mb-8 -mt-6">
                 {customers.length} unique players have placed orders
             </p>
-            <CustomersClient customers={customers} />
+            <CustomersClient customers={customers} canAdjustPoints={can(session?.role, "loyalty.adjust")} />
         </>
     );
 }
 
-export default function CustomersPage() {
+export default async function CustomersPage() {
+    await requireAdminPage();
     return (
         <div>
             <div className="mb-2">
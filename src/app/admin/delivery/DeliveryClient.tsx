@@ -0,0 +1,149 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: DeliveryClient.tsx
+// PURPOSE: Client-side dead-letter view for delivery jobs with
+//          tabs (Failed / Retrying) and a requeue button.
+// LOCATION: src/app/admin/delivery/DeliveryClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+    AlertTriangle,
+    Clock,
+    Loader2,
+    RotateCcw,
+    Truck,
+} from "lucide-react";
+import { retryDelivery } from "../orders/actions";
+import type { DeliveryJobRow } from "./page";
+
+// ─── Tabs ──────────────────────────────────────────────────────
+
+type QueueTab = "dead" | "retrying";
+
+const tabs: { key: QueueTab; label: string }[] = [
+    { key: "dead", label: "Failed" },
+    { key: "retrying", label: "Retrying" },
+];
+
+// ═══════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════
+
+export default function DeliveryClient({ jobs }: { jobs: DeliveryJobRow[] }) {
+    const [tab, setTab] = useState<QueueTab>("dead");
+    const [loadingId, setLoadingId] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+
+    const deadJobs = jobs.filter((j) => j.status === "dead");
+    const retryingJobs = jobs.filter((j) => j.status !== "dead");
+    const visible = tab === "dead" ? deadJobs : retryingJobs;
+
+    // ── Handle Requeue ─────────────────────────────────────────
+    const handleRequeue = (job: DeliveryJobRow) => {
+        setLoadingId(job._id);
+        startTransition(async () => {
+            await retryDelivery(job.orderMongoId);
+            setLoadingId(null);
+        });
+    };
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleString("en-IN", {
+            day: "2-digit",
+            month: "short",
+            hour: "2-digit",
+            minute: "2-digit",
+        });
+
+    return (
+        <div>
+            {/* ── Tabs ── */}
+            <div className="flex items-center gap-2 mb-6">
+                {tabs.map((t) => (
+                    <button
+                        key={t.key}
+                        onClick={() => setTab(t.key)}
+                        className={`px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 cursor-pointer ${tab === t.key
+                            ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                            : "bg-zinc-800/50 text-zinc-400 border border-zinc-700/50 hover:text-white hover:bg-zinc-800"
+                            }`}
+                    >
+                        {t.label}
+                        <span className="ml-1.5 text-xs opacity-60">
+                            ({t.key === "dead" ? deadJobs.length : retryingJobs.length})
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {/* ── Job List ── */}
+            {visible.length === 0 ? (
+                <div className="text-center py-16 bg-zinc-900/50 border border-zinc-800/50 rounded-2xl">
+                    <div className="inline-flex items-center justify-center w-16 h-16 bg-zinc-800/50 rounded-2xl mb-3">
+                        <Truck className="w-8 h-8 text-zinc-600" />
+                    </div>
+                    <p className="text-zinc-500 text-sm">
+                        {tab === "dead"
+                            ? "No failed deliveries. Everything reached the server!"
+                            : "No deliveries waiting to retry."}
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {visible.map((job) => (
+                        <div
+                            key={job._id}
+                            className={`bg-zinc-900/70 border rounded-2xl p-4 md:p-5 ${job.status === "dead"
+                                ? "border-red-500/20"
+                                : "border-zinc-800/50"
+                                }`}
+                        >
+                            <div className="flex flex-wrap items-center justify-between gap-3">
+                                <div className="flex items-center gap-3">
+                                    <code className="text-xs text-zinc-500 bg-zinc-800/50 px-2.5 py-1 rounded-lg font-mono">
+                                        {job.orderId}
+                                    </code>
+                                    {job.channel === "plugin" && (
+                                        <span className="px-2.5 py-1 bg-violet-500/10 border border-violet-500/20 text-violet-400 rounded-full text-xs font-medium">
+                                            Plugin{job.claimedBy && job.status === "running" ? ` · ${job.claimedBy}` : ""}
+                                        </span>
+                                    )}
+                                    {job.status === "dead" ? (
+                                        <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-red-500/10 border border-red-500/20 text-red-400 rounded-full text-xs font-medium">
+                                            <AlertTriangle className="w-3 h-3" />
+                                            Gave up after {job.attempts} tries
+                                        </span>
+                                    ) : (
+                                        <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-amber-500/10 border border-amber-500/20 text-amber-400 rounded-full text-xs font-medium">
+                                            <Clock className="w-3 h-3" />
+                                            Try {job.attempts + 1}/{job.maxAttempts} at {formatDate(job.nextRunAt)}
+                                        </span>
+                                    )}
+                                </div>
+                                <button
+                                    onClick={() => handleRequeue(job)}
+                                    disabled={isPending && loadingId === job._id}
+                                    className="flex items-center gap-2 px-4 py-2 bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 rounded-xl text-sm font-medium hover:bg-cyan-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                >
+                                    {isPending && loadingId === job._id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                    ) : (
+                                        <RotateCcw className="w-4 h-4" />
+                                    )}
+                                    {job.status === "dead" ? "Requeue" : "Retry Now"}
+                                </button>
+                            </div>
+                            {job.lastError && (
+                                <p className="mt-3 text-xs text-red-400/80 font-mono break-all">
+                                    {job.lastError}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
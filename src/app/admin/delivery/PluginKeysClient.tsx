@@ -0,0 +1,169 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: PluginKeysClient.tsx
+// PURPOSE: Lists the API keys of server-side delivery plugins,
+//          creates new ones (shown once) and revokes old ones.
+// LOCATION: src/app/admin/delivery/PluginKeysClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+    Check,
+    Copy,
+    KeyRound,
+    Loader2,
+    Plus,
+    Trash2,
+} from "lucide-react";
+import { createPluginServer, revokePluginServer } from "./actions";
+import type { PluginServerRow } from "./page";
+
+// ═══════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════
+
+export default function PluginKeysClient({ servers }: { servers: PluginServerRow[] }) {
+    const [name, setName] = useState("");
+    const [newKey, setNewKey] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState("");
+    const [loadingId, setLoadingId] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+
+    // ── Create Key ─────────────────────────────────────────────
+    const handleCreate = () => {
+        setError("");
+        setLoadingId("new");
+        startTransition(async () => {
+            const result = await createPluginServer(name);
+            if (result.success && result.key) {
+                setNewKey(result.key);
+                setCopied(false);
+                setName("");
+            } else {
+                setError(result.error || "Failed to create API key.");
+            }
+            setLoadingId(null);
+        });
+    };
+
+    // ── Revoke Key ─────────────────────────────────────────────
+    const handleRevoke = (server: PluginServerRow) => {
+        if (!confirm(`Revoke the key for "${server.name}"? The plugin will stop receiving deliveries.`)) return;
+        setLoadingId(server._id);
+        startTransition(async () => {
+            await revokePluginServer(server._id, server.name);
+            setLoadingId(null);
+        });
+    };
+
+    const handleCopy = async () => {
+        if (!newKey) return;
+        await navigator.clipboard.writeText(newKey);
+        setCopied(true);
+    };
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleString("en-IN", {
+            day: "2-digit",
+            month: "short",
+            hour: "2-digit",
+            minute: "2-digit",
+        });
+
+    return (
+        <div className="mt-10">
+            <div className="flex items-center gap-2 mb-1">
+                <KeyRound className="w-5 h-5 text-emerald-400" />
+                <h2 className="text-lg font-bold text-white">Plugin API Keys</h2>
+            </div>
+            <p className="text-zinc-500 text-sm mb-4">
+                For servers that pull deliveries from /api/delivery/pending instead of using RCON.
+                Switch Settings → In-Game Delivery to &quot;Plugin&quot; to route new orders here.
+            </p>
+
+            {/* ── Create ── */}
+            <div className="flex flex-col sm:flex-row gap-2 mb-4">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Server name, e.g. Survival"
+                    className="flex-1 px-4 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-sm text-white placeholder:text-zinc-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all"
+                />
+                <button
+                    onClick={handleCreate}
+                    disabled={!name.trim() || (isPending && loadingId === "new")}
+                    className="flex items-center justify-center gap-2 px-4 py-2.5 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-xl text-sm font-medium hover:bg-emerald-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                >
+                    {isPending && loadingId === "new" ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                        <Plus className="w-4 h-4" />
+                    )}
+                    Create Key
+                </button>
+            </div>
+            {error && <p className="text-red-400 text-xs mb-4">{error}</p>}
+
+            {/* ── New Key (shown once) ── */}
+            {newKey && (
+                <div className="mb-4 p-4 bg-emerald-500/5 border border-emerald-500/20 rounded-2xl">
+                    <p className="text-emerald-400 text-xs font-medium mb-2">
+                        Copy this key now — it will not be shown again.
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 text-xs text-white bg-zinc-900/70 px-3 py-2 rounded-lg font-mono break-all">
+                            {newKey}
+                        </code>
+                        <button
+                            onClick={handleCopy}
+                            className="p-2 text-zinc-400 hover:text-white transition-colors cursor-pointer"
+                        >
+                            {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* ── Key List ── */}
+            {servers.length === 0 ? (
+                <p className="text-zinc-600 text-sm">No plugin keys yet.</p>
+            ) : (
+                <div className="space-y-2">
+                    {servers.map((server) => (
+                        <div
+                            key={server._id}
+                            className="flex flex-wrap items-center justify-between gap-3 bg-zinc-900/70 border border-zinc-800/50 rounded-2xl px-4 py-3"
+                        >
+                            <div className="flex items-center gap-3">
+                                <span className="text-white text-sm font-medium">{server.name}</span>
+                                <code className="text-xs text-zinc-500 bg-zinc-800/50 px-2 py-0.5 rounded-lg font-mono">
+                                    {server.keyPrefix}…
+                                </code>
+                                <span className="text-zinc-500 text-xs">
+                                    {server.lastSeenAt
+                                        ? `Last poll ${formatDate(server.lastSeenAt)}`
+                                        : "Never polled"}
+                                </span>
+                            </div>
+                            <button
+                                onClick={() => handleRevoke(server)}
+                                disabled={isPending && loadingId === server._id}
+                                className="flex items-center gap-2 px-3 py-1.5 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-xs font-medium hover:bg-red-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                            >
+                                {isPending && loadingId === server._id ? (
+                                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                                ) : (
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                )}
+                                Revoke
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
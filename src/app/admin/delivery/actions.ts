@@ -0,0 +1,72 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Delivery Server Actions)
+// PURPOSE: Server actions for managing the API keys that
+//          server-side delivery plugins use to pull orders.
+// LOCATION: src/app/admin/delivery/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createDeliveryServer, revokeDeliveryServer } from "@/lib/deliveryServers";
+import { logActivity } from "@/lib/logActivity";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+
+// ─── Create Plugin Key ─────────────────────────────────────────
+
+/**
+ * Creates a plugin server and returns its API key. The key is
+ * only ever returned here — it is stored hashed.
+ */
+export async function createPluginServer(name: string) {
+    try {
+        if (!(await requirePermission("delivery.keys"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const trimmed = name.trim();
+        if (!trimmed) {
+            return { success: false, error: "Server name is required." };
+        }
+
+        const { key } = await createDeliveryServer(trimmed);
+        await logActivity({
+            action: "delivery_server_created",
+            entity: trimmed,
+            details: "Created a delivery plugin API key",
+        });
+
+        revalidatePath("/admin/delivery");
+        return { success: true, key };
+    } catch (error) {
+        console.error("Create plugin server error:", error);
+        return { success: false, error: "Failed to create API key." };
+    }
+}
+
+// ─── Revoke Plugin Key ─────────────────────────────────────────
+
+export async function revokePluginServer(id: string, name: string) {
+    try {
+        if (!(await requirePermission("delivery.keys"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const revoked = await revokeDeliveryServer(id);
+        if (!revoked) {
+            return { success: false, error: "Key not found or already revoked." };
+        }
+
+        await logActivity({
+            action: "delivery_server_revoked",
+            entity: name,
+            details: "Revoked a delivery plugin API key",
+        });
+
+        revalidatePath("/admin/delivery");
+        return { success: true };
+    } catch (error) {
+        console.error("Revoke plugin server error:", error);
+        return { success: false, error: "Failed to revoke API key." };
+    }
+}
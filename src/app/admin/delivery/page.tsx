@@ -0,0 +1,148 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Admin Delivery Queue)
+// PURPOSE: Shows the in-game delivery queue: dead-lettered jobs
+//          that ran out of retries, plus jobs still waiting for
+//          their next attempt. Also manages the API keys of
+//          server-side delivery plugins.
+// LOCATION: src/app/admin/delivery/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import { connectToDatabase } from "@/lib/mongodb";
+import { Truck } from "lucide-react";
+import DeliveryClient from "./DeliveryClient";
+import PluginKeysClient from "./PluginKeysClient";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface DeliveryJobRow {
+    _id: string;
+    orderMongoId: string;
+    orderId: string;
+    channel: string;
+    claimedBy: string;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+    nextRunAt: string;
+    lastError: string;
+    updatedAt: string;
+}
+
+export interface PluginServerRow {
+    _id: string;
+    name: string;
+    keyPrefix: string;
+    createdAt: string;
+    lastSeenAt: string | null;
+}
+
+// ─── Data Fetcher ──────────────────────────────────────────────
+
+async function getDeliveryJobs(): Promise<DeliveryJobRow[]> {
+    try {
+        const db = await connectToDatabase();
+        const jobs = await db
+            .collection("deliveryJobs")
+            .find({ status: { $in: ["dead", "queued", "running"] } })
+            .sort({ updatedAt: -1 })
+            .limit(200)
+            .toArray();
+
+        return jobs.map((j) => ({
+            _id: j._id.toString(),
+            orderMongoId: j.orderMongoId || "",
+            orderId: j.orderId || "",
+            channel: j.channel || "rcon",
+            claimedBy: j.claimedBy || "",
+            status: j.status || "queued",
+            attempts: j.attempts || 0,
+            maxAttempts: j.maxAttempts || 0,
+            nextRunAt: j.nextRunAt
+                ? new Date(j.nextRunAt).toISOString()
+                : new Date().toISOString(),
+            lastError: j.lastError || "",
+            updatedAt: j.updatedAt
+                ? new Date(j.updatedAt).toISOString()
+                : new Date().toISOString(),
+        }));
+    } catch (error) {
+        console.error("Fetch delivery jobs error:", error);
+        return [];
+    }
+}
+
+async function getPluginServers(): Promise<PluginServerRow[]> {
+    try {
+        const db = await connectToDatabase();
+        const servers = await db
+            .collection("deliveryServers")
+            .find({ active: true })
+            .sort({ createdAt: -1 })
+            .toArray();
+
+        return servers.map((s) => ({
+            _id: s._id.toString(),
+            name: s.name || "",
+            keyPrefix: s.keyPrefix || "",
+            createdAt: s.createdAt
+                ? new Date(s.createdAt).toISOString()
+                : new Date().toISOString(),
+            lastSeenAt: s.lastSeenAt ? new Date(s.lastSeenAt).toISOString() : null,
+        }));
+    } catch (error) {
+        console.error("Fetch plugin servers error:", error);
+        return [];
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PAGE COMPONENT (Server)
+// ═══════════════════════════════════════════════════════════════
+
+export const dynamic = "force-dynamic";
+
+import { Suspense } from "react";
+import { Loader2 } from "lucide-react";
+import { requireAdminPage } from "@/lib/adminAuth";
+
+async function DeliveryData() {
+    const [jobs, servers] = await Promise.all([
+        getDeliveryJobs(),
+        getPluginServers(),
+    ]);
+    return (
+        <>
+            <DeliveryClient jobs={jobs} />
+            <PluginKeysClient servers={servers} />
+        </>
+    );
+}
+
+export default async function AdminDeliveryPage() {
+    await requireAdminPage();
+    return (
+        <div>
+            {/* ── Page Header (Instant Load) ── */}
+            <div className="mb-8">
+                <div className="flex items-center gap-3 mb-2">
+                    <Truck className="w-6 h-6 text-emerald-400" />
+                    <h1 className="text-2xl md:text-3xl font-bold text-white">
+                        Delivery Queue
+                    </h1>
+                </div>
+                <p className="text-zinc-500 text-sm">
+                    Failed in-game deliveries and jobs waiting to retry
+                </p>
+            </div>
+
+            <Suspense fallback={
+                <div className="flex flex-col items-center justify-center py-32">
+                    <Loader2 className="w-8 h-8 text-emerald-500 animate-spin mb-4" />
+                    <p className="text-zinc-500 text-sm">Loading delivery queue...</p>
+                </div>
+            }>
+                <DeliveryData />
+            </Suspense>
+        </div>
+    );
+}
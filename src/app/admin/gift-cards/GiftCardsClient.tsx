@@ -0,0 +1,343 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: GiftCardsClient.tsx
+// PURPOSE: Client-side admin page for gift cards: outstanding
+//          credit at a glance, issuing cards by hand, looking a
+//          code up and voiding cards.
+// LOCATION: src/app/admin/gift-cards/GiftCardsClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+    AlertCircle,
+    Ban,
+    Check,
+    Copy,
+    CreditCard,
+    Loader2,
+    Plus,
+    Search,
+    X,
+} from "lucide-react";
+import { issueGiftCard, voidGiftCard } from "./actions";
+import type { GiftCardRow } from "./page";
+
+// ═══════════════════════════════════════════════════════════════
+
+export default function GiftCardsClient({ cards }: { cards: GiftCardRow[] }) {
+    const [showForm, setShowForm] = useState(false);
+    const [formAmount, setFormAmount] = useState("");
+    const [formNote, setFormNote] = useState("");
+    const [newCode, setNewCode] = useState<string | null>(null);
+    const [copiedCode, setCopiedCode] = useState<string | null>(null);
+    const [search, setSearch] = useState("");
+    const [error, setError] = useState("");
+    const [loadingId, setLoadingId] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+
+    // ── Stats ──────────────────────────────────────────────────
+    const active = cards.filter((c) => c.status === "active");
+    const outstanding = active.reduce((sum, c) => sum + c.balance, 0);
+    const redeemed = cards.reduce((sum, c) => sum + (c.initialBalance - c.balance), 0);
+
+    const filtered = useMemo(() => {
+        const q = search.toLowerCase().trim();
+        if (!q) return cards;
+        return cards.filter(
+            (c) =>
+                c.code.toLowerCase().includes(q) ||
+                c.orderId?.toLowerCase().includes(q) ||
+                c.note?.toLowerCase().includes(q) ||
+                c.redemptions.some((r) => r.orderId.toLowerCase().includes(q))
+        );
+    }, [cards, search]);
+
+    // ── Issue Card ─────────────────────────────────────────────
+    const handleIssue = () => {
+        const amount = parseFloat(formAmount);
+        if (!amount || amount <= 0) {
+            setError("Enter an amount greater than 0.");
+            return;
+        }
+        setError("");
+        setLoadingId("new");
+        startTransition(async () => {
+            const result = await issueGiftCard(amount, formNote);
+            if (result.success && result.code) {
+                setNewCode(result.code);
+                setFormAmount("");
+                setFormNote("");
+                setShowForm(false);
+            } else {
+                setError(result.error || "Failed to issue gift card.");
+            }
+            setLoadingId(null);
+        });
+    };
+
+    // ── Void Card ──────────────────────────────────────────────
+    const handleVoid = (card: GiftCardRow) => {
+        if (!confirm(`Void ${card.code}? Its remaining ₹${card.balance.toFixed(2)} can no longer be spent.`)) return;
+        setLoadingId(card.code);
+        startTransition(async () => {
+            const result = await voidGiftCard(card.code);
+            if (!result.success) alert(result.error || "Failed to void gift card.");
+            setLoadingId(null);
+        });
+    };
+
+    // ── Copy Code ──────────────────────────────────────────────
+    const copyCode = (code: string) => {
+        navigator.clipboard.writeText(code);
+        setCopiedCode(code);
+        setTimeout(() => setCopiedCode(null), 1500);
+    };
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleDateString("en-IN", {
+            day: "2-digit",
+            month: "short",
+            year: "numeric",
+        });
+
+    return (
+        <div>
+            {/* ── Header ── */}
+            <div className="flex items-center justify-between mb-8">
+                <div>
+                    <div className="flex items-center gap-3 mb-2">
+                        <CreditCard className="w-6 h-6 text-emerald-400" />
+                        <h1 className="text-2xl md:text-3xl font-bold text-white">
+                            Gift Cards
+                        </h1>
+                    </div>
+                    <p className="text-zinc-500 text-sm">
+                        Store credit bought by players or issued by staff
+                    </p>
+                </div>
+                <button
+                    onClick={() => {
+                        setError("");
+                        setShowForm(!showForm);
+                    }}
+                    className="flex items-center gap-2 px-4 py-2.5 bg-emerald-500/15 text-emerald-400 border border-emerald-500/30 rounded-xl text-sm font-medium hover:bg-emerald-500/25 transition-all cursor-pointer"
+                >
+                    {showForm ? (
+                        <>
+                            <X className="w-4 h-4" /> Cancel
+                        </>
+                    ) : (
+                        <>
+                            <Plus className="w-4 h-4" /> Issue Card
+                        </>
+                    )}
+                </button>
+            </div>
+
+            {/* ── Stats ── */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                {[
+                    { label: "Active Cards", value: active.length.toString() },
+                    { label: "Outstanding Credit", value: `₹${outstanding.toFixed(2)}` },
+                    { label: "Credit Spent", value: `₹${redeemed.toFixed(2)}` },
+                ].map((stat) => (
+                    <div key={stat.label} className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-5">
+                        <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">{stat.label}</p>
+                        <p className="text-white text-2xl font-bold">{stat.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            {/* ── Issue Form ── */}
+            <AnimatePresence>
+                {showForm && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: "auto", opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className="overflow-hidden mb-6"
+                    >
+                        <div className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-6">
+                            <h3 className="text-white font-semibold mb-4">Issue a Gift Card</h3>
+
+                            {error && (
+                                <div className="flex items-center gap-2 px-4 py-2.5 mb-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+                                    <AlertCircle className="w-4 h-4 shrink-0" />
+                                    {error}
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+                                <div>
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Amount (₹) *
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formAmount}
+                                        onChange={(e) => setFormAmount(e.target.value)}
+                                        placeholder="e.g. 10"
+                                        min="0"
+                                        step="0.01"
+                                        className="w-full px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                                    />
+                                </div>
+                                <div className="sm:col-span-2">
+                                    <label className="block text-zinc-500 text-xs uppercase tracking-wider mb-1.5">
+                                        Note
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={formNote}
+                                        onChange={(e) => setFormNote(e.target.value)}
+                                        placeholder="e.g. Refund for ORD-… / Event winner Steve"
+                                        maxLength={200}
+                                        className="w-full px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                                    />
+                                </div>
+                            </div>
+
+                            <button
+                                onClick={handleIssue}
+                                disabled={isPending && loadingId === "new"}
+                                className="flex items-center gap-2 px-5 py-2.5 bg-emerald-500/20 text-emerald-400 border border-emerald-500/30 rounded-xl text-sm font-medium hover:bg-emerald-500/30 transition-all disabled:opacity-50 cursor-pointer"
+                            >
+                                {isPending && loadingId === "new" && <Loader2 className="w-4 h-4 animate-spin" />}
+                                Issue Card
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* ── New Card ── */}
+            {newCode && (
+                <div className="mb-6 p-4 bg-emerald-500/5 border border-emerald-500/20 rounded-2xl">
+                    <p className="text-emerald-400 text-xs font-medium mb-2">
+                        Gift card issued — send this code to the player.
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 text-sm text-white bg-zinc-900/70 px-3 py-2 rounded-lg font-mono tracking-wider">
+                            {newCode}
+                        </code>
+                        <button
+                            onClick={() => copyCode(newCode)}
+                            className="p-2 text-zinc-400 hover:text-white transition-colors cursor-pointer"
+                        >
+                            {copiedCode === newCode ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* ── Search ── */}
+            <div className="relative mb-4">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-600" />
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by code, order ID or note..."
+                    className="w-full pl-10 pr-4 py-2.5 bg-zinc-900/70 border border-zinc-800/50 rounded-xl text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                />
+            </div>
+
+            {/* ── Card List ── */}
+            {filtered.length === 0 ? (
+                <div className="text-center py-16 bg-zinc-900/50 border border-zinc-800/50 rounded-2xl">
+                    <div className="inline-flex items-center justify-center w-16 h-16 bg-zinc-800/50 rounded-2xl mb-3">
+                        <CreditCard className="w-8 h-8 text-zinc-600" />
+                    </div>
+                    <p className="text-zinc-500 text-sm">
+                        {cards.length === 0 ? "No gift cards yet." : "No gift cards match your search."}
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {filtered.map((card) => {
+                        const isVoid = card.status === "void";
+                        const isEmpty = !isVoid && card.balance <= 0;
+
+                        return (
+                            <div
+                                key={card.code}
+                                className={`bg-zinc-900/70 border rounded-2xl p-5 transition-all ${isVoid || isEmpty
+                                    ? "border-zinc-800/30 opacity-60"
+                                    : "border-zinc-800/50 hover:border-zinc-700/50"
+                                    }`}
+                            >
+                                <div className="flex flex-wrap items-center justify-between gap-3">
+                                    <div>
+                                        <div className="flex items-center gap-2 mb-1">
+                                            <code className="text-white font-bold font-mono text-sm tracking-wider">
+                                                {card.code}
+                                            </code>
+                                            <button
+                                                onClick={() => copyCode(card.code)}
+                                                className="text-zinc-500 hover:text-white transition-colors cursor-pointer"
+                                            >
+                                                {copiedCode === card.code ? (
+                                                    <Check className="w-3.5 h-3.5 text-emerald-400" />
+                                                ) : (
+                                                    <Copy className="w-3.5 h-3.5" />
+                                                )}
+                                            </button>
+                                            {isVoid && (
+                                                <span className="px-2 py-0.5 bg-red-500/10 text-red-400 rounded-full text-[10px] font-medium">
+                                                    Void
+                                                </span>
+                                            )}
+                                            {isEmpty && (
+                                                <span className="px-2 py-0.5 bg-zinc-500/10 text-zinc-400 rounded-full text-[10px] font-medium">
+                                                    Used Up
+                                                </span>
+                                            )}
+                                        </div>
+                                        <p className="text-zinc-500 text-xs">
+                                            ₹{card.balance.toFixed(2)} of ₹{card.initialBalance.toFixed(2)} left
+                                            {" • "}
+                                            {card.source === "order"
+                                                ? `Bought on ${card.orderId}`
+                                                : `Issued by ${card.issuedBy || "admin"}`}
+                                            {" • "}
+                                            {formatDate(card.createdAt)}
+                                        </p>
+                                        {card.note && (
+                                            <p className="text-zinc-600 text-xs mt-0.5">{card.note}</p>
+                                        )}
+                                        {card.redemptions.length > 0 && (
+                                            <p className="text-zinc-600 text-xs mt-0.5">
+                                                Spent on{" "}
+                                                {card.redemptions
+                                                    .map((r) => `${r.orderId} (₹${r.amount.toFixed(2)})`)
+                                                    .join(", ")}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {!isVoid && (
+                                        <button
+                                            onClick={() => handleVoid(card)}
+                                            disabled={isPending && loadingId === card.code}
+                                            className="flex items-center gap-2 px-3 py-1.5 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-xs font-medium hover:bg-red-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                        >
+                                            {isPending && loadingId === card.code ? (
+                                                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                                            ) : (
+                                                <Ban className="w-3.5 h-3.5" />
+                                            )}
+                                            Void
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
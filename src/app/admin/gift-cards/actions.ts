@@ -0,0 +1,95 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Gift Card Server Actions)
+// PURPOSE: Server actions for issuing gift cards by hand (refunds,
+//          giveaways, compensation) and voiding cards.
+// LOCATION: src/app/admin/gift-cards/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { connectToDatabase } from "@/lib/mongodb";
+import { logActivity } from "@/lib/logActivity";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import {
+    GIFT_CARD_MAX_VALUE,
+    createGiftCard,
+    maskGiftCardCode,
+    normalizeGiftCardCode,
+    voidGiftCard as voidCard,
+} from "@/lib/giftCards";
+import { fromPaise } from "@/lib/pricing";
+
+const NOTE_MAX = 200;
+
+// ─── Issue Gift Card ───────────────────────────────────────────
+
+/** Creates a card worth `amount` ₹ and returns its code. */
+export async function issueGiftCard(amount: number, note: string) {
+    try {
+        const admin = await requirePermission("giftcards.manage");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const value = parseFloat(Number(amount).toFixed(2));
+        if (!Number.isFinite(value) || value <= 0 || value > GIFT_CARD_MAX_VALUE) {
+            return { success: false, error: `Amount must be between ₹0.01 and ₹${GIFT_CARD_MAX_VALUE}.` };
+        }
+        const trimmedNote = note.trim().slice(0, NOTE_MAX);
+
+        const db = await connectToDatabase();
+        const card = await createGiftCard(db, {
+            amount: value,
+            source: "admin",
+            issuedBy: admin.username,
+            ...(trimmedNote && { note: trimmedNote }),
+        });
+
+        await logActivity({
+            action: "gift_card_issued",
+            // Every role reads the log — never the spendable code
+            entity: maskGiftCardCode(card._id),
+            details: `₹${value.toFixed(2)}${trimmedNote ? ` — ${trimmedNote}` : ""}`,
+            after: { balance: value, status: "active" },
+        });
+
+        revalidatePath("/admin/gift-cards");
+        return { success: true, code: card._id };
+    } catch (error) {
+        console.error("Issue gift card error:", error);
+        return { success: false, error: "Failed to issue gift card." };
+    }
+}
+
+// ─── Void Gift Card ────────────────────────────────────────────
+
+/** Stops a card from being spent. Orders already placed keep their credit. */
+export async function voidGiftCard(code: string) {
+    try {
+        if (!(await requirePermission("giftcards.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const normalized = normalizeGiftCardCode(code);
+        const db = await connectToDatabase();
+        const before = normalized ? await voidCard(db, normalized) : null;
+        if (!before) {
+            return { success: false, error: "Gift card not found or already void." };
+        }
+
+        await logActivity({
+            action: "gift_card_voided",
+            entity: maskGiftCardCode(before._id),
+            details: `Voided with ₹${fromPaise(before.balancePaise).toFixed(2)} left`,
+            before: { balance: fromPaise(before.balancePaise), status: before.status },
+            after: { balance: fromPaise(before.balancePaise), status: "void" },
+        });
+
+        revalidatePath("/admin/gift-cards");
+        return { success: true };
+    } catch (error) {
+        console.error("Void gift card error:", error);
+        return { success: false, error: "Failed to void gift card." };
+    }
+}
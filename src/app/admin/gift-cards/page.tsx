@@ -0,0 +1,86 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Admin Gift Cards Page — Server Component)
+// PURPOSE: Fetches gift cards from MongoDB (newest first) and
+//          passes them to GiftCardsClient for issuing / voiding.
+// LOCATION: src/app/admin/gift-cards/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import { connectToDatabase } from "@/lib/mongodb";
+import { getGiftCardsCollection } from "@/lib/giftCards";
+import { fromPaise } from "@/lib/pricing";
+import GiftCardsClient from "./GiftCardsClient";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface GiftCardRow {
+    code: string;
+    initialBalance: number;
+    balance: number;
+    status: "active" | "void";
+    source: "order" | "admin";
+    orderId: string | null;
+    issuedBy: string | null;
+    note: string | null;
+    redemptions: { orderId: string; amount: number; at: string }[];
+    createdAt: string;
+}
+
+export const dynamic = "force-dynamic";
+
+// ─── Data Fetcher ──────────────────────────────────────────────
+
+async function getGiftCards(): Promise<GiftCardRow[]> {
+    try {
+        const db = await connectToDatabase();
+        const cards = await (await getGiftCardsCollection(db))
+            .find({})
+            .sort({ createdAt: -1 })
+            .limit(500)
+            .toArray();
+
+        return cards.map((c) => ({
+            code: c._id,
+            initialBalance: fromPaise(c.initialBalancePaise),
+            balance: fromPaise(c.balancePaise),
+            status: c.status,
+            source: c.source,
+            orderId: c.orderId || null,
+            issuedBy: c.issuedBy || null,
+            note: c.note || null,
+            redemptions: (c.redemptions || []).map((r) => ({
+                orderId: r.orderId,
+                amount: fromPaise(r.amountPaise),
+                at: new Date(r.at).toISOString(),
+            })),
+            createdAt: c.createdAt
+                ? new Date(c.createdAt).toISOString()
+                : new Date().toISOString(),
+        }));
+    } catch (error) {
+        console.error("Gift cards fetch error:", error);
+        return [];
+    }
+}
+
+import { Suspense } from "react";
+import { Loader2 } from "lucide-react";
+import { requireAdminPage } from "@/lib/adminAuth";
+
+async function GiftCardsData() {
+    const cards = await getGiftCards();
+    return <GiftCardsClient cards={cards} />;
+}
+
+export default async function GiftCardsPage() {
+    await requireAdminPage("giftcards.manage");
+    return (
+        <Suspense fallback={
+            <div className="flex flex-col items-center justify-center py-32">
+                <Loader2 className="w-8 h-8 text-emerald-500 animate-spin mb-4" />
+                <p className="text-zinc-500 text-sm">Loading gift cards...</p>
+            </div>
+        }>
+            <GiftCardsData />
+        </Suspense>
+    );
+}
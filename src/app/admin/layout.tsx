@@ -7,7 +7,7 @@
 
 "use client";
 
-import { useState, Suspense } from "react";
+import { useEffect, useState, Suspense } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
@@ -24,12 +24,23 @@ import {
     Settings,
     Ticket,
     ScrollText,
+    Truck,
+    FileSpreadsheet,
+    UserCog,
+    ShieldCheck,
+    CreditCard,
+    Megaphone,
     Loader2
 } from "lucide-react";
+import { can, type AdminPermission, type AdminRole } from "@/lib/adminSession";
 
 // ─── Sidebar Navigation Items (Grouped) ────────────────────────
+// Items with a `permission` are hidden from roles that lack it.
 
-const navGroups = [
+const navGroups: {
+    label: string;
+    items: { label: string; href: string; icon: typeof LayoutDashboard; permission?: AdminPermission }[];
+}[] = [
     {
         label: "Main",
         items: [
@@ -43,6 +54,16 @@ const navGroups = [
                 href: "/admin/orders",
                 icon: ShoppingCart,
             },
+            {
+                label: "Reconciliation",
+                href: "/admin/reconciliation",
+                icon: FileSpreadsheet,
+            },
+            {
+                label: "Deliveries",
+                href: "/admin/delivery",
+                icon: Truck,
+            },
             {
                 label: "Products",
                 href: "/admin/products",
@@ -53,6 +74,18 @@ const navGroups = [
                 href: "/admin/coupons",
                 icon: Ticket,
             },
+            {
+                label: "Gift Cards",
+                href: "/admin/gift-cards",
+                icon: CreditCard,
+                permission: "giftcards.manage",
+            },
+            {
+                label: "Creators",
+                href: "/admin/creators",
+                icon: Megaphone,
+                permission: "creators.manage",
+            },
         ],
     },
     {
@@ -78,10 +111,22 @@ const navGroups = [
     {
         label: "System",
         items: [
+            {
+                label: "Security",
+                href: "/admin/security",
+                icon: ShieldCheck,
+            },
             {
                 label: "Settings",
                 href: "/admin/settings",
                 icon: Settings,
+                permission: "settings.edit",
+            },
+            {
+                label: "Admins",
+                href: "/admin/admins",
+                icon: UserCog,
+                permission: "admins.manage",
             },
         ],
     },
@@ -99,6 +144,16 @@ export default function AdminLayout({
     const pathname = usePathname();
     const router = useRouter();
     const [sidebarOpen, setSidebarOpen] = useState(false);
+    const [admin, setAdmin] = useState<{ username: string; role: AdminRole } | null>(null);
+
+    // ── Signed-in admin (for the sidebar footer + role-based nav) ──
+    useEffect(() => {
+        if (pathname === "/admin/login") return;
+        fetch("/api/admin/auth")
+            .then((res) => res.json())
+            .then((data) => setAdmin(data.admin ?? null))
+            .catch(() => setAdmin(null));
+    }, [pathname]);
 
     // Don't wrap the login page with the sidebar layout
     if (pathname === "/admin/login") {
@@ -168,7 +223,12 @@ export default function AdminLayout({
 
                 {/* ── Navigation Links (Grouped) ── */}
                 <nav className="flex-1 px-4 py-4 space-y-5 overflow-y-auto">
-                    {navGroups.map((group) => (
+                    {navGroups.map((group) => ({
+                        ...group,
+                        items: group.items.filter(
+                            (item) => !item.permission || can(admin?.role, item.permission)
+                        ),
+                    })).filter((group) => group.items.length > 0).map((group) => (
                         <div key={group.label}>
                             <p className="text-zinc-600 text-[10px] uppercase tracking-[0.15em] font-semibold px-3 mb-2">
                                 {group.label}
@@ -210,8 +270,14 @@ export default function AdminLayout({
                     ))}
                 </nav>
 
-                {/* ── Logout Button ── */}
+                {/* ── Signed-in Admin + Logout Button ── */}
                 <div className="px-4 py-4 border-t border-zinc-800/50">
+                    {admin && (
+                        <div className="px-4 pb-3">
+                            <p className="text-white text-sm font-medium truncate">{admin.username}</p>
+                            <p className="text-zinc-500 text-xs capitalize">{admin.role}</p>
+                        </div>
+                    )}
                     <button
                         onClick={handleLogout}
                         className="w-full flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-medium text-red-400 hover:text-red-300 hover:bg-red-500/10 transition-all duration-200 cursor-pointer"
@@ -1,33 +1,55 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: page.tsx  (Admin Login)
-// PURPOSE: Simple password-only login page for the admin panel.
-//          Verifies against ADMIN_SECRET_KEY via the auth API.
+// PURPOSE: Username + password login for the admin panel.
+//          On a fresh install (no admin accounts yet) it shows a
+//          one-time setup form that creates the owner account,
+//          unlocked with ADMIN_SECRET_KEY.
+//          Admins with two-factor login get a second step asking
+//          for the authenticator (or backup) code.
 // LOCATION: src/app/admin/login/page.tsx
 // ═══════════════════════════════════════════════════════════════
 
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { Lock, Eye, EyeOff, Loader2, Shield } from "lucide-react";
+import { Lock, Eye, EyeOff, Loader2, Shield, User, KeyRound, Smartphone } from "lucide-react";
 
 export default function AdminLoginPage() {
+    const [username, setUsername] = useState("");
     const [password, setPassword] = useState("");
+    const [setupKey, setSetupKey] = useState("");
+    const [needsSetup, setNeedsSetup] = useState(false);
+    const [mfaRequired, setMfaRequired] = useState(false);
+    const [code, setCode] = useState("");
     const [showPassword, setShowPassword] = useState(false);
     const [error, setError] = useState("");
     const [loading, setLoading] = useState(false);
     const router = useRouter();
 
+    // ── First run? (no admin accounts yet) / Code still needed? ──
+    useEffect(() => {
+        fetch("/api/admin/auth")
+            .then((res) => res.json())
+            .then((data) => {
+                setNeedsSetup(Boolean(data.needsSetup));
+                setMfaRequired(Boolean(data.mfaRequired));
+            })
+            .catch(() => { });
+    }, []);
+
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setError("");
         setLoading(true);
 
         try {
-            const res = await fetch("/api/admin/auth", {
+            const res = await fetch(needsSetup ? "/api/admin/auth/setup" : "/api/admin/auth", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ password }),
+                body: JSON.stringify(
+                    needsSetup ? { setupKey, username, password } : { username, password }
+                ),
             });
 
             const data = await res.json();
@@ -38,6 +60,14 @@ export default function AdminLoginPage() {
                 return;
             }
 
+            // Password accepted, authenticator code comes next
+            if (data.mfaRequired) {
+                setPassword("");
+                setMfaRequired(true);
+                setLoading(false);
+                return;
+            }
+
             // Success → redirect to admin dashboard
             router.push("/admin");
             router.refresh();
@@ -47,6 +77,48 @@ export default function AdminLoginPage() {
         }
     };
 
+    const handleVerifyCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setLoading(true);
+
+        try {
+            const res = await fetch("/api/admin/auth/totp", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ code }),
+            });
+
+            const data = await res.json();
+
+            if (!res.ok) {
+                // Pending login expired → start over
+                if (res.status === 401 && data.error?.includes("expired")) setMfaRequired(false);
+                setError(data.error || "Verification failed.");
+                setCode("");
+                setLoading(false);
+                return;
+            }
+
+            if (typeof data.backupCodesLeft === "number") {
+                alert(`Backup code used. ${data.backupCodesLeft} left — generate new ones under Security if you're running low.`);
+            }
+
+            router.push("/admin");
+            router.refresh();
+        } catch {
+            setError("Network error. Please try again.");
+            setLoading(false);
+        }
+    };
+
+    const handleStartOver = async () => {
+        await fetch("/api/admin/auth", { method: "DELETE" });
+        setMfaRequired(false);
+        setCode("");
+        setError("");
+    };
+
     return (
         <div className="min-h-screen flex items-center justify-center bg-zinc-950 px-4">
             {/* Background glow effects */}
@@ -67,70 +139,176 @@ export default function AdminLoginPage() {
                         <span className="text-white">Panel</span>
                     </h1>
                     <p className="text-zinc-500 text-sm mt-1">
-                        Secure Store Management
+                        {needsSetup
+                            ? "Create the owner account"
+                            : mfaRequired
+                                ? "Two-factor verification"
+                                : "Secure Store Management"}
                     </p>
                 </div>
 
-                {/* Login Card */}
-                <form
-                    onSubmit={handleLogin}
-                    className="bg-zinc-900/80 backdrop-blur-xl border border-zinc-800 rounded-2xl p-8 shadow-2xl"
-                >
-                    {/* Error Message */}
-                    {error && (
-                        <div className="mb-6 px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm text-center">
-                            {error}
-                        </div>
-                    )}
-
-                    {/* Password Field */}
-                    <div className="mb-6">
-                        <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-2 font-medium">
-                            Admin Password
-                        </label>
-                        <div className="relative">
-                            <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
-                            <input
-                                type={showPassword ? "text" : "password"}
-                                value={password}
-                                onChange={(e) => setPassword(e.target.value)}
-                                placeholder="Enter admin password"
-                                required
-                                className="w-full pl-11 pr-12 py-3.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all"
-                            />
-                            <button
-                                type="button"
-                                onClick={() => setShowPassword(!showPassword)}
-                                className="absolute right-4 top-1/2 -translate-y-1/2 text-zinc-500 hover:text-zinc-300 transition-colors"
-                            >
-                                {showPassword ? (
-                                    <EyeOff className="w-4 h-4" />
-                                ) : (
-                                    <Eye className="w-4 h-4" />
-                                )}
-                            </button>
+                {/* Two-Factor Card */}
+                {mfaRequired ? (
+                    <form
+                        onSubmit={handleVerifyCode}
+                        className="bg-zinc-900/80 backdrop-blur-xl border border-zinc-800 rounded-2xl p-8 shadow-2xl"
+                    >
+                        {error && (
+                            <div className="mb-6 px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm text-center">
+                                {error}
+                            </div>
+                        )}
+
+                        <div className="mb-6">
+                            <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-2 font-medium">
+                                Authentication Code
+                            </label>
+                            <div className="relative">
+                                <Smartphone className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
+                                <input
+                                    type="text"
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value)}
+                                    placeholder="6-digit code or backup code"
+                                    autoComplete="one-time-code"
+                                    autoFocus
+                                    required
+                                    className="w-full pl-11 pr-4 py-3.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 tracking-widest focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all"
+                                />
+                            </div>
+                            <p className="text-zinc-600 text-xs mt-2">
+                                Open your authenticator app, or use one of your backup codes.
+                            </p>
                         </div>
-                    </div>
 
-                    {/* Submit Button */}
-                    <button
-                        type="submit"
-                        disabled={loading || !password}
-                        className="w-full py-3.5 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 disabled:from-zinc-700 disabled:to-zinc-700 disabled:text-zinc-500 text-white font-semibold rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg shadow-emerald-500/20 hover:shadow-emerald-500/30 disabled:shadow-none cursor-pointer disabled:cursor-not-allowed"
+                        <button
+                            type="submit"
+                            disabled={loading || !code}
+                            className="w-full py-3.5 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 disabled:from-zinc-700 disabled:to-zinc-700 disabled:text-zinc-500 text-white font-semibold rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg shadow-emerald-500/20 hover:shadow-emerald-500/30 disabled:shadow-none cursor-pointer disabled:cursor-not-allowed"
+                        >
+                            {loading ? (
+                                <>
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                    Verifying...
+                                </>
+                            ) : (
+                                <>
+                                    <Shield className="w-4 h-4" />
+                                    Verify
+                                </>
+                            )}
+                        </button>
+
+                        <button
+                            type="button"
+                            onClick={handleStartOver}
+                            className="w-full mt-3 text-zinc-500 hover:text-zinc-300 text-xs transition-colors cursor-pointer"
+                        >
+                            Sign in as someone else
+                        </button>
+                    </form>
+                ) : (
+                    /* Login Card */
+                    <form
+                        onSubmit={handleLogin}
+                        className="bg-zinc-900/80 backdrop-blur-xl border border-zinc-800 rounded-2xl p-8 shadow-2xl"
                     >
-                        {loading ? (
-                            <>
-                                <Loader2 className="w-4 h-4 animate-spin" />
-                                Verifying...
-                            </>
-                        ) : (
-                            <>
-                                <Lock className="w-4 h-4" />
-                                Enter Dashboard
-                            </>
+                        {/* Error Message */}
+                        {error && (
+                            <div className="mb-6 px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm text-center">
+                                {error}
+                            </div>
+                        )}
+
+                        {/* Setup Key Field (first run only) */}
+                        {needsSetup && (
+                            <div className="mb-5">
+                                <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-2 font-medium">
+                                    Setup Key
+                                </label>
+                                <div className="relative">
+                                    <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
+                                    <input
+                                        type="password"
+                                        value={setupKey}
+                                        onChange={(e) => setSetupKey(e.target.value)}
+                                        placeholder="ADMIN_SECRET_KEY from .env.local"
+                                        required
+                                        className="w-full pl-11 pr-4 py-3.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all"
+                                    />
+                                </div>
+                            </div>
                         )}
-                    </button>
-                </form>
+
+                        {/* Username Field */}
+                        <div className="mb-5">
+                            <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-2 font-medium">
+                                Username
+                            </label>
+                            <div className="relative">
+                                <User className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
+                                <input
+                                    type="text"
+                                    value={username}
+                                    onChange={(e) => setUsername(e.target.value)}
+                                    placeholder={needsSetup ? "Choose a username" : "Enter username"}
+                                    autoComplete="username"
+                                    required
+                                    className="w-full pl-11 pr-4 py-3.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all"
+                                />
+                            </div>
+                        </div>
+
+                        {/* Password Field */}
+                        <div className="mb-6">
+                            <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-2 font-medium">
+                                Password
+                            </label>
+                            <div className="relative">
+                                <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
+                                <input
+                                    type={showPassword ? "text" : "password"}
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder={needsSetup ? "At least 10 characters" : "Enter password"}
+                                    autoComplete={needsSetup ? "new-password" : "current-password"}
+                                    required
+                                    className="w-full pl-11 pr-12 py-3.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => setShowPassword(!showPassword)}
+                                    className="absolute right-4 top-1/2 -translate-y-1/2 text-zinc-500 hover:text-zinc-300 transition-colors"
+                                >
+                                    {showPassword ? (
+                                        <EyeOff className="w-4 h-4" />
+                                    ) : (
+                                        <Eye className="w-4 h-4" />
+                                    )}
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Submit Button */}
+                        <button
+                            type="submit"
+                            disabled={loading || !username || !password}
+                            className="w-full py-3.5 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 disabled:from-zinc-700 disabled:to-zinc-700 disabled:text-zinc-500 text-white font-semibold rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg shadow-emerald-500/20 hover:shadow-emerald-500/30 disabled:shadow-none cursor-pointer disabled:cursor-not-allowed"
+                        >
+                            {loading ? (
+                                <>
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                    Verifying...
+                                </>
+                            ) : (
+                                <>
+                                    <Lock className="w-4 h-4" />
+                                    {needsSetup ? "Create Owner Account" : "Enter Dashboard"}
+                                </>
+                            )}
+                        </button>
+                    </form>
+                )}
 
                 {/* Footer */}
                 <p className="text-center text-zinc-600 text-xs mt-6">
@@ -0,0 +1,55 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: OrderStatusBadge.tsx
+// PURPOSE: Colored pill for an order's status, shared by the
+//          orders list and the order detail page.
+// LOCATION: src/app/admin/orders/OrderStatusBadge.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import { AlertTriangle, CheckCircle2, Clock, Truck, XCircle } from "lucide-react";
+
+export default function OrderStatusBadge({ status }: { status: string }) {
+    switch (status) {
+        case "success":
+            return (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-full text-xs font-medium">
+                    <CheckCircle2 className="w-3 h-3" />
+                    Approved
+                </span>
+            );
+        case "pending-delivery":
+            return (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 rounded-full text-xs font-medium">
+                    <Truck className="w-3 h-3" />
+                    Delivering
+                </span>
+            );
+        case "delivered":
+            return (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-full text-xs font-medium">
+                    <CheckCircle2 className="w-3 h-3" />
+                    Delivered
+                </span>
+            );
+        case "delivery-failed":
+            return (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-orange-500/10 border border-orange-500/20 text-orange-400 rounded-full text-xs font-medium">
+                    <AlertTriangle className="w-3 h-3" />
+                    Delivery Failed
+                </span>
+            );
+        case "rejected":
+            return (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-red-500/10 border border-red-500/20 text-red-400 rounded-full text-xs font-medium">
+                    <XCircle className="w-3 h-3" />
+                    Rejected
+                </span>
+            );
+        default:
+            return (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-amber-500/10 border border-amber-500/20 text-amber-400 rounded-full text-xs font-medium">
+                    <Clock className="w-3 h-3" />
+                    Pending
+                </span>
+            );
+    }
+}
@@ -1,7 +1,8 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: OrderTableClient.tsx
 // PURPOSE: Client-side interactive table for orders with
-//          search, filter tabs, approve/reject buttons.
+//          search, filter tabs, approve/reject buttons and a
+//          link to each order's detail page.
 // LOCATION: src/app/admin/orders/OrderTableClient.tsx
 // ═══════════════════════════════════════════════════════════════
 
@@ -10,6 +11,7 @@
 import { useState, useTransition, useMemo } from "react";
 import {
     CheckCircle2,
+    CircleHelp,
     XCircle,
     Clock,
     Loader2,
@@ -18,36 +20,56 @@ import {
     CreditCard,
     Calendar,
     Search,
+    RotateCcw,
+    AlertTriangle,
+    ShieldCheck,
 } from "lucide-react";
-import { approveOrder, rejectOrder } from "./actions";
+import Link from "next/link";
+import { approveOrder, rejectOrder, retryDelivery } from "./actions";
 import type { Order } from "./page";
+import OrderStatusBadge from "./OrderStatusBadge";
+import RejectReasonForm from "./RejectReasonForm";
+import type { RejectionReasonCode } from "@/lib/orderStatus";
 
 // ─── Filter Tabs ───────────────────────────────────────────────
+// Legacy "success" orders (approved before in-game delivery
+// existed) are grouped with delivered ones.
 
-type FilterTab = "all" | "pending" | "success" | "rejected";
+type FilterTab = "all" | "pending" | "pending-delivery" | "delivered" | "delivery-failed" | "rejected";
 
-const filterTabs: { key: FilterTab; label: string }[] = [
-    { key: "all", label: "All" },
-    { key: "pending", label: "Pending" },
-    { key: "success", label: "Approved" },
-    { key: "rejected", label: "Rejected" },
+const filterTabs: { key: FilterTab; label: string; statuses: string[] }[] = [
+    { key: "all", label: "All", statuses: [] },
+    { key: "pending", label: "Pending", statuses: ["pending"] },
+    { key: "pending-delivery", label: "Delivering", statuses: ["pending-delivery"] },
+    { key: "delivered", label: "Delivered", statuses: ["delivered", "success"] },
+    { key: "delivery-failed", label: "Delivery Failed", statuses: ["delivery-failed"] },
+    { key: "rejected", label: "Rejected", statuses: ["rejected"] },
 ];
 
+const matchesTab = (order: Order, tab: FilterTab) =>
+    tab === "all" ||
+    filterTabs.find((t) => t.key === tab)!.statuses.includes(order.status);
+
 // ═══════════════════════════════════════════════════════════════
 // COMPONENT
 // ═══════════════════════════════════════════════════════════════
 
-export default function OrderTableClient({ orders }: { orders: Order[] }) {
+export default function OrderTableClient({
+    orders,
+    canManage = true,
+}: {
+    orders: Order[];
+    canManage?: boolean;   // False for support — view only
+}) {
     const [filter, setFilter] = useState<FilterTab>("all");
     const [searchQuery, setSearchQuery] = useState("");
     const [loadingId, setLoadingId] = useState<string | null>(null);
+    const [rejectingId, setRejectingId] = useState<string | null>(null);
     const [isPending, startTransition] = useTransition();
 
     // Combined filter: status tab + search query
     const filteredOrders = useMemo(() => {
-        let result = filter === "all"
-            ? orders
-            : orders.filter((o) => o.status === filter);
+        let result = orders.filter((o) => matchesTab(o, filter));
 
         if (searchQuery.trim()) {
             const q = searchQuery.toLowerCase().trim();
@@ -55,7 +77,9 @@ export default function OrderTableClient({ orders }: { orders: Order[] }) {
                 (o) =>
                     o.orderId.toLowerCase().includes(q) ||
                     o.minecraftUsername.toLowerCase().includes(q) ||
-                    o.utrNumber.toLowerCase().includes(q)
+                    o.gift?.buyerUsername.toLowerCase().includes(q) ||
+                    o.utrNumber?.toLowerCase().includes(q) ||
+                    o.giftCard?.code.toLowerCase().includes(q)
             );
         }
 
@@ -72,39 +96,22 @@ export default function OrderTableClient({ orders }: { orders: Order[] }) {
     };
 
     // ── Handle Reject ──────────────────────────────────────────
-    const handleReject = (id: string) => {
+    const handleReject = (id: string, code: RejectionReasonCode, details: string) => {
         setLoadingId(id);
         startTransition(async () => {
-            await rejectOrder(id);
+            await rejectOrder(id, code, details);
             setLoadingId(null);
+            setRejectingId(null);
         });
     };
 
-    // ── Status Badge ───────────────────────────────────────────
-    const getStatusBadge = (status: string) => {
-        switch (status) {
-            case "success":
-                return (
-                    <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-full text-xs font-medium">
-                        <CheckCircle2 className="w-3 h-3" />
-                        Approved
-                    </span>
-                );
-            case "rejected":
-                return (
-                    <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-red-500/10 border border-red-500/20 text-red-400 rounded-full text-xs font-medium">
-                        <XCircle className="w-3 h-3" />
-                        Rejected
-                    </span>
-                );
-            default:
-                return (
-                    <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-amber-500/10 border border-amber-500/20 text-amber-400 rounded-full text-xs font-medium">
-                        <Clock className="w-3 h-3" />
-                        Pending
-                    </span>
-                );
-        }
+    // ── Handle Retry Delivery ──────────────────────────────────
+    const handleRetryDelivery = (id: string) => {
+        setLoadingId(id);
+        startTransition(async () => {
+            await retryDelivery(id);
+            setLoadingId(null);
+        });
     };
 
     return (
@@ -135,10 +142,7 @@ export default function OrderTableClient({ orders }: { orders: Order[] }) {
                 <div className="flex items-center gap-2 flex-wrap">
                     <Filter className="w-4 h-4 text-zinc-500" />
                     {filterTabs.map((tab) => {
-                        const count =
-                            tab.key === "all"
-                                ? orders.length
-                                : orders.filter((o) => o.status === tab.key).length;
+                        const count = orders.filter((o) => matchesTab(o, tab.key)).length;
                         return (
                             <button
                                 key={tab.key}
@@ -188,10 +192,24 @@ export default function OrderTableClient({ orders }: { orders: Order[] }) {
                             {/* Top Row: Order ID + Status + Date */}
                             <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
                                 <div className="flex items-center gap-3">
-                                    <code className="text-xs text-zinc-500 bg-zinc-800/50 px-2.5 py-1 rounded-lg font-mono">
+                                    <Link
+                                        href={`/admin/orders/${order.orderId}`}
+                                        title="Open order details"
+                                        className="text-xs text-zinc-500 bg-zinc-800/50 px-2.5 py-1 rounded-lg font-mono hover:text-white hover:bg-zinc-800 transition-colors"
+                                    >
                                         {order.orderId}
-                                    </code>
-                                    {getStatusBadge(order.status)}
+                                    </Link>
+                                    <OrderStatusBadge status={order.status} />
+                                    {order.rejectionReason && (
+                                        <span className="text-red-400/70 text-xs">
+                                            {order.rejectionReason}
+                                        </span>
+                                    )}
+                                    {order.delivery && order.delivery.attempts > 1 && (
+                                        <span className="text-zinc-600 text-xs">
+                                            {order.delivery.attempts} delivery attempts
+                                        </span>
+                                    )}
                                 </div>
                                 <div className="flex items-center gap-1.5 text-zinc-600 text-xs">
                                     <Calendar className="w-3 h-3" />
@@ -217,9 +235,26 @@ export default function OrderTableClient({ orders }: { orders: Order[] }) {
                                         <p className="text-[10px] text-zinc-600 uppercase tracking-wider">
                                             Player
                                         </p>
-                                        <p className="text-white text-sm font-mono font-medium">
+                                        <p className="flex items-center gap-1.5 text-white text-sm font-mono font-medium">
                                             {order.minecraftUsername}
+                                            {order.usernameVerified && (
+                                                <span
+                                                    className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-md bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-[10px] font-sans font-semibold"
+                                                    title="Verified in-game with /verifystore"
+                                                >
+                                                    <ShieldCheck className="w-3 h-3" />
+                                                    Verified
+                                                </span>
+                                            )}
                                         </p>
+                                        {order.gift && (
+                                            <p
+                                                className="text-amber-400 text-xs"
+                                                title={order.gift.message || undefined}
+                                            >
+                                                🎁 Gift from <span className="font-mono">{order.gift.buyerUsername}</span>
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
 
@@ -245,9 +280,22 @@ export default function OrderTableClient({ orders }: { orders: Order[] }) {
                                         <p className="text-[10px] text-zinc-600 uppercase tracking-wider">
                                             UTR
                                         </p>
-                                        <p className="text-amber-400 text-sm font-mono font-medium tracking-wider">
-                                            {order.utrNumber}
-                                        </p>
+                                        {order.utrNumber ? (
+                                            <p className="text-amber-400 text-sm font-mono font-medium tracking-wider">
+                                                {order.utrNumber}
+                                            </p>
+                                        ) : (
+                                            <p className="text-zinc-500 text-sm">Gift card</p>
+                                        )}
+                                        {(order.duplicateUtr || order.utrDuplicateOf) && (
+                                            <p
+                                                className="inline-flex items-center gap-1 mt-0.5 text-[10px] text-red-400 font-medium"
+                                                title={order.utrDuplicateOf ? `Also used by ${order.utrDuplicateOf}` : undefined}
+                                            >
+                                                <AlertTriangle className="w-3 h-3" />
+                                                UTR used before
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
 
@@ -259,44 +307,125 @@ export default function OrderTableClient({ orders }: { orders: Order[] }) {
                                     <p className="text-emerald-400 text-lg font-bold">
                                         ₹{order.total.toFixed(2)}
                                     </p>
+                                    {order.giftCard && (
+                                        <p
+                                            className="text-[10px] text-pink-400 font-medium"
+                                            title={order.giftCard.code}
+                                        >
+                                            + ₹{order.giftCard.amount.toFixed(2)} gift card
+                                        </p>
+                                    )}
+                                    {order.pointsRedeemed && order.pointsDiscount ? (
+                                        <p className="text-[10px] text-amber-400 font-medium">
+                                            + ₹{order.pointsDiscount.toFixed(2)} ({order.pointsRedeemed} points)
+                                        </p>
+                                    ) : null}
                                 </div>
                             </div>
 
-                            {/* Bottom Row: Action Buttons (only for pending) */}
-                            {order.status === "pending" && (
+                            {/* Gift cards minted for this order */}
+                            {order.giftCardsIssued && order.giftCardsIssued.length > 0 && (
+                                <p className="mb-4 text-xs text-zinc-500">
+                                    Gift cards issued:{" "}
+                                    <span className="font-mono text-pink-400">
+                                        {order.giftCardsIssued.join(", ")}
+                                    </span>
+                                </p>
+                            )}
+
+                            {/* Delivery Results (per command) */}
+                            {order.delivery && order.delivery.commands.length > 0 && (
+                                <div className="mb-4 space-y-1.5">
+                                    {order.delivery.commands.map((cmd, i) => (
+                                        <div
+                                            key={i}
+                                            className="flex items-start gap-2 text-xs font-mono"
+                                        >
+                                            {cmd.status === "success" ? (
+                                                <CheckCircle2 className="w-3.5 h-3.5 text-cyan-400 shrink-0 mt-0.5" />
+                                            ) : cmd.status === "failed" ? (
+                                                <XCircle className="w-3.5 h-3.5 text-red-400 shrink-0 mt-0.5" />
+                                            ) : cmd.status === "unknown" ? (
+                                                <CircleHelp className="w-3.5 h-3.5 text-amber-400 shrink-0 mt-0.5" aria-label="No reply — may have run" />
+                                            ) : (
+                                                <Clock className="w-3.5 h-3.5 text-zinc-500 shrink-0 mt-0.5" />
+                                            )}
+                                            <div className="min-w-0">
+                                                <p className="text-zinc-300 break-all">/{cmd.command}</p>
+                                                {(cmd.error || cmd.response) && (
+                                                    <p className={`break-all ${cmd.status === "failed" ? "text-red-400/80" : "text-zinc-600"}`}>
+                                                        {cmd.error || cmd.response}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            {order.delivery?.lastError && order.status !== "delivered" && (
+                                <p className="mb-4 text-xs text-red-400/80">
+                                    {order.delivery.lastError}
+                                </p>
+                            )}
+
+                            {/* Retry Delivery (dead-lettered deliveries) */}
+                            {canManage && order.status === "delivery-failed" && (
                                 <div className="flex items-center gap-2 pt-3 border-t border-zinc-800/50">
                                     <button
-                                        onClick={() => handleApprove(order._id)}
-                                        disabled={
-                                            isPending && loadingId === order._id
-                                        }
-                                        className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-xl text-sm font-medium hover:bg-emerald-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                        onClick={() => handleRetryDelivery(order._id)}
+                                        disabled={isPending && loadingId === order._id}
+                                        className="flex items-center gap-2 px-4 py-2 bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 rounded-xl text-sm font-medium hover:bg-cyan-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
                                     >
-                                        {isPending &&
-                                            loadingId === order._id ? (
+                                        {isPending && loadingId === order._id ? (
                                             <Loader2 className="w-4 h-4 animate-spin" />
                                         ) : (
-                                            <CheckCircle2 className="w-4 h-4" />
+                                            <RotateCcw className="w-4 h-4" />
                                         )}
-                                        Approve
-                                    </button>
-                                    <button
-                                        onClick={() => handleReject(order._id)}
-                                        disabled={
-                                            isPending && loadingId === order._id
-                                        }
-                                        className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-sm font-medium hover:bg-red-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
-                                    >
-                                        {isPending &&
-                                            loadingId === order._id ? (
-                                            <Loader2 className="w-4 h-4 animate-spin" />
-                                        ) : (
-                                            <XCircle className="w-4 h-4" />
-                                        )}
-                                        Reject
+                                        Retry Delivery
                                     </button>
                                 </div>
                             )}
+
+                            {/* Bottom Row: Action Buttons (only for pending) */}
+                            {canManage && order.status === "pending" && (
+                                <div className="flex items-center gap-2 pt-3 border-t border-zinc-800/50">
+                                    {rejectingId === order._id ? (
+                                        <RejectReasonForm
+                                            isPending={isPending && loadingId === order._id}
+                                            onConfirm={(code, details) => handleReject(order._id, code, details)}
+                                            onCancel={() => setRejectingId(null)}
+                                        />
+                                    ) : (
+                                        <>
+                                            <button
+                                                onClick={() => handleApprove(order._id)}
+                                                disabled={
+                                                    isPending && loadingId === order._id
+                                                }
+                                                className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-xl text-sm font-medium hover:bg-emerald-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                            >
+                                                {isPending &&
+                                                    loadingId === order._id ? (
+                                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                                ) : (
+                                                    <CheckCircle2 className="w-4 h-4" />
+                                                )}
+                                                Approve
+                                            </button>
+                                            <button
+                                                onClick={() => setRejectingId(order._id)}
+                                                disabled={
+                                                    isPending && loadingId === order._id
+                                                }
+                                                className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-sm font-medium hover:bg-red-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                            >
+                                                <XCircle className="w-4 h-4" />
+                                                Reject
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -0,0 +1,74 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: RejectReasonForm.tsx
+// PURPOSE: Inline reason picker shown before an order is
+//          rejected, shared by the orders list and the order
+//          detail page. The reason is shown to the player on
+//          the tracking page.
+// LOCATION: src/app/admin/orders/RejectReasonForm.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState } from "react";
+import { Loader2, XCircle } from "lucide-react";
+import { REJECTION_REASONS, type RejectionReasonCode } from "@/lib/orderStatus";
+
+export default function RejectReasonForm({
+    isPending,
+    onConfirm,
+    onCancel,
+}: {
+    isPending: boolean;
+    onConfirm: (code: RejectionReasonCode, details: string) => void;
+    onCancel: () => void;
+}) {
+    const [code, setCode] = useState<RejectionReasonCode | "">("");
+    const [details, setDetails] = useState("");
+
+    const canConfirm = code !== "" && (code !== "other" || details.trim() !== "");
+
+    return (
+        <div className="w-full space-y-2">
+            <div className="flex flex-col sm:flex-row gap-2">
+                <select
+                    value={code}
+                    onChange={(e) => setCode(e.target.value as RejectionReasonCode | "")}
+                    className="px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm focus:outline-none focus:border-red-500/50 cursor-pointer"
+                >
+                    <option value="">Reason…</option>
+                    {REJECTION_REASONS.map((r) => (
+                        <option key={r.code} value={r.code}>
+                            {r.label}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    type="text"
+                    value={details}
+                    onChange={(e) => setDetails(e.target.value)}
+                    placeholder={code === "other" ? "Describe the reason" : "Details (optional)"}
+                    maxLength={200}
+                    className="flex-1 px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-red-500/50"
+                />
+            </div>
+            <p className="text-zinc-600 text-xs">The player sees this reason on the tracking page.</p>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => code && onConfirm(code, details)}
+                    disabled={isPending || !canConfirm}
+                    className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-sm font-medium hover:bg-red-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                >
+                    {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+                    Reject Order
+                </button>
+                <button
+                    onClick={onCancel}
+                    disabled={isPending}
+                    className="px-4 py-2 text-zinc-400 hover:text-white text-sm transition-colors cursor-pointer"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
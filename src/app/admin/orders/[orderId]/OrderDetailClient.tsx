@@ -0,0 +1,612 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: OrderDetailClient.tsx
+// PURPOSE: Client side of the order detail page — order, payment
+//          and delivery cards, approve / reject / retry buttons
+//          (and settling commands that got no reply),
+//          the pending-order editor, the status timeline, staff
+//          notes and the player's other orders.
+// LOCATION: src/app/admin/orders/[orderId]/OrderDetailClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+    AlertTriangle,
+    CheckCircle2,
+    CircleHelp,
+    Clock,
+    CreditCard,
+    Edit,
+    History,
+    Loader2,
+    Mail,
+    MessageSquare,
+    Package,
+    Plus,
+    RotateCcw,
+    ShieldCheck,
+    Trash2,
+    Truck,
+    User,
+    XCircle,
+} from "lucide-react";
+import { approveOrder, rejectOrder, retryDelivery, settleUnknownCommands } from "../actions";
+import { addNote, editPendingOrder } from "./actions";
+import OrderStatusBadge from "../OrderStatusBadge";
+import RejectReasonForm from "../RejectReasonForm";
+import type { EditableProduct, NoteView, OrderDetail, OtherOrder, TimelineEntry } from "./page";
+
+const formatDateTime = (iso: string) =>
+    new Date(iso).toLocaleString("en-IN", {
+        day: "2-digit",
+        month: "short",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
+// ─── Small Pieces ──────────────────────────────────────────────
+
+function Card({
+    title,
+    icon: Icon,
+    action,
+    children,
+}: {
+    title: string;
+    icon: React.ComponentType<{ className?: string }>;
+    action?: React.ReactNode;
+    children: React.ReactNode;
+}) {
+    return (
+        <div className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-5">
+            <div className="flex items-center justify-between gap-2 mb-4">
+                <h2 className="flex items-center gap-2 text-sm font-semibold text-white">
+                    <Icon className="w-4 h-4 text-zinc-500" />
+                    {title}
+                </h2>
+                {action}
+            </div>
+            {children}
+        </div>
+    );
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <div className="flex items-start justify-between gap-4 py-1.5 text-sm">
+            <span className="text-zinc-500 shrink-0">{label}</span>
+            <span className="text-zinc-200 text-right min-w-0 break-words">{children}</span>
+        </div>
+    );
+}
+
+// ─── Pending Order Editor ──────────────────────────────────────
+
+function OrderEditor({
+    order,
+    products,
+    onDone,
+}: {
+    order: OrderDetail;
+    products: EditableProduct[];
+    onDone: () => void;
+}) {
+    const router = useRouter();
+    const [username, setUsername] = useState(order.minecraftUsername);
+    const [edition, setEdition] = useState<"java" | "bedrock">(order.edition === "bedrock" ? "bedrock" : "java");
+    const [lines, setLines] = useState(order.items.map((i) => ({ id: i.id, name: i.name, quantity: i.quantity })));
+    const [addId, setAddId] = useState("");
+    const [reason, setReason] = useState("");
+    const [error, setError] = useState("");
+    const [isPending, startTransition] = useTransition();
+
+    const addable = products.filter((p) => !lines.some((l) => l.id === p.id));
+
+    const handleAdd = () => {
+        const product = products.find((p) => p.id === addId);
+        if (!product) return;
+        setLines([...lines, { id: product.id, name: product.name, quantity: 1 }]);
+        setAddId("");
+    };
+
+    const handleSave = () => {
+        setError("");
+        startTransition(async () => {
+            const result = await editPendingOrder(order._id, {
+                minecraftUsername: username,
+                edition,
+                items: lines.map(({ id, quantity }) => ({ id, quantity })),
+                reason,
+            });
+            if (result.success) {
+                router.refresh();
+                onDone();
+            } else {
+                setError(result.error || "Failed to edit the order.");
+            }
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Minecraft username"
+                    maxLength={17}
+                    className="flex-1 px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm font-mono placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+                />
+                <select
+                    value={edition}
+                    onChange={(e) => setEdition(e.target.value as "java" | "bedrock")}
+                    className="px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500/50 cursor-pointer"
+                >
+                    <option value="java">Java</option>
+                    <option value="bedrock">Bedrock</option>
+                </select>
+            </div>
+            {edition === "bedrock" && !username.startsWith(".") && (
+                <p className="text-amber-400/80 text-xs -mt-2">Bedrock usernames usually start with a &quot;.&quot;</p>
+            )}
+
+            <div className="space-y-2">
+                {lines.map((line, i) => (
+                    <div key={line.id} className="flex items-center gap-2">
+                        <span className="flex-1 text-sm text-zinc-300 truncate">{line.name}</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={99}
+                            value={line.quantity}
+                            onChange={(e) =>
+                                setLines(lines.map((l, j) => (j === i ? { ...l, quantity: parseInt(e.target.value, 10) || 0 } : l)))
+                            }
+                            className="w-20 px-3 py-1.5 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500/50"
+                        />
+                        <button
+                            onClick={() => setLines(lines.filter((_, j) => j !== i))}
+                            title="Remove item"
+                            className="p-2 text-zinc-500 hover:text-red-400 transition-colors cursor-pointer"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                {addable.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={addId}
+                            onChange={(e) => setAddId(e.target.value)}
+                            className="flex-1 px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm focus:outline-none focus:border-emerald-500/50 cursor-pointer"
+                        >
+                            <option value="">Add a product…</option>
+                            {addable.map((p) => (
+                                <option key={p.id} value={p.id}>
+                                    {p.name} — ₹{p.price}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleAdd}
+                            disabled={!addId}
+                            className="p-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-zinc-300 hover:text-white disabled:opacity-40 cursor-pointer disabled:cursor-not-allowed"
+                        >
+                            <Plus className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (e.g. player picked the wrong rank)"
+                maxLength={200}
+                className="w-full px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50"
+            />
+            <p className="text-zinc-600 text-xs">
+                Items already on the order keep the price paid. If the total changes, settle the
+                difference with the player — the coupon, points and gift card stay as they were.
+            </p>
+
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={handleSave}
+                    disabled={isPending}
+                    className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-xl text-sm font-medium hover:bg-emerald-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                >
+                    {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                    Save Changes
+                </button>
+                <button
+                    onClick={onDone}
+                    disabled={isPending}
+                    className="px-4 py-2 text-zinc-400 hover:text-white text-sm transition-colors cursor-pointer"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// ─── Notes ─────────────────────────────────────────────────────
+
+function Notes({ orderId, notes, canNote }: { orderId: string; notes: NoteView[]; canNote: boolean }) {
+    const router = useRouter();
+    const [text, setText] = useState("");
+    const [error, setError] = useState("");
+    const [isPending, startTransition] = useTransition();
+
+    const handleAdd = () => {
+        setError("");
+        startTransition(async () => {
+            const result = await addNote(orderId, text);
+            if (result.success) {
+                setText("");
+                router.refresh();
+            } else {
+                setError(result.error || "Failed to add the note.");
+            }
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            {notes.length === 0 ? (
+                <p className="text-zinc-600 text-sm">No notes yet. Only staff can see notes.</p>
+            ) : (
+                notes.map((note) => (
+                    <div key={note.id} className="p-3 bg-zinc-800/30 rounded-xl">
+                        <p className="text-zinc-200 text-sm whitespace-pre-wrap break-words">{note.text}</p>
+                        <p className="text-zinc-600 text-xs mt-1.5">
+                            {note.author} • {formatDateTime(note.createdAt)}
+                        </p>
+                    </div>
+                ))
+            )}
+            {canNote && (
+                <div className="space-y-2">
+                    <textarea
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        placeholder="Add an internal note…"
+                        rows={3}
+                        maxLength={1000}
+                        className="w-full px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50 resize-none"
+                    />
+                    {error && <p className="text-red-400 text-xs">{error}</p>}
+                    <button
+                        onClick={handleAdd}
+                        disabled={isPending || !text.trim()}
+                        className="flex items-center gap-2 px-4 py-2 bg-zinc-800 border border-zinc-700/50 text-zinc-200 rounded-xl text-sm font-medium hover:bg-zinc-700 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                    >
+                        {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessageSquare className="w-4 h-4" />}
+                        Add Note
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════
+
+export default function OrderDetailClient({
+    order,
+    timeline,
+    notes,
+    otherOrders,
+    products,
+    canManage,
+    canNote,
+}: {
+    order: OrderDetail;
+    timeline: TimelineEntry[];
+    notes: NoteView[];
+    otherOrders: OtherOrder[];
+    products: EditableProduct[];
+    canManage: boolean;
+    canNote: boolean;
+}) {
+    const router = useRouter();
+    const [editing, setEditing] = useState(false);
+    const [rejecting, setRejecting] = useState(false);
+    const [actionError, setActionError] = useState("");
+    const [isPending, startTransition] = useTransition();
+
+    const runAction = (action: (id: string) => Promise<{ success: boolean; error?: string }>) => {
+        setActionError("");
+        startTransition(async () => {
+            const result = await action(order._id);
+            if (!result.success) setActionError(result.error || "Something went wrong.");
+            router.refresh();
+        });
+    };
+
+    const subtotal = order.items.reduce((sum, i) => sum + i.lineTotal, 0);
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {/* ── Left: the order itself ── */}
+            <div className="lg:col-span-2 space-y-4">
+                {/* Player + Status */}
+                <Card title="Order" icon={User} action={<OrderStatusBadge status={order.status} />}>
+                    <Row label="Placed">{formatDateTime(order.createdAt)}</Row>
+                    <Row label="Player">
+                        <span className="inline-flex items-center gap-1.5 font-mono">
+                            {order.minecraftUsername}
+                            {order.usernameVerified && (
+                                <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" aria-label="Verified in-game" />
+                            )}
+                        </span>
+                    </Row>
+                    <Row label="Edition">{order.edition === "bedrock" ? "Bedrock" : "Java"}</Row>
+                    {order.playerId && (
+                        <Row label={order.playerIdType === "xuid" ? "XUID" : "UUID"}>
+                            <span className="font-mono text-xs">{order.playerId}</span>
+                        </Row>
+                    )}
+                    {order.gift && (
+                        <>
+                            <Row label="Gift from">
+                                <span className="font-mono">{order.gift.buyerUsername}</span> ({order.gift.buyerEdition})
+                            </Row>
+                            {order.gift.message && <Row label="Message">{order.gift.message}</Row>}
+                        </>
+                    )}
+                    {order.accountId && <Row label="Account">Placed while logged in</Row>}
+
+                    {canManage && (order.status === "pending" || order.status === "delivery-failed") && (
+                        <div className="flex flex-wrap items-center gap-2 pt-4 mt-3 border-t border-zinc-800/50">
+                            {order.status === "pending" && rejecting ? (
+                                <RejectReasonForm
+                                    isPending={isPending}
+                                    onConfirm={(code, details) => {
+                                        setRejecting(false);
+                                        runAction((id) => rejectOrder(id, code, details));
+                                    }}
+                                    onCancel={() => setRejecting(false)}
+                                />
+                            ) : order.status === "pending" ? (
+                                <>
+                                    <button
+                                        onClick={() => runAction(approveOrder)}
+                                        disabled={isPending}
+                                        className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-xl text-sm font-medium hover:bg-emerald-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                    >
+                                        {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                                        Approve
+                                    </button>
+                                    <button
+                                        onClick={() => setRejecting(true)}
+                                        disabled={isPending}
+                                        className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-sm font-medium hover:bg-red-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                    >
+                                        <XCircle className="w-4 h-4" />
+                                        Reject
+                                    </button>
+                                </>
+                            ) : (
+                                <button
+                                    onClick={() => runAction(retryDelivery)}
+                                    disabled={isPending}
+                                    className="flex items-center gap-2 px-4 py-2 bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 rounded-xl text-sm font-medium hover:bg-cyan-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                >
+                                    {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                                    Retry Delivery
+                                </button>
+                            )}
+                            {actionError && <p className="text-red-400 text-xs">{actionError}</p>}
+                        </div>
+                    )}
+                </Card>
+
+                {/* Items */}
+                <Card
+                    title="Items"
+                    icon={Package}
+                    action={
+                        canManage && order.status === "pending" && !editing ? (
+                            <button
+                                onClick={() => setEditing(true)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 bg-zinc-800/50 border border-zinc-700/50 text-zinc-300 rounded-lg text-xs font-medium hover:text-white transition-colors cursor-pointer"
+                            >
+                                <Edit className="w-3.5 h-3.5" />
+                                Edit Order
+                            </button>
+                        ) : undefined
+                    }
+                >
+                    {editing ? (
+                        <OrderEditor order={order} products={products} onDone={() => setEditing(false)} />
+                    ) : (
+                        <div className="divide-y divide-zinc-800/50">
+                            {order.items.map((item) => (
+                                <div key={item.id} className="py-2.5 flex items-start justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <p className="text-zinc-200 text-sm">
+                                            {item.name}
+                                            <span className="text-zinc-500"> ×{item.quantity}</span>
+                                        </p>
+                                        <p className="text-zinc-600 text-xs">₹{item.price.toFixed(2)} each</p>
+                                    </div>
+                                    <p className="text-zinc-300 text-sm font-medium">₹{item.lineTotal.toFixed(2)}</p>
+                                </div>
+                            ))}
+                            <div className="pt-2.5 flex justify-between text-sm">
+                                <span className="text-zinc-500">Subtotal</span>
+                                <span className="text-zinc-200 font-medium">₹{subtotal.toFixed(2)}</span>
+                            </div>
+                        </div>
+                    )}
+                </Card>
+
+                {/* Payment */}
+                <Card title="Payment" icon={CreditCard}>
+                    <Row label="UTR">
+                        {order.utrNumber ? (
+                            <span className="font-mono text-amber-400 tracking-wider">{order.utrNumber}</span>
+                        ) : (
+                            <span className="text-zinc-500">None — paid with credit</span>
+                        )}
+                    </Row>
+                    {order.utrDuplicateOf && (
+                        <p className="flex items-center justify-end gap-1 text-xs text-red-400 -mt-1 mb-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            Same UTR as {order.utrDuplicateOf}
+                        </p>
+                    )}
+                    {order.coupons?.map((c) => (
+                        <Row key={c.code} label={`Coupon ${c.code}`}>−₹{c.discount.toFixed(2)}</Row>
+                    ))}
+                    {order.creatorCommission && (
+                        <Row label="Creator">
+                            {order.creatorCommission.creator} — ₹{order.creatorCommission.amount.toFixed(2)} commission
+                        </Row>
+                    )}
+                    {order.pointsRedeemed && order.pointsDiscount ? (
+                        <Row label="Points used">
+                            {order.pointsRedeemed} (−₹{order.pointsDiscount.toFixed(2)})
+                        </Row>
+                    ) : null}
+                    {order.giftCard && (
+                        <Row label="Gift card">
+                            <span className="font-mono">{order.giftCard.code}</span> (−₹{order.giftCard.amount.toFixed(2)})
+                        </Row>
+                    )}
+                    <Row label="Paid over UPI">
+                        <span className="text-emerald-400 font-bold">₹{order.total.toFixed(2)}</span>
+                    </Row>
+                    {order.pointsEarned ? <Row label="Points earned">{order.pointsEarned}</Row> : null}
+                    {order.giftCardsIssued && order.giftCardsIssued.length > 0 && (
+                        <Row label="Gift cards issued">
+                            <span className="font-mono text-pink-400">{order.giftCardsIssued.join(", ")}</span>
+                        </Row>
+                    )}
+                    <Row label="Store email">
+                        <span className={`inline-flex items-center gap-1 ${order.emailSent ? "text-emerald-400" : "text-red-400"}`}>
+                            <Mail className="w-3.5 h-3.5" />
+                            {order.emailSent ? "Sent" : "Failed"}
+                        </span>
+                    </Row>
+                </Card>
+
+                {/* Delivery */}
+                {order.delivery && order.delivery.commands.length > 0 && (
+                    <Card title={`Delivery (${order.delivery.attempts} attempt${order.delivery.attempts === 1 ? "" : "s"})`} icon={Truck}>
+                        <div className="space-y-1.5">
+                            {order.delivery.commands.map((cmd, i) => (
+                                <div key={i} className="flex items-start gap-2 text-xs font-mono">
+                                    {cmd.status === "success" ? (
+                                        <CheckCircle2 className="w-3.5 h-3.5 text-cyan-400 shrink-0 mt-0.5" />
+                                    ) : cmd.status === "failed" ? (
+                                        <XCircle className="w-3.5 h-3.5 text-red-400 shrink-0 mt-0.5" />
+                                    ) : cmd.status === "unknown" ? (
+                                        <CircleHelp className="w-3.5 h-3.5 text-amber-400 shrink-0 mt-0.5" aria-label="No reply — may have run" />
+                                    ) : (
+                                        <Clock className="w-3.5 h-3.5 text-zinc-500 shrink-0 mt-0.5" />
+                                    )}
+                                    <div className="min-w-0">
+                                        <p className="text-zinc-300 break-all">/{cmd.command}</p>
+                                        {(cmd.error || cmd.response) && (
+                                            <p className={`break-all ${cmd.status === "failed" ? "text-red-400/80" : "text-zinc-600"}`}>
+                                                {cmd.error || cmd.response}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        {order.delivery.lastError && order.status !== "delivered" && (
+                            <p className="mt-3 text-xs text-red-400/80">{order.delivery.lastError}</p>
+                        )}
+                        {canManage && order.delivery.commands.some((c) => c.status === "unknown") && (
+                            <div className="flex flex-wrap items-center gap-2 pt-3 mt-3 border-t border-zinc-800/50">
+                                <p className="w-full text-amber-400/80 text-xs">
+                                    These commands got no reply. Check in-game whether they ran before retrying.
+                                </p>
+                                <button
+                                    onClick={() => runAction((id) => settleUnknownCommands(id, true))}
+                                    disabled={isPending}
+                                    className="flex items-center gap-2 px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-lg text-xs font-medium hover:bg-emerald-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                >
+                                    <CheckCircle2 className="w-3.5 h-3.5" />
+                                    They ran
+                                </button>
+                                <button
+                                    onClick={() => runAction((id) => settleUnknownCommands(id, false))}
+                                    disabled={isPending}
+                                    className="flex items-center gap-2 px-3 py-1.5 bg-red-500/10 border border-red-500/20 text-red-400 rounded-lg text-xs font-medium hover:bg-red-500/20 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                                >
+                                    <XCircle className="w-3.5 h-3.5" />
+                                    They didn&apos;t run
+                                </button>
+                            </div>
+                        )}
+                    </Card>
+                )}
+            </div>
+
+            {/* ── Right: history, notes, other orders ── */}
+            <div className="space-y-4">
+                <Card title="Timeline" icon={History}>
+                    <ol className="relative border-l border-zinc-800 ml-1.5 space-y-4">
+                        {timeline.map((entry, i) => (
+                            <li key={i} className="ml-4">
+                                <span className="absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full bg-zinc-700 border border-zinc-900" />
+                                <p className="text-zinc-200 text-sm font-medium">{entry.label}</p>
+                                {entry.details && <p className="text-zinc-500 text-xs break-words">{entry.details}</p>}
+                                <p className="text-zinc-600 text-xs">
+                                    {formatDateTime(entry.at)}
+                                    {entry.by && ` • ${entry.by}`}
+                                </p>
+                            </li>
+                        ))}
+                    </ol>
+                </Card>
+
+                <Card title="Staff Notes" icon={MessageSquare}>
+                    <Notes orderId={order.orderId} notes={notes} canNote={canNote} />
+                </Card>
+
+                <Card title="Player's Other Orders" icon={Package}>
+                    {otherOrders.length === 0 ? (
+                        <p className="text-zinc-600 text-sm">This is their only order.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {otherOrders.map((o) => (
+                                <Link
+                                    key={o.orderId}
+                                    href={`/admin/orders/${o.orderId}`}
+                                    className="block p-3 bg-zinc-800/30 rounded-xl hover:bg-zinc-800/60 transition-colors"
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-zinc-400 text-xs font-mono truncate">{o.orderId}</span>
+                                        <span className="text-emerald-400 text-xs font-semibold">₹{o.total.toFixed(2)}</span>
+                                    </div>
+                                    <p className="text-zinc-300 text-xs mt-1 truncate">{o.items}</p>
+                                    <div className="flex items-center justify-between gap-2 mt-1.5">
+                                        <span className="text-zinc-600 text-[10px]">{formatDateTime(o.createdAt)}</span>
+                                        <OrderStatusBadge status={o.status} />
+                                    </div>
+                                </Link>
+                            ))}
+                        </div>
+                    )}
+                </Card>
+            </div>
+        </div>
+    );
+}
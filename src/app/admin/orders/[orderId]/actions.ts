@@ -0,0 +1,206 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Order Detail Server Actions)
+// PURPOSE: Server actions for a single order's page — staff notes
+//          and correcting a pending order's username or items.
+//          Approve / reject / retry live in ../actions.ts.
+// LOCATION: src/app/admin/orders/[orderId]/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { ObjectId } from "mongodb";
+import { revalidatePath } from "next/cache";
+import { connectToDatabase } from "@/lib/mongodb";
+import { logActivity } from "@/lib/logActivity";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import { getLiveStoreProducts } from "@/app/actions/productActions";
+import { ORDER_NOTE_MAX, addOrderNote } from "@/lib/orderNotes";
+import { type OrderItemEdit, type OrderLine, describeItems, editedAmountDue, repriceOrderItems } from "@/lib/orderEdits";
+import { type StockReservation, reserveStockChange, restoreStock } from "@/lib/inventory";
+import { resolvePlayerId } from "@/lib/playerIds";
+
+const USERNAME_PATTERN = /^\.?[a-zA-Z0-9_]{3,16}$/;
+const REASON_MAX = 200;
+
+// ─── Notes ─────────────────────────────────────────────────────
+
+/** Adds an internal note to an order. Never shown to the player. */
+export async function addNote(orderId: string, text: string) {
+    try {
+        const admin = await requirePermission("orders.notes");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const note = String(text ?? "").trim();
+        if (!note) {
+            return { success: false, error: "Write something first." };
+        }
+        if (note.length > ORDER_NOTE_MAX) {
+            return { success: false, error: `Notes can be at most ${ORDER_NOTE_MAX} characters.` };
+        }
+
+        const db = await connectToDatabase();
+        const order = await db.collection("orders").findOne({ orderId }, { projection: { _id: 1 } });
+        if (!order) {
+            return { success: false, error: "Order not found." };
+        }
+
+        await addOrderNote(db, {
+            orderId,
+            text: note,
+            author: { id: admin.sub, username: admin.username, role: admin.role },
+        });
+        await logActivity({
+            action: "order_note_added",
+            entity: orderId,
+            details: note.length > 100 ? `${note.slice(0, 100)}…` : note,
+        });
+
+        revalidatePath(`/admin/orders/${orderId}`);
+        return { success: true };
+    } catch (error) {
+        console.error("Add order note error:", error);
+        return { success: false, error: "Failed to add the note." };
+    }
+}
+
+// ─── Edit Pending Order ────────────────────────────────────────
+
+export interface PendingOrderEdit {
+    minecraftUsername: string;
+    edition: "java" | "bedrock";
+    items: OrderItemEdit[];
+    reason?: string;
+}
+
+/**
+ * Corrects a pending order — the player's username / edition and
+ * the items. Kept items keep the price paid; the amount due is
+ * re-worked from the new subtotal (see orderEdits.ts) and stock
+ * reservations follow the items. Logged with a before/after diff.
+ */
+export async function editPendingOrder(orderMongoId: string, changes: PendingOrderEdit) {
+    try {
+        if (!(await requirePermission("orders.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const username = String(changes?.minecraftUsername ?? "").trim();
+        const edition = changes?.edition;
+        const reason = String(changes?.reason ?? "").trim().slice(0, REASON_MAX);
+        if (!USERNAME_PATTERN.test(username)) {
+            return { success: false, error: "Invalid username format." };
+        }
+        if (edition !== "java" && edition !== "bedrock") {
+            return { success: false, error: "Invalid edition." };
+        }
+        if (!ObjectId.isValid(orderMongoId)) {
+            return { success: false, error: "Order not found." };
+        }
+
+        const db = await connectToDatabase();
+        const ordersCol = db.collection("orders");
+        const order = await ordersCol.findOne({ _id: new ObjectId(orderMongoId) });
+        if (!order) {
+            return { success: false, error: "Order not found." };
+        }
+        if (order.status !== "pending") {
+            return { success: false, error: "Only pending orders can be edited." };
+        }
+        if (order.gift && username.toLowerCase() === String(order.gift.buyerUsername).toLowerCase()) {
+            return { success: false, error: "A gift needs a different recipient than the buyer." };
+        }
+
+        const oldItems = order.items as OrderLine[];
+        const wanted = Array.isArray(changes.items)
+            ? changes.items.map((i) => ({ id: String(i?.id ?? ""), quantity: Number(i?.quantity) }))
+            : [];
+        const priced = repriceOrderItems(oldItems, wanted, await getLiveStoreProducts(), new Date());
+        if (!priced.ok) {
+            return { success: false, error: priced.error };
+        }
+
+        const playerChanged = username !== order.minecraftUsername || edition !== order.edition;
+        const itemsChanged = JSON.stringify(priced.items) !== JSON.stringify(oldItems);
+        if (!playerChanged && !itemsChanged) {
+            return { success: false, error: "Nothing was changed." };
+        }
+
+        // ── Stock follows the items ──
+        let stock: { reserved: StockReservation[]; taken: StockReservation[]; freed: StockReservation[] } | null = null;
+        if (itemsChanged) {
+            const stockLines = priced.items.flatMap((item) => [item, ...(item.components ?? [])]);
+            const claim = await reserveStockChange(db, order.stockReserved ?? [], stockLines);
+            if (!claim.ok) {
+                const soldOut = stockLines.find((i) => i.id === claim.productId);
+                return { success: false, error: `Not enough ${soldOut?.name ?? "stock"} left for this change.` };
+            }
+            stock = claim;
+        }
+
+        const total = itemsChanged ? editedAmountDue(oldItems, order.total, priced.subtotal) : order.total;
+        const set: Record<string, unknown> = {
+            minecraftUsername: username,
+            edition,
+            items: priced.items,
+            total,
+            updatedAt: new Date(),
+        };
+        const unset: Record<string, ""> = {};
+
+        if (stock) {
+            if (stock.reserved.length > 0) set.stockReserved = stock.reserved;
+            else unset.stockReserved = "";
+        }
+        if (playerChanged) {
+            // Another player's ID — and their name isn't verified
+            const playerId = await resolvePlayerId(username, edition);
+            if (playerId) {
+                set.playerId = playerId.id;
+                set.playerIdType = playerId.type;
+            } else {
+                unset.playerId = "";
+                unset.playerIdType = "";
+            }
+            if (username.toLowerCase() !== String(order.minecraftUsername).toLowerCase()) {
+                unset.usernameVerified = "";
+            }
+        }
+
+        const result = await ordersCol.updateOne(
+            { _id: order._id, status: "pending" },
+            { $set: set, ...(Object.keys(unset).length > 0 && { $unset: unset }) }
+        );
+        if (result.modifiedCount !== 1) {
+            if (stock) await restoreStock(db, stock.taken);
+            return { success: false, error: "Order is no longer pending." };
+        }
+        if (stock) await restoreStock(db, stock.freed);
+
+        await logActivity({
+            action: "order_edited",
+            entity: order.orderId,
+            details: reason || "Pending order edited",
+            before: {
+                minecraftUsername: order.minecraftUsername,
+                edition: order.edition,
+                items: describeItems(oldItems),
+                total: order.total,
+            },
+            after: {
+                minecraftUsername: username,
+                edition,
+                items: describeItems(priced.items),
+                total,
+            },
+        });
+
+        revalidatePath("/admin/orders");
+        revalidatePath(`/admin/orders/${order.orderId}`);
+        return { success: true, total };
+    } catch (error) {
+        console.error("Edit order error:", error);
+        return { success: false, error: "Failed to edit the order." };
+    }
+}
@@ -0,0 +1,285 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Admin Order Detail)
+// PURPOSE: Everything about one order — items, payment (UTR,
+//          coupons, gift card, points), email and delivery status,
+//          a timeline of what happened to it, internal staff notes
+//          and the player's other orders. Pending orders can be
+//          approved, rejected or corrected from here.
+// LOCATION: src/app/admin/orders/[orderId]/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Suspense } from "react";
+import { ArrowLeft, Loader2, Receipt } from "lucide-react";
+import type { Document, WithId } from "mongodb";
+import { connectToDatabase } from "@/lib/mongodb";
+import { getAdminSession, requireAdminPage } from "@/lib/adminAuth";
+import { can } from "@/lib/adminSession";
+import { getOrderNotes } from "@/lib/orderNotes";
+import { getLiveStoreProducts } from "@/app/actions/productActions";
+import type { OrderStatusEvent } from "@/lib/orderStatus";
+import type { Order } from "../page";
+import OrderDetailClient from "./OrderDetailClient";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface OrderDetail extends Order {
+    playerId?: string;
+    playerIdType?: "uuid" | "xuid";
+    accountId?: string;
+    coupons?: { code: string; discount: number }[];
+    discount?: number;
+    creatorCommission?: { code: string; creator: string; amount: number };
+    pointsEarned?: number;
+    emailSent?: boolean;
+    updatedAt?: string;
+}
+
+export interface TimelineEntry {
+    at: string;
+    label: string;
+    details?: string;
+    by?: string;             // Admin username, if a person did it
+}
+
+export interface NoteView {
+    id: string;
+    text: string;
+    author: string;
+    createdAt: string;
+}
+
+export interface OtherOrder {
+    orderId: string;
+    status: string;
+    total: number;
+    items: string;
+    createdAt: string;
+}
+
+export interface EditableProduct {
+    id: string;
+    name: string;
+    price: number;
+}
+
+const toIso = (value: unknown) => (value ? new Date(value as string).toISOString() : new Date().toISOString());
+
+// Activity log labels for this order's history. Status changes
+// come from `statusHistory`; orders from before it existed only
+// have these logs.
+const TIMELINE_LABELS: Record<string, string> = {
+    order_approved: "Approved",
+    order_rejected: "Rejected",
+    order_edited: "Edited",
+    delivery_requeued: "Delivery retried",
+    delivery_commands_settled: "Unknown commands checked",
+};
+const STATUS_LOG_ACTIONS = ["order_approved", "order_rejected", "delivery_requeued"];
+
+function statusEventLabel(event: OrderStatusEvent): string {
+    switch (event.to) {
+        case "pending-delivery":
+            return event.from === "delivery-failed" ? "Delivery retried" : "Approved";
+        case "delivered":
+            return "Delivered in-game";
+        case "delivery-failed":
+            return "Delivery failed";
+        case "rejected":
+            return "Rejected";
+        default:
+            return `Moved to ${event.to}`;
+    }
+}
+
+// ─── Data Fetchers ─────────────────────────────────────────────
+
+function toOrderDetail(order: WithId<Document>): OrderDetail {
+    return {
+        ...(order as unknown as OrderDetail),
+        _id: order._id.toString(),
+        accountId: order.accountId?.toString(),
+        createdAt: toIso(order.createdAt),
+        updatedAt: order.updatedAt ? toIso(order.updatedAt) : undefined,
+        creatorCommission: order.creatorCommission
+            ? {
+                code: order.creatorCommission.code,
+                creator: order.creatorCommission.creator,
+                amount: order.creatorCommission.amount,
+            }
+            : undefined,
+        delivery: order.delivery
+            ? {
+                ...order.delivery,
+                lastAttemptAt: order.delivery.lastAttemptAt ? toIso(order.delivery.lastAttemptAt) : undefined,
+                commands: (order.delivery.commands ?? []).map((c: Document) => ({
+                    ...c,
+                    executedAt: c.executedAt ? toIso(c.executedAt) : undefined,
+                })),
+            }
+            : undefined,
+    };
+}
+
+/**
+ * What happened to the order, oldest first: placed, every status
+ * change (who, when, why), edits, and the latest delivery
+ * attempt while delivery is still going.
+ */
+async function getTimeline(order: WithId<Document>): Promise<TimelineEntry[]> {
+    const db = await connectToDatabase();
+    const history: OrderStatusEvent[] = order.statusHistory ?? [];
+    const actions = Object.keys(TIMELINE_LABELS).filter(
+        (action) => history.length === 0 || !STATUS_LOG_ACTIONS.includes(action)
+    );
+    const logs = await db
+        .collection("activityLogs")
+        .find({
+            entity: { $in: [order.orderId, order._id.toString()] },
+            action: { $in: actions },
+        })
+        .sort({ timestamp: 1 })
+        .toArray();
+
+    const entries: TimelineEntry[] = [
+        {
+            at: toIso(order.createdAt),
+            label: "Order placed",
+            details: order.emailSent ? "Store notified by email" : "Store email failed to send",
+        },
+        ...history.map((event) => ({
+            at: toIso(event.at),
+            label: statusEventLabel(event),
+            details: event.reason,
+            by: event.by.type === "admin" ? event.by.username : event.by.name,
+        })),
+        ...logs.map((log) => ({
+            at: toIso(log.timestamp),
+            label: TIMELINE_LABELS[log.action] ?? log.action,
+            details: log.details || undefined,
+            by: log.actor?.username,
+        })),
+    ];
+
+    if (order.delivery?.lastAttemptAt && (history.length === 0 || order.status === "pending-delivery")) {
+        entries.push({
+            at: toIso(order.delivery.lastAttemptAt),
+            label: order.status === "delivered" ? "Delivered in-game" : "Delivery attempted",
+            details: order.delivery.lastError
+                ? `Attempt ${order.delivery.attempts}: ${order.delivery.lastError}`
+                : `Attempt ${order.delivery.attempts}`,
+        });
+    }
+
+    return entries.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/** Orders for or bought by the same player (same UUID / XUID or name). */
+async function getOtherOrders(order: WithId<Document>): Promise<OtherOrder[]> {
+    const db = await connectToDatabase();
+    const names = [order.minecraftUsername, order.gift?.buyerUsername].filter(Boolean);
+    const others = await db
+        .collection("orders")
+        .find(
+            {
+                _id: { $ne: order._id },
+                $or: [
+                    { minecraftUsername: { $in: names } },
+                    { "gift.buyerUsername": { $in: names } },
+                    ...(order.playerId ? [{ playerId: order.playerId }] : []),
+                ],
+            },
+            { collation: { locale: "en", strength: 2 } }
+        )
+        .sort({ createdAt: -1 })
+        .limit(20)
+        .toArray();
+
+    return others.map((o) => ({
+        orderId: o.orderId,
+        status: o.status,
+        total: o.total ?? 0,
+        items: (o.items ?? [])
+            .map((i: Document) => `${i.name}${i.quantity > 1 ? ` ×${i.quantity}` : ""}`)
+            .join(", "),
+        createdAt: toIso(o.createdAt),
+    }));
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PAGE COMPONENT (Server)
+// ═══════════════════════════════════════════════════════════════
+
+export const dynamic = "force-dynamic";
+
+async function OrderDetailData({ orderId }: { orderId: string }) {
+    const db = await connectToDatabase();
+    const [order, session] = await Promise.all([
+        db.collection("orders").findOne({ orderId }),
+        getAdminSession(),
+    ]);
+    if (!order) notFound();
+
+    const canManage = can(session?.role, "orders.manage");
+    const [timeline, notes, otherOrders, products] = await Promise.all([
+        getTimeline(order),
+        getOrderNotes(db, orderId),
+        getOtherOrders(order),
+        // Only needed to add items to a pending order
+        canManage && order.status === "pending" ? getLiveStoreProducts() : Promise.resolve([]),
+    ]);
+
+    return (
+        <OrderDetailClient
+            order={toOrderDetail(order)}
+            timeline={timeline}
+            notes={notes.map((n) => ({
+                id: n._id!.toString(),
+                text: n.text,
+                author: n.author.username,
+                createdAt: n.createdAt.toISOString(),
+            }))}
+            otherOrders={otherOrders}
+            products={products.map((p) => ({ id: p.id, name: p.name, price: p.price }))}
+            canManage={canManage}
+            canNote={can(session?.role, "orders.notes")}
+        />
+    );
+}
+
+export default async function OrderDetailPage({
+    params,
+}: {
+    params: Promise<{ orderId: string }>;
+}) {
+    await requireAdminPage();
+    const { orderId } = await params;
+
+    return (
+        <div>
+            <Link
+                href="/admin/orders"
+                className="inline-flex items-center gap-2 text-sm text-zinc-500 hover:text-white transition-colors mb-4"
+            >
+                <ArrowLeft className="w-4 h-4" />
+                All orders
+            </Link>
+            <div className="flex items-center gap-3 mb-8">
+                <Receipt className="w-6 h-6 text-emerald-400" />
+                <h1 className="text-2xl md:text-3xl font-bold text-white font-mono">
+                    {orderId}
+                </h1>
+            </div>
+
+            <Suspense fallback={
+                <div className="flex flex-col items-center justify-center py-32">
+                    <Loader2 className="w-8 h-8 text-emerald-500 animate-spin mb-4" />
+                    <p className="text-zinc-500 text-sm">Loading order...</p>
+                </div>
+            }>
+                <OrderDetailData orderId={orderId} />
+            </Suspense>
+        </div>
+    );
+}
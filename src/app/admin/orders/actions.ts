@@ -7,29 +7,78 @@
 "use server";
 
 import { connectToDatabase } from "@/lib/mongodb";
-import { ObjectId } from "mongodb";
+import { ObjectId, type Db, type Document, type WithId } from "mongodb";
 import { revalidatePath } from "next/cache";
 import { logActivity } from "@/lib/logActivity";
+import {
+    enqueueDelivery,
+    processOrderDelivery,
+    requeueDelivery,
+    transitionOrder,
+} from "@/lib/deliveryQueue";
+import { getSettings } from "@/app/admin/settings/actions";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import { releaseOrderStock } from "@/lib/inventory";
+import { mintOrderGiftCards, releaseOrderGiftCard } from "@/lib/giftCards";
+import { releaseCoupons } from "@/lib/coupons";
+import { creditCreatorCommission } from "@/lib/creators";
+import { earnOrderPoints, refundPoints } from "@/lib/loyalty";
+import { getAccountEmailById } from "@/lib/playerAccounts";
+import { resolveUnknownCommands, type OrderDelivery } from "@/lib/delivery";
+import { sendGiftCardEmail } from "@/lib/sendGiftCardEmail";
+import { type RejectionReasonCode, isRejectionReasonCode, rejectionReasonText } from "@/lib/orderStatus";
+
+const REJECTION_DETAILS_MAX = 200;
 
 /**
- * Approve an order — sets status to "success"
+ * Approve an order — moves it to "pending-delivery" and queues
+ * the in-game delivery, then mints any gift cards bought on it
+ * and credits a creator code's commission and the buyer's
+ * loyalty points. In RCON mode the first attempt runs right
+ * away; in plugin mode the job waits for the server plugin to
+ * pull it.
  */
 export async function approveOrder(orderId: string) {
     try {
+        const admin = await requirePermission("orders.manage");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
         const db = await connectToDatabase();
-        await db.collection("orders").updateOne(
-            { _id: new ObjectId(orderId) },
-            {
-                $set: {
-                    status: "success",
-                    updatedAt: new Date(),
-                },
-            }
-        );
+        const order = await db
+            .collection("orders")
+            .findOne({ _id: new ObjectId(orderId) });
+        if (!order) {
+            return { success: false, error: "Order not found." };
+        }
+
+        const moved = await transitionOrder(db, orderId, "pending-delivery", {
+            by: { type: "admin", id: admin.sub, username: admin.username },
+        });
+        if (!moved) {
+            return { success: false, error: "Order is no longer pending." };
+        }
+        // Queue the delivery straight away so a failure below can't strand the order
+        const { deliveryMode } = await getSettings();
+        await enqueueDelivery(orderId, order.orderId, deliveryMode);
+        await logActivity({
+            action: "order_approved",
+            entity: order.orderId,
+            details: "Order approved",
+            before: { status: order.status },
+            after: { status: "pending-delivery" },
+        });
+
+        await settleApprovedOrder(db, order);
+
+        // Deliver in-game — a failed attempt is retried by the queue
+        const deliveryStatus = await processOrderDelivery(orderId);
+
         revalidatePath("/admin/orders");
+        revalidatePath("/admin/delivery");
         revalidatePath("/admin");
-        await logActivity({ action: "order_approved", entity: orderId, details: "Order approved" });
-        return { success: true };
+        return { success: true, deliveryStatus };
     } catch (error) {
         console.error("Approve order error:", error);
         return { success: false, error: "Failed to approve order." };
@@ -37,26 +86,160 @@ export async function approveOrder(orderId: string) {
 }
 
 /**
- * Reject an order — sets status to "rejected"
+ * What an approved order earns — gift cards, creator commission
+ * and loyalty points. Each step is safe to run again and a
+ * failure is only logged: the order is already queued for
+ * delivery.
  */
-export async function rejectOrder(orderId: string) {
+async function settleApprovedOrder(db: Db, order: WithId<Document>) {
     try {
-        const db = await connectToDatabase();
-        await db.collection("orders").updateOne(
-            { _id: new ObjectId(orderId) },
-            {
-                $set: {
-                    status: "rejected",
-                    updatedAt: new Date(),
-                },
+        // Gift card codes go to the buyer's email and account page only
+        const giftCardCodes = await mintOrderGiftCards(db, order._id);
+        if (giftCardCodes.length > 0 && order.accountId) {
+            const email = await getAccountEmailById(db, order.accountId);
+            try {
+                if (email) await sendGiftCardEmail(email, order.orderId, giftCardCodes);
+            } catch (emailErr) {
+                // Staff can still read the codes out from the order page
+                console.error("Gift card email failed:", emailErr);
             }
-        );
+        }
+    } catch (error) {
+        console.error(`Gift card minting failed for ${order.orderId}:`, error);
+    }
+    try {
+        // A creator code earns its commission once the order is paid
+        await creditCreatorCommission(db, order._id);
+    } catch (error) {
+        console.error(`Creator commission failed for ${order.orderId}:`, error);
+    }
+    try {
+        await earnOrderPoints(db, order._id);
+    } catch (error) {
+        console.error(`Loyalty points failed for ${order.orderId}:`, error);
+    }
+}
+
+/**
+ * Reject an order — sets status to "rejected" with a reason the
+ * player sees on the tracking page, and gives back the stock,
+ * gift card credit and loyalty points it was holding
+ */
+export async function rejectOrder(orderId: string, reasonCode: RejectionReasonCode, details?: string) {
+    try {
+        const admin = await requirePermission("orders.manage");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const extra = String(details ?? "").trim().slice(0, REJECTION_DETAILS_MAX);
+        if (!isRejectionReasonCode(reasonCode)) {
+            return { success: false, error: "Pick a reason for the rejection." };
+        }
+        if (reasonCode === "other" && !extra) {
+            return { success: false, error: "Describe the reason for the rejection." };
+        }
+        const reason = rejectionReasonText(reasonCode, extra);
+
+        const db = await connectToDatabase();
+        const order = await db
+            .collection("orders")
+            .findOne({ _id: new ObjectId(orderId) });
+        if (!order) {
+            return { success: false, error: "Order not found." };
+        }
+
+        const moved = await transitionOrder(db, orderId, "rejected", {
+            by: { type: "admin", id: admin.sub, username: admin.username },
+            reasonCode,
+            reason,
+        });
+        if (!moved) {
+            return { success: false, error: "Order is no longer pending." };
+        }
+        // Limited-stock items go back on sale
+        await releaseOrderStock(db, order._id);
+        await releaseOrderGiftCard(db, order._id);
+        // Its coupon uses count again
+        await releaseCoupons(db, order.orderId);
+        await refundPoints(db, order.orderId);
         revalidatePath("/admin/orders");
         revalidatePath("/admin");
-        await logActivity({ action: "order_rejected", entity: orderId, details: "Order rejected" });
+        await logActivity({
+            action: "order_rejected",
+            entity: order.orderId,
+            details: `Order rejected: ${reason}`,
+            before: { status: order.status },
+            after: { status: "rejected" },
+        });
         return { success: true };
     } catch (error) {
         console.error("Reject order error:", error);
         return { success: false, error: "Failed to reject order." };
     }
 }
+
+/**
+ * Retry delivery — puts a failed delivery back in the queue and
+ * attempts it immediately. Only failed commands are re-run.
+ */
+export async function retryDelivery(orderId: string) {
+    try {
+        const admin = await requirePermission("orders.manage");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        // Commands that may have run need a human decision first
+        const db = await connectToDatabase();
+        const order = await db.collection("orders").findOne({ _id: new ObjectId(orderId) });
+        const delivery = order?.delivery as OrderDelivery | undefined;
+        if (delivery?.commands.some((c) => c.status === "unknown")) {
+            return { success: false, error: "Check in-game whether the unknown commands ran first." };
+        }
+
+        const requeued = await requeueDelivery(orderId, { type: "admin", id: admin.sub, username: admin.username });
+        if (!requeued) {
+            return { success: false, error: "No failed delivery for this order." };
+        }
+        await logActivity({ action: "delivery_requeued", entity: orderId, details: "Delivery requeued" });
+        const deliveryStatus = await processOrderDelivery(orderId);
+
+        revalidatePath("/admin/orders");
+        revalidatePath("/admin/delivery");
+        return { success: true, deliveryStatus };
+    } catch (error) {
+        console.error("Retry delivery error:", error);
+        return { success: false, error: "Failed to retry delivery." };
+    }
+}
+
+/**
+ * Settle unknown commands — staff checked in-game whether the
+ * commands that got no reply ran. Ran → counted as delivered;
+ * didn't → sent again on the next retry.
+ */
+export async function settleUnknownCommands(orderId: string, ran: boolean) {
+    try {
+        const admin = await requirePermission("orders.manage");
+        if (!admin) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const changed = await resolveUnknownCommands(orderId, ran);
+        if (changed === 0) {
+            return { success: false, error: "No unknown commands on this order." };
+        }
+        await logActivity({
+            action: "delivery_commands_settled",
+            entity: orderId,
+            details: `${changed} unknown command(s) marked as ${ran ? "ran" : "not run"}`,
+        });
+
+        revalidatePath("/admin/orders");
+        return { success: true };
+    } catch (error) {
+        console.error("Settle unknown commands error:", error);
+        return { success: false, error: "Failed to update the commands." };
+    }
+}
@@ -8,6 +8,10 @@
 import { connectToDatabase } from "@/lib/mongodb";
 import { ShoppingCart, Download } from "lucide-react";
 import OrderTableClient from "./OrderTableClient";
+import type { OrderDelivery } from "@/lib/delivery";
+import { getAdminSession, requireAdminPage } from "@/lib/adminAuth";
+import { can } from "@/lib/adminSession";
+import { rejectionReasonOf } from "@/lib/orderStatus";
 
 // ─── Types ─────────────────────────────────────────────────────
 
@@ -24,11 +28,28 @@ export interface Order {
     orderId: string;
     minecraftUsername: string;
     edition: string;
-    utrNumber: string;
+    gift?: {                   // Bought for minecraftUsername by someone else
+        buyerUsername: string;
+        buyerEdition: string;
+        message?: string;
+    };
+    usernameVerified?: boolean; // Player proved the name in-game with /verifystore
+    utrNumber: string | null;  // null when a gift card paid for everything
+    giftCard?: {               // Store credit spent on this order (on top of `total`)
+        code: string;
+        amount: number;
+    };
+    giftCardsIssued?: string[]; // Codes minted for gift cards bought on this order
+    pointsRedeemed?: number;   // Loyalty points spent on this order
+    pointsDiscount?: number;   // ₹ those points took off (not in `total`)
+    utrDuplicateOf?: string;   // Earlier (rejected) order that used the same UTR
+    duplicateUtr?: boolean;    // UTR appears on more than one order
     items: OrderItem[];
     total: number;
     status: string;
+    rejectionReason?: string;  // From the status history (newer orders only)
     createdAt: string;
+    delivery?: OrderDelivery;
 }
 
 // ─── Data Fetcher ──────────────────────────────────────────────
@@ -42,12 +63,29 @@ async function getOrders(): Promise<Order[]> {
             .sort({ createdAt: -1 })
             .toArray();
 
+        // Count UTRs so reused ones can be flagged in the table
+        const utrCounts = new Map<string, number>();
+        for (const order of orders) {
+            if (!order.utrNumber) continue;
+            utrCounts.set(order.utrNumber, (utrCounts.get(order.utrNumber) || 0) + 1);
+        }
+
         return orders.map((order) => ({
             ...order,
             _id: order._id.toString(),
+            duplicateUtr: !!order.utrNumber && (utrCounts.get(order.utrNumber) || 0) > 1,
+            rejectionReason: rejectionReasonOf(order.statusHistory),
             createdAt: order.createdAt
                 ? new Date(order.createdAt).toISOString()
                 : new Date().toISOString(),
+            delivery: order.delivery
+                ? {
+                    ...order.delivery,
+                    lastAttemptAt: order.delivery.lastAttemptAt
+                        ? new Date(order.delivery.lastAttemptAt).toISOString()
+                        : undefined,
+                }
+                : undefined,
         })) as Order[];
     } catch (error) {
         console.error("Fetch orders error:", error);
@@ -65,19 +103,20 @@ import { Suspense } from "react";
 import { Loader2 } from "lucide-react";
 
 async function OrdersData() {
-    const orders = await getOrders();
+    const [orders, session] = await Promise.all([getOrders(), getAdminSession()]);
     return (
         <>
             {/* ── Page Header Data Update ── */}
             <p className="text-zinc-500 text-sm mb-8 -mt-6">
                 Manage and verify customer orders • {orders.length} total
             </p>
-            <OrderTableClient orders={orders} />
+            <OrderTableClient orders={orders} canManage={can(session?.role, "orders.manage")} />
         </>
     );
 }
 
-export default function AdminOrdersPage() {
+export default async function AdminOrdersPage() {
+    await requireAdminPage();
     return (
         <div>
             {/* ── Page Header (Instant Load) ── */}
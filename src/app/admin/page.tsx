@@ -7,6 +7,7 @@
 
 
 import { connectToDatabase } from "@/lib/mongodb";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
 import DashboardClient from "./DashboardClient";
 
 // ─── Data Fetcher ──────────────────────────────────────────────
@@ -46,12 +47,12 @@ async function getDashboardData() {
         ] = await Promise.all([
             ordersCol.countDocuments(),
             ordersCol.countDocuments({ status: "pending" }),
-            ordersCol.countDocuments({ status: "success" }),
+            ordersCol.countDocuments({ status: { $in: PAID_ORDER_STATUSES } }),
             ordersCol.countDocuments({ status: "rejected" }),
             productsCol.countDocuments(),
             ordersCol
                 .aggregate([
-                    { $match: { status: "success" } },
+                    { $match: { status: { $in: PAID_ORDER_STATUSES } } },
                     { $group: { _id: null, total: { $sum: "$total" } } },
                 ])
                 .toArray(),
@@ -64,7 +65,7 @@ async function getDashboardData() {
                 .aggregate([
                     {
                         $match: {
-                            status: "success",
+                            status: { $in: PAID_ORDER_STATUSES },
                             createdAt: { $gte: todayStart, $lte: todayEnd },
                         },
                     },
@@ -103,7 +104,7 @@ async function getDashboardData() {
                 .aggregate([
                     {
                         $match: {
-                            status: "success",
+                            status: { $in: PAID_ORDER_STATUSES },
                             createdAt: { $gte: sevenDaysAgo },
                         },
                     },
@@ -122,16 +123,18 @@ async function getDashboardData() {
                     { $sort: { _id: 1 } },
                 ])
                 .toArray(),
-            // Top selling products
+            // Top selling products (bundles counted as their contents)
             ordersCol
                 .aggregate([
-                    { $match: { status: "success" } },
+                    { $match: { status: { $in: PAID_ORDER_STATUSES } } },
                     { $unwind: "$items" },
+                    { $project: { lines: { $ifNull: ["$items.components", ["$items"]] } } },
+                    { $unwind: "$lines" },
                     {
                         $group: {
-                            _id: "$items.name",
-                            totalQty: { $sum: "$items.quantity" },
-                            totalRevenue: { $sum: "$items.lineTotal" },
+                            _id: "$lines.name",
+                            totalQty: { $sum: "$lines.quantity" },
+                            totalRevenue: { $sum: "$lines.lineTotal" },
                         },
                     },
                     { $sort: { totalRevenue: -1 } },
@@ -216,6 +219,7 @@ export const dynamic = "force-dynamic";
 
 import { Suspense } from "react";
 import { Loader2, TrendingUp } from "lucide-react";
+import { requireAdminPage } from "@/lib/adminAuth";
 
 async function DashboardData() {
     const data = await getDashboardData();
@@ -312,7 +316,8 @@ async function DashboardData() {
     );
 }
 
-export default function AdminDashboardPage() {
+export default async function AdminDashboardPage() {
+    await requireAdminPage();
     // Determine greeting based on hour
     const hour = new Date().getHours();
     let greeting = "Good Evening";
@@ -1,7 +1,9 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: ProductsClient.tsx
 // PURPOSE: Client-side product management UI with Add/Edit/Delete
-//          modal forms and dynamic perks list.
+//          modal forms, dynamic perks list, per-product stock,
+//          purchase rules (rank ladder / tier, per-player limit)
+//          and bundle contents.
 // LOCATION: src/app/admin/products/ProductsClient.tsx
 // ═══════════════════════════════════════════════════════════════
 
@@ -18,11 +20,17 @@ import {
     Star,
     Tag,
     ImageIcon,
+    Terminal,
+    Boxes,
+    TrendingUp,
+    Gift,
+    CreditCard,
 } from "lucide-react";
-import { addProduct, updateProduct, deleteProduct } from "./actions";
+import { addProduct, updateProduct, updateStock, deleteProduct } from "./actions";
 import { uploadImageToImgBB } from "./uploadAction";
 import Image from "next/image";
 import type { ProductDoc } from "./page";
+import { LOW_STOCK_THRESHOLD } from "@/lib/data";
 
 // ─── Category Options ──────────────────────────────────────────
 
@@ -48,6 +56,18 @@ const emptyForm = {
     salePercent: 0,
     saleStartAt: "",
     saleEndAt: "",
+    // ─── Delivery Commands (one per line) ────
+    commands: "",
+    // ─── Initial stock (blank = unlimited) ────
+    stock: "",
+    // ─── Purchase Rules (blank = none) ────
+    ladder: "",
+    tier: "",
+    maxPerPlayer: "",
+    // ─── Bundle Contents (empty = normal product) ────
+    bundle: [] as { id: string; quantity: number }[],
+    // ─── Gift Card value in ₹ (blank = normal product) ────
+    giftCardValue: "",
 };
 
 // ═══════════════════════════════════════════════════════════════
@@ -56,8 +76,12 @@ const emptyForm = {
 
 export default function ProductsClient({
     products,
+    canEdit = true,
+    canDelete = true,
 }: {
     products: ProductDoc[];
+    canEdit?: boolean;     // Moderators and owners
+    canDelete?: boolean;   // Owners only
 }) {
     const [showModal, setShowModal] = useState(false);
     const [editingId, setEditingId] = useState<string | null>(null);
@@ -88,6 +112,17 @@ export default function ProductsClient({
             salePercent: product.salePercent || 0,
             saleStartAt: product.saleStartAt ? product.saleStartAt.slice(0, 16) : "",
             saleEndAt: product.saleEndAt ? product.saleEndAt.slice(0, 16) : "",
+            commands: (product.commands || []).join("\n"),
+            stock: "",   // Edited from the card, not the form
+            ladder: product.ladder || "",
+            tier: product.tier ? String(product.tier) : "",
+            maxPerPlayer: product.maxPerPlayer ? String(product.maxPerPlayer) : "",
+            // Seeded bundles refer to slugs — show them as the matching product
+            bundle: (product.bundle || []).map((item) => ({
+                id: products.find((p) => p._id === item.id || p.id === item.id)?._id ?? item.id,
+                quantity: item.quantity,
+            })),
+            giftCardValue: product.giftCardValue ? String(product.giftCardValue) : "",
         });
         setEditingId(product._id);
         setShowModal(true);
@@ -97,6 +132,10 @@ export default function ProductsClient({
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         const cleanedPerks = form.perks.filter((p) => p.trim() !== "");
+        const cleanedCommands = form.commands
+            .split("\n")
+            .map((c) => c.trim())
+            .filter((c) => c !== "");
 
         startTransition(async () => {
             const data = {
@@ -106,22 +145,49 @@ export default function ProductsClient({
                 salePercent: form.salePercent || undefined,
                 saleStartAt: form.saleStartAt || undefined,
                 saleEndAt: form.saleEndAt || undefined,
+                commands: cleanedCommands,
+                stock: form.stock === "" ? null : Math.max(0, parseInt(form.stock) || 0),
+                ladder: form.ladder.trim().toLowerCase() || undefined,
+                tier: parseInt(form.tier) > 0 ? parseInt(form.tier) : undefined,
+                maxPerPlayer: parseInt(form.maxPerPlayer) > 0 ? parseInt(form.maxPerPlayer) : undefined,
+                bundle: form.bundle.filter((item) => item.id),
+                giftCardValue: parseFloat(form.giftCardValue) > 0 ? parseFloat(form.giftCardValue) : undefined,
             };
 
-            if (editingId) {
-                await updateProduct(editingId, data);
-            } else {
-                await addProduct(data);
+            const result = editingId
+                ? await updateProduct(editingId, data)
+                : await addProduct(data);
+            if (!result.success) {
+                alert(result.error);
+                return;
             }
             setShowModal(false);
             setEditingId(null);
         });
     };
 
+    // ── Handle Stock Change ────────────────────────────────────
+    const handleStock = (product: ProductDoc) => {
+        const current = typeof product.stock === "number" ? String(product.stock) : "";
+        const value = prompt(`Stock for ${product.name} (leave blank for unlimited):`, current);
+        if (value === null) return;
+
+        const stock = value.trim() === "" ? null : parseInt(value, 10);
+        if (stock !== null && (isNaN(stock) || stock < 0)) {
+            alert("Stock must be a whole number of 0 or more.");
+            return;
+        }
+        startTransition(async () => {
+            const result = await updateStock(product._id, stock);
+            if (!result.success) alert(result.error);
+        });
+    };
+
     // ── Handle Delete ──────────────────────────────────────────
     const handleDelete = (id: string) => {
         startTransition(async () => {
-            await deleteProduct(id);
+            const result = await deleteProduct(id);
+            if (!result.success) alert(result.error);
             setDeleteConfirm(null);
         });
     };
@@ -245,6 +311,24 @@ export default function ProductsClient({
         setForm({ ...form, perks: newPerks });
     };
 
+    // ── Bundle Items ───────────────────────────────────────────
+    // Any product except bundles and the one being edited
+    const bundleOptions = products.filter(
+        (p) => p._id !== editingId && !(p.bundle && p.bundle.length > 0)
+    );
+    const addBundleItem = () => {
+        setForm({ ...form, bundle: [...form.bundle, { id: "", quantity: 1 }] });
+    };
+    const removeBundleItem = (index: number) => {
+        setForm({ ...form, bundle: form.bundle.filter((_, i) => i !== index) });
+    };
+    const updateBundleItem = (index: number, change: Partial<{ id: string; quantity: number }>) => {
+        setForm({
+            ...form,
+            bundle: form.bundle.map((item, i) => (i === index ? { ...item, ...change } : item)),
+        });
+    };
+
     // ── Category Badge Color ───────────────────────────────────
     const getCategoryColor = (cat: string) => {
         switch (cat) {
@@ -262,13 +346,15 @@ export default function ProductsClient({
     return (
         <div>
             {/* ── Add Button ── */}
-            <button
-                onClick={openAdd}
-                className="mb-6 flex items-center gap-2 px-5 py-3 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 text-white font-semibold rounded-xl transition-all shadow-lg shadow-emerald-500/20 hover:shadow-emerald-500/30 cursor-pointer"
-            >
-                <Plus className="w-5 h-5" />
-                Add New Product
-            </button>
+            {canEdit && (
+                <button
+                    onClick={openAdd}
+                    className="mb-6 flex items-center gap-2 px-5 py-3 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 text-white font-semibold rounded-xl transition-all shadow-lg shadow-emerald-500/20 hover:shadow-emerald-500/30 cursor-pointer"
+                >
+                    <Plus className="w-5 h-5" />
+                    Add New Product
+                </button>
+            )}
 
             {/* ── Products Grid ── */}
             {products.length === 0 ? (
@@ -321,6 +407,56 @@ export default function ProductsClient({
                                         Popular
                                     </span>
                                 )}
+                                {product.commands && product.commands.length > 0 && (
+                                    <span className="inline-flex items-center gap-1 px-2.5 py-1 bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 rounded-lg text-xs font-medium">
+                                        <Terminal className="w-3 h-3" />
+                                        {product.commands.length} cmd
+                                    </span>
+                                )}
+                                {product.bundle && product.bundle.length > 0 && (
+                                    <span className="inline-flex items-center gap-1 px-2.5 py-1 bg-amber-500/10 border border-amber-500/20 text-amber-400 rounded-lg text-xs font-medium">
+                                        <Gift className="w-3 h-3" />
+                                        Bundle · {product.bundle.length} items
+                                    </span>
+                                )}
+                                {product.ladder && (
+                                    <span className="inline-flex items-center gap-1 px-2.5 py-1 bg-violet-500/10 border border-violet-500/20 text-violet-400 rounded-lg text-xs font-medium">
+                                        <TrendingUp className="w-3 h-3" />
+                                        {product.ladder} · tier {product.tier ?? "?"}
+                                    </span>
+                                )}
+                                {product.giftCardValue && (
+                                    <span className="inline-flex items-center gap-1 px-2.5 py-1 bg-pink-500/10 border border-pink-500/20 text-pink-400 rounded-lg text-xs font-medium">
+                                        <CreditCard className="w-3 h-3" />
+                                        Gift card · ₹{product.giftCardValue}
+                                    </span>
+                                )}
+                                {product.maxPerPlayer && (
+                                    <span className="px-2.5 py-1 bg-zinc-500/10 border border-zinc-500/20 text-zinc-400 rounded-lg text-xs font-medium">
+                                        Max {product.maxPerPlayer}/player
+                                    </span>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => handleStock(product)}
+                                    disabled={!canEdit || isPending}
+                                    title={canEdit ? "Change stock" : undefined}
+                                    className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium border transition-all enabled:cursor-pointer enabled:hover:brightness-125 ${typeof product.stock !== "number"
+                                        ? "bg-zinc-500/10 border-zinc-500/20 text-zinc-400"
+                                        : product.stock <= 0
+                                            ? "bg-red-500/10 border-red-500/20 text-red-400"
+                                            : product.stock <= LOW_STOCK_THRESHOLD
+                                                ? "bg-amber-500/10 border-amber-500/20 text-amber-400"
+                                                : "bg-emerald-500/10 border-emerald-500/20 text-emerald-400"
+                                        }`}
+                                >
+                                    <Boxes className="w-3 h-3" />
+                                    {typeof product.stock !== "number"
+                                        ? "Unlimited"
+                                        : product.stock <= 0
+                                            ? "Sold out"
+                                            : `${product.stock} in stock`}
+                                </button>
                                 {product.salePercent && product.salePercent > 0 && (
                                     <span className="inline-flex items-center gap-1 px-2.5 py-1 bg-red-500/10 border border-red-500/20 text-red-400 rounded-lg text-xs font-bold">
                                         <Flame className="w-3 h-3" />
@@ -352,50 +488,54 @@ export default function ProductsClient({
                             </div>
 
                             {/* Actions */}
-                            <div className="flex items-center gap-2 pt-3 border-t border-zinc-800/50">
-                                <button
-                                    onClick={() => openEdit(product)}
-                                    className="flex items-center gap-1.5 px-3 py-2 bg-blue-500/10 border border-blue-500/20 text-blue-400 rounded-xl text-xs font-medium hover:bg-blue-500/20 transition-all cursor-pointer"
-                                >
-                                    <Pencil className="w-3.5 h-3.5" />
-                                    Edit
-                                </button>
-                                {deleteConfirm === product._id ? (
-                                    <div className="flex items-center gap-1.5">
+                            {(canEdit || canDelete) && (
+                                <div className="flex items-center gap-2 pt-3 border-t border-zinc-800/50">
+                                    {canEdit && (
                                         <button
-                                            onClick={() =>
-                                                handleDelete(product._id)
-                                            }
-                                            disabled={isPending}
-                                            className="flex items-center gap-1.5 px-3 py-2 bg-red-500/20 border border-red-500/30 text-red-400 rounded-xl text-xs font-medium hover:bg-red-500/30 transition-all cursor-pointer disabled:opacity-50"
+                                            onClick={() => openEdit(product)}
+                                            className="flex items-center gap-1.5 px-3 py-2 bg-blue-500/10 border border-blue-500/20 text-blue-400 rounded-xl text-xs font-medium hover:bg-blue-500/20 transition-all cursor-pointer"
                                         >
-                                            {isPending ? (
-                                                <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                                            ) : (
-                                                "Confirm"
-                                            )}
+                                            <Pencil className="w-3.5 h-3.5" />
+                                            Edit
                                         </button>
+                                    )}
+                                    {!canDelete ? null : deleteConfirm === product._id ? (
+                                        <div className="flex items-center gap-1.5">
+                                            <button
+                                                onClick={() =>
+                                                    handleDelete(product._id)
+                                                }
+                                                disabled={isPending}
+                                                className="flex items-center gap-1.5 px-3 py-2 bg-red-500/20 border border-red-500/30 text-red-400 rounded-xl text-xs font-medium hover:bg-red-500/30 transition-all cursor-pointer disabled:opacity-50"
+                                            >
+                                                {isPending ? (
+                                                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                                                ) : (
+                                                    "Confirm"
+                                                )}
+                                            </button>
+                                            <button
+                                                onClick={() =>
+                                                    setDeleteConfirm(null)
+                                                }
+                                                className="px-3 py-2 text-zinc-400 rounded-xl text-xs font-medium hover:text-white transition-all cursor-pointer"
+                                            >
+                                                Cancel
+                                            </button>
+                                        </div>
+                                    ) : (
                                         <button
                                             onClick={() =>
-                                                setDeleteConfirm(null)
+                                                setDeleteConfirm(product._id)
                                             }
-                                            className="px-3 py-2 text-zinc-400 rounded-xl text-xs font-medium hover:text-white transition-all cursor-pointer"
+                                            className="flex items-center gap-1.5 px-3 py-2 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-xs font-medium hover:bg-red-500/20 transition-all cursor-pointer"
                                         >
-                                            Cancel
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                            Delete
                                         </button>
-                                    </div>
-                                ) : (
-                                    <button
-                                        onClick={() =>
-                                            setDeleteConfirm(product._id)
-                                        }
-                                        className="flex items-center gap-1.5 px-3 py-2 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl text-xs font-medium hover:bg-red-500/20 transition-all cursor-pointer"
-                                    >
-                                        <Trash2 className="w-3.5 h-3.5" />
-                                        Delete
-                                    </button>
-                                )}
-                            </div>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -621,6 +761,183 @@ export default function ProductsClient({
                                 </div>
                             </div>
 
+                            {/* ═══ Inventory (new products only — edit from the card) ═══ */}
+                            {!editingId && (
+                                <div className="border-t border-zinc-800/50 pt-4">
+                                    <div className="flex items-center gap-2 mb-3">
+                                        <Boxes className="w-4 h-4 text-emerald-400" />
+                                        <p className="text-zinc-300 text-sm font-semibold">Inventory</p>
+                                    </div>
+                                    <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-1.5 font-medium">
+                                        Stock
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={form.stock}
+                                        onChange={(e) =>
+                                            setForm({
+                                                ...form,
+                                                stock: e.target.value,
+                                            })
+                                        }
+                                        placeholder="Leave blank for unlimited"
+                                        className="w-full px-4 py-3 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 text-sm focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all"
+                                    />
+                                </div>
+                            )}
+
+                            {/* ═══ Bundle Section ═══ */}
+                            <div className="border-t border-zinc-800/50 pt-4">
+                                <div className="flex items-center justify-between mb-3">
+                                    <div className="flex items-center gap-2">
+                                        <Gift className="w-4 h-4 text-amber-400" />
+                                        <p className="text-zinc-300 text-sm font-semibold">Bundle Contents</p>
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={addBundleItem}
+                                        className="text-amber-400 text-xs font-medium hover:text-amber-300 transition-colors cursor-pointer"
+                                    >
+                                        + Add Item
+                                    </button>
+                                </div>
+                                {form.bundle.length === 0 ? (
+                                    <p className="text-zinc-600 text-xs">
+                                        Not a bundle. Add items to sell several products together at this product&apos;s price.
+                                    </p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {form.bundle.map((item, i) => (
+                                            <div key={i} className="flex items-center gap-2">
+                                                <select
+                                                    value={item.id}
+                                                    onChange={(e) => updateBundleItem(i, { id: e.target.value })}
+                                                    required
+                                                    className="flex-1 px-4 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm focus:outline-none focus:border-amber-500/50 focus:ring-1 focus:ring-amber-500/20 transition-all cursor-pointer"
+                                                >
+                                                    <option value="" className="bg-zinc-900">Choose a product…</option>
+                                                    {bundleOptions.map((p) => (
+                                                        <option key={p._id} value={p._id} className="bg-zinc-900">
+                                                            {p.name} (₹{p.price})
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <input
+                                                    type="number"
+                                                    min="1"
+                                                    value={item.quantity}
+                                                    onChange={(e) => updateBundleItem(i, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                                                    className="w-20 px-3 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white text-sm focus:outline-none focus:border-amber-500/50 focus:ring-1 focus:ring-amber-500/20 transition-all"
+                                                />
+                                                <button
+                                                    type="button"
+                                                    onClick={() => removeBundleItem(i)}
+                                                    className="text-zinc-600 hover:text-red-400 transition-colors p-1 cursor-pointer"
+                                                >
+                                                    <X className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* ═══ Purchase Rules Section ═══ */}
+                            <div className="border-t border-zinc-800/50 pt-4">
+                                <div className="flex items-center gap-2 mb-3">
+                                    <TrendingUp className="w-4 h-4 text-violet-400" />
+                                    <p className="text-zinc-300 text-sm font-semibold">Purchase Rules</p>
+                                </div>
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div>
+                                        <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-1.5 font-medium">
+                                            Ladder
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={form.ladder}
+                                            onChange={(e) =>
+                                                setForm({
+                                                    ...form,
+                                                    ladder: e.target.value,
+                                                })
+                                            }
+                                            placeholder="e.g. ranks"
+                                            className="w-full px-4 py-3 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 text-sm focus:outline-none focus:border-violet-500/50 focus:ring-1 focus:ring-violet-500/20 transition-all"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-1.5 font-medium">
+                                            Tier
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={form.tier}
+                                            onChange={(e) =>
+                                                setForm({
+                                                    ...form,
+                                                    tier: e.target.value,
+                                                })
+                                            }
+                                            placeholder="1 = lowest"
+                                            required={form.ladder.trim() !== ""}
+                                            className="w-full px-4 py-3 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 text-sm focus:outline-none focus:border-violet-500/50 focus:ring-1 focus:ring-violet-500/20 transition-all"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-1.5 font-medium">
+                                            Max / Player
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={form.maxPerPlayer}
+                                            onChange={(e) =>
+                                                setForm({
+                                                    ...form,
+                                                    maxPerPlayer: e.target.value,
+                                                })
+                                            }
+                                            placeholder="No limit"
+                                            className="w-full px-4 py-3 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 text-sm focus:outline-none focus:border-violet-500/50 focus:ring-1 focus:ring-violet-500/20 transition-all"
+                                        />
+                                    </div>
+                                </div>
+                                <p className="text-zinc-600 text-xs mt-1.5">
+                                    Players who own a lower tier on the same ladder pay only the difference.
+                                </p>
+                            </div>
+
+                            {/* ═══ Gift Card Section ═══ */}
+                            <div className="border-t border-zinc-800/50 pt-4">
+                                <div className="flex items-center gap-2 mb-3">
+                                    <CreditCard className="w-4 h-4 text-pink-400" />
+                                    <p className="text-zinc-300 text-sm font-semibold">Gift Card</p>
+                                </div>
+                                <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-1.5 font-medium">
+                                    Credit per Card (₹)
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={form.giftCardValue}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            giftCardValue: e.target.value,
+                                        })
+                                    }
+                                    placeholder="Not a gift card"
+                                    className="w-full px-4 py-3 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 text-sm focus:outline-none focus:border-pink-500/50 focus:ring-1 focus:ring-pink-500/20 transition-all"
+                                />
+                                <p className="text-zinc-600 text-xs mt-1.5">
+                                    Each one bought mints a store-credit code when the order is approved. Coupons don&apos;t apply to gift cards.
+                                </p>
+                            </div>
+
                             {/* ═══ Flash Sale Section ═══ */}
                             <div className="border-t border-zinc-800/50 pt-4">
                                 <div className="flex items-center gap-2 mb-3">
@@ -695,6 +1012,32 @@ export default function ProductsClient({
                                 )}
                             </div>
 
+                            {/* ═══ Delivery Commands Section ═══ */}
+                            <div className="border-t border-zinc-800/50 pt-4">
+                                <div className="flex items-center gap-2 mb-3">
+                                    <Terminal className="w-4 h-4 text-cyan-400" />
+                                    <p className="text-zinc-300 text-sm font-semibold">In-Game Delivery</p>
+                                </div>
+                                <label className="block text-zinc-400 text-xs uppercase tracking-wider mb-1.5 font-medium">
+                                    RCON Commands (one per line)
+                                </label>
+                                <textarea
+                                    value={form.commands}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            commands: e.target.value,
+                                        })
+                                    }
+                                    rows={3}
+                                    placeholder={"lp user {username} parent add king\ncrate key give {username} legendary {quantity}"}
+                                    className="w-full px-4 py-3 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-white placeholder-zinc-600 text-sm font-mono focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/20 transition-all resize-none"
+                                />
+                                <p className="text-zinc-600 text-xs mt-1.5">
+                                    Placeholders: {"{username}"}, {"{quantity}"}, {"{orderId}"}, {"{edition}"}, {"{product}"}, {"{uuid}"}
+                                </p>
+                            </div>
+
                             {/* Dynamic Perks */}
                             <div>
                                 <div className="flex items-center justify-between mb-1.5">
@@ -1,14 +1,19 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: actions.ts  (Product Server Actions)
-// PURPOSE: Server actions for CRUD operations on products.
+// PURPOSE: Server actions for CRUD operations on products
+//          (including bundles of other products).
 // LOCATION: src/app/admin/products/actions.ts
 // ═══════════════════════════════════════════════════════════════
 
 "use server";
 
 import { connectToDatabase } from "@/lib/mongodb";
-import { ObjectId } from "mongodb";
+import { ObjectId, type Db } from "mongodb";
 import { revalidatePath } from "next/cache";
+import { logActivity } from "@/lib/logActivity";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import type { BundleItem } from "@/lib/data";
+import { GIFT_CARD_MAX_VALUE } from "@/lib/giftCards";
 
 // ─── Types ─────────────────────────────────────────────────────
 
@@ -25,13 +30,84 @@ interface ProductData {
     salePercent?: number;      // e.g. 50 for "50% OFF"
     saleStartAt?: string;      // ISO date string
     saleEndAt?: string;        // ISO date string
+    // ─── Delivery ──────────────────────────────────────────
+    commands?: string[];       // RCON command templates, e.g. "lp user {username} parent add king"
+    // ─── Inventory ─────────────────────────────────────────
+    stock?: number | null;     // Initial stock on create; null = unlimited. Changed later via updateStock
+    // ─── Purchase Rules ────────────────────────────────────
+    ladder?: string;           // Rank ladder, e.g. "ranks"
+    tier?: number;             // Position on the ladder (1 = lowest)
+    maxPerPlayer?: number;     // Lifetime limit per player
+    // ─── Bundle ────────────────────────────────────────────
+    bundle?: BundleItem[];     // Products included; empty = not a bundle
+    // ─── Gift Card ─────────────────────────────────────────
+    giftCardValue?: number;    // Credit (₹) minted per card when an order is approved
+}
+
+/** Error message for an invalid gift card value, or null. */
+function checkGiftCardValue(value: number | undefined): string | null {
+    if (value === undefined) return null;
+    if (!Number.isFinite(value) || value <= 0 || value > GIFT_CARD_MAX_VALUE) {
+        return `Gift card value must be between ₹0.01 and ₹${GIFT_CARD_MAX_VALUE}.`;
+    }
+    return null;
+}
+
+// ─── Bundle Validation ─────────────────────────────────────────
+
+/**
+ * Checks a bundle's items and stores them by database id. Items
+ * must be existing, non-bundle products other than the bundle
+ * itself; repeated products are merged.
+ */
+async function checkBundle(
+    db: Db,
+    bundle: BundleItem[] | undefined,
+    selfId?: string
+): Promise<{ items: BundleItem[] | undefined } | { error: string }> {
+    if (!bundle || bundle.length === 0) return { items: undefined };
+
+    const merged = new Map<string, number>();
+    for (const item of bundle) {
+        const quantity = Math.floor(item.quantity);
+        if (!item.id || !Number.isFinite(quantity) || quantity < 1) {
+            return { error: "Each bundle item needs a product and a quantity of 1 or more." };
+        }
+
+        const product = await db.collection("products").findOne(
+            ObjectId.isValid(item.id) ? { _id: new ObjectId(item.id) } : { id: item.id }
+        );
+        if (!product) return { error: "A product in the bundle no longer exists." };
+        if (product._id.toString() === selfId) return { error: "A bundle can't include itself." };
+        if (Array.isArray(product.bundle) && product.bundle.length > 0) {
+            return { error: `${product.name} is a bundle — bundles can't contain other bundles.` };
+        }
+
+        const id = product._id.toString();
+        merged.set(id, (merged.get(id) ?? 0) + quantity);
+    }
+
+    return { items: [...merged].map(([id, quantity]) => ({ id, quantity })) };
 }
 
 // ─── Add Product ───────────────────────────────────────────────
 
 export async function addProduct(data: ProductData) {
     try {
+        if (!(await requirePermission("products.edit"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        const giftCardError = checkGiftCardValue(data.giftCardValue);
+        if (giftCardError) {
+            return { success: false, error: giftCardError };
+        }
+
         const db = await connectToDatabase();
+        const bundle = await checkBundle(db, data.bundle);
+        if ("error" in bundle) {
+            return { success: false, error: bundle.error };
+        }
 
         // Generate a slug-style id from the name
         const id = data.name
@@ -39,14 +115,24 @@ export async function addProduct(data: ProductData) {
             .replace(/[^a-z0-9]+/g, "-")
             .replace(/(^-|-$)/g, "");
 
-        await db.collection("products").insertOne({
+        const product = {
             id,
             ...data,
             // Store sale dates as proper Date objects for MongoDB queries
             saleStartAt: data.saleStartAt ? new Date(data.saleStartAt) : undefined,
             saleEndAt: data.saleEndAt ? new Date(data.saleEndAt) : undefined,
+            stock: typeof data.stock === "number" && data.stock >= 0 ? Math.floor(data.stock) : null,
+            bundle: bundle.items,
             createdAt: new Date(),
             updatedAt: new Date(),
+        };
+        await db.collection("products").insertOne(product);
+
+        await logActivity({
+            action: "product_created",
+            entity: data.name,
+            details: `₹${data.price} • ${data.category}`,
+            after: product,
         });
 
         revalidatePath("/admin/products");
@@ -63,20 +149,54 @@ export async function addProduct(data: ProductData) {
 
 export async function updateProduct(mongoId: string, data: ProductData) {
     try {
+        if (!(await requirePermission("products.edit"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
         const db = await connectToDatabase();
+        // Stock moves with every order — only updateStock may set it,
+        // so an edit form opened earlier can't overwrite sales
+        const giftCardError = checkGiftCardValue(data.giftCardValue);
+        if (giftCardError) {
+            return { success: false, error: giftCardError };
+        }
+        const bundle = await checkBundle(db, data.bundle, mongoId);
+        if ("error" in bundle) {
+            return { success: false, error: bundle.error };
+        }
+        const fields = { ...data, bundle: bundle.items };
+        delete fields.stock;
 
-        await db.collection("products").updateOne(
-            { _id: new ObjectId(mongoId) },
-            {
-                $set: {
-                    ...data,
-                    // Store sale dates as proper Date objects for MongoDB queries
-                    saleStartAt: data.saleStartAt ? new Date(data.saleStartAt) : undefined,
-                    saleEndAt: data.saleEndAt ? new Date(data.saleEndAt) : undefined,
-                    updatedAt: new Date(),
-                },
-            }
-        );
+        const before = await db
+            .collection("products")
+            .findOneAndUpdate(
+                { _id: new ObjectId(mongoId) },
+                {
+                    $set: {
+                        ...fields,
+                        // Store sale dates as proper Date objects for MongoDB queries
+                        saleStartAt: data.saleStartAt ? new Date(data.saleStartAt) : undefined,
+                        saleEndAt: data.saleEndAt ? new Date(data.saleEndAt) : undefined,
+                        updatedAt: new Date(),
+                    },
+                }
+            );
+        if (!before) {
+            return { success: false, error: "Product not found." };
+        }
+
+        await logActivity({
+            action: "product_updated",
+            entity: data.name,
+            details: "Product updated",
+            before,
+            after: {
+                ...before,
+                ...fields,
+                saleStartAt: data.saleStartAt ? new Date(data.saleStartAt) : undefined,
+                saleEndAt: data.saleEndAt ? new Date(data.saleEndAt) : undefined,
+            },
+        });
 
         revalidatePath("/admin/products");
         revalidatePath("/admin");
@@ -88,15 +208,88 @@ export async function updateProduct(mongoId: string, data: ProductData) {
     }
 }
 
+// ─── Update Stock ──────────────────────────────────────────────
+
+/**
+ * Sets how many are left. `null` makes the product unlimited again.
+ */
+export async function updateStock(mongoId: string, stock: number | null) {
+    try {
+        if (!(await requirePermission("products.edit"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+        if (stock !== null && (!Number.isInteger(stock) || stock < 0)) {
+            return { success: false, error: "Stock must be a whole number of 0 or more." };
+        }
+
+        const db = await connectToDatabase();
+
+        const before = await db
+            .collection("products")
+            .findOneAndUpdate(
+                { _id: new ObjectId(mongoId) },
+                { $set: { stock, updatedAt: new Date() } }
+            );
+        if (!before) {
+            return { success: false, error: "Product not found." };
+        }
+
+        await logActivity({
+            action: "stock_updated",
+            entity: before.name,
+            details: stock === null ? "Set stock to unlimited" : `Set stock to ${stock}`,
+            before: { stock: before.stock ?? null },
+            after: { stock },
+        });
+
+        revalidatePath("/admin/products");
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Update stock error:", error);
+        return { success: false, error: "Failed to update stock." };
+    }
+}
+
 // ─── Delete Product ────────────────────────────────────────────
 
 export async function deleteProduct(mongoId: string) {
     try {
+        if (!(await requirePermission("products.delete"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
         const db = await connectToDatabase();
 
-        await db
+        // Bundles refer to products by id (or slug, if seeded) — don't
+        // leave a bundle pointing at nothing
+        const product = await db.collection("products").findOne({ _id: new ObjectId(mongoId) });
+        const refs = [mongoId, ...(typeof product?.id === "string" ? [product.id] : [])];
+        const usedIn = await db
+            .collection("products")
+            .find({ "bundle.id": { $in: refs } }, { projection: { name: 1 } })
+            .toArray();
+        if (usedIn.length > 0) {
+            return {
+                success: false,
+                error: `Remove it from these bundles first: ${usedIn.map((b) => b.name).join(", ")}.`,
+            };
+        }
+
+        const deleted = await db
             .collection("products")
-            .deleteOne({ _id: new ObjectId(mongoId) });
+            .findOneAndDelete({ _id: new ObjectId(mongoId) });
+        if (!deleted) {
+            return { success: false, error: "Product not found." };
+        }
+
+        await logActivity({
+            action: "product_deleted",
+            entity: deleted.name,
+            details: "Product deleted",
+            before: deleted,
+            after: null,
+        });
 
         revalidatePath("/admin/products");
         revalidatePath("/admin");
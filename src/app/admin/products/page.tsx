@@ -8,6 +8,8 @@
 import { connectToDatabase } from "@/lib/mongodb";
 import { Package } from "lucide-react";
 import ProductsClient from "./ProductsClient";
+import { getAdminSession, requireAdminPage } from "@/lib/adminAuth";
+import { can } from "@/lib/adminSession";
 
 // ─── Types ─────────────────────────────────────────────────────
 
@@ -26,6 +28,18 @@ export interface ProductDoc {
     salePercent?: number;
     saleStartAt?: string;
     saleEndAt?: string;
+    // ─── Delivery ──────────────────────────────────────────
+    commands?: string[];
+    // ─── Inventory ─────────────────────────────────────────
+    stock?: number | null;     // null / missing = unlimited
+    // ─── Purchase Rules ────────────────────────────────────
+    ladder?: string;
+    tier?: number;
+    maxPerPlayer?: number;
+    // ─── Bundle ────────────────────────────────────────────
+    bundle?: { id: string; quantity: number }[];
+    // ─── Gift Card ─────────────────────────────────────────
+    giftCardValue?: number;
 }
 
 // ─── Data Fetcher ──────────────────────────────────────────────
@@ -61,18 +75,23 @@ import { Suspense } from "react";
 import { Loader2 } from "lucide-react";
 
 async function ProductsData() {
-    const products = await getProducts();
+    const [products, session] = await Promise.all([getProducts(), getAdminSession()]);
     return (
         <>
             <p className="text-zinc-500 text-sm mb-8 -mt-6">
                 Manage your store catalog • {products.length} products
             </p>
-            <ProductsClient products={products} />
+            <ProductsClient
+                products={products}
+                canEdit={can(session?.role, "products.edit")}
+                canDelete={can(session?.role, "products.delete")}
+            />
         </>
     );
 }
 
-export default function AdminProductsPage() {
+export default async function AdminProductsPage() {
+    await requireAdminPage();
     return (
         <div>
             {/* ── Page Header (Instant) ── */}
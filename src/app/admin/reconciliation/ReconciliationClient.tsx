@@ -0,0 +1,235 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: ReconciliationClient.tsx
+// PURPOSE: Client-side statement upload, proposal review table
+//          (approve / reject with per-row checkboxes) and bulk
+//          apply button.
+// LOCATION: src/app/admin/reconciliation/ReconciliationClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+    AlertTriangle,
+    CheckCircle2,
+    Loader2,
+    Upload,
+    XCircle,
+} from "lucide-react";
+import { previewStatement, applyReconciliation } from "./actions";
+import type { ReconciliationResult } from "@/lib/reconciliation";
+
+// ═══════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════
+
+export default function ReconciliationClient() {
+    const [fileName, setFileName] = useState("");
+    const [result, setResult] = useState<ReconciliationResult | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+    const [isPending, startTransition] = useTransition();
+
+    // ── Upload & Preview ───────────────────────────────────────
+    const handleFile = (file: File | undefined) => {
+        if (!file) return;
+        setFileName(file.name);
+        setMessage(null);
+        startTransition(async () => {
+            const response = await previewStatement(await file.text());
+            if (!response.success) {
+                setResult(null);
+                setMessage({ type: "error", text: response.error });
+                return;
+            }
+            setResult(response.result);
+            // Everything is selected by default — untick what looks off
+            setSelected(new Set(response.result.proposals.map((p) => p.orderMongoId)));
+        });
+    };
+
+    // ── Apply Selected ─────────────────────────────────────────
+    const handleApply = () => {
+        if (!result) return;
+        const decisions = result.proposals
+            .filter((p) => selected.has(p.orderMongoId))
+            .map((p) => ({ orderMongoId: p.orderMongoId, action: p.action, rejection: p.rejection }));
+        if (decisions.length === 0) return;
+        if (!confirm(`Apply ${decisions.length} decision(s)? Approved orders will be delivered in-game.`)) return;
+
+        startTransition(async () => {
+            const response = await applyReconciliation(decisions);
+            if (response.success) {
+                setMessage({
+                    type: "success",
+                    text: `${response.approved} approved, ${response.rejected} rejected${response.skipped ? `, ${response.skipped} skipped (already handled)` : ""}.`,
+                });
+                setResult(null);
+                setFileName("");
+            } else {
+                setMessage({ type: "error", text: response.error || "Failed to apply." });
+            }
+        });
+    };
+
+    const toggle = (id: string) => {
+        const next = new Set(selected);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setSelected(next);
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* ── Upload ── */}
+            <label className="flex flex-col items-center justify-center gap-2 p-8 bg-zinc-900/50 border-2 border-dashed border-zinc-700/50 rounded-2xl cursor-pointer hover:border-emerald-500/40 transition-all">
+                {isPending && !result ? (
+                    <Loader2 className="w-8 h-8 text-emerald-500 animate-spin" />
+                ) : (
+                    <Upload className="w-8 h-8 text-zinc-500" />
+                )}
+                <span className="text-sm text-zinc-300">
+                    {fileName || "Choose a statement CSV"}
+                </span>
+                <span className="text-xs text-zinc-600">
+                    Needs a UTR / Reference column and an Amount / Credit column. A Date column enables &quot;not in statement&quot; checks.
+                </span>
+                <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                        handleFile(e.target.files?.[0]);
+                        e.target.value = "";
+                    }}
+                />
+            </label>
+
+            {message && (
+                <div className={`px-4 py-3 rounded-xl text-sm border ${message.type === "success"
+                    ? "bg-emerald-500/10 border-emerald-500/20 text-emerald-400"
+                    : "bg-red-500/10 border-red-500/20 text-red-400"
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            {result && (
+                <>
+                    {/* ── Summary ── */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {[
+                            { label: "Statement rows", value: result.rowCount },
+                            { label: "Proposals", value: result.proposals.length },
+                            { label: "Already handled", value: result.alreadyProcessed },
+                            { label: "No matching order", value: result.unmatchedRows.length },
+                        ].map((stat) => (
+                            <div key={stat.label} className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-4">
+                                <p className="text-zinc-500 text-xs">{stat.label}</p>
+                                <p className="text-white text-xl font-bold">{stat.value}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    {result.errors.length > 0 && (
+                        <div className="px-4 py-3 bg-amber-500/10 border border-amber-500/20 rounded-xl text-xs text-amber-400 space-y-1">
+                            {result.errors.slice(0, 10).map((err) => (
+                                <p key={err}>{err}</p>
+                            ))}
+                            {result.errors.length > 10 && <p>…and {result.errors.length - 10} more</p>}
+                        </div>
+                    )}
+
+                    {/* ── Proposals ── */}
+                    {result.proposals.length === 0 ? (
+                        <p className="text-zinc-500 text-sm text-center py-8">
+                            No pending orders match this statement.
+                        </p>
+                    ) : (
+                        <div className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-zinc-500 border-b border-zinc-800/50">
+                                        <th className="p-3 w-10"></th>
+                                        <th className="p-3">Order</th>
+                                        <th className="p-3">Player</th>
+                                        <th className="p-3">UTR</th>
+                                        <th className="p-3 text-right">Total</th>
+                                        <th className="p-3 text-right">Received</th>
+                                        <th className="p-3">Proposal</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {result.proposals.map((p) => (
+                                        <tr key={p.orderMongoId} className="border-b border-zinc-800/30 last:border-0">
+                                            <td className="p-3">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selected.has(p.orderMongoId)}
+                                                    onChange={() => toggle(p.orderMongoId)}
+                                                    className="accent-emerald-500 cursor-pointer"
+                                                />
+                                            </td>
+                                            <td className="p-3 font-mono text-xs text-zinc-400">{p.orderId}</td>
+                                            <td className="p-3 text-white">{p.minecraftUsername}</td>
+                                            <td className="p-3 font-mono text-xs text-amber-400">{p.utrNumber}</td>
+                                            <td className="p-3 text-right text-zinc-300">₹{p.orderTotal}</td>
+                                            <td className="p-3 text-right text-zinc-300">
+                                                {p.statementAmount !== null ? `₹${p.statementAmount}` : "—"}
+                                            </td>
+                                            <td className="p-3">
+                                                <span className={`inline-flex items-center gap-1.5 text-xs font-medium ${p.action === "approve" ? "text-emerald-400" : "text-red-400"}`}>
+                                                    {p.action === "approve" ? (
+                                                        <CheckCircle2 className="w-3.5 h-3.5" />
+                                                    ) : (
+                                                        <XCircle className="w-3.5 h-3.5" />
+                                                    )}
+                                                    {p.action === "approve" ? "Approve" : "Reject"}
+                                                </span>
+                                                <p className="text-zinc-500 text-xs mt-0.5">{p.reason}</p>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {/* ── Unmatched Rows ── */}
+                    {result.unmatchedRows.length > 0 && (
+                        <div className="px-4 py-3 bg-zinc-900/50 border border-zinc-800/50 rounded-xl">
+                            <p className="flex items-center gap-2 text-xs text-zinc-400 mb-2">
+                                <AlertTriangle className="w-3.5 h-3.5 text-amber-400" />
+                                Payments with no matching order
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                                {result.unmatchedRows.map((row) => (
+                                    <code key={`${row.line}-${row.utr}`} className="text-xs text-zinc-500 bg-zinc-800/50 px-2 py-0.5 rounded-lg font-mono">
+                                        {row.utr}{row.amount !== null && ` · ₹${row.amount}`}
+                                    </code>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {result.proposals.length > 0 && (
+                        <div className="flex justify-end">
+                            <button
+                                onClick={handleApply}
+                                disabled={isPending || selected.size === 0}
+                                className="flex items-center gap-2 px-5 py-2.5 bg-emerald-500/15 border border-emerald-500/30 text-emerald-400 rounded-xl text-sm font-medium hover:bg-emerald-500/25 transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                            >
+                                {isPending ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                    <CheckCircle2 className="w-4 h-4" />
+                                )}
+                                Apply {selected.size} Selected
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
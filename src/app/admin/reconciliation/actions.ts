@@ -0,0 +1,96 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Reconciliation Server Actions)
+// PURPOSE: Server actions for importing a bank / UPI statement
+//          and applying the proposed approvals and rejections.
+// LOCATION: src/app/admin/reconciliation/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { connectToDatabase } from "@/lib/mongodb";
+import { logActivity } from "@/lib/logActivity";
+import { reconcileStatement } from "@/lib/reconciliation";
+import { approveOrder, rejectOrder } from "../orders/actions";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import type { ReconciliationProposal } from "@/lib/reconciliation";
+
+const MAX_STATEMENT_BYTES = 2 * 1024 * 1024;
+
+// ─── Preview ───────────────────────────────────────────────────
+
+/**
+ * Matches a statement CSV against pending orders. Changes
+ * nothing — the admin reviews the proposals first.
+ */
+export async function previewStatement(csv: string) {
+    try {
+        if (!(await requirePermission("orders.manage"))) {
+            return { success: false as const, error: FORBIDDEN };
+        }
+
+        if (!csv.trim()) {
+            return { success: false as const, error: "The file is empty." };
+        }
+        if (csv.length > MAX_STATEMENT_BYTES) {
+            return { success: false as const, error: "Statement is too large (max 2 MB)." };
+        }
+
+        const db = await connectToDatabase();
+        const result = await reconcileStatement(db, csv);
+        return { success: true as const, result };
+    } catch (error) {
+        console.error("Preview statement error:", error);
+        return { success: false as const, error: "Failed to read statement." };
+    }
+}
+
+// ─── Apply ─────────────────────────────────────────────────────
+
+interface ReconciliationDecision {
+    orderMongoId: string;
+    action: "approve" | "reject";
+    rejection?: ReconciliationProposal["rejection"];
+}
+
+/**
+ * Approves / rejects the selected orders one by one. Orders that
+ * were handled by someone else in the meantime are skipped.
+ */
+export async function applyReconciliation(decisions: ReconciliationDecision[]) {
+    try {
+        if (!(await requirePermission("orders.manage"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
+        let approved = 0;
+        let rejected = 0;
+        let skipped = 0;
+
+        for (const decision of decisions) {
+            const result = decision.action === "approve"
+                ? await approveOrder(decision.orderMongoId)
+                : await rejectOrder(
+                    decision.orderMongoId,
+                    decision.rejection?.code ?? "utr-not-found",
+                    decision.rejection?.details
+                );
+
+            if (!result.success) skipped++;
+            else if (decision.action === "approve") approved++;
+            else rejected++;
+        }
+
+        await logActivity({
+            action: "payments_reconciled",
+            entity: "Statement import",
+            details: `${approved} approved, ${rejected} rejected, ${skipped} skipped`,
+        });
+
+        revalidatePath("/admin/reconciliation");
+        return { success: true, approved, rejected, skipped };
+    } catch (error) {
+        console.error("Apply reconciliation error:", error);
+        return { success: false, error: "Failed to apply reconciliation." };
+    }
+}
@@ -0,0 +1,35 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Admin Payment Reconciliation)
+// PURPOSE: Import a bank / UPI statement CSV, review which
+//          pending orders it confirms or contradicts, and approve
+//          or reject them in bulk.
+// LOCATION: src/app/admin/reconciliation/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import { FileSpreadsheet } from "lucide-react";
+import ReconciliationClient from "./ReconciliationClient";
+import { requireAdminPage } from "@/lib/adminAuth";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminReconciliationPage() {
+    await requireAdminPage();
+    return (
+        <div>
+            {/* ── Page Header ── */}
+            <div className="mb-8">
+                <div className="flex items-center gap-3 mb-2">
+                    <FileSpreadsheet className="w-6 h-6 text-emerald-400" />
+                    <h1 className="text-2xl md:text-3xl font-bold text-white">
+                        Payment Reconciliation
+                    </h1>
+                </div>
+                <p className="text-zinc-500 text-sm">
+                    Match a bank / UPI statement against pending orders by UTR and amount
+                </p>
+            </div>
+
+            <ReconciliationClient />
+        </div>
+    );
+}
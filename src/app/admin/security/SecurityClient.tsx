@@ -0,0 +1,250 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: SecurityClient.tsx
+// PURPOSE: Client-side two-factor setup — QR code + manual key
+//          for enrolment, confirmation code, one-time display of
+//          backup codes, and disable / regenerate forms.
+// LOCATION: src/app/admin/security/SecurityClient.tsx
+// ═══════════════════════════════════════════════════════════════
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { QRCodeSVG } from "qrcode.react";
+import {
+    Check,
+    Copy,
+    KeyRound,
+    Loader2,
+    ShieldCheck,
+    ShieldOff,
+    Smartphone,
+} from "lucide-react";
+import {
+    confirmTotpEnrollment,
+    disableTotp,
+    regenerateBackupCodes,
+    startTotpEnrollment,
+} from "./actions";
+import type { TwoFactorStatus } from "./page";
+
+// ═══════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════
+
+export default function SecurityClient({ status }: { status: TwoFactorStatus }) {
+    const router = useRouter();
+    const [enrollment, setEnrollment] = useState<{ secret: string; uri: string } | null>(null);
+    const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState("");
+    const [error, setError] = useState("");
+    const [copied, setCopied] = useState(false);
+    const [isPending, startTransition] = useTransition();
+
+    const handleStart = () => {
+        setError("");
+        startTransition(async () => {
+            const result = await startTotpEnrollment();
+            if (!result.success || !result.secret || !result.uri) {
+                setError(result.error || "Something went wrong.");
+                return;
+            }
+            setEnrollment({ secret: result.secret, uri: result.uri });
+        });
+    };
+
+    // Confirm, disable and regenerate all take the current code
+    const runWithCode = (
+        action: (code: string) => Promise<{ success: boolean; error?: string; backupCodes?: string[] }>
+    ) => {
+        setError("");
+        startTransition(async () => {
+            const result = await action(code);
+            setCode("");
+            if (!result.success) {
+                setError(result.error || "Something went wrong.");
+                return;
+            }
+            setEnrollment(null);
+            setBackupCodes(result.backupCodes ?? null);
+            router.refresh();
+        });
+    };
+
+    const handleCopyCodes = async () => {
+        if (!backupCodes) return;
+        await navigator.clipboard.writeText(backupCodes.join("\n"));
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleString("en-IN", {
+            day: "2-digit",
+            month: "short",
+            year: "numeric",
+        });
+
+    const inputClass =
+        "px-4 py-2.5 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-sm text-white placeholder:text-zinc-600 tracking-widest focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all";
+    const buttonClass =
+        "flex items-center justify-center gap-2 px-4 py-2.5 border rounded-xl text-sm font-medium transition-all disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed";
+
+    return (
+        <div className="space-y-6 max-w-2xl">
+            {error && (
+                <div className="px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* ── Backup Codes (shown once) ── */}
+            {backupCodes && (
+                <div className="bg-amber-500/5 border border-amber-500/20 rounded-2xl p-5">
+                    <div className="flex items-center justify-between mb-3">
+                        <h2 className="text-amber-400 font-semibold text-sm flex items-center gap-2">
+                            <KeyRound className="w-4 h-4" />
+                            Backup codes
+                        </h2>
+                        <button
+                            onClick={handleCopyCodes}
+                            className="flex items-center gap-1.5 text-xs text-zinc-400 hover:text-white transition-colors cursor-pointer"
+                        >
+                            {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                            {copied ? "Copied" : "Copy all"}
+                        </button>
+                    </div>
+                    <p className="text-zinc-400 text-xs mb-4">
+                        Save these somewhere safe. Each one signs you in once if you lose your phone. They won&apos;t be shown again.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 font-mono text-sm text-white">
+                        {backupCodes.map((backupCode) => (
+                            <span key={backupCode} className="px-3 py-2 bg-zinc-900/70 rounded-lg text-center">
+                                {backupCode}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* ── Status Card ── */}
+            <div className="bg-zinc-900/70 border border-zinc-800/50 rounded-2xl p-5">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${status.enabled ? "bg-emerald-500/10" : "bg-zinc-800/50"}`}>
+                        {status.enabled
+                            ? <ShieldCheck className="w-5 h-5 text-emerald-400" />
+                            : <ShieldOff className="w-5 h-5 text-zinc-400" />}
+                    </div>
+                    <div>
+                        <p className="text-white text-sm font-medium">
+                            Two-factor login is {status.enabled ? "on" : "off"}
+                        </p>
+                        <p className="text-zinc-500 text-xs">
+                            {status.enabled && status.enabledAt
+                                ? `Enabled ${formatDate(status.enabledAt)} • ${status.backupCodesLeft} backup codes left`
+                                : "Only your password protects this account"}
+                        </p>
+                    </div>
+                </div>
+
+                {/* Not enabled, not started */}
+                {!status.enabled && !enrollment && (
+                    <button
+                        onClick={handleStart}
+                        disabled={isPending}
+                        className={`${buttonClass} bg-emerald-500/15 border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/25`}
+                    >
+                        {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Smartphone className="w-4 h-4" />}
+                        Set up authenticator app
+                    </button>
+                )}
+
+                {/* Enrolment: scan, then confirm */}
+                {!status.enabled && enrollment && (
+                    <div className="space-y-4">
+                        <p className="text-zinc-400 text-sm">
+                            Scan this with Google Authenticator, Authy, 1Password or any TOTP app, then enter the 6-digit code it shows.
+                        </p>
+                        <div className="flex flex-col sm:flex-row items-center gap-4">
+                            <div className="rounded-2xl bg-white p-3 shrink-0">
+                                <QRCodeSVG
+                                    value={enrollment.uri}
+                                    size={160}
+                                    bgColor="#ffffff"
+                                    fgColor="#000000"
+                                    level="M"
+                                    includeMargin={false}
+                                />
+                            </div>
+                            <div className="text-xs text-zinc-500 break-all">
+                                Can&apos;t scan? Enter this key manually:
+                                <p className="mt-1 font-mono text-sm text-zinc-300">{enrollment.secret}</p>
+                            </div>
+                        </div>
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                runWithCode(confirmTotpEnrollment);
+                            }}
+                            className="flex gap-2"
+                        >
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                placeholder="123456"
+                                autoComplete="one-time-code"
+                                maxLength={6}
+                                required
+                                className={`${inputClass} flex-1`}
+                            />
+                            <button
+                                type="submit"
+                                disabled={isPending || code.length < 6}
+                                className={`${buttonClass} bg-emerald-500/15 border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/25`}
+                            >
+                                {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                                Enable
+                            </button>
+                        </form>
+                    </div>
+                )}
+
+                {/* Enabled: disable or regenerate, both need a code */}
+                {status.enabled && (
+                    <form onSubmit={(e) => e.preventDefault()} className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            type="text"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            placeholder="Current code or backup code"
+                            autoComplete="one-time-code"
+                            className={`${inputClass} flex-1`}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => runWithCode(regenerateBackupCodes)}
+                            disabled={isPending || !code}
+                            className={`${buttonClass} bg-zinc-800/50 border-zinc-700/50 text-zinc-300 hover:bg-zinc-800`}
+                        >
+                            <KeyRound className="w-4 h-4" />
+                            New backup codes
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                if (confirm("Turn off two-factor login for your account?")) runWithCode(disableTotp);
+                            }}
+                            disabled={isPending || !code}
+                            className={`${buttonClass} bg-red-500/10 border-red-500/20 text-red-400 hover:bg-red-500/20`}
+                        >
+                            <ShieldOff className="w-4 h-4" />
+                            Disable
+                        </button>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,181 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: actions.ts  (Account Security Server Actions)
+// PURPOSE: Lets any signed-in admin turn two-factor login on or
+//          off for their own account: start enrolment (secret +
+//          QR code URI), confirm it with a first code, disable
+//          it and regenerate backup codes.
+// LOCATION: src/app/admin/security/actions.ts
+// ═══════════════════════════════════════════════════════════════
+
+"use server";
+
+import { ObjectId } from "mongodb";
+import { revalidatePath } from "next/cache";
+import { logActivity } from "@/lib/logActivity";
+import {
+    getAdminSession,
+    getAdminsCollection,
+    verifySecondFactor,
+} from "@/lib/adminAuth";
+import {
+    generateBackupCodes,
+    generateTotpSecret,
+    hashBackupCode,
+    totpUri,
+    verifyTotp,
+} from "@/lib/totp";
+import { getSettings } from "@/app/admin/settings/actions";
+
+const NOT_SIGNED_IN = "Your session has expired. Please sign in again.";
+
+// ─── Start Enrolment ───────────────────────────────────────────
+
+export async function startTotpEnrollment() {
+    try {
+        const session = await getAdminSession();
+        if (!session) {
+            return { success: false, error: NOT_SIGNED_IN };
+        }
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOne({ _id: new ObjectId(session.sub) });
+        if (!admin) {
+            return { success: false, error: "Admin not found." };
+        }
+        if (admin.totp) {
+            return { success: false, error: "Two-factor login is already enabled." };
+        }
+
+        // Kept aside until the first code proves the app has it
+        const secret = generateTotpSecret();
+        await admins.updateOne(
+            { _id: admin._id },
+            { $set: { pendingTotpSecret: secret, updatedAt: new Date() } }
+        );
+
+        const { storeName } = await getSettings();
+        return {
+            success: true,
+            secret,
+            uri: totpUri(secret, admin.username, storeName || "Warden Store"),
+        };
+    } catch (error) {
+        console.error("Start TOTP enrolment error:", error);
+        return { success: false, error: "Failed to start two-factor setup." };
+    }
+}
+
+// ─── Confirm Enrolment ─────────────────────────────────────────
+
+export async function confirmTotpEnrollment(code: string) {
+    try {
+        const session = await getAdminSession();
+        if (!session) {
+            return { success: false, error: NOT_SIGNED_IN };
+        }
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOne({ _id: new ObjectId(session.sub) });
+        if (!admin?.pendingTotpSecret) {
+            return { success: false, error: "Start the setup again." };
+        }
+
+        const counter = verifyTotp(admin.pendingTotpSecret, code);
+        if (counter === null) {
+            return { success: false, error: "That code didn't match. Check the time on your phone and try again." };
+        }
+
+        // Plain codes are returned once; only hashes are stored
+        const backupCodes = generateBackupCodes();
+        await admins.updateOne(
+            { _id: admin._id },
+            {
+                $set: {
+                    totp: {
+                        secret: admin.pendingTotpSecret,
+                        lastCounter: counter,
+                        backupCodes: backupCodes.map(hashBackupCode),
+                        enabledAt: new Date(),
+                    },
+                    pendingTotpSecret: null,
+                    updatedAt: new Date(),
+                },
+            }
+        );
+
+        await logActivity({ action: "admin_updated", entity: admin.username, details: "Two-factor login enabled" });
+        revalidatePath("/admin/security");
+        revalidatePath("/admin/admins");
+        return { success: true, backupCodes };
+    } catch (error) {
+        console.error("Confirm TOTP enrolment error:", error);
+        return { success: false, error: "Failed to enable two-factor login." };
+    }
+}
+
+// ─── Disable ───────────────────────────────────────────────────
+
+export async function disableTotp(code: string) {
+    try {
+        const session = await getAdminSession();
+        if (!session) {
+            return { success: false, error: NOT_SIGNED_IN };
+        }
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOne({ _id: new ObjectId(session.sub) });
+        if (!admin?.totp) {
+            return { success: false, error: "Two-factor login is not enabled." };
+        }
+        if (!(await verifySecondFactor(admin, code))) {
+            return { success: false, error: "Invalid code." };
+        }
+
+        await admins.updateOne(
+            { _id: admin._id },
+            { $set: { totp: null, updatedAt: new Date() } }
+        );
+
+        await logActivity({ action: "admin_updated", entity: admin.username, details: "Two-factor login disabled" });
+        revalidatePath("/admin/security");
+        revalidatePath("/admin/admins");
+        return { success: true };
+    } catch (error) {
+        console.error("Disable TOTP error:", error);
+        return { success: false, error: "Failed to disable two-factor login." };
+    }
+}
+
+// ─── Regenerate Backup Codes ───────────────────────────────────
+
+export async function regenerateBackupCodes(code: string) {
+    try {
+        const session = await getAdminSession();
+        if (!session) {
+            return { success: false, error: NOT_SIGNED_IN };
+        }
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOne({ _id: new ObjectId(session.sub) });
+        if (!admin?.totp) {
+            return { success: false, error: "Two-factor login is not enabled." };
+        }
+        if (!(await verifySecondFactor(admin, code))) {
+            return { success: false, error: "Invalid code." };
+        }
+
+        // Old codes stop working straight away
+        const backupCodes = generateBackupCodes();
+        await admins.updateOne(
+            { _id: admin._id },
+            { $set: { "totp.backupCodes": backupCodes.map(hashBackupCode), updatedAt: new Date() } }
+        );
+
+        await logActivity({ action: "admin_updated", entity: admin.username, details: "Backup codes regenerated" });
+        revalidatePath("/admin/security");
+        return { success: true, backupCodes };
+    } catch (error) {
+        console.error("Regenerate backup codes error:", error);
+        return { success: false, error: "Failed to generate backup codes." };
+    }
+}
@@ -0,0 +1,75 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Account Security)
+// PURPOSE: The signed-in admin's own two-factor login settings.
+//          Open to every role.
+// LOCATION: src/app/admin/security/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import { ObjectId } from "mongodb";
+import { ShieldCheck } from "lucide-react";
+import { getAdminSession, getAdminsCollection, requireAdminPage } from "@/lib/adminAuth";
+import SecurityClient from "./SecurityClient";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt: string | null;
+    backupCodesLeft: number;
+}
+
+// ─── Data Fetcher ──────────────────────────────────────────────
+
+async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const disabled = { enabled: false, enabledAt: null, backupCodesLeft: 0 };
+    try {
+        const session = await getAdminSession();
+        if (!session) return disabled;
+
+        const admins = await getAdminsCollection();
+        const admin = await admins.findOne(
+            { _id: new ObjectId(session.sub) },
+            { projection: { totp: 1 } }
+        );
+        if (!admin?.totp) return disabled;
+
+        return {
+            enabled: true,
+            enabledAt: new Date(admin.totp.enabledAt).toISOString(),
+            backupCodesLeft: admin.totp.backupCodes.length,
+        };
+    } catch (error) {
+        console.error("Fetch 2FA status error:", error);
+        return disabled;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PAGE COMPONENT (Server)
+// ═══════════════════════════════════════════════════════════════
+
+export const dynamic = "force-dynamic";
+
+export default async function SecurityPage() {
+    await requireAdminPage();
+    const status = await getTwoFactorStatus();
+
+    return (
+        <div>
+            {/* ── Page Header ── */}
+            <div className="mb-8">
+                <div className="flex items-center gap-3 mb-2">
+                    <ShieldCheck className="w-6 h-6 text-emerald-400" />
+                    <h1 className="text-2xl md:text-3xl font-bold text-white">
+                        Security
+                    </h1>
+                </div>
+                <p className="text-zinc-500 text-sm">
+                    Require a code from an authenticator app every time you sign in
+                </p>
+            </div>
+
+            <SecurityClient status={status} />
+        </div>
+    );
+}
@@ -19,6 +19,8 @@ import {
     Server,
     FileText,
     XCircle,
+    Truck,
+    ShieldCheck,
 } from "lucide-react";
 import { saveSettings, type StoreSettings } from "./actions";
 
@@ -59,7 +61,8 @@ export default function SettingsClient({
         label: string;
         icon: React.ComponentType<{ className?: string }>;
         placeholder: string;
-        type?: "textarea";
+        type?: "textarea" | "select";
+        options?: { value: string; label: string }[];
     }[] = [
             {
                 key: "storeName",
@@ -98,6 +101,28 @@ export default function SettingsClient({
                 icon: Server,
                 placeholder: "play.example.com",
             },
+            {
+                key: "deliveryMode",
+                label: "In-Game Delivery",
+                icon: Truck,
+                placeholder: "",
+                type: "select",
+                options: [
+                    { value: "rcon", label: "RCON — store pushes commands to the server" },
+                    { value: "plugin", label: "Plugin — server plugin pulls pending deliveries" },
+                ],
+            },
+            {
+                key: "usernameVerification",
+                label: "Username Verification",
+                icon: ShieldCheck,
+                placeholder: "",
+                type: "select",
+                options: [
+                    { value: "off", label: "Off — any username can check out" },
+                    { value: "required", label: "Required — player runs /verifystore <code> in-game first" },
+                ],
+            },
         ];
 
     return (
@@ -151,6 +176,23 @@ export default function SettingsClient({
                                     rows={3}
                                     className="w-full px-4 py-3 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all resize-none"
                                 />
+                            ) : field.type === "select" ? (
+                                <select
+                                    value={form[field.key]}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            [field.key]: e.target.value,
+                                        })
+                                    }
+                                    className="w-full px-4 py-3 bg-zinc-800/50 border border-zinc-700/50 rounded-xl text-sm text-white focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/20 transition-all cursor-pointer"
+                                >
+                                    {field.options?.map((opt) => (
+                                        <option key={opt.value} value={opt.value}>
+                                            {opt.label}
+                                        </option>
+                                    ))}
+                                </select>
                             ) : (
                                 <input
                                     type="text"
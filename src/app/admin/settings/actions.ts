@@ -8,6 +8,8 @@
 
 import { connectToDatabase } from "@/lib/mongodb";
 import { revalidatePath } from "next/cache";
+import { FORBIDDEN, requirePermission } from "@/lib/adminAuth";
+import { logActivity } from "@/lib/logActivity";
 
 // ─── Types ─────────────────────────────────────────────────────
 
@@ -18,6 +20,8 @@ export interface StoreSettings {
     contactEmail: string;
     discordLink: string;
     serverIp: string;
+    deliveryMode: "rcon" | "plugin";   // How approved orders reach the server
+    usernameVerification: "off" | "required";   // Player must run /verifystore before checkout
 }
 
 // ─── Get Settings ──────────────────────────────────────────────
@@ -37,6 +41,8 @@ export async function getSettings(): Promise<StoreSettings> {
                 contactEmail: settings.contactEmail || "",
                 discordLink: settings.discordLink || "",
                 serverIp: settings.serverIp || "",
+                deliveryMode: settings.deliveryMode === "plugin" ? "plugin" : "rcon",
+                usernameVerification: settings.usernameVerification === "required" ? "required" : "off",
             };
         }
 
@@ -47,6 +53,8 @@ export async function getSettings(): Promise<StoreSettings> {
             contactEmail: "",
             discordLink: "",
             serverIp: "",
+            deliveryMode: "rcon",
+            usernameVerification: "off",
         };
     } catch (error) {
         console.error("Get settings error:", error);
@@ -57,6 +65,8 @@ export async function getSettings(): Promise<StoreSettings> {
             contactEmail: "",
             discordLink: "",
             serverIp: "",
+            deliveryMode: "rcon",
+            usernameVerification: "off",
         };
     }
 }
@@ -65,9 +75,13 @@ export async function getSettings(): Promise<StoreSettings> {
 
 export async function saveSettings(data: StoreSettings) {
     try {
+        if (!(await requirePermission("settings.edit"))) {
+            return { success: false, error: FORBIDDEN };
+        }
+
         const db = await connectToDatabase();
 
-        await db.collection("settings").updateOne(
+        const before = await db.collection("settings").findOneAndUpdate(
             { _id: "store_settings" as unknown as import("mongodb").ObjectId },
             {
                 $set: {
@@ -78,6 +92,14 @@ export async function saveSettings(data: StoreSettings) {
             { upsert: true }
         );
 
+        await logActivity({
+            action: "settings_updated",
+            entity: "Store Settings",
+            details: "Settings saved",
+            before,
+            after: { ...before, ...data },
+        });
+
         revalidatePath("/admin/settings");
         return { success: true };
     } catch (error) {
@@ -9,6 +9,7 @@ import { getSettings } from "./actions";
 import SettingsClient from "./SettingsClient";
 import { Suspense } from "react";
 import { Loader2 } from "lucide-react";
+import { requireAdminPage } from "@/lib/adminAuth";
 
 export const dynamic = "force-dynamic";
 
@@ -17,7 +18,8 @@ async function SettingsData() {
     return <SettingsClient initialSettings={settings} />;
 }
 
-export default function SettingsPage() {
+export default async function SettingsPage() {
+    await requireAdminPage("settings.edit");
     return (
         <div>
             {/* ── Page Header (Instant) ── */}
@@ -0,0 +1,57 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Player Login Link API)
+// PURPOSE: POST /api/account/login — emails a one-time login link.
+//          Always answers the same way whether or not an account
+//          exists, so it can't be used to look up emails.
+// LOCATION: src/app/api/account/login/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { createLoginToken, normalizeEmail } from "@/lib/playerAccounts";
+import { sendLoginEmail } from "@/lib/sendLoginEmail";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+// Every request sends an email — keep it to a few per network
+// and per inbox
+const ipLimiter = createRateLimiter({ name: "player-login-ip", limit: 5, windowMs: 10 * 60_000 });
+const emailLimiter = createRateLimiter({ name: "player-login-email", limit: 3, windowMs: 10 * 60_000 });
+
+// ─── POST: Send Login Link ─────────────────────────────────────
+
+export async function POST(request: Request) {
+    try {
+        const limited = await ipLimiter.check(getClientIp(request));
+        if (!limited.allowed) {
+            return rateLimitResponse(limited, "Too many login requests. Please wait a few minutes.");
+        }
+
+        const body = await request.json();
+        const email = normalizeEmail(body.email);
+        if (!email) {
+            return NextResponse.json(
+                { error: "Enter a valid email address." },
+                { status: 400 }
+            );
+        }
+
+        const perEmail = await emailLimiter.check(email);
+        if (!perEmail.allowed) {
+            return rateLimitResponse(perEmail, "A link was just sent to this email. Please check your inbox.");
+        }
+
+        const db = await connectToDatabase();
+        const token = await createLoginToken(db, email);
+        // SITE_URL pins the link's host — the Host header is the caller's to choose
+        const origin = process.env.SITE_URL || new URL(request.url).origin;
+        await sendLoginEmail(email, `${origin}/api/account/verify?token=${token}`);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Player login link error:", error);
+        return NextResponse.json(
+            { error: "Failed to send the login link. Please try again." },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,51 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Player Account API)
+// PURPOSE: GET    — the logged-in player's linked usernames, so
+//                   the cart can prefill checkout ({ account: null }
+//                   for guests)
+//          DELETE — log out, ending the session
+// LOCATION: src/app/api/account/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { connectToDatabase } from "@/lib/mongodb";
+import { PLAYER_SESSION_COOKIE, deletePlayerSession, getPlayerAccount } from "@/lib/playerAccounts";
+
+export const dynamic = "force-dynamic";
+
+// ─── GET: Current Account ──────────────────────────────────────
+
+export async function GET() {
+    try {
+        const account = await getPlayerAccount();
+        if (!account) {
+            return NextResponse.json({ account: null });
+        }
+
+        const preferred = account.usernames.find((u) => u.username === account.defaultUsername);
+        return NextResponse.json({
+            account: {
+                email: account.email,
+                usernames: account.usernames.map((u) => ({ username: u.username, edition: u.edition })),
+                defaultUsername: preferred?.username ?? null,
+                defaultEdition: preferred?.edition ?? null,
+            },
+        });
+    } catch (error) {
+        console.error("Player account error:", error);
+        return NextResponse.json({ account: null });
+    }
+}
+
+// ─── DELETE: Logout ────────────────────────────────────────────
+
+export async function DELETE() {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(PLAYER_SESSION_COOKIE)?.value;
+    if (token) {
+        await deletePlayerSession(await connectToDatabase(), token).catch(() => { });
+    }
+    cookieStore.delete(PLAYER_SESSION_COOKIE);
+    return NextResponse.json({ success: true });
+}
@@ -0,0 +1,48 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Player Login Link Landing)
+// PURPOSE: GET /api/account/verify?token=<token> — where the login
+//          email's link goes. Uses up the token, starts a session
+//          cookie and sends the player to /account.
+// LOCATION: src/app/api/account/verify/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+    PLAYER_SESSION_COOKIE,
+    PLAYER_SESSION_MAX_AGE,
+    createPlayerSession,
+    redeemLoginToken,
+} from "@/lib/playerAccounts";
+
+export const dynamic = "force-dynamic";
+
+// ─── GET: Log In ───────────────────────────────────────────────
+
+export async function GET(request: Request) {
+    const url = new URL(request.url);
+    const origin = process.env.SITE_URL || url.origin;
+
+    try {
+        const token = url.searchParams.get("token") ?? "";
+        const db = await connectToDatabase();
+        const account = /^[0-9a-f]{64}$/.test(token) ? await redeemLoginToken(db, token) : null;
+        if (!account) {
+            return NextResponse.redirect(`${origin}/account?error=link`);
+        }
+
+        const session = await createPlayerSession(db, account._id);
+        const response = NextResponse.redirect(`${origin}/account`);
+        response.cookies.set(PLAYER_SESSION_COOKIE, session, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "lax",
+            path: "/",
+            maxAge: PLAYER_SESSION_MAX_AGE,
+        });
+        return response;
+    } catch (error) {
+        console.error("Player login verify error:", error);
+        return NextResponse.redirect(`${origin}/account?error=link`);
+    }
+}
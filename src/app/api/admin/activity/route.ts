@@ -2,19 +2,20 @@
 // FILE: route.ts  (Admin Activity Log API)
 // PURPOSE: GET /api/admin/activity — Fetches recent admin
 //          activity logs with pagination support.
+//          Filters: ?admin=<username>&action=<type>&from=&to=
+//          (dates as YYYY-MM-DD, inclusive)
 // LOCATION: src/app/api/admin/activity/route.ts
 // ═══════════════════════════════════════════════════════════════
 
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { getAdminSession } from "@/lib/adminAuth";
 import { connectToDatabase } from "@/lib/mongodb";
+import { buildActivityFilter } from "@/lib/logActivity";
 
 export async function GET(request: Request) {
     try {
         // ── Auth Check: Only allow authenticated admins ──
-        const cookieStore = await cookies();
-        const token = cookieStore.get("admin_token")?.value;
-        if (!token || token !== process.env.ADMIN_SECRET_KEY) {
+        if (!(await getAdminSession())) {
             return NextResponse.json(
                 { error: "Unauthorized. Admin login required." },
                 { status: 401 }
@@ -22,12 +23,18 @@ export async function GET(request: Request) {
         }
 
         const { searchParams } = new URL(request.url);
-        const limit = parseInt(searchParams.get("limit") || "50");
+        const limit = Math.min(parseInt(searchParams.get("limit") || "50") || 50, 500);
+        const filter = buildActivityFilter({
+            admin: searchParams.get("admin") || undefined,
+            action: searchParams.get("action") || undefined,
+            from: searchParams.get("from") || undefined,
+            to: searchParams.get("to") || undefined,
+        });
 
         const db = await connectToDatabase();
         const logs = await db
             .collection("activityLogs")
-            .find({})
+            .find(filter)
             .sort({ timestamp: -1 })
             .limit(limit)
             .toArray();
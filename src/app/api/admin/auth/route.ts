@@ -1,46 +1,157 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: route.ts  (Admin Auth API)
-// PURPOSE: POST — verify admin password, set HttpOnly cookie
-//          DELETE — logout, clear cookie
+// PURPOSE: GET    — current admin (or whether first-run setup
+//                   is still needed / a TOTP code is awaited)
+//          POST   — verify username + password against the
+//                   `admins` collection, set a signed session
+//                   cookie. Admins with two-factor login get a
+//                   5-minute pending session instead and finish
+//                   at /api/admin/auth/totp. Failed attempts
+//                   are throttled per IP and per username
+//                   (see lib/loginThrottle.ts).
+//          DELETE — logout: revoke the session (sessionVersion
+//                   bump) and clear the cookie
 // LOCATION: src/app/api/admin/auth/route.ts
 // ═══════════════════════════════════════════════════════════════
 
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import {
+    checkCredentials,
+    getAdminSession,
+    getAdminsCollection,
+    getPendingMfaAdmin,
+    revokeCurrentSession,
+} from "@/lib/adminAuth";
+import {
+    ADMIN_SESSION_COOKIE,
+    ADMIN_SESSION_MAX_AGE,
+    MFA_PENDING_MAX_AGE,
+    signSession,
+} from "@/lib/adminSession";
+import {
+    checkLoginAllowed,
+    recordLoginFailure,
+    recordLoginSuccess,
+    throttleMessage,
+} from "@/lib/loginThrottle";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+// Caps all login requests per IP, right or wrong — failed ones
+// are additionally throttled per username by loginThrottle
+const loginLimiter = createRateLimiter({ name: "admin-login", limit: 10, windowMs: 60_000 });
+
+// ─── GET: Current Admin ────────────────────────────────────────
+
+export async function GET() {
+    try {
+        const session = await getAdminSession();
+        if (session) {
+            return NextResponse.json({
+                authenticated: true,
+                admin: { username: session.username, role: session.role },
+            });
+        }
+
+        const pending = await getPendingMfaAdmin();
+        if (pending) {
+            return NextResponse.json({ authenticated: false, mfaRequired: true, username: pending.username });
+        }
+
+        const admins = await getAdminsCollection();
+        const needsSetup = (await admins.countDocuments({}, { limit: 1 })) === 0;
+        return NextResponse.json({ authenticated: false, needsSetup });
+    } catch (error) {
+        console.error("Admin auth GET error:", error);
+        return NextResponse.json({ error: "Failed to load session." }, { status: 500 });
+    }
+}
 
 // ─── POST: Login ───────────────────────────────────────────────
 
 export async function POST(request: Request) {
     try {
-        const { password } = await request.json();
+        const ip = getClientIp(request);
+        const limited = await loginLimiter.check(ip);
+        if (!limited.allowed) return rateLimitResponse(limited);
+
+        const { username, password } = await request.json();
 
-        const secretKey = process.env.ADMIN_SECRET_KEY;
-        if (!secretKey) {
+        if (typeof username !== "string" || typeof password !== "string" || !username || !password) {
             return NextResponse.json(
-                { error: "Server misconfigured: ADMIN_SECRET_KEY not set." },
-                { status: 500 }
+                { error: "Username and password are required." },
+                { status: 400 }
             );
         }
 
-        if (password !== secretKey) {
+        // Locked out or retrying too fast → don't even check the password
+        const check = await checkLoginAllowed(ip, username);
+        if (!check.allowed) {
+            return NextResponse.json(
+                { error: throttleMessage(check) },
+                { status: 429, headers: { "Retry-After": String(check.retryAfter) } }
+            );
+        }
+
+        const admin = await checkCredentials(username, password);
+        if (!admin || !admin._id) {
+            await recordLoginFailure(ip, username, request.headers.get("user-agent"));
             return NextResponse.json(
                 { error: "Access Denied" },
                 { status: 401 }
             );
         }
 
+        // Two-factor login → short pending session, code comes next
+        if (admin.totp) {
+            const pendingToken = await signSession(
+                {
+                    sub: admin._id.toString(),
+                    username: admin.username,
+                    role: admin.role,
+                    ver: admin.sessionVersion,
+                    mfaPending: true,
+                },
+                MFA_PENDING_MAX_AGE
+            );
+
+            const response = NextResponse.json({ success: true, mfaRequired: true });
+            response.cookies.set(ADMIN_SESSION_COOKIE, pendingToken, {
+                httpOnly: true,
+                secure: process.env.NODE_ENV === "production",
+                sameSite: "lax",
+                path: "/",
+                maxAge: MFA_PENDING_MAX_AGE,
+            });
+            return response;
+        }
+
+        await recordLoginSuccess(ip, username);
+        const admins = await getAdminsCollection();
+        await admins.updateOne({ _id: admin._id }, { $set: { lastLoginAt: new Date() } });
+
+        const token = await signSession({
+            sub: admin._id.toString(),
+            username: admin.username,
+            role: admin.role,
+            ver: admin.sessionVersion,
+        });
+
         // Set HttpOnly cookie that lasts 7 days
-        const response = NextResponse.json({ success: true });
-        response.cookies.set("admin_token", secretKey, {
+        const response = NextResponse.json({ success: true, role: admin.role });
+        response.cookies.set(ADMIN_SESSION_COOKIE, token, {
             httpOnly: true,
             secure: process.env.NODE_ENV === "production",
             sameSite: "lax",
             path: "/",
-            maxAge: 60 * 60 * 24 * 7, // 7 days
+            maxAge: ADMIN_SESSION_MAX_AGE,
         });
 
         return response;
-    } catch {
+    } catch (error) {
+        console.error("Admin login error:", error);
         return NextResponse.json(
             { error: "Invalid request." },
             { status: 400 }
@@ -51,7 +162,8 @@ export async function POST(request: Request) {
 // ─── DELETE: Logout ────────────────────────────────────────────
 
 export async function DELETE() {
+    await revokeCurrentSession();
     const cookieStore = await cookies();
-    cookieStore.delete("admin_token");
+    cookieStore.delete(ADMIN_SESSION_COOKIE);
     return NextResponse.json({ success: true });
 }
@@ -0,0 +1,93 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Admin First-Run Setup)
+// PURPOSE: POST /api/admin/auth/setup — Creates the first owner
+//          account. Only works while the `admins` collection is
+//          empty (claimed atomically, see createFirstOwner) and
+//          requires ADMIN_SECRET_KEY as the setup key, so the old
+//          shared secret is used exactly once.
+// LOCATION: src/app/api/admin/auth/setup/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import {
+    createFirstOwner,
+    MIN_PASSWORD_LENGTH,
+    normalizeUsername,
+} from "@/lib/adminAuth";
+import {
+    ADMIN_SESSION_COOKIE,
+    ADMIN_SESSION_MAX_AGE,
+    signSession,
+} from "@/lib/adminSession";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+// The setup key is a password too — don't let it be guessed fast
+const setupLimiter = createRateLimiter({ name: "admin-setup", limit: 5, windowMs: 15 * 60_000 });
+
+/** Constant-time compare; hashing first evens out the lengths. */
+function keysMatch(given: unknown, expected: string): boolean {
+    if (typeof given !== "string") return false;
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(given), digest(expected));
+}
+
+export async function POST(request: Request) {
+    try {
+        const limited = await setupLimiter.check(getClientIp(request));
+        if (!limited.allowed) return rateLimitResponse(limited);
+
+        const { setupKey, username, password } = await request.json();
+
+        const secretKey = process.env.ADMIN_SECRET_KEY;
+        if (!secretKey) {
+            return NextResponse.json(
+                { error: "Server misconfigured: ADMIN_SECRET_KEY not set." },
+                { status: 500 }
+            );
+        }
+
+        if (!keysMatch(setupKey, secretKey)) {
+            return NextResponse.json({ error: "Invalid setup key." }, { status: 401 });
+        }
+
+        const name = typeof username === "string" ? normalizeUsername(username) : "";
+        if (!/^[a-z0-9_.-]{3,32}$/.test(name)) {
+            return NextResponse.json(
+                { error: "Username must be 3-32 letters, numbers, dots, dashes or underscores." },
+                { status: 400 }
+            );
+        }
+        if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+            return NextResponse.json(
+                { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` },
+                { status: 400 }
+            );
+        }
+
+        const ownerId = await createFirstOwner(name, password);
+        if (!ownerId) {
+            return NextResponse.json({ error: "Setup has already been completed." }, { status: 409 });
+        }
+
+        const token = await signSession({
+            sub: ownerId.toString(),
+            username: name,
+            role: "owner",
+            ver: 1,
+        });
+
+        const response = NextResponse.json({ success: true, role: "owner" });
+        response.cookies.set(ADMIN_SESSION_COOKIE, token, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "lax",
+            path: "/",
+            maxAge: ADMIN_SESSION_MAX_AGE,
+        });
+        return response;
+    } catch (error) {
+        console.error("Admin setup error:", error);
+        return NextResponse.json({ error: "Invalid request." }, { status: 400 });
+    }
+}
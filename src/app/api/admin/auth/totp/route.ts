@@ -0,0 +1,112 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Admin Two-Factor Login API)
+// PURPOSE: POST — second login step for admins with two-factor
+//          login. Takes a TOTP code (or a backup code) for the
+//          pending session set by POST /api/admin/auth and swaps
+//          it for a full 7-day session cookie. Wrong codes count
+//          towards the same lockout as wrong passwords.
+// LOCATION: src/app/api/admin/auth/totp/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import {
+    getAdminsCollection,
+    getPendingMfaAdmin,
+    verifySecondFactor,
+} from "@/lib/adminAuth";
+import {
+    ADMIN_SESSION_COOKIE,
+    ADMIN_SESSION_MAX_AGE,
+    signSession,
+} from "@/lib/adminSession";
+import {
+    checkLoginAllowed,
+    recordLoginFailure,
+    recordLoginSuccess,
+    throttleMessage,
+} from "@/lib/loginThrottle";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+const totpLimiter = createRateLimiter({ name: "admin-totp", limit: 10, windowMs: 60_000 });
+
+// ─── POST: Verify Code ─────────────────────────────────────────
+
+export async function POST(request: Request) {
+    try {
+        const ip = getClientIp(request);
+        const limited = await totpLimiter.check(ip);
+        if (!limited.allowed) return rateLimitResponse(limited);
+
+        const { code } = await request.json();
+
+        if (typeof code !== "string" || !code.trim()) {
+            return NextResponse.json(
+                { error: "Enter the code from your authenticator app." },
+                { status: 400 }
+            );
+        }
+
+        const admin = await getPendingMfaAdmin();
+        if (!admin || !admin._id) {
+            return NextResponse.json(
+                { error: "Login expired. Please sign in again." },
+                { status: 401 }
+            );
+        }
+
+        const check = await checkLoginAllowed(ip, admin.username);
+        if (!check.allowed) {
+            return NextResponse.json(
+                { error: throttleMessage(check) },
+                { status: 429, headers: { "Retry-After": String(check.retryAfter) } }
+            );
+        }
+
+        const method = await verifySecondFactor(admin, code);
+        if (!method) {
+            await recordLoginFailure(ip, admin.username, request.headers.get("user-agent"));
+            return NextResponse.json(
+                { error: "Invalid code." },
+                { status: 401 }
+            );
+        }
+
+        await recordLoginSuccess(ip, admin.username);
+        const admins = await getAdminsCollection();
+        await admins.updateOne({ _id: admin._id }, { $set: { lastLoginAt: new Date() } });
+
+        const token = await signSession({
+            sub: admin._id.toString(),
+            username: admin.username,
+            role: admin.role,
+            ver: admin.sessionVersion,
+        });
+
+        // Replaces the pending cookie with the full 7-day session
+        const response = NextResponse.json({
+            success: true,
+            role: admin.role,
+            // Tell the admin when they're running low on backup codes
+            ...(method === "backup" && {
+                backupCodesLeft: Math.max(0, (admin.totp?.backupCodes.length ?? 1) - 1),
+            }),
+        });
+        response.cookies.set(ADMIN_SESSION_COOKIE, token, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "lax",
+            path: "/",
+            maxAge: ADMIN_SESSION_MAX_AGE,
+        });
+
+        return response;
+    } catch (error) {
+        console.error("Admin TOTP error:", error);
+        return NextResponse.json(
+            { error: "Invalid request." },
+            { status: 400 }
+        );
+    }
+}
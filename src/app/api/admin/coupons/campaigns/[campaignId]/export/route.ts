@@ -0,0 +1,81 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Coupon Campaign Export CSV)
+// PURPOSE: GET /api/admin/coupons/campaigns/[campaignId]/export —
+//          Downloads a campaign's codes as CSV (to paste into a
+//          giveaway bot), with which order used each one.
+// LOCATION: src/app/api/admin/coupons/campaigns/[campaignId]/export/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { requirePermission } from "@/lib/adminAuth";
+import { connectToDatabase } from "@/lib/mongodb";
+import { getCouponRedemptions } from "@/lib/coupons";
+import type { CouponCampaign } from "@/lib/couponCampaigns";
+
+export async function GET(
+    _request: Request,
+    { params }: { params: Promise<{ campaignId: string }> }
+) {
+    try {
+        // ── Auth Check: Only allow authenticated admins ──
+        if (!(await requirePermission("coupons.manage"))) {
+            return NextResponse.json(
+                { error: "Unauthorized. Admin login required." },
+                { status: 401 }
+            );
+        }
+
+        const { campaignId } = await params;
+        const db = await connectToDatabase();
+        const campaign = ObjectId.isValid(campaignId)
+            ? await db.collection<CouponCampaign>("couponCampaigns").findOne({ _id: new ObjectId(campaignId) })
+            : null;
+        if (!campaign) {
+            return NextResponse.json({ error: "Campaign not found." }, { status: 404 });
+        }
+
+        const coupons = await db
+            .collection("coupons")
+            .find({ campaignId }, { projection: { code: 1 } })
+            .sort({ code: 1 })
+            .toArray();
+        const redemptions = await getCouponRedemptions(db, coupons.map((c) => c.code));
+        const used = new Map(
+            redemptions.filter((r) => r.status === "reserved").map((r) => [r.code, r])
+        );
+
+        // CSV header
+        const headers = ["Code", "Status", "Order ID", "Player", "Discount (₹)", "Used At"];
+
+        // CSV rows
+        const rows = coupons.map((c) => {
+            const redemption = used.get(c.code);
+            return [
+                c.code,
+                redemption ? "Used" : "Unused",
+                redemption?.orderId || "",
+                redemption?.username || "",
+                redemption ? redemption.discount.toFixed(2) : "",
+                redemption ? new Date(redemption.createdAt).toISOString().split("T")[0] : "",
+            ].join(",");
+        });
+
+        const csv = [headers.join(","), ...rows].join("\n");
+        const slug = campaign.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "campaign";
+
+        return new NextResponse(csv, {
+            status: 200,
+            headers: {
+                "Content-Type": "text/csv",
+                "Content-Disposition": `attachment; filename="warden-coupons-${slug}.csv"`,
+            },
+        });
+    } catch (error) {
+        console.error("CampaignExport error:", error);
+        return NextResponse.json(
+            { error: "Failed to export campaign." },
+            { status: 500 }
+        );
+    }
+}
@@ -3,29 +3,40 @@
 // PURPOSE: CRUD API for managing discount coupons.
 //          GET  — List all coupons
 //          POST — Create a new coupon
+//          PUT  — Update a coupon (code, value, rules)
 //          DELETE — Delete a coupon by code
+//          Rule fields (startsAt, categories, productIds,
+//          maxUsesPerPlayer, maxDiscount, firstOrderOnly, stackable)
+//          are read by readCouponRules and enforced in coupons.ts.
 // LOCATION: src/app/api/admin/coupons/route.ts
 // ═══════════════════════════════════════════════════════════════
 
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { connectToDatabase } from "@/lib/mongodb";
 import { logActivity } from "@/lib/logActivity";
-
-// ── Auth Helper: Verify admin cookie ────────────────────────────
-async function verifyAdmin() {
-    const cookieStore = await cookies();
-    const token = cookieStore.get("admin_token")?.value;
-    return token && token === process.env.ADMIN_SECRET_KEY;
+import { FORBIDDEN, getAdminSession } from "@/lib/adminAuth";
+import { can, type AdminPermission } from "@/lib/adminSession";
+import { readCouponRules } from "@/lib/coupons";
+
+// ── Auth Helper: Returns an error response unless the signed-in
+//    admin holds `permission` (any admin when omitted) ─────────────
+async function verifyAdmin(permission?: AdminPermission) {
+    const session = await getAdminSession();
+    if (!session) {
+        return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+    if (permission && !can(session.role, permission)) {
+        return NextResponse.json({ error: FORBIDDEN }, { status: 403 });
+    }
+    return null;
 }
 
 // ─── GET: List All Coupons ─────────────────────────────────────
 
 export async function GET() {
     try {
-        if (!(await verifyAdmin())) {
-            return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
-        }
+        const denied = await verifyAdmin();
+        if (denied) return denied;
 
         const db = await connectToDatabase();
         const coupons = await db
@@ -53,9 +64,8 @@ export async function GET() {
 
 export async function POST(request: Request) {
     try {
-        if (!(await verifyAdmin())) {
-            return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
-        }
+        const denied = await verifyAdmin("coupons.manage");
+        if (denied) return denied;
 
         const body = await request.json();
         const {
@@ -96,6 +106,11 @@ export async function POST(request: Request) {
             );
         }
 
+        const read = readCouponRules(body);
+        if ("error" in read) {
+            return NextResponse.json({ error: read.error }, { status: 400 });
+        }
+
         const db = await connectToDatabase();
         const normalizedCode = code.toUpperCase().trim();
 
@@ -118,6 +133,7 @@ export async function POST(request: Request) {
             maxUses: maxUses || -1, // -1 = unlimited
             usedCount: 0,
             expiresAt: expiresAt ? new Date(expiresAt) : null,
+            ...read.rules,
             active: true,
             createdAt: new Date(),
         };
@@ -128,6 +144,7 @@ export async function POST(request: Request) {
             action: "coupon_created",
             entity: normalizedCode,
             details: `${type === "percentage" ? value + "%" : "₹" + value} off${minOrder ? ", min ₹" + minOrder : ""}`,
+            after: coupon,
         });
 
         return NextResponse.json({ success: true, coupon });
@@ -144,9 +161,8 @@ export async function POST(request: Request) {
 
 export async function PUT(request: Request) {
     try {
-        if (!(await verifyAdmin())) {
-            return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
-        }
+        const denied = await verifyAdmin("coupons.manage");
+        if (denied) return denied;
 
         const body = await request.json();
         const {
@@ -188,6 +204,11 @@ export async function PUT(request: Request) {
             );
         }
 
+        const read = readCouponRules(body);
+        if ("error" in read) {
+            return NextResponse.json({ error: read.error }, { status: 400 });
+        }
+
         const db = await connectToDatabase();
         const normalizedOriginalCode = originalCode.toUpperCase().trim();
         const normalizedNewCode = code.toUpperCase().trim();
@@ -212,25 +233,36 @@ export async function PUT(request: Request) {
             minOrder: minOrder || 0,
             maxUses: maxUses || -1,
             expiresAt: expiresAt ? new Date(expiresAt) : null,
+            ...read.rules,
             updatedAt: new Date(),
         };
 
-        const result = await db.collection("coupons").updateOne(
+        const before = await db.collection("coupons").findOneAndUpdate(
             { code: normalizedOriginalCode },
             { $set: updatedFields }
         );
 
-        if (result.matchedCount === 0) {
+        if (!before) {
             return NextResponse.json(
                 { error: "Coupon not found." },
                 { status: 404 }
             );
         }
 
+        // Keep its order history under the new code
+        if (normalizedOriginalCode !== normalizedNewCode) {
+            await db.collection("couponRedemptions").updateMany(
+                { code: normalizedOriginalCode },
+                { $set: { code: normalizedNewCode } }
+            );
+        }
+
         await logActivity({
             action: "coupon_updated",
             entity: normalizedNewCode,
             details: `Updated ${type === "percentage" ? value + "%" : "₹" + value} off`,
+            before,
+            after: { ...before, ...updatedFields },
         });
 
         return NextResponse.json({ success: true });
@@ -247,9 +279,8 @@ export async function PUT(request: Request) {
 
 export async function DELETE(request: Request) {
     try {
-        if (!(await verifyAdmin())) {
-            return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
-        }
+        const denied = await verifyAdmin("coupons.manage");
+        if (denied) return denied;
 
         const { searchParams } = new URL(request.url);
         const code = searchParams.get("code");
@@ -262,11 +293,11 @@ export async function DELETE(request: Request) {
         }
 
         const db = await connectToDatabase();
-        const result = await db
+        const deleted = await db
             .collection("coupons")
-            .deleteOne({ code: code.toUpperCase().trim() });
+            .findOneAndDelete({ code: code.toUpperCase().trim() });
 
-        if (result.deletedCount === 0) {
+        if (!deleted) {
             return NextResponse.json(
                 { error: "Coupon not found." },
                 { status: 404 }
@@ -277,6 +308,8 @@ export async function DELETE(request: Request) {
             action: "coupon_deleted",
             entity: code.toUpperCase().trim(),
             details: "Coupon deleted",
+            before: deleted,
+            after: null,
         });
 
         return NextResponse.json({ success: true });
@@ -6,15 +6,13 @@
 // ═══════════════════════════════════════════════════════════════
 
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { requirePermission } from "@/lib/adminAuth";
 import { connectToDatabase } from "@/lib/mongodb";
 
 export async function GET() {
     try {
         // ── Auth Check: Only allow authenticated admins ──
-        const cookieStore = await cookies();
-        const token = cookieStore.get("admin_token")?.value;
-        if (!token || token !== process.env.ADMIN_SECRET_KEY) {
+        if (!(await requirePermission("orders.view"))) {
             return NextResponse.json(
                 { error: "Unauthorized. Admin login required." },
                 { status: 401 }
@@ -7,18 +7,17 @@
 // ═══════════════════════════════════════════════════════════════
 
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { requirePermission } from "@/lib/adminAuth";
 import { connectToDatabase } from "@/lib/mongodb";
 import { products } from "@/lib/data";
+import { logActivity } from "@/lib/logActivity";
 
 export async function POST() {
     try {
-        // ── Auth Check: Only allow authenticated admins ──
-        const cookieStore = await cookies();
-        const token = cookieStore.get("admin_token")?.value;
-        if (!token || token !== process.env.ADMIN_SECRET_KEY) {
+        // ── Auth Check: Only owners may seed the catalog ──
+        if (!(await requirePermission("store.seed"))) {
             return NextResponse.json(
-                { error: "Unauthorized. Admin login required." },
+                { error: "Unauthorized. Owner login required." },
                 { status: 401 }
             );
         }
@@ -44,6 +43,12 @@ export async function POST() {
 
         await collection.insertMany(productsWithDates);
 
+        await logActivity({
+            action: "products_seeded",
+            entity: "Product Catalog",
+            details: `Seeded ${products.length} products from data.ts`,
+        });
+
         return NextResponse.json({
             message: `Successfully seeded ${products.length} products into MongoDB.`,
             seeded: true,
@@ -2,11 +2,23 @@
 // FILE: route.ts  (Checkout API)
 // PURPOSE: POST /api/checkout — Backend endpoint that:
 //          1. Receives cart items + Minecraft username + edition + UTR
-//          2. Validates all fields
+//             (+ recipient and message when bought as a gift)
+//          2. Validates all fields (and, when the store requires
+//             it, that the username was verified in-game)
 //          3. Validates items against server-side catalog
-//          4. Recalculates total using server prices
-//          5. Logs the UTR for manual verification
-//          6. Returns order confirmation
+//             (bundles against their live component products)
+//          4. Recalculates total using server prices (with
+//             upgrade pricing / purchase limits for this player)
+//          5. Applies coupons — both via priceCart (pricing.ts),
+//             same as the cart — then loyalty points, then gift
+//             card credit; a UTR is only needed for whatever is
+//             left to pay
+//          6. Resolves the player's UUID / XUID, rejects UTRs
+//             already used by another order
+//          7. Reserves stock, coupon uses, points and the gift
+//             card credit
+//          8. Logs the UTR for manual verification
+//          9. Returns order confirmation
 //
 // LOCATION: src/app/api/checkout/route.ts
 // ═══════════════════════════════════════════════════════════════
@@ -15,6 +27,33 @@ import { NextResponse } from "next/server";
 import { sendOrderEmail } from "@/lib/sendOrderEmail";
 import { connectToDatabase } from "@/lib/mongodb";
 import { getLiveStoreProducts } from "@/app/actions/productActions";
+import { type UtrClaimResult, claimUtr, releaseUtr } from "@/lib/reconciliation";
+import { reserveStock, restoreStock } from "@/lib/inventory";
+import { hasLimitedStock } from "@/lib/data";
+import { fromPaise, pointsValue, priceCart, redeemablePoints, toPaise } from "@/lib/pricing";
+import { findLadderConflict, getPlayerPricing } from "@/lib/playerPricing";
+import { type BundleLine, getBundleLines, isBundle, isBundleSoldOut, splitBundleLine } from "@/lib/bundles";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+import {
+    type Coupon,
+    type CouponPlayer,
+    findCoupons,
+    getCouponPlayer,
+    needsPlayer,
+    readCouponCodes,
+    releaseCoupons,
+    reserveCoupons,
+} from "@/lib/coupons";
+import { findGiftCard, maskGiftCardCode, normalizeGiftCardCode, redeemGiftCard, refundGiftCard } from "@/lib/giftCards";
+import { getPointsBalance, redeemPoints, refundPoints } from "@/lib/loyalty";
+import { getPlayerAccount, hasVerifiedUsername } from "@/lib/playerAccounts";
+import { isUsernameVerified } from "@/lib/usernameVerification";
+import { resolvePlayerId } from "@/lib/playerIds";
+import { getSettings } from "@/app/admin/settings/actions";
+
+// A real buyer places a handful of orders at most — this stops
+// UTR spraying and order spam
+const checkoutLimiter = createRateLimiter({ name: "checkout", limit: 5, windowMs: 10 * 60_000 });
 
 // ─── Request Body Types ────────────────────────────────────────
 
@@ -23,23 +62,49 @@ interface CheckoutRequestItem {
     quantity: number;
 }
 
+interface CheckoutGift {
+    recipientUsername: string;     // Who receives the items (with "." prefix for Bedrock)
+    recipientEdition: "java" | "bedrock";
+    message?: string;              // Optional note, max GIFT_MESSAGE_MAX characters
+}
+
 interface CheckoutRequest {
     minecraftUsername: string;      // Player's in-game name (with "." prefix for Bedrock)
     edition: "java" | "bedrock";   // Which Minecraft edition the player uses
-    utrNumber: string;             // 12-digit UPI Transaction Reference number
+    utrNumber?: string;            // 12-digit UPI Transaction Reference number (not needed if credit covers it all)
     items: CheckoutRequestItem[];  // Cart items with quantities
     couponCode?: string;           // Optional discount coupon code
+    couponCodes?: string[];        // Several coupons, when they are all stackable
+    giftCardCode?: string;         // Optional gift card to pay part or all of the order
+    usePoints?: boolean;           // Spend the player's loyalty points (not on gifts)
+    gift?: CheckoutGift;           // Set when buying for another player
+    verificationToken?: string;    // From /api/verification, once the player ran /verifystore
 }
 
+const USERNAME_PATTERN = /^\.?[a-zA-Z0-9_]{3,16}$/;
+const GIFT_MESSAGE_MAX = 200;
+
 // ─── POST Handler ──────────────────────────────────────────────
 
 export async function POST(request: Request) {
     try {
+        // ──────────────────────────────────────────────────────
+        // 0. Rate limit (per client IP)
+        // ──────────────────────────────────────────────────────
+        const limited = await checkoutLimiter.check(getClientIp(request));
+        if (!limited.allowed) {
+            return rateLimitResponse(limited, "Too many orders from your network. Please wait a few minutes.");
+        }
+
         // ──────────────────────────────────────────────────────
         // 1. Parse the request body
         // ──────────────────────────────────────────────────────
         const body: CheckoutRequest = await request.json();
 
+        // Logged-in players get the order in their account
+        // history; guests check out exactly the same way
+        const account = await getPlayerAccount();
+
         // ──────────────────────────────────────────────────────
         // 2. Validate: Minecraft username
         // ──────────────────────────────────────────────────────
@@ -53,7 +118,7 @@ export async function POST(request: Request) {
         }
 
         // Allow "." prefix for Bedrock, followed by 3-16 alphanumeric/underscores
-        if (!/^\.?[a-zA-Z0-9_]{3,16}$/.test(username)) {
+        if (!USERNAME_PATTERN.test(username)) {
             return NextResponse.json(
                 { error: "Invalid username format." },
                 { status: 400 }
@@ -72,18 +137,74 @@ export async function POST(request: Request) {
         }
 
         // ──────────────────────────────────────────────────────
-        // 4. Validate: UTR Number (must be exactly 12 digits)
+        // 3b. Validate: Gift — the recipient gets the items, the
+        //     buyer (username above) is kept on the order
         // ──────────────────────────────────────────────────────
-        const utrNumber = body.utrNumber?.trim();
+        let gift: { buyerUsername: string; buyerEdition: string; message?: string } | null = null;
+        let deliverTo = username;
+        let deliverEdition: "java" | "bedrock" = edition;
+
+        if (body.gift) {
+            const recipient = body.gift.recipientUsername?.trim();
+            if (!recipient || !USERNAME_PATTERN.test(recipient)) {
+                return NextResponse.json(
+                    { error: "Invalid recipient username format." },
+                    { status: 400 }
+                );
+            }
+            if (body.gift.recipientEdition !== "java" && body.gift.recipientEdition !== "bedrock") {
+                return NextResponse.json(
+                    { error: "Invalid recipient edition. Must be 'java' or 'bedrock'." },
+                    { status: 400 }
+                );
+            }
+            if (recipient.toLowerCase() === username.toLowerCase()) {
+                return NextResponse.json(
+                    { error: "A gift needs a different recipient." },
+                    { status: 400 }
+                );
+            }
+
+            // Strip control characters — the message ends up in emails and the admin panel
+            const message = typeof body.gift.message === "string"
+                ? body.gift.message.replace(/[\u0000-\u0009\u000B-\u001F\u007F]/g, "").trim()
+                : "";
+            if (message.length > GIFT_MESSAGE_MAX) {
+                return NextResponse.json(
+                    { error: `Gift message can be at most ${GIFT_MESSAGE_MAX} characters.` },
+                    { status: 400 }
+                );
+            }
+
+            gift = { buyerUsername: username, buyerEdition: edition, ...(message && { message }) };
+            deliverTo = recipient;
+            deliverEdition = body.gift.recipientEdition;
+        }
 
-        if (!utrNumber) {
+        // ──────────────────────────────────────────────────────
+        // 3c. Username verification — when the store requires it,
+        //     the player getting the items must have proved in-game
+        //     that the name is theirs (see usernameVerification.ts)
+        // ──────────────────────────────────────────────────────
+        const usernameVerified = await isUsernameVerified(
+            await connectToDatabase(),
+            deliverTo,
+            body.verificationToken
+        );
+        if (!usernameVerified && (await getSettings()).usernameVerification === "required") {
             return NextResponse.json(
-                { error: "UTR / Transaction ID is required." },
-                { status: 400 }
+                { error: `Verify ${deliverTo} in-game with /verifystore before checking out.` },
+                { status: 403 }
             );
         }
 
-        if (!/^\d{12}$/.test(utrNumber)) {
+        // ──────────────────────────────────────────────────────
+        // 4. Validate: UTR Number (must be exactly 12 digits)
+        //    Whether one is needed at all is known after 6d
+        // ──────────────────────────────────────────────────────
+        const utrNumber = body.utrNumber?.trim() || null;
+
+        if (utrNumber && !/^\d{12}$/.test(utrNumber)) {
             return NextResponse.json(
                 { error: "UTR must be exactly 12 digits." },
                 { status: 400 }
@@ -101,16 +222,32 @@ export async function POST(request: Request) {
         }
 
         // ──────────────────────────────────────────────────────
-        // 6. Validate each item + recalculate total server-side
-        //    (Fetch live prices from MongoDB)
+        // 6. Validate each item (priced in 6b from live products)
         // ──────────────────────────────────────────────────────
         const liveProducts = await getLiveStoreProducts();
 
-        const validatedItems = [];
-        let serverTotal = 0;
+        // One product per ladder — e.g. not two ranks in one order
+        const ladderConflict = findLadderConflict(body.items, liveProducts);
+        if (ladderConflict) {
+            return NextResponse.json({ error: ladderConflict }, { status: 400 });
+        }
+
+        // What the receiving player already owns → upgrade prices + limits
+        const playerPricing = await getPlayerPricing(await connectToDatabase(), deliverTo, liveProducts);
+
+        const bundles = new Map<string, BundleLine[]>();
+        // Per-line stock and limit checks only hold with one line per product
+        const seenIds = new Set<string>();
 
         for (const cartItem of body.items) {
-            if (!cartItem.quantity || cartItem.quantity < 1) {
+            if (seenIds.has(cartItem.id)) {
+                return NextResponse.json(
+                    { error: "Each product can only be listed once." },
+                    { status: 400 }
+                );
+            }
+            seenIds.add(cartItem.id);
+            if (!Number.isInteger(cartItem.quantity) || cartItem.quantity < 1) {
                 return NextResponse.json(
                     { error: `Invalid quantity for item: ${cartItem.id}` },
                     { status: 400 }
@@ -125,32 +262,187 @@ export async function POST(request: Request) {
                 );
             }
 
-            // ── Apply Flash Sale discount if product is currently on sale ──
-            let effectivePrice = serverProduct.price;
-            const now = Date.now();
-            if (
-                serverProduct.salePercent &&
-                serverProduct.saleEndAt &&
-                now <= new Date(serverProduct.saleEndAt).getTime() &&
-                (!serverProduct.saleStartAt || now >= new Date(serverProduct.saleStartAt).getTime())
-            ) {
-                effectivePrice = parseFloat(
-                    (serverProduct.price * (1 - serverProduct.salePercent / 100)).toFixed(2)
+            // ── Limited stock: refuse more than what's left ──
+            if (hasLimitedStock(serverProduct) && serverProduct.stock < cartItem.quantity) {
+                return NextResponse.json(
+                    {
+                        error: serverProduct.stock <= 0
+                            ? `${serverProduct.name} is sold out.`
+                            : `Only ${serverProduct.stock} of ${serverProduct.name} left.`,
+                    },
+                    { status: 409 }
                 );
             }
 
-            const lineTotal = effectivePrice * cartItem.quantity;
-            serverTotal += lineTotal;
+            // ── Bundles: every product inside must exist and be in stock ──
+            if (isBundle(serverProduct)) {
+                const bundleLines = getBundleLines(serverProduct, liveProducts);
+                if (!bundleLines) {
+                    return NextResponse.json(
+                        { error: `${serverProduct.name} is not available right now.` },
+                        { status: 400 }
+                    );
+                }
+                if (isBundleSoldOut(bundleLines, cartItem.quantity)) {
+                    return NextResponse.json(
+                        { error: `${serverProduct.name} is sold out.` },
+                        { status: 409 }
+                    );
+                }
+                bundles.set(serverProduct.id, bundleLines);
+            }
 
-            validatedItems.push({
-                id: serverProduct.id,
-                name: serverProduct.name,
-                price: effectivePrice,
-                quantity: cartItem.quantity,
-                lineTotal: parseFloat(lineTotal.toFixed(2)),
-            });
+            // ── Purchase rules: already owned / bought too many times ──
+            const rules = playerPricing[serverProduct.id];
+            if (rules?.blocked) {
+                return NextResponse.json({ error: rules.blocked }, { status: 409 });
+            }
+            if (rules && rules.remaining !== null && cartItem.quantity > rules.remaining) {
+                return NextResponse.json(
+                    { error: `${deliverTo} can buy only ${rules.remaining} more of ${serverProduct.name}.` },
+                    { status: 409 }
+                );
+            }
         }
 
+        // ──────────────────────────────────────────────────────
+        // 6b. Price the cart + coupons — the same priceCart the
+        //     cart sidebar and /api/coupons/validate use (uses are
+        //     reserved with the order's other claims in 7d)
+        // ──────────────────────────────────────────────────────
+        const couponCodes = readCouponCodes(body);
+        let coupons: Coupon[] = [];
+        let couponPlayer: CouponPlayer | null = null;
+
+        if (couponCodes.length > 0) {
+            const db = await connectToDatabase();
+            const found = await findCoupons(db, couponCodes);
+            if (found.missing.length > 0) {
+                return NextResponse.json(
+                    { error: `Invalid coupon code: ${found.missing[0]}.` },
+                    { status: 400 }
+                );
+            }
+            coupons = found.coupons;
+            // Per-player rules count the buyer's orders, not the recipient's
+            couponPlayer = needsPlayer(coupons) ? await getCouponPlayer(db, username) : null;
+        }
+
+        const quote = priceCart({
+            items: body.items,
+            products: liveProducts,
+            now: new Date(),
+            coupons,
+            player: couponPlayer,
+            playerPricing,
+        });
+        if (!quote.ok) {
+            return NextResponse.json(
+                { error: `${quote.code}: ${quote.error}` },
+                { status: 400 }
+            );
+        }
+
+        const validatedItems = quote.lines.map((line) => {
+            const bundleLines = bundles.get(line.id);
+            return {
+                id: line.id,
+                name: line.product.name,
+                price: line.unitPrice,
+                quantity: line.quantity,
+                lineTotal: line.lineTotal,
+                // Coupon share — points / commission skip gift card lines net of it
+                ...(line.discount > 0 && { discount: line.discount }),
+                ...(line.upgradeFrom && { upgradeFrom: line.upgradeFrom, fullPrice: line.fullPrice }),
+                // Gift cards are minted from this when the order is approved
+                ...(line.product.giftCardValue && { giftCardValue: line.product.giftCardValue }),
+                // Bundles are delivered (and counted in analytics) as their contents
+                ...(bundleLines && {
+                    components: splitBundleLine(bundleLines, line.quantity, line.lineTotal),
+                }),
+            };
+        });
+
+        // Gift card codes are emailed to the buyer's account — the
+        // public tracking page only shows them masked
+        const buysGiftCards = validatedItems.some(
+            (item) => item.giftCardValue || item.components?.some((c) => c.giftCardValue)
+        );
+        if (buysGiftCards && !account) {
+            return NextResponse.json(
+                { error: "Please log in to buy gift cards — the codes are emailed to your account." },
+                { status: 401 }
+            );
+        }
+
+        const appliedCoupons = quote.coupons;
+        const discount = quote.discount;
+        const totalAmount = quote.total;
+
+        // ──────────────────────────────────────────────────────
+        // 6c. Loyalty points — as many as the order can take.
+        //     Only on orders for the points holder themselves, and
+        //     only once the buyer proved the name is theirs (verified
+        //     in-game now, or linked to their account) — points are
+        //     keyed by username and anyone can type one
+        // ──────────────────────────────────────────────────────
+        let points: { redeemed: number; value: number } | null = null;
+
+        if (body.usePoints && !gift) {
+            if (!usernameVerified && !hasVerifiedUsername(account, username)) {
+                return NextResponse.json(
+                    { error: `Verify ${username} in-game with /verifystore or link it to your account to spend its points.` },
+                    { status: 403 }
+                );
+            }
+            const balance = await getPointsBalance(await connectToDatabase(), username);
+            const redeemed = redeemablePoints(balance, totalAmount);
+            if (redeemed > 0) points = { redeemed, value: pointsValue(redeemed) };
+        }
+
+        const afterPoints = fromPaise(toPaise(totalAmount) - toPaise(points?.value ?? 0));
+
+        // ──────────────────────────────────────────────────────
+        // 6d. Gift card — pays what it can of the rest
+        // ──────────────────────────────────────────────────────
+        let giftCard: { code: string; amount: number } | null = null;
+
+        if (body.giftCardCode) {
+            const code = normalizeGiftCardCode(body.giftCardCode);
+            const card = code ? await findGiftCard(await connectToDatabase(), code) : null;
+            if (!card || card.status !== "active") {
+                return NextResponse.json(
+                    { error: "This gift card code is not valid." },
+                    { status: 400 }
+                );
+            }
+            if (card.balancePaise <= 0) {
+                return NextResponse.json(
+                    { error: "This gift card has no balance left." },
+                    { status: 400 }
+                );
+            }
+            const amount = fromPaise(Math.min(card.balancePaise, toPaise(afterPoints)));
+            if (amount > 0) giftCard = { code: card._id, amount };
+        }
+
+        // What's left to pay over UPI
+        const amountDue = fromPaise(toPaise(afterPoints) - toPaise(giftCard?.amount ?? 0));
+
+        if (amountDue > 0 && !utrNumber) {
+            return NextResponse.json(
+                { error: "UTR / Transaction ID is required." },
+                { status: 400 }
+            );
+        }
+
+        // ──────────────────────────────────────────────────────
+        // 6e. Resolve the receiving player's account ID (Java UUID
+        //     / Bedrock XUID) — it survives name changes. A failed
+        //     lookup never blocks the order
+        // ──────────────────────────────────────────────────────
+        const playerId = await resolvePlayerId(deliverTo, deliverEdition);
+
         // ──────────────────────────────────────────────────────
         // 7. Generate order ID
         // ──────────────────────────────────────────────────────
@@ -159,44 +451,81 @@ export async function POST(request: Request) {
             .substring(2, 7)
             .toUpperCase()}`;
 
-        let totalAmount = parseFloat(serverTotal.toFixed(2));
-        let discount = 0;
-        let appliedCouponCode: string | null = null;
+        // ──────────────────────────────────────────────────────
+        // 7b. Reserve the UTR — one transaction pays for one order
+        //     (fully paid by gift card → there is no UTR)
+        // ──────────────────────────────────────────────────────
+        const orderUtr = amountDue > 0 ? utrNumber : null;
+        const utrClaim: UtrClaimResult = orderUtr
+            ? await claimUtr(await connectToDatabase(), orderUtr, orderId)
+            : { ok: true };
+        if (!utrClaim.ok) {
+            return NextResponse.json(
+                { error: "This UTR has already been used for another order. Please check your transaction ID." },
+                { status: 409 }
+            );
+        }
 
         // ──────────────────────────────────────────────────────
-        // 6b. Validate coupon if provided
+        // 7c. Reserve stock — atomic, so the last item sells once
         // ──────────────────────────────────────────────────────
-        if (body.couponCode) {
-            const db = await connectToDatabase();
-            const coupon = await db.collection("coupons").findOne({
-                code: body.couponCode.toUpperCase().trim(),
-                active: true,
-            });
+        // Bundles take stock from the products inside them too
+        const stockLines = validatedItems.flatMap((item) => [item, ...(item.components ?? [])]);
+        const stockClaim = await reserveStock(await connectToDatabase(), stockLines);
+        if (!stockClaim.ok) {
+            if (orderUtr) await releaseUtr(await connectToDatabase(), orderUtr, orderId).catch(() => { });
+            const soldOut = stockLines.find((i) => i.id === stockClaim.productId);
+            return NextResponse.json(
+                { error: `${soldOut?.name ?? "An item in your cart"} just sold out. Please update your cart.` },
+                { status: 409 }
+            );
+        }
 
-            if (coupon) {
-                const isExpired = coupon.expiresAt && new Date(coupon.expiresAt) < new Date();
-                const isMaxed = coupon.maxUses !== -1 && coupon.usedCount >= coupon.maxUses;
-                const meetsMinium = totalAmount >= (coupon.minOrder || 0);
-
-                if (!isExpired && !isMaxed && meetsMinium) {
-                    if (coupon.type === "percentage") {
-                        discount = totalAmount * (coupon.value / 100);
-                    } else {
-                        discount = coupon.value;
-                    }
-                    discount = parseFloat(Math.min(discount, totalAmount).toFixed(2));
-                    totalAmount = parseFloat((totalAmount - discount).toFixed(2));
-                    appliedCouponCode = coupon.code;
-
-                    // Increment usage count
-                    await db.collection("coupons").updateOne(
-                        { code: coupon.code },
-                        { $inc: { usedCount: 1 } }
-                    );
-                }
+        // ──────────────────────────────────────────────────────
+        // 7d. Reserve coupon uses — atomic, so the last use of a
+        //     coupon (or of a player's per-player uses) goes to
+        //     one order (given back on rejection)
+        // ──────────────────────────────────────────────────────
+        if (appliedCoupons.length > 0) {
+            const couponClaim = await reserveCoupons(await connectToDatabase(), appliedCoupons, orderId, username);
+            if (!couponClaim.ok) {
+                if (orderUtr) await releaseUtr(await connectToDatabase(), orderUtr, orderId).catch(() => { });
+                await restoreStock(await connectToDatabase(), stockClaim.reserved).catch(() => { });
+                return NextResponse.json(
+                    { error: `${couponClaim.code}: ${couponClaim.error}` },
+                    { status: 409 }
+                );
             }
         }
 
+        // ──────────────────────────────────────────────────────
+        // 7e. Spend the points — atomic, like the gift card below
+        // ──────────────────────────────────────────────────────
+        if (points && !(await redeemPoints(await connectToDatabase(), username, points.redeemed, orderId))) {
+            if (orderUtr) await releaseUtr(await connectToDatabase(), orderUtr, orderId).catch(() => { });
+            await restoreStock(await connectToDatabase(), stockClaim.reserved).catch(() => { });
+            await releaseCoupons(await connectToDatabase(), orderId).catch(() => { });
+            return NextResponse.json(
+                { error: "Your points balance changed. Please try again." },
+                { status: 409 }
+            );
+        }
+
+        // ──────────────────────────────────────────────────────
+        // 7f. Take the gift card credit — atomic, so one balance
+        //     can't pay for two orders
+        // ──────────────────────────────────────────────────────
+        if (giftCard && !(await redeemGiftCard(await connectToDatabase(), giftCard.code, toPaise(giftCard.amount), orderId))) {
+            if (orderUtr) await releaseUtr(await connectToDatabase(), orderUtr, orderId).catch(() => { });
+            await restoreStock(await connectToDatabase(), stockClaim.reserved).catch(() => { });
+            await releaseCoupons(await connectToDatabase(), orderId).catch(() => { });
+            await refundPoints(await connectToDatabase(), orderId).catch(() => { });
+            return NextResponse.json(
+                { error: "Your gift card balance changed. Please re-apply it and try again." },
+                { status: 409 }
+            );
+        }
+
         // ──────────────────────────────────────────────────────
         // 8. Log the order to console for debugging
         // ──────────────────────────────────────────────────────
@@ -204,9 +533,9 @@ export async function POST(request: Request) {
         console.log("📦 NEW ORDER RECEIVED");
         console.log("═══════════════════════════════════════");
         console.log(`  Order ID:  ${orderId}`);
-        console.log(`  Player:    ${username} (${edition})`);
-        console.log(`  UTR:       ${utrNumber}`);
-        console.log(`  Total:     ₹${totalAmount}`);
+        console.log(`  Player:    ${deliverTo} (${deliverEdition})${gift ? ` — gift from ${username}` : ""}`);
+        console.log(`  UTR:       ${orderUtr ?? "— (paid by gift card / points)"}`);
+        console.log(`  Total:     ₹${amountDue}${giftCard ? ` (+ ₹${giftCard.amount} gift card ${maskGiftCardCode(giftCard.code)})` : ""}${points ? ` (${points.redeemed} points)` : ""}`);
         console.log(`  Items:     ${validatedItems.map((i) => `${i.name} x${i.quantity}`).join(", ")}`);
         console.log("═══════════════════════════════════════");
 
@@ -217,11 +546,13 @@ export async function POST(request: Request) {
         try {
             await sendOrderEmail({
                 orderId,
-                username,
-                edition,
-                utrNumber,
+                username: deliverTo,
+                edition: deliverEdition,
+                utrNumber: orderUtr,
                 items: validatedItems,
-                total: totalAmount,
+                total: amountDue,
+                ...(gift && { gift }),
+                ...(giftCard && { giftCard }),
             });
             emailSent = true;
             console.log("✅ Email notification sent successfully!");
@@ -236,12 +567,28 @@ export async function POST(request: Request) {
             const db = await connectToDatabase();
             await db.collection("orders").insertOne({
                 orderId,
-                minecraftUsername: username,
-                edition,
-                utrNumber,
+                // Delivery goes to minecraftUsername — the recipient for gifts
+                minecraftUsername: deliverTo,
+                edition: deliverEdition,
+                ...(playerId && { playerId: playerId.id, playerIdType: playerId.type }),
+                ...(gift && { gift }),
+                ...(account && { accountId: account._id }),
+                ...(usernameVerified && { usernameVerified: true }),
+                // null when a gift card / points paid for everything
+                utrNumber: orderUtr,
                 items: validatedItems,
-                total: totalAmount,
-                ...(appliedCouponCode && { couponCode: appliedCouponCode, discount }),
+                // Amount paid over UPI — gift card credit is kept separately
+                total: amountDue,
+                ...(appliedCoupons.length > 0 && {
+                    coupons: appliedCoupons.map(({ code, discount }) => ({ code, discount })),
+                    // Combined, for the tracking page / CSV export
+                    couponCode: appliedCoupons.map((c) => c.code).join(" + "),
+                    discount,
+                }),
+                ...(points && { pointsRedeemed: points.redeemed, pointsDiscount: points.value }),
+                ...(giftCard && { giftCard }),
+                ...(utrClaim.duplicateOf && { utrDuplicateOf: utrClaim.duplicateOf }),
+                ...(stockClaim.reserved.length > 0 && { stockReserved: stockClaim.reserved }),
                 status: "pending",
                 emailSent,
                 createdAt: new Date(),
@@ -251,6 +598,12 @@ export async function POST(request: Request) {
         } catch (dbErr) {
             console.error("❌ MongoDB save failed:", dbErr);
             // Don't fail the order — email was already sent
+            // Free the UTR, stock, coupon uses and points though, so the player can resubmit
+            if (orderUtr) await releaseUtr(await connectToDatabase(), orderUtr, orderId).catch(() => { });
+            await restoreStock(await connectToDatabase(), stockClaim.reserved).catch(() => { });
+            await releaseCoupons(await connectToDatabase(), orderId).catch(() => { });
+            await refundPoints(await connectToDatabase(), orderId).catch(() => { });
+            if (giftCard) await refundGiftCard(await connectToDatabase(), giftCard.code, orderId).catch(() => { });
         }
 
         // ──────────────────────────────────────────────────────
@@ -259,12 +612,17 @@ export async function POST(request: Request) {
         return NextResponse.json({
             success: true,
             orderId,
-            minecraftUsername: username,
-            edition,
-            total: totalAmount,
+            minecraftUsername: deliverTo,
+            edition: deliverEdition,
+            ...(gift && { giftFrom: username }),
+            total: amountDue,
+            ...(points && { pointsRedeemed: points.redeemed, pointsDiscount: points.value }),
+            ...(giftCard && { giftCardAmount: giftCard.amount }),
             itemCount: validatedItems.length,
             items: validatedItems,
-            message: `Order placed for ${username}! We'll verify your payment (UTR: ${utrNumber}) and deliver your items in-game.`,
+            message: orderUtr
+                ? `Order placed for ${deliverTo}${gift ? ` (gift from ${username})` : ""}! We'll verify your payment (UTR: ${orderUtr}) and deliver your items in-game.`
+                : `Order placed for ${deliverTo}${gift ? ` (gift from ${username})` : ""}, paid in full with your ${giftCard ? "gift card" : "points"}! We'll deliver your items in-game once it's approved.`,
         });
     } catch (error) {
         console.error("Checkout error:", error);
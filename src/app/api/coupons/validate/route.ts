@@ -1,18 +1,39 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: route.ts  (Public Coupon Validation)
-// PURPOSE: POST /api/coupons/validate — Validates a coupon code
-//          and returns discount info for the frontend cart.
+// PURPOSE: POST /api/coupons/validate — Validates coupon codes
+//          against the cart and returns the discount info for the
+//          frontend cart. Prices the cart with the same priceCart
+//          (pricing.ts) and coupon rules (coupons.ts) as
+//          /api/checkout, from the live catalog.
+//          Body: { codes: string[], items: [{ id, quantity }],
+//                  username?, recipient? }
+//          Per-player rules (first order, uses per player) are
+//          only checked once `username` is known.
 // LOCATION: src/app/api/coupons/validate/route.ts
 // ═══════════════════════════════════════════════════════════════
 
 import { NextResponse } from "next/server";
 import { connectToDatabase } from "@/lib/mongodb";
+import { getLiveStoreProducts } from "@/app/actions/productActions";
+import { getPlayerPricing } from "@/lib/playerPricing";
+import { priceCart } from "@/lib/pricing";
+import { findCoupons, getCouponPlayer, needsPlayer, readCouponCodes } from "@/lib/coupons";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+// Stops coupon codes being guessed by brute force
+const couponLimiter = createRateLimiter({ name: "coupon-validate", limit: 10, windowMs: 60_000 });
+
+const USERNAME_PATTERN = /^\.?[a-zA-Z0-9_]{3,16}$/;
 
 export async function POST(request: Request) {
     try {
-        const { code, cartTotal } = await request.json();
+        const limited = await couponLimiter.check(getClientIp(request));
+        if (!limited.allowed) return rateLimitResponse(limited);
 
-        if (!code) {
+        const body = await request.json();
+        const codes = readCouponCodes({ couponCode: body.code, couponCodes: body.codes });
+
+        if (codes.length === 0) {
             return NextResponse.json(
                 { error: "Coupon code is required." },
                 { status: 400 }
@@ -20,61 +41,46 @@ export async function POST(request: Request) {
         }
 
         const db = await connectToDatabase();
-        const coupon = await db
-            .collection("coupons")
-            .findOne({ code: code.toUpperCase().trim(), active: true });
-
-        if (!coupon) {
+        const { coupons, missing } = await findCoupons(db, codes);
+        if (missing.length > 0) {
             return NextResponse.json(
-                { valid: false, error: "Invalid coupon code." },
+                { valid: false, code: missing[0], error: "Invalid coupon code." },
                 { status: 200 }
             );
         }
 
-        // Check expiry
-        if (coupon.expiresAt && new Date(coupon.expiresAt) < new Date()) {
-            return NextResponse.json(
-                { valid: false, error: "This coupon has expired." },
-                { status: 200 }
-            );
-        }
+        // Price the cart like checkout does (sales, upgrade prices)
+        const username = typeof body.username === "string" && USERNAME_PATTERN.test(body.username.trim())
+            ? body.username.trim()
+            : null;
+        const recipient = typeof body.recipient === "string" && USERNAME_PATTERN.test(body.recipient.trim())
+            ? body.recipient.trim()
+            : null;
+        const catalog = await getLiveStoreProducts();
+        const deliverTo = recipient ?? username;
+        const pricing = deliverTo ? await getPlayerPricing(db, deliverTo, catalog) : {};
 
-        // Check usage limit
-        if (coupon.maxUses !== -1 && coupon.usedCount >= coupon.maxUses) {
-            return NextResponse.json(
-                { valid: false, error: "This coupon has reached its usage limit." },
-                { status: 200 }
-            );
-        }
+        const items = (Array.isArray(body.items) ? body.items : [])
+            .filter((item: { id?: unknown }) => typeof item?.id === "string")
+            .map((item: { id: string; quantity?: unknown }) => ({ id: item.id, quantity: Number(item.quantity) }));
 
-        // Check minimum order
-        if (cartTotal && cartTotal < coupon.minOrder) {
+        const player = username && needsPlayer(coupons) ? await getCouponPlayer(db, username) : null;
+        const result = priceCart({ items, products: catalog, now: new Date(), coupons, player, playerPricing: pricing });
+
+        if (!result.ok) {
             return NextResponse.json(
-                {
-                    valid: false,
-                    error: `Minimum order of ₹${coupon.minOrder.toFixed(2)} required.`,
-                },
+                { valid: false, code: result.code, error: result.error },
                 { status: 200 }
             );
         }
 
-        // Calculate discount
-        let discount = 0;
-        if (coupon.type === "percentage") {
-            discount = (cartTotal || 0) * (coupon.value / 100);
-        } else {
-            discount = coupon.value;
-        }
-
         return NextResponse.json({
             valid: true,
-            coupon: {
-                code: coupon.code,
-                type: coupon.type,
-                value: coupon.value,
-                minOrder: coupon.minOrder,
-            },
-            discount: parseFloat(discount.toFixed(2)),
+            coupons: result.coupons,
+            coupon: result.coupons[result.coupons.length - 1],
+            discount: result.discount,
+            subtotal: result.subtotal,
+            total: result.total,
         });
     } catch (error) {
         console.error("Coupon validation error:", error);
@@ -0,0 +1,98 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Plugin Delivery — Acknowledge)
+// PURPOSE: POST /api/delivery/<orderId>/ack — A server-side
+//          plugin reports the result of a delivery it fetched
+//          from /api/delivery/pending.
+//          Auth:  Authorization: Bearer <server API key>
+//          Body:  { deliveryId, success, failedCommands?, error? }
+//          Idempotent: acking an already delivered order again
+//          returns 200 with alreadyAcknowledged: true, so a
+//          plugin that crashed before seeing the reply can simply
+//          retry the ack. Only the server holding the delivery
+//          may ack it.
+// LOCATION: src/app/api/delivery/[orderId]/ack/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { finishJob, type DeliveryJob } from "@/lib/deliveryQueue";
+import { recordPluginDelivery } from "@/lib/delivery";
+import { authenticateDeliveryServer } from "@/lib/deliveryServers";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ orderId: string }> }
+) {
+    try {
+        const server = await authenticateDeliveryServer(request);
+        if (!server) {
+            return NextResponse.json({ error: "Invalid or missing API key." }, { status: 401 });
+        }
+
+        const { orderId } = await params;
+        const body = await request.json().catch(() => null);
+        if (!body || typeof body.success !== "boolean") {
+            return NextResponse.json(
+                { error: "Body must include a boolean \"success\"." },
+                { status: 400 }
+            );
+        }
+
+        const deliveryId = typeof body.deliveryId === "string" ? body.deliveryId : "";
+        const failedCommands: string[] = Array.isArray(body.failedCommands)
+            ? body.failedCommands.filter((c: unknown): c is string => typeof c === "string")
+            : [];
+        const error = typeof body.error === "string" ? body.error.slice(0, 500) : undefined;
+
+        const db = await connectToDatabase();
+        const job = await db
+            .collection<DeliveryJob>("deliveryJobs")
+            .findOne({ orderId, channel: "plugin" });
+
+        if (!job) {
+            return NextResponse.json({ error: "No plugin delivery for this order." }, { status: 404 });
+        }
+
+        // ── Already delivered → nothing to do ──
+        if (job.status === "done") {
+            return NextResponse.json({ success: true, alreadyAcknowledged: true });
+        }
+
+        // ── Someone else's delivery ──
+        if (job.claimedBy && job.claimedBy !== server.name) {
+            return NextResponse.json(
+                { error: "This delivery is held by another server." },
+                { status: 403 }
+            );
+        }
+
+        // A failure report only counts for the lease it was handed
+        // out with — otherwise a late ack could undo a newer attempt.
+        // Success is always accepted (even on a dead-lettered job):
+        // the items were given in-game.
+        if (!body.success && (job.status !== "running" || deliveryId !== job.deliveryId)) {
+            return NextResponse.json(
+                { error: "Stale delivery. Fetch pending deliveries again." },
+                { status: 409 }
+            );
+        }
+
+        await recordPluginDelivery(job.orderMongoId, body.success, failedCommands, error);
+        const outcome = await finishJob(
+            db,
+            job,
+            body.success,
+            body.success ? undefined : error || "Plugin reported a failed delivery"
+        );
+
+        return NextResponse.json({ success: true, status: outcome });
+    } catch (error) {
+        console.error("Plugin delivery ack error:", error);
+        return NextResponse.json(
+            { error: "Failed to acknowledge delivery." },
+            { status: 500 }
+        );
+    }
+}
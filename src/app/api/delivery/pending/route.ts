@@ -0,0 +1,109 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Plugin Delivery — Pending)
+// PURPOSE: GET /api/delivery/pending — Hands approved but not yet
+//          delivered orders to a server-side plugin.
+//          Auth:   Authorization: Bearer <server API key>
+//          Query:  ?online=Steve,Alex   only orders for these
+//                                        (online) players
+//                  &limit=20             max orders per poll
+//          Each returned order is leased to the calling server
+//          for a short time. The plugin runs the commands and
+//          reports back via POST /api/delivery/<orderId>/ack.
+//          Orders are never handed out twice while leased. An
+//          expired lease only comes back to the same server with
+//          the same deliveryId — the plugin must remember the ids
+//          it ran and just re-ack those instead of running them
+//          again. After MAX_LEASES unacked leases the job is
+//          dead-lettered for staff.
+// LOCATION: src/app/api/delivery/pending/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { claimNextJob, deadLetterExpiredLeases, finishJob, LOCK_MS, type DeliveryJob } from "@/lib/deliveryQueue";
+import { prepareOrderCommands } from "@/lib/delivery";
+import { authenticateDeliveryServer } from "@/lib/deliveryServers";
+import type { Filter } from "mongodb";
+
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 50;
+
+export async function GET(request: Request) {
+    try {
+        const server = await authenticateDeliveryServer(request);
+        if (!server) {
+            return NextResponse.json({ error: "Invalid or missing API key." }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "20") || 20, 1), MAX_LIMIT);
+        const onlineParam = searchParams.get("online");
+
+        const db = await connectToDatabase();
+        await deadLetterExpiredLeases(db);
+        const filter: Filter<DeliveryJob> = { channel: "plugin" };
+
+        // ── Only deliver to players who are online right now ──
+        if (onlineParam !== null) {
+            const online = onlineParam
+                .split(",")
+                .map((name) => name.trim())
+                .filter(Boolean);
+
+            if (online.length === 0) {
+                return NextResponse.json({ success: true, deliveries: [] });
+            }
+
+            // Case-insensitive match — Minecraft names are not case-sensitive
+            const orders = await db
+                .collection("orders")
+                .find(
+                    { status: "pending-delivery", minecraftUsername: { $in: online } },
+                    { projection: { _id: 1 }, collation: { locale: "en", strength: 2 } }
+                )
+                .toArray();
+
+            if (orders.length === 0) {
+                return NextResponse.json({ success: true, deliveries: [] });
+            }
+            filter.orderMongoId = { $in: orders.map((o) => o._id.toString()) };
+        }
+
+        // ── Claim due jobs for this server ──
+        const deliveries = [];
+        for (let i = 0; i < limit; i++) {
+            const job = await claimNextJob(db, filter, server.name);
+            if (!job) break;
+
+            const prepared = await prepareOrderCommands(job.orderMongoId);
+            if (!prepared) {
+                await finishJob(db, job, false, "Order not found");
+                continue;
+            }
+
+            deliveries.push({
+                // Same id when an expired lease comes back — dedupe on it
+                deliveryId: job.deliveryId,
+                orderId: job.orderId,
+                username: prepared.order.minecraftUsername,
+                edition: prepared.order.edition,
+                playerId: prepared.order.playerId ?? null,
+                attempt: job.attempts,
+                leaseExpiresAt: new Date(Date.now() + LOCK_MS).toISOString(),
+                // Only what still needs to run — finished commands are never resent
+                commands: prepared.commands
+                    .filter((c) => c.status !== "success")
+                    .map((c) => c.command),
+            });
+        }
+
+        return NextResponse.json({ success: true, deliveries });
+    } catch (error) {
+        console.error("Plugin pending deliveries error:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch pending deliveries." },
+            { status: 500 }
+        );
+    }
+}
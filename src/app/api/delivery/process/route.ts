@@ -0,0 +1,38 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Delivery Worker)
+// PURPOSE: GET /api/delivery/process — Runs due delivery jobs
+//          from the `deliveryJobs` queue. Meant to be called on a
+//          schedule (e.g. Vercel Cron or any uptime pinger) with
+//          the header: Authorization: Bearer <CRON_SECRET>
+// LOCATION: src/app/api/delivery/process/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { processDueDeliveries } from "@/lib/deliveryQueue";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+    try {
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret) {
+            return NextResponse.json(
+                { error: "Server misconfigured: CRON_SECRET not set." },
+                { status: 500 }
+            );
+        }
+
+        if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+            return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+        }
+
+        const summary = await processDueDeliveries();
+        return NextResponse.json({ success: true, ...summary });
+    } catch (error) {
+        console.error("Delivery worker error:", error);
+        return NextResponse.json(
+            { error: "Failed to process deliveries." },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,61 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Plugin — Username Verification)
+// PURPOSE: POST /api/delivery/verify — The server plugin's
+//          /verifystore <code> command reports who ran it, which
+//          proves that player owns the username they typed in the
+//          cart.
+//          Auth:  Authorization: Bearer <server API key>
+//          Body:  { code, username }  — username is the name of
+//                 the player who ran the command, as the server
+//                 sees it (Bedrock players with their "." prefix)
+//          Reply: 200 { success: true }, or 404 when the code is
+//                 unknown, expired, used, or for another player —
+//                 the plugin shows the error in chat.
+//          RCON can't receive commands from the game, so this
+//          needs the plugin (or any server command that calls it
+//          with a delivery server key), whatever the delivery mode.
+// LOCATION: src/app/api/delivery/verify/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { authenticateDeliveryServer } from "@/lib/deliveryServers";
+import { confirmVerification, normalizeVerifyCode } from "@/lib/usernameVerification";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+    try {
+        const server = await authenticateDeliveryServer(request);
+        if (!server) {
+            return NextResponse.json({ error: "Invalid or missing API key." }, { status: 401 });
+        }
+
+        const body = await request.json().catch(() => null);
+        const code = normalizeVerifyCode(body?.code);
+        const username = typeof body?.username === "string" ? body.username.trim() : "";
+        if (!code || !username) {
+            return NextResponse.json(
+                { error: "Body must include a \"code\" and the player's \"username\"." },
+                { status: 400 }
+            );
+        }
+
+        const db = await connectToDatabase();
+        const confirmed = await confirmVerification(db, code, username, server.name);
+        if (!confirmed) {
+            return NextResponse.json(
+                { error: "That code is invalid, expired, or was made for another player." },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Plugin verification error:", error);
+        return NextResponse.json(
+            { error: "Failed to verify the code." },
+            { status: 500 }
+        );
+    }
+}
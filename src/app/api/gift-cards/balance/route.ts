@@ -0,0 +1,58 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Gift Card Balance API)
+// PURPOSE: GET /api/gift-cards/balance?code=<code> — what's left
+//          on a gift card. The cart uses it to apply a card before
+//          checkout; /api/checkout takes the credit for real.
+// LOCATION: src/app/api/gift-cards/balance/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { findGiftCard, normalizeGiftCardCode } from "@/lib/giftCards";
+import { fromPaise } from "@/lib/pricing";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+// Codes are worth money — keep guessing slow
+const balanceLimiter = createRateLimiter({ name: "gift-card-balance", limit: 10, windowMs: 60_000 });
+
+// ─── GET: Balance of a Card ────────────────────────────────────
+
+export async function GET(request: Request) {
+    try {
+        const limited = await balanceLimiter.check(getClientIp(request));
+        if (!limited.allowed) return rateLimitResponse(limited);
+
+        const { searchParams } = new URL(request.url);
+        const code = normalizeGiftCardCode(searchParams.get("code"));
+        if (!code) {
+            return NextResponse.json(
+                { error: "Enter a gift card code like GC-XXXX-XXXX-XXXX." },
+                { status: 400 }
+            );
+        }
+
+        const db = await connectToDatabase();
+        const card = await findGiftCard(db, code);
+        if (!card) {
+            return NextResponse.json(
+                { error: "Gift card not found." },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            code: card._id,
+            status: card.status,
+            balance: card.status === "active" ? fromPaise(card.balancePaise) : 0,
+            initialBalance: fromPaise(card.initialBalancePaise),
+        });
+    } catch (error) {
+        console.error("Gift card balance error:", error);
+        return NextResponse.json(
+            { error: "Failed to check gift card." },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,60 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Loyalty Points Balance API)
+// PURPOSE: GET /api/loyalty/balance?username=<name>[&token=] — a
+//          player's points, what they're worth and whether this
+//          buyer may spend them (name verified with `token` or
+//          linked to their account). The cart uses it to offer
+//          points at checkout; /api/checkout spends them for real.
+// LOCATION: src/app/api/loyalty/balance/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { getPointsBalance } from "@/lib/loyalty";
+import { getPlayerAccount, hasVerifiedUsername } from "@/lib/playerAccounts";
+import { isUsernameVerified } from "@/lib/usernameVerification";
+import { pointsValue } from "@/lib/pricing";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+const balanceLimiter = createRateLimiter({ name: "loyalty-balance", limit: 20, windowMs: 60_000 });
+
+const USERNAME_PATTERN = /^\.?[a-zA-Z0-9_]{3,16}$/;
+
+// ─── GET: Points of a Player ───────────────────────────────────
+
+export async function GET(request: Request) {
+    try {
+        const limited = await balanceLimiter.check(getClientIp(request));
+        if (!limited.allowed) return rateLimitResponse(limited);
+
+        const { searchParams } = new URL(request.url);
+        const username = searchParams.get("username")?.trim() ?? "";
+        if (!USERNAME_PATTERN.test(username)) {
+            return NextResponse.json(
+                { error: "Invalid username format." },
+                { status: 400 }
+            );
+        }
+
+        const db = await connectToDatabase();
+        const balance = await getPointsBalance(db, username);
+        const spendable =
+            (await isUsernameVerified(db, username, searchParams.get("token"))) ||
+            hasVerifiedUsername(await getPlayerAccount(), username);
+
+        return NextResponse.json({
+            username,
+            balance,
+            value: pointsValue(balance),
+            spendable,
+        });
+    } catch (error) {
+        console.error("Loyalty balance error:", error);
+        return NextResponse.json(
+            { error: "Failed to check points." },
+            { status: 500 }
+        );
+    }
+}
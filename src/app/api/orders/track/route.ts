@@ -13,6 +13,13 @@
 
 import { NextResponse } from "next/server";  // Next.js helper for sending JSON responses
 import { connectToDatabase } from "@/lib/mongodb";  // Our MongoDB connection helper
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";  // Shared rate limiter
+import { getPointsBalance } from "@/lib/loyalty";  // Loyalty points of whoever paid
+import { maskGiftCardCode } from "@/lib/giftCards";  // Gift card codes are only shown masked here
+import { rejectionReasonOf, type OrderStatusEvent } from "@/lib/orderStatus";  // Status history shape
+
+// Order IDs are guessable-ish, so slow down anyone enumerating them
+const trackLimiter = createRateLimiter({ name: "order-track", limit: 20, windowMs: 60_000 });
 
 /**
  * GET /api/orders/track?orderId=<orderId>
@@ -25,13 +32,20 @@ import { connectToDatabase } from "@/lib/mongodb";  // Our MongoDB connection he
  *   Step 3: Connect to MongoDB and search the "orders" collection
  *   Step 4: If no order is found, return a 404 error
  *   Step 5: If found, return ONLY the safe/public fields (no UTR number!)
+ *           The status history is included without who made each change.
  *
  * SECURITY NOTE: We intentionally exclude the UTR (payment reference) number
  * from the response. This is a security best practice — the UTR is sensitive
  * payment data and should only be visible to admins in the admin panel.
+ * Gift card codes are masked for the same reason: they are emailed to the
+ * buyer and shown on their account page, never here in full.
  */
 export async function GET(request: Request) {
     try {
+        // Rate limiting check (per client IP)
+        const limited = await trackLimiter.check(getClientIp(request));
+        if (!limited.allowed) return rateLimitResponse(limited);
+
         // Step 1: Get the orderId from the URL and clean it up
         const { searchParams } = new URL(request.url);
         let orderId = searchParams.get("orderId")?.trim();
@@ -65,19 +79,39 @@ export async function GET(request: Request) {
             );
         }
 
+        // The buyer's points balance — the buyer earns on gifts, not the recipient
+        const pointsBalance = await getPointsBalance(db, order.gift?.buyerUsername ?? order.minecraftUsername);
+
         // Step 5: Return the order data — but ONLY the safe, public fields
-        // Notice we do NOT include: utrNumber, _id, or any internal data
+        // Notice we do NOT include: utrNumber, _id, full gift card codes, or any internal data
         return NextResponse.json({
             success: true,
             order: {
                 orderId: order.orderId,                 // The Order ID itself
                 minecraftUsername: order.minecraftUsername, // Player's username
                 edition: order.edition,                 // "java" or "bedrock"
+                gift: order.gift                        // Who paid, if it was a gift
+                    ? { buyerUsername: order.gift.buyerUsername, message: order.gift.message || null }
+                    : null,
                 items: order.items,                     // Array of purchased items
                 total: order.total,                     // Total amount paid (₹)
-                status: order.status,                   // "pending", "success", or "rejected"
+                status: order.status,                   // "pending", "pending-delivery", "delivered", "delivery-failed" or "rejected"
+                rejectionReason: rejectionReasonOf(order.statusHistory) || null, // Why it was rejected (if it was)
+                history: ((order.statusHistory ?? []) as OrderStatusEvent[]).map((event) => ({
+                    from: event.from,                   // Status before the change
+                    to: event.to,                       // Status after the change
+                    at: new Date(event.at).toISOString(), // When it happened
+                })),                                    // Staff names stay private — only what and when
                 couponCode: order.couponCode || null,   // Coupon code used (if any)
                 discount: order.discount || 0,          // Discount amount (₹)
+                giftCardAmount: order.giftCard?.amount || 0, // Store credit used (₹) — the code stays private
+                // Gift cards bought (minted on approval) — MASKED: anyone with an
+                // orderId can call this, and the full codes spend like cash
+                giftCardsIssued: ((order.giftCardsIssued || []) as string[]).map(maskGiftCardCode),
+                pointsRedeemed: order.pointsRedeemed || 0,  // Loyalty points spent on this order
+                pointsDiscount: order.pointsDiscount || 0,  // What those points took off (₹)
+                pointsEarned: order.pointsEarned || 0,      // Points earned (credited on approval)
+                pointsBalance,                              // The buyer's points now
                 createdAt: order.createdAt              // When the order was placed
                     ? new Date(order.createdAt).toISOString()
                     : null,
@@ -0,0 +1,53 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Player Pricing API)
+// PURPOSE: GET /api/player-pricing?username=<name> — what this
+//          player pays for each product, based on what they
+//          already own: upgrade prices on rank ladders, products
+//          they can't buy again and how many they have left.
+//          Only products that differ from the normal listing are
+//          returned. The storefront uses this for "Upgrade for ₹X";
+//          /api/checkout applies the same rules when charging.
+// LOCATION: src/app/api/player-pricing/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { getLiveStoreProducts } from "@/app/actions/productActions";
+import { getPlayerPricing } from "@/lib/playerPricing";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+// Looked up once per checkout — this is generous
+const pricingLimiter = createRateLimiter({ name: "player-pricing", limit: 20, windowMs: 60_000 });
+
+// ─── GET: Pricing for a Player ─────────────────────────────────
+
+export async function GET(request: Request) {
+    try {
+        const limited = await pricingLimiter.check(getClientIp(request));
+        if (!limited.allowed) return rateLimitResponse(limited);
+
+        const { searchParams } = new URL(request.url);
+        const username = searchParams.get("username")?.trim();
+
+        // Same format as checkout ("." prefix for Bedrock)
+        if (!username || !/^\.?[a-zA-Z0-9_]{3,16}$/.test(username)) {
+            return NextResponse.json(
+                { error: "Invalid username format." },
+                { status: 400 }
+            );
+        }
+
+        const db = await connectToDatabase();
+        const pricing = await getPlayerPricing(db, username, await getLiveStoreProducts());
+
+        return NextResponse.json({ username, pricing });
+    } catch (error) {
+        console.error("Player pricing error:", error);
+        return NextResponse.json(
+            { error: "Failed to load pricing." },
+            { status: 500 }
+        );
+    }
+}
@@ -13,23 +13,12 @@
 
 import { NextResponse } from "next/server"; // Next.js helper for sending JSON responses
 import { connectToDatabase } from "@/lib/mongodb"; // Our MongoDB connection helper
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit"; // Shared rate limiter
 
-// ─── Simple In-Memory Rate Limiter ─────────────────────────────
+// ─── Rate Limiter ──────────────────────────────────────────────
 // Limits each IP to 30 search requests per minute to prevent abuse.
-const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
-const RATE_LIMIT = 30;       // Max requests per window
-const RATE_WINDOW = 60000;   // 1 minute window
-
-function isRateLimited(ip: string): boolean {
-    const now = Date.now();
-    const entry = rateLimitMap.get(ip);
-    if (!entry || now > entry.resetAt) {
-        rateLimitMap.set(ip, { count: 1, resetAt: now + RATE_WINDOW });
-        return false;
-    }
-    entry.count++;
-    return entry.count > RATE_LIMIT;
-}
+// Counts live in MongoDB, so they survive serverless cold starts.
+const searchLimiter = createRateLimiter({ name: "search", limit: 30, windowMs: 60_000, strategy: "fixed" });
 
 /**
  * GET /api/search?q=<query>
@@ -39,13 +28,8 @@ function isRateLimited(ip: string): boolean {
 export async function GET(request: Request) {
     try {
         // Rate limiting check
-        const ip = request.headers.get("x-forwarded-for") || "unknown";
-        if (isRateLimited(ip)) {
-            return NextResponse.json(
-                { error: "Too many requests. Please wait a moment." },
-                { status: 429 }
-            );
-        }
+        const limited = await searchLimiter.check(getClientIp(request));
+        if (!limited.allowed) return rateLimitResponse(limited);
 
         // Step 1: Extract the search query from the URL
         // Example URL: /api/search?q=warrior → query = "warrior"
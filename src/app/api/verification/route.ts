@@ -0,0 +1,91 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: route.ts  (Username Verification API)
+// PURPOSE: The cart's side of username verification.
+//          POST /api/verification  { username }
+//               → { code, token, expiresAt } — the player runs
+//                 /verifystore <code> in-game
+//          GET  /api/verification?username=<name>&token=<token>
+//               → { required, verified } — polled by the cart
+//                 until the plugin reports the code
+// LOCATION: src/app/api/verification/route.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { getSettings } from "@/app/admin/settings/actions";
+import { isUsernameVerified, startVerification } from "@/lib/usernameVerification";
+import { createRateLimiter, getClientIp, rateLimitResponse } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+// Codes are cheap to ask for — but not to spray; status checks
+// are polled every few seconds while the player is in-game
+const startLimiter = createRateLimiter({ name: "verification-start", limit: 5, windowMs: 10 * 60_000 });
+const statusLimiter = createRateLimiter({ name: "verification-status", limit: 30, windowMs: 60_000 });
+
+const USERNAME_PATTERN = /^\.?[a-zA-Z0-9_]{3,16}$/;
+
+// ─── POST: New Code ────────────────────────────────────────────
+
+export async function POST(request: Request) {
+    try {
+        const limited = await startLimiter.check(getClientIp(request));
+        if (!limited.allowed) {
+            return rateLimitResponse(limited, "Too many verification codes. Please wait a few minutes.");
+        }
+
+        const body = await request.json().catch(() => null);
+        const username = typeof body?.username === "string" ? body.username.trim() : "";
+        if (!USERNAME_PATTERN.test(username)) {
+            return NextResponse.json(
+                { error: "Invalid username format." },
+                { status: 400 }
+            );
+        }
+
+        const db = await connectToDatabase();
+        const { code, token, codeExpiresAt } = await startVerification(db, username);
+
+        return NextResponse.json({ username, code, token, expiresAt: codeExpiresAt });
+    } catch (error) {
+        console.error("Start verification error:", error);
+        return NextResponse.json(
+            { error: "Failed to create a verification code." },
+            { status: 500 }
+        );
+    }
+}
+
+// ─── GET: Status ───────────────────────────────────────────────
+
+export async function GET(request: Request) {
+    try {
+        const limited = await statusLimiter.check(getClientIp(request));
+        if (!limited.allowed) return rateLimitResponse(limited);
+
+        const { searchParams } = new URL(request.url);
+        const username = searchParams.get("username")?.trim() ?? "";
+        if (!USERNAME_PATTERN.test(username)) {
+            return NextResponse.json(
+                { error: "Invalid username format." },
+                { status: 400 }
+            );
+        }
+
+        const settings = await getSettings();
+        const db = await connectToDatabase();
+        const verified = await isUsernameVerified(db, username, searchParams.get("token"));
+
+        return NextResponse.json({
+            username,
+            required: settings.usernameVerification === "required",
+            verified,
+        });
+    } catch (error) {
+        console.error("Verification status error:", error);
+        return NextResponse.json(
+            { error: "Failed to check verification." },
+            { status: 500 }
+        );
+    }
+}
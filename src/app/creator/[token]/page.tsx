@@ -0,0 +1,133 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: page.tsx  (Creator Dashboard — Server Component)
+// PURPOSE: Public page at "/creator/<token>" where a creator sees
+//          their code, what buyers get, and the commission they've
+//          earned, been paid and are still owed. The link token is
+//          the only login — anyone without it gets a 404. Player
+//          names are never shown, only order values.
+// LOCATION: src/app/creator/[token]/page.tsx
+// ═══════════════════════════════════════════════════════════════
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Megaphone } from "lucide-react";
+import { connectToDatabase } from "@/lib/mongodb";
+import { type CreatorCommission, findCreatorByToken, getCreatorEarnings } from "@/lib/creators";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+    title: "Creator Dashboard — DevZen Store",
+    robots: { index: false, follow: false },
+};
+
+const RECENT_LIMIT = 50;
+
+function formatDate(date: Date): string {
+    return new Date(date).toLocaleDateString("en-IN", {
+        day: "2-digit",
+        month: "short",
+        year: "numeric",
+    });
+}
+
+export default async function CreatorDashboardPage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params;
+    const db = await connectToDatabase();
+    const coupon = await findCreatorByToken(db, token);
+    if (!coupon) notFound();
+
+    const couponId = coupon._id.toString();
+    const earnings = (await getCreatorEarnings(db, [couponId])).get(couponId)!;
+    const recent = (await db
+        .collection("orders")
+        .find({ "creatorCommission.couponId": couponId }, { projection: { creatorCommission: 1 } })
+        .sort({ "creatorCommission.earnedAt": -1 })
+        .limit(RECENT_LIMIT)
+        .toArray()).map((o) => o.creatorCommission as CreatorCommission);
+
+    const discount = coupon.type === "percentage" ? `${coupon.value}% off` : `₹${coupon.value} off`;
+
+    return (
+        <div className="min-h-screen bg-surface-primary">
+            {/* ── Background Decoration ── */}
+            <div className="fixed inset-0 pointer-events-none">
+                <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[600px] h-[600px] bg-neon-green/3 rounded-full blur-[120px]" />
+                <div className="absolute bottom-0 right-0 w-[400px] h-[400px] bg-neon-purple/3 rounded-full blur-[100px]" />
+            </div>
+
+            <div className="relative mx-auto max-w-2xl px-4 py-16 md:py-24">
+                <Link
+                    href="/"
+                    className="inline-flex items-center gap-2 text-sm text-white/30 hover:text-white/60 transition-colors mb-8"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back to Store
+                </Link>
+
+                {/* ── Header ── */}
+                <div className="text-center mb-10">
+                    <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-neon-green/10 border border-neon-green/20 mb-4">
+                        <Megaphone className="h-8 w-8 text-neon-green" />
+                    </div>
+                    <h1 className="font-[family-name:var(--font-display)] text-3xl md:text-4xl font-bold text-white tracking-wide mb-2">
+                        {coupon.creator.name}
+                    </h1>
+                    <p className="text-white/30 text-sm">
+                        Code <span className="font-mono text-neon-green">{coupon.code}</span> gives buyers {discount}
+                        {" • "}you earn {coupon.creator.commissionPercent}% of each approved order
+                    </p>
+                    {coupon.active === false && (
+                        <p className="mt-2 text-neon-amber text-xs">This code is currently turned off.</p>
+                    )}
+                </div>
+
+                {/* ── Earnings ── */}
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+                    {[
+                        { label: "Orders", value: earnings.orders.toString() },
+                        { label: "Sales", value: `₹${earnings.sales.toFixed(2)}` },
+                        { label: "Paid to You", value: `₹${earnings.paid.toFixed(2)}` },
+                        { label: "Owed to You", value: `₹${earnings.owed.toFixed(2)}` },
+                    ].map((stat) => (
+                        <div key={stat.label} className="p-4 bg-surface-secondary/40 border border-white/5 rounded-2xl">
+                            <p className="text-white/25 text-[10px] uppercase tracking-widest font-semibold mb-1">{stat.label}</p>
+                            <p className="text-white font-bold text-lg">{stat.value}</p>
+                        </div>
+                    ))}
+                </div>
+                {earnings.lastPayoutAt && (
+                    <p className="text-white/30 text-xs mb-6">Last payout: {formatDate(earnings.lastPayoutAt)}</p>
+                )}
+
+                {/* ── Recent Orders ── */}
+                <div className="p-5 bg-surface-secondary/40 border border-white/5 rounded-2xl">
+                    <h3 className="text-white/25 text-[10px] uppercase tracking-widest font-semibold mb-4">
+                        Recent Orders
+                    </h3>
+                    {recent.length === 0 ? (
+                        <p className="text-white/30 text-sm">No approved orders with your code yet.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {recent.map((c, i) => (
+                                <div key={i} className="flex items-center justify-between py-2 border-b border-white/5 last:border-0">
+                                    <div>
+                                        <p className="text-white text-sm font-medium">₹{c.base.toFixed(2)} order</p>
+                                        <p className="text-white/25 text-xs">{formatDate(c.earnedAt)} • {c.percent}%</p>
+                                    </div>
+                                    <div className="text-right">
+                                        <p className="text-neon-green font-bold text-sm">₹{c.amount.toFixed(2)}</p>
+                                        <p className={`text-[10px] font-medium ${c.paidAt ? "text-white/40" : "text-neon-amber"}`}>
+                                            {c.paidAt ? "Paid" : "Unpaid"}
+                                        </p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -4,8 +4,9 @@
 //          customers can enter their Order ID (like "ORD-17385...") and
 //          instantly see the current status of their purchase. Think of
 //          it like a parcel tracking page — but for in-game Minecraft items.
-//          It shows a beautiful vertical timeline: Order Placed → Payment
-//          Verification → Approved → Delivered.
+//          It shows a beautiful vertical timeline built from the order's
+//          real status history — when it was placed, approved, delivered
+//          (or rejected, and why) — plus the steps still to come.
 // LOCATION: src/app/track-order/page.tsx
 // ============================================================================
 
@@ -26,6 +27,11 @@ import {
     ArrowLeft,     // ← Back arrow (link back to store)
     Copy,          // 📋 Copy icon (copy Order ID to clipboard)
     Check,         // ✓ Checkmark icon (shown after copying)
+    Gift,          // 🎁 Gift icon (order bought for another player)
+    Ticket,        // 🎟️ Ticket icon (gift card codes)
+    Star,          // ⭐ Star icon (loyalty points)
+    AlertTriangle, // ⚠️ Warning icon (delivery delayed step)
+    RotateCcw,     // 🔁 Retry icon (delivery retried step)
 } from "lucide-react";
 import Link from "next/link"; // Next.js component for in-app navigation
 
@@ -48,6 +54,16 @@ interface OrderItem {
     lineTotal: number;  // = price × quantity (total for this line)
 }
 
+/**
+ * StatusChange — One entry in the order's status history.
+ * Example: { from: "pending", to: "pending-delivery", at: "2025-01-01T10:00:00.000Z" }
+ */
+interface StatusChange {
+    from: string;      // Status before the change
+    to: string;        // Status after the change
+    at: string;        // When it happened (ISO date string)
+}
+
 /**
  * TrackedOrder — The full order data returned from our tracking API.
  * Contains everything we need to show the customer their order status.
@@ -56,83 +72,179 @@ interface TrackedOrder {
     orderId: string;           // The unique Order ID like "ORD-17385abc..."
     minecraftUsername: string;  // The player's Minecraft username
     edition: string;            // "java" or "bedrock"
+    gift: {                     // Set when someone else paid for it
+        buyerUsername: string;
+        message: string | null;
+    } | null;
     items: OrderItem[];         // Array of all items they purchased
     total: number;              // Final amount paid in ₹
-    status: string;             // Current status: "pending", "success", or "rejected"
+    status: string;             // "pending", "pending-delivery", "delivered", "delivery-failed" or "rejected"
+    rejectionReason: string | null; // Why staff rejected it (null if not rejected, or an older order)
+    history: StatusChange[];    // Every status change, oldest first (empty for older orders)
     couponCode: string | null;  // If a coupon was used, its code (or null)
     discount: number;           // Discount amount in ₹ (0 if no coupon)
+    giftCardAmount: number;     // Store credit used in ₹ (0 if none)
+    giftCardsIssued: string[];  // Gift cards bought on this order, masked like "GC-••••-••••-4HTP"
+    pointsRedeemed: number;     // Loyalty points spent on this order (0 if none)
+    pointsDiscount: number;     // What those points took off in ₹
+    pointsEarned: number;       // Points this order earned (after approval)
+    pointsBalance: number;      // The buyer's current points balance
     createdAt: string | null;   // When the order was placed (ISO date string)
     updatedAt: string | null;   // When the order was last updated
 }
 
 // ============================================================================
 // TIMELINE CONFIGURATION
-// These are the 4 steps that every order goes through.
-// Think of it like a delivery tracker: Placed → Verifying → Approved → Delivered
+// The timeline is built from what actually happened to the order (its
+// status history, with real timestamps), followed by the steps that are
+// still to come. Think of it like a parcel tracker: every scan is listed
+// with its time, and the final "Delivered" step waits at the bottom.
 // ============================================================================
 
 /**
- * TimelineStep — Describes one step in the order progress timeline.
+ * TimelineEntry — One row in the order progress timeline.
  */
-interface TimelineStep {
-    key: string;              // Unique identifier for this step
+interface TimelineEntry {
+    key: string;              // Unique identifier for this row
     label: string;            // Human-readable name (e.g. "Order Placed")
     description: string;      // Brief explanation shown below the label
     icon: React.ElementType;  // The Lucide icon component to display
+    at: string | null;        // When it happened (null = not yet, or unknown for older orders)
+    done: boolean;            // Has this happened yet?
+    current: boolean;         // Is this where the order is right now?
+    tone: "green" | "amber" | "red"; // Circle colour once done
 }
 
 /**
- * The 4 steps of order progress, in order.
- * Each step has a key, label, description, and an icon.
+ * legacyHistory — Older orders were made before status history was
+ * stored, so we rebuild the changes from the status alone. We only
+ * know when the last change happened (updatedAt), not the earlier ones.
  */
-const timelineSteps: TimelineStep[] = [
-    {
-        key: "placed",
-        label: "Order Placed",
-        description: "Your order has been received successfully",
-        icon: Package, // 📦
-    },
-    {
-        key: "payment",
-        label: "Payment Verification",
-        description: "We are verifying your UTR payment",
-        icon: CreditCard, // 💳
-    },
-    {
-        key: "approved",
-        label: "Order Approved",
-        description: "Payment verified, preparing your items",
-        icon: CheckCircle2, // ✅
-    },
-    {
-        key: "delivered",
-        label: "Items Delivered",
-        description: "Items have been delivered in-game!",
-        icon: Truck, // 🚚
-    },
-];
+function legacyHistory(order: TrackedOrder): StatusChange[] {
+    const last = order.updatedAt ?? "";
+    switch (order.status) {
+        case "pending-delivery":
+            return [{ from: "pending", to: "pending-delivery", at: last }];
+        case "delivered":
+        case "success":
+            return [
+                { from: "pending", to: "pending-delivery", at: "" },
+                { from: "pending-delivery", to: "delivered", at: last },
+            ];
+        case "delivery-failed":
+            return [
+                { from: "pending", to: "pending-delivery", at: "" },
+                { from: "pending-delivery", to: "delivery-failed", at: last },
+            ];
+        case "rejected":
+            return [{ from: "pending", to: "rejected", at: last }];
+        default:
+            return [];
+    }
+}
 
 /**
- * getStepIndex — Converts a database status string into a timeline step number.
+ * buildTimeline — Turns the order's status history into timeline rows.
  *
- * Think of it like a progress bar:
- *   "pending"  → Step 1 (we're at the Payment Verification stage)
- *   "success"  → Step 3 (everything is done, items delivered!)
- *   "rejected" → -1 (special case: order was rejected, show error)
+ *   1. "Order Placed" at the order's creation time
+ *   2. One row per status change, e.g. "Payment Verified" at 10:02,
+ *      "Items Delivered" at 10:03 — or "Order Rejected" with the reason
+ *   3. The steps still to come, dimmed (e.g. "Items Delivered")
  *
- * @param status — The order's status from the database
- * @returns The index of the current step in the timeline (0-3), or -1 for rejected
+ * The latest thing that happened is marked "Current". While payment is
+ * still being checked, the upcoming "Payment Verification" row is.
  */
-function getStepIndex(status: string): number {
+function buildTimeline(order: TrackedOrder): TimelineEntry[] {
+    const history = order.history.length > 0 ? order.history : legacyHistory(order);
+
+    const entries: TimelineEntry[] = [
+        {
+            key: "placed",
+            label: "Order Placed",
+            description: "Your order has been received successfully",
+            icon: Package, // 📦
+            at: order.createdAt,
+            done: true,
+            current: false,
+            tone: "green",
+        },
+    ];
+
+    // Step 2: one row per real status change
+    history.forEach((change, i) => {
+        const base = { key: `${change.to}-${i}`, at: change.at || null, done: true, current: false };
+        switch (change.to) {
+            case "pending-delivery":
+                entries.push(change.from === "delivery-failed"
+                    ? { ...base, label: "Delivery Retried", description: "We're sending your items to the server again", icon: RotateCcw, tone: "green" }
+                    : { ...base, label: "Payment Verified", description: "Payment verified, sending your items to the server", icon: CheckCircle2, tone: "green" });
+                break;
+            case "delivered":
+                entries.push({ ...base, label: "Items Delivered", description: "Items have been delivered in-game!", icon: Truck, tone: "green" });
+                break;
+            case "delivery-failed":
+                entries.push({ ...base, label: "Delivery Delayed", description: "The server didn't accept your items yet — our team is on it", icon: AlertTriangle, tone: "amber" });
+                break;
+            case "rejected":
+                entries.push({
+                    ...base,
+                    label: "Order Rejected",
+                    description: order.rejectionReason ?? "Your payment could not be verified",
+                    icon: XCircle,
+                    tone: "red",
+                });
+                break;
+        }
+    });
+
+    // Step 3: what's still to come
+    const upcoming = (key: string, label: string, description: string, icon: React.ElementType): TimelineEntry =>
+        ({ key, label, description, icon, at: null, done: false, current: false, tone: "green" });
+
+    if (order.status === "pending") {
+        entries.push({
+            ...upcoming("payment", "Payment Verification", "We are verifying your UTR payment", CreditCard),
+            current: true,
+        });
+        entries.push(upcoming("delivered", "Items Delivered", "Items will be delivered in-game", Truck));
+    } else {
+        entries[entries.length - 1].current = true;
+        if (order.status === "pending-delivery" || order.status === "delivery-failed") {
+            entries.push(upcoming("delivered", "Items Delivered", "Items will be delivered in-game", Truck));
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * formatTimelineTime — "12 Jan, 10:02 am" for a timeline row.
+ */
+function formatTimelineTime(iso: string): string {
+    return new Date(iso).toLocaleString("en-IN", {
+        day: "numeric",
+        month: "short",
+        hour: "numeric",
+        minute: "2-digit",
+    });
+}
+
+/**
+ * getStatusLabel — Short text for the status badge in the summary card.
+ */
+function getStatusLabel(status: string): string {
     switch (status) {
-        case "pending":
-            return 1; // Currently at "Payment Verification" (step index 1)
+        case "delivered":
         case "success":
-            return 3; // Fully completed — all 4 steps done (last step index is 3)
+            return "Delivered";
+        case "pending-delivery":
+            return "Delivering";
+        case "delivery-failed":
+            return "Delivery Delayed";
         case "rejected":
-            return -1; // Special: shows a rejection card instead of timeline
+            return "Rejected";
         default:
-            return 0; // Fallback: just "Order Placed"
+            return "Processing";
     }
 }
 
@@ -215,12 +327,18 @@ export default function TrackOrderPage() {
     // ── Derived Values ──
     // These are calculated from the current state, like formulas in a spreadsheet
 
-    // Which timeline step are we on? (0-3, or -1 for rejected)
-    const currentStep = order ? getStepIndex(order.status) : 0;
+    // The rows of the progress timeline (what happened + what's next)
+    const timeline = order ? buildTimeline(order) : [];
 
-    // Is this order rejected? (used to show the rejection card instead of timeline)
+    // Is this order rejected? (used for the red badge and the support note)
     const isRejected = order?.status === "rejected";
 
+    // Has everything been delivered? (used for the green badge)
+    const isDelivered = order?.status === "delivered" || order?.status === "success";
+
+    // Did in-game delivery run out of retries? (shows a "we're on it" note)
+    const isDeliveryDelayed = order?.status === "delivery-failed";
+
     // ════════════════════════════════════════════════════════════
     // RENDER — The visual layout of the page
     // ════════════════════════════════════════════════════════════
@@ -357,23 +475,31 @@ export default function TrackOrderPage() {
                                     </div>
 
                                     {/* Status Badge — color changes based on status:
-                                        Red = Rejected, Green = Delivered, Amber = Processing */}
+                                        Red = Rejected, Green = Delivered, Amber = Processing / Delivering */}
                                     <div className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider ${isRejected
                                             ? "bg-red-500/15 text-red-400 border border-red-500/20"
-                                            : order.status === "success"
+                                            : isDelivered
                                                 ? "bg-neon-green/15 text-neon-green border border-neon-green/20"
                                                 : "bg-amber-500/15 text-amber-400 border border-amber-500/20"
                                         }`}>
-                                        {isRejected ? "Rejected" : order.status === "success" ? "Delivered" : "Processing"}
+                                        {getStatusLabel(order.status)}
                                     </div>
                                 </div>
 
                                 {/* Info Grid: Player Name, Edition, Date */}
                                 <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
                                     <div>
-                                        <p className="text-white/25 text-[10px] uppercase tracking-wider mb-0.5">Player</p>
+                                        <p className="text-white/25 text-[10px] uppercase tracking-wider mb-0.5">
+                                            {order.gift ? "Recipient" : "Player"}
+                                        </p>
                                         <p className="text-white font-medium">{order.minecraftUsername}</p>
                                     </div>
+                                    {order.gift && (
+                                        <div>
+                                            <p className="text-white/25 text-[10px] uppercase tracking-wider mb-0.5">Bought By</p>
+                                            <p className="text-white font-medium">{order.gift.buyerUsername}</p>
+                                        </div>
+                                    )}
                                     <div>
                                         <p className="text-white/25 text-[10px] uppercase tracking-wider mb-0.5">Edition</p>
                                         <p className="text-white font-medium capitalize">{order.edition}</p>
@@ -391,74 +517,103 @@ export default function TrackOrderPage() {
                                         </p>
                                     </div>
                                 </div>
+
+                                {/* Gift note from the buyer */}
+                                {order.gift && (
+                                    <div className="mt-4 flex items-start gap-3 rounded-xl border border-neon-amber/15 bg-neon-amber/5 p-3">
+                                        <Gift className="h-4 w-4 shrink-0 text-neon-amber mt-0.5" />
+                                        <div className="text-sm">
+                                            <p className="text-neon-amber font-semibold">
+                                                A gift from {order.gift.buyerUsername} to {order.minecraftUsername}
+                                            </p>
+                                            {order.gift.message && (
+                                                <p className="mt-1 text-white/50 italic whitespace-pre-wrap break-words">
+                                                    “{order.gift.message}”
+                                                </p>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
 
                             {/* ────── PART 2: Order Progress Timeline ──────
-                                This is the vertical progress tracker.
-                                If the order is rejected, we show a rejection card instead. */}
+                                This is the vertical progress tracker — every real
+                                status change with its time, then the steps to come. */}
                             <div className="mb-8">
                                 <h3 className="text-white/25 text-[10px] uppercase tracking-widest font-semibold mb-5">
                                     Order Progress
                                 </h3>
 
-                                {isRejected ? (
-                                    /* ── REJECTED STATE ──
-                                       If payment verification failed, show this error card
-                                       instead of the timeline */
-                                    <div className="p-6 bg-red-500/5 border border-red-500/15 rounded-2xl text-center">
-                                        <XCircle className="h-12 w-12 text-red-400 mx-auto mb-3" />
-                                        <h3 className="text-red-400 font-bold text-lg mb-1">Order Rejected</h3>
-                                        <p className="text-white/30 text-sm">
-                                            Your payment could not be verified. Please contact support if you believe this is an error.
-                                        </p>
-                                    </div>
-                                ) : (
-                                    /* ── TIMELINE STEPS ──
-                                       A vertical line with 4 circles (steps).
-                                       Completed steps glow green, future steps are dimmed. */
-                                    <div className="relative pl-8">
-                                        {/* The vertical connecting line (thin gray bar) */}
-                                        <div className="absolute left-[15px] top-2 bottom-2 w-0.5 bg-white/5" />
-
-                                        {timelineSteps.map((step, index) => {
-                                            // Is this step completed? (index <= currentStep)
-                                            const isCompleted = index <= currentStep;
-                                            // Is this the step we're currently on?
-                                            const isCurrent = index === currentStep;
-
-                                            return (
-                                                <div key={step.key} className="relative mb-8 last:mb-0">
-                                                    {/* Step Circle — the round icon on the left
-                                                        Green glow = completed, Gray = not yet reached */}
-                                                    <div className={`
-                                                        absolute -left-8 top-0.5 flex h-8 w-8 items-center justify-center
-                                                        rounded-full border-2 transition-all duration-500
-                                                        ${isCompleted
-                                                            ? "bg-neon-green/20 border-neon-green/50 text-neon-green shadow-glow-green"
-                                                            : "bg-surface-secondary/40 border-white/10 text-white/20"
-                                                        }
-                                                        ${isCurrent ? "ring-4 ring-neon-green/10" : ""}
-                                                    `}>
-                                                        <step.icon className="h-3.5 w-3.5" />
-                                                    </div>
-
-                                                    {/* Step Text — label + description
-                                                        Current step also gets a pulsing "Current" badge */}
-                                                    <div className={`pt-0.5 transition-all duration-500 ${isCompleted ? "opacity-100" : "opacity-30"}`}>
-                                                        <h4 className={`text-sm font-bold ${isCompleted ? "text-white" : "text-white/40"}`}>
-                                                            {step.label}
-                                                            {isCurrent && (
-                                                                <span className="ml-2 inline-flex items-center gap-1 text-[10px] font-medium text-neon-green">
-                                                                    <Clock className="h-3 w-3 animate-pulse" />
-                                                                    Current
-                                                                </span>
-                                                            )}
-                                                        </h4>
-                                                        <p className="text-xs text-white/30 mt-0.5">{step.description}</p>
-                                                    </div>
+                                {/* ── TIMELINE ROWS ──
+                                   A vertical line with one circle per row.
+                                   Done rows glow (green, amber or red), future rows are dimmed. */}
+                                <div className="relative pl-8">
+                                    {/* The vertical connecting line (thin gray bar) */}
+                                    <div className="absolute left-[15px] top-2 bottom-2 w-0.5 bg-white/5" />
+
+                                    {timeline.map((entry) => {
+                                        // Circle colours for rows that have happened
+                                        const circleTone = {
+                                            green: "bg-neon-green/20 border-neon-green/50 text-neon-green shadow-glow-green",
+                                            amber: "bg-amber-500/20 border-amber-500/50 text-amber-400",
+                                            red: "bg-red-500/20 border-red-500/50 text-red-400",
+                                        }[entry.tone];
+
+                                        return (
+                                            <div key={entry.key} className="relative mb-8 last:mb-0">
+                                                {/* Step Circle — the round icon on the left
+                                                    Coloured = happened, Gray = not yet reached */}
+                                                <div className={`
+                                                    absolute -left-8 top-0.5 flex h-8 w-8 items-center justify-center
+                                                    rounded-full border-2 transition-all duration-500
+                                                    ${entry.done ? circleTone : "bg-surface-secondary/40 border-white/10 text-white/20"}
+                                                    ${entry.current ? (entry.tone === "red" ? "ring-4 ring-red-500/10" : "ring-4 ring-neon-green/10") : ""}
+                                                `}>
+                                                    <entry.icon className="h-3.5 w-3.5" />
                                                 </div>
-                                            );
-                                        })}
+
+                                                {/* Step Text — label + time + description
+                                                    The current row also gets a pulsing "Current" badge */}
+                                                <div className={`pt-0.5 transition-all duration-500 ${entry.done || entry.current ? "opacity-100" : "opacity-30"}`}>
+                                                    <h4 className={`text-sm font-bold ${entry.done ? "text-white" : "text-white/40"}`}>
+                                                        {entry.label}
+                                                        {entry.current && entry.tone !== "red" && (
+                                                            <span className="ml-2 inline-flex items-center gap-1 text-[10px] font-medium text-neon-green">
+                                                                <Clock className="h-3 w-3 animate-pulse" />
+                                                                Current
+                                                            </span>
+                                                        )}
+                                                    </h4>
+                                                    {entry.at && (
+                                                        <p className="text-[11px] text-white/40 mt-0.5">{formatTimelineTime(entry.at)}</p>
+                                                    )}
+                                                    <p className={`text-xs mt-0.5 ${entry.tone === "red" ? "text-red-400/80" : "text-white/30"}`}>
+                                                        {entry.description}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+
+                                {/* ── REJECTED NOTE ──
+                                   The reason is on the timeline above; this tells
+                                   the player what to do next. */}
+                                {isRejected && (
+                                    <div className="mt-6 p-4 bg-red-500/5 border border-red-500/15 rounded-xl text-red-400/90 text-xs">
+                                        Your order was rejected and no items will be delivered. Please contact support
+                                        if you believe this is an error.
+                                    </div>
+                                )}
+
+                                {/* ── DELIVERY DELAYED NOTE ──
+                                   Payment is fine, but the server didn't accept the
+                                   items after several tries. It shows up in the
+                                   admin Delivery Queue for staff to retry. */}
+                                {isDeliveryDelayed && (
+                                    <div className="mt-6 p-4 bg-amber-500/5 border border-amber-500/15 rounded-xl text-amber-400/90 text-xs">
+                                        Your payment is verified, but we couldn&apos;t deliver your items in-game yet.
+                                        Our team can see this and will deliver them shortly — no need to order again.
                                     </div>
                                 )}
                             </div>
@@ -494,12 +649,76 @@ export default function TrackOrderPage() {
                                     </div>
                                 )}
 
+                                {/* Loyalty Points — only shown if points paid for some of it */}
+                                {order.pointsDiscount > 0 && (
+                                    <div className="flex items-center justify-between mt-3 pt-3 border-t border-white/5">
+                                        <p className="text-white/40 text-sm">{order.pointsRedeemed} points</p>
+                                        <p className="text-red-400 text-sm font-medium">-₹{order.pointsDiscount.toFixed(2)}</p>
+                                    </div>
+                                )}
+
+                                {/* Gift Card Credit — only shown if a gift card paid for some of it */}
+                                {order.giftCardAmount > 0 && (
+                                    <div className="flex items-center justify-between mt-3 pt-3 border-t border-white/5">
+                                        <p className="text-white/40 text-sm">Gift card</p>
+                                        <p className="text-red-400 text-sm font-medium">-₹{order.giftCardAmount.toFixed(2)}</p>
+                                    </div>
+                                )}
+
                                 {/* Final Total */}
                                 <div className="flex items-center justify-between mt-3 pt-3 border-t border-white/5">
                                     <p className="text-white font-bold text-sm">Total</p>
                                     <p className="text-neon-green font-black text-lg">₹{order.total.toFixed(2)}</p>
                                 </div>
                             </div>
+
+                            {/* ────── PART 4: Gift Card Codes ──────
+                                Gift cards bought on this order get their codes
+                                once the payment is approved. Only the last 4
+                                characters are shown here — the full codes are
+                                emailed to the buyer and on their account page. */}
+                            {order.giftCardsIssued.length > 0 && (
+                                <div className="mt-6 p-5 bg-neon-pink/5 border border-neon-pink/15 rounded-2xl">
+                                    <h3 className="flex items-center gap-2 text-neon-pink text-[10px] uppercase tracking-widest font-semibold mb-3">
+                                        <Ticket className="h-3.5 w-3.5" />
+                                        Gift Cards Issued
+                                    </h3>
+                                    <div className="space-y-2">
+                                        {order.giftCardsIssued.map((code) => (
+                                            <p key={code} className="font-mono text-white text-sm tracking-wider">
+                                                {code}
+                                            </p>
+                                        ))}
+                                    </div>
+                                    <p className="text-white/30 text-xs mt-3">
+                                        The full codes were emailed to the buyer and are on their{" "}
+                                        <Link href="/account" className="text-neon-pink/80 hover:text-neon-pink underline">account page</Link>.
+                                    </p>
+                                </div>
+                            )}
+
+                            {/* ────── PART 5: Loyalty Points ──────
+                                What this order earned (once approved) and the
+                                buyer's balance, spendable at checkout. */}
+                            <div className="mt-6 p-5 bg-neon-amber/5 border border-neon-amber/15 rounded-2xl">
+                                <h3 className="flex items-center gap-2 text-neon-amber text-[10px] uppercase tracking-widest font-semibold mb-3">
+                                    <Star className="h-3.5 w-3.5" />
+                                    Loyalty Points
+                                </h3>
+                                <div className="flex items-center justify-between">
+                                    <p className="text-white/40 text-sm">
+                                        {order.pointsEarned > 0
+                                            ? `This order earned ${order.pointsEarned} points`
+                                            : order.status === "pending"
+                                                ? "Points are added once your payment is approved"
+                                                : "This order earned no points"}
+                                    </p>
+                                    <p className="text-white font-bold text-sm">{order.pointsBalance} pts</p>
+                                </div>
+                                <p className="text-white/30 text-xs mt-3">
+                                    {order.gift ? `${order.gift.buyerUsername}'s` : "Your"} balance — spend it at checkout for a discount.
+                                </p>
+                            </div>
                         </motion.div>
                     )}
                 </AnimatePresence>
@@ -31,6 +31,8 @@ export default function CartItemRow({ item }: { item: CartItem }) {
     // Get store actions
     const updateQuantity = useCartStore((s) => s.updateQuantity);
     const removeFromCart = useCartStore((s) => s.removeFromCart);
+    const pricing = useCartStore((s) => s.playerPricing[item.id]);
+    const getItemPrice = useCartStore((s) => s.getItemPrice);
 
     return (
         <div className="flex items-center gap-3 rounded-xl border border-white/5 bg-surface-secondary/40 p-3 transition-all duration-200 hover:border-white/10">
@@ -56,9 +58,19 @@ export default function CartItemRow({ item }: { item: CartItem }) {
                 <p className="text-sm font-semibold text-white truncate">
                     {item.name}
                 </p>
-                <p className="text-xs text-neon-green font-medium">
-                    ₹{item.price.toFixed(2)}
-                </p>
+                {pricing?.upgradeFrom ? (
+                    <p className="text-xs text-neon-cyan font-medium truncate">
+                        ₹{getItemPrice(item).toFixed(2)}
+                        <span className="text-white/30"> · upgrade from {pricing.upgradeFrom.name}</span>
+                    </p>
+                ) : (
+                    <p className="text-xs text-neon-green font-medium">
+                        ₹{getItemPrice(item).toFixed(2)}
+                    </p>
+                )}
+                {pricing?.blocked && (
+                    <p className="text-[10px] text-red-400 truncate">{pricing.blocked}</p>
+                )}
             </div>
 
             {/* ── Quantity Controls ── */}
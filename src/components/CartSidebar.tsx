@@ -2,11 +2,17 @@
 // FILE: CartSidebar.tsx
 // PURPOSE: Slide-in sidebar panel with a premium multi-step checkout:
 //
-//   STEP 0 — CART:     Review items, subtotal, click "Checkout"
+//   STEP 0 — CART:     Review items, subtotal, coupon / gift card,
+//                      click "Checkout"
 //   STEP 1 — USERNAME: Java/Bedrock edition toggle + username input
 //                      + case-sensitive warning + submit arrow
-//   STEP 2 — PAYMENT:  UPI QR code + UPI ID + 12-digit UTR input
+//                      + optional "buy as a gift" (recipient, message)
+//                      + /verifystore code when the store requires a
+//                        verified username
+//   STEP 2 — PAYMENT:  Optional loyalty points + UPI QR code + UPI
+//                      ID + 12-digit UTR input
 //                      + "Place Order & Verify" with loading state
+//                      (no UPI step when credit covers it all)
 //   STEP 3 — RESULT:   Success (order ID) or Error screen
 //
 // Framer Motion slide transitions between steps.
@@ -16,7 +22,7 @@
 "use client";
 
 // ─── Imports ───────────────────────────────────────────────────
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { QRCodeSVG } from "qrcode.react";
 import {
@@ -30,8 +36,13 @@ import {
     Monitor,
     Gamepad2,
     Ticket,
+    Gift,
+    CreditCard,
+    Star,
+    ShieldCheck,
 } from "lucide-react";
 import { useCartStore } from "@/store/useCartStore";
+import { pointsValue, redeemablePoints } from "@/lib/pricing";
 import CartItemRow from "./CartItemRow";
 
 // ─── Types ─────────────────────────────────────────────────────
@@ -50,6 +61,30 @@ const UPI_ID = "princeprajapti2589-1@okaxis";
 /** Payee name shown in UPI payment apps */
 const PAYEE_NAME = "DevZen";
 
+/** Longest gift message accepted by /api/checkout */
+const GIFT_MESSAGE_MAX = 200;
+
+/** How often the cart asks whether /verifystore has been run */
+const VERIFY_POLL_MS = 4000;
+
+// ─── Username Helpers ──────────────────────────────────────────
+
+/** Bedrock Edition users get a "." prepended and spaces → "_" */
+function formatUsername(raw: string, edition: Edition): string {
+    return edition === "bedrock" && !raw.startsWith(".")
+        ? `.${raw.trim().replace(/\s/g, "_")}`
+        : raw.trim();
+}
+
+/** Returns an error message, or "" if the username looks valid */
+function checkUsername(raw: string, who = "your"): string {
+    const trimmed = raw.trim();
+    if (!trimmed) return `Please enter ${who} Minecraft username.`;
+    if (trimmed.length < 3 || trimmed.length > 16) return "Username must be 3–16 characters.";
+    if (!/^[a-zA-Z0-9_ ]+$/.test(trimmed)) return "Only letters, numbers, underscores, and spaces allowed.";
+    return "";
+}
+
 // ─── Slide Animation Variants ──────────────────────────────────
 // Used for smooth left/right sliding between checkout steps.
 const slideVariants = {
@@ -79,6 +114,10 @@ export default function CartSidebar() {
     const clearCart = useCartStore((s) => s.clearCart);
     const getTotal = useCartStore((s) => s.getTotal);
     const getItemCount = useCartStore((s) => s.getItemCount);
+    const setPlayer = useCartStore((s) => s.setPlayer);
+    const verifiedPlayers = useCartStore((s) => s.verifiedPlayers);
+    const setVerifiedPlayer = useCartStore((s) => s.setVerifiedPlayer);
+    const refreshProducts = useCartStore((s) => s.refreshProducts);
 
     // ── Local State ──
     const [step, setStep] = useState<CheckoutStep>("cart");     // Current checkout step
@@ -86,6 +125,10 @@ export default function CartSidebar() {
     const [edition, setEdition] = useState<Edition>("java");     // Java or Bedrock toggle
     const [username, setUsername] = useState("");                 // Raw username input
     const [usernameError, setUsernameError] = useState("");      // Validation error text
+    const [isGift, setIsGift] = useState(false);                 // Buying for another player?
+    const [recipient, setRecipient] = useState("");              // Recipient's raw username
+    const [recipientEdition, setRecipientEdition] = useState<Edition>("java");
+    const [giftMessage, setGiftMessage] = useState("");          // Optional note for the recipient
     const [utrNumber, setUtrNumber] = useState("");              // 12-digit UTR / Transaction ID
     const [utrError, setUtrError] = useState("");                // UTR validation error
     const [isProcessing, setIsProcessing] = useState(false);     // Loading spinner state
@@ -100,45 +143,89 @@ export default function CartSidebar() {
     const [couponCode, setCouponCode] = useState("");
     const [couponError, setCouponError] = useState("");
     const [couponDiscount, setCouponDiscount] = useState(0);
-    const [appliedCoupon, setAppliedCoupon] = useState<string | null>(null);
+    const [appliedCoupons, setAppliedCoupons] = useState<{ code: string; discount: number }[]>([]);
     const [validatingCoupon, setValidatingCoupon] = useState(false);
 
+    // ── Gift Card State ──
+    const [giftCardCode, setGiftCardCode] = useState("");
+    const [giftCardError, setGiftCardError] = useState("");
+    const [appliedGiftCard, setAppliedGiftCard] = useState<{ code: string; balance: number } | null>(null);
+    const [checkingGiftCard, setCheckingGiftCard] = useState(false);
+
+    // ── Loyalty Points State (loaded for the buyer on the username step) ──
+    const [pointsBalance, setPointsBalance] = useState(0);
+    const [usePoints, setUsePoints] = useState(false);
+
+    // ── Username Verification State (only when the store requires it) ──
+    const [verification, setVerification] = useState<{
+        username: string;
+        code: string;
+        token: string;
+        expiresAt: string;
+        verified: boolean;
+    } | null>(null);
+
+    // ── Live Prices ──
+    // Cart items are snapshots from when they were added; reload
+    // them from the catalog every time the cart opens
+    useEffect(() => {
+        if (isCartOpen) refreshProducts().catch(() => { });
+    }, [isCartOpen, refreshProducts]);
+
     // ── Computed Values ──
     const subtotal = getTotal();
     const total = Math.max(0, subtotal - couponDiscount);
     const itemCount = getItemCount();
 
+    // Points come off first (not on gifts), then gift card credit
+    // covers what it can; the rest is paid over UPI
+    const pointsRedeemable = isGift ? 0 : redeemablePoints(pointsBalance, total);
+    const pointsAmount = usePoints ? pointsValue(pointsRedeemable) : 0;
+    const afterPoints = parseFloat((total - pointsAmount).toFixed(2));
+    const giftCardAmount = appliedGiftCard ? Math.min(appliedGiftCard.balance, afterPoints) : 0;
+    const amountDue = parseFloat((afterPoints - giftCardAmount).toFixed(2));
+
     // ── Computed: Final username with Bedrock "." prefix ──
     // Bedrock Edition users get a "." prepended to their username
-    const finalUsername =
-        edition === "bedrock" && !username.startsWith(".")
-            ? `.${username.trim().replace(/\s/g, "_")}`
-            : username.trim();
+    const finalUsername = formatUsername(username, edition);
+    const finalRecipient = formatUsername(recipient, recipientEdition);
+
+    // Whoever receives the items in-game
+    const deliverTo = isGift ? finalRecipient : finalUsername;
 
     // ═══════════════════════════════════════════════════════════
     // NAVIGATION HANDLERS
     // ═══════════════════════════════════════════════════════════
 
-    /** Apply coupon code */
+    /** Asks the server what these coupons take off this cart.
+     *  Knowing the player also checks per-player rules. */
+    const validateCoupons = async (codes: string[], player?: { username: string; recipient?: string }) => {
+        const res = await fetch("/api/coupons/validate", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                codes,
+                items: items.map((item) => ({ id: item.id, quantity: item.quantity })),
+                ...player,
+            }),
+        });
+        return res.json();
+    };
+
+    /** Apply coupon code (on top of any stackable ones already applied) */
     const applyCoupon = async () => {
         if (!couponCode.trim()) return;
         setValidatingCoupon(true);
         setCouponError("");
         try {
-            const res = await fetch("/api/coupons/validate", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ code: couponCode.trim(), cartTotal: subtotal }),
-            });
-            const data = await res.json();
+            const data = await validateCoupons([...appliedCoupons.map((c) => c.code), couponCode.trim()]);
             if (data.valid) {
+                setAppliedCoupons(data.coupons);
                 setCouponDiscount(data.discount);
-                setAppliedCoupon(data.coupon.code);
+                setCouponCode("");
                 setCouponError("");
             } else {
                 setCouponError(data.error || "Invalid coupon.");
-                setCouponDiscount(0);
-                setAppliedCoupon(null);
             }
         } catch {
             setCouponError("Failed to validate coupon.");
@@ -147,19 +234,136 @@ export default function CartSidebar() {
         }
     };
 
-    /** Remove applied coupon */
-    const removeCoupon = () => {
+    /** Remove one applied coupon (the rest are re-priced), or all */
+    const removeCoupon = async (code?: string) => {
+        const rest = code ? appliedCoupons.filter((c) => c.code !== code).map((c) => c.code) : [];
         setCouponCode("");
-        setCouponDiscount(0);
-        setAppliedCoupon(null);
         setCouponError("");
+        setCouponDiscount(0);
+        setAppliedCoupons([]);
+        if (rest.length === 0) return;
+
+        try {
+            const data = await validateCoupons(rest);
+            if (data.valid) {
+                setAppliedCoupons(data.coupons);
+                setCouponDiscount(data.discount);
+            }
+        } catch {
+            setCouponError("Failed to validate coupon.");
+        }
     };
 
-    /** Cart → Username step */
-    const goToUsername = () => {
+    /** Apply gift card — looks up its balance */
+    const applyGiftCard = async () => {
+        if (!giftCardCode.trim()) return;
+        setCheckingGiftCard(true);
+        setGiftCardError("");
+        try {
+            const res = await fetch(`/api/gift-cards/balance?code=${encodeURIComponent(giftCardCode.trim())}`);
+            const data = await res.json();
+            if (!res.ok) {
+                setGiftCardError(data.error || "Invalid gift card.");
+            } else if (data.status !== "active") {
+                setGiftCardError("This gift card is no longer valid.");
+            } else if (data.balance <= 0) {
+                setGiftCardError("This gift card has no balance left.");
+            } else {
+                setAppliedGiftCard({ code: data.code, balance: data.balance });
+            }
+        } catch {
+            setGiftCardError("Failed to check gift card.");
+        } finally {
+            setCheckingGiftCard(false);
+        }
+    };
+
+    /** Remove applied gift card */
+    const removeGiftCard = () => {
+        setGiftCardCode("");
+        setAppliedGiftCard(null);
+        setGiftCardError("");
+    };
+
+    /** Cart → Username step (prefilled from a logged-in player's
+     *  saved username; guests type theirs as before) */
+    const goToUsername = async () => {
         setDirection(1);
         setStep("username");
         setUsernameError("");
+
+        if (username) return;
+        try {
+            const res = await fetch("/api/account");
+            const { account } = await res.json();
+            if (account?.defaultUsername) {
+                setEdition(account.defaultEdition);
+                // The input holds the name without Bedrock's "." prefix
+                setUsername(account.defaultUsername.replace(/^\./, ""));
+            }
+        } catch {
+            // Nothing to prefill
+        }
+    };
+
+    // While a code is shown, ask every few seconds whether the
+    // player has run it in-game yet
+    useEffect(() => {
+        if (!verification || verification.verified) return;
+        const { username: name, token } = verification;
+        const timer = setInterval(async () => {
+            try {
+                const res = await fetch(
+                    `/api/verification?username=${encodeURIComponent(name)}&token=${encodeURIComponent(token)}`
+                );
+                const data = await res.json();
+                if (res.ok && data.verified) {
+                    setVerifiedPlayer(name, token);
+                    setVerification((v) => (v && v.token === token ? { ...v, verified: true } : v));
+                }
+            } catch {
+                // Try again on the next tick
+            }
+        }, VERIFY_POLL_MS);
+        return () => clearInterval(timer);
+    }, [verification, setVerifiedPlayer]);
+
+    /** True if the store lets this player check out; otherwise
+     *  shows a /verifystore code for them to run in-game */
+    const checkVerification = async (): Promise<boolean> => {
+        try {
+            const token = verifiedPlayers[deliverTo.toLowerCase()];
+            const res = await fetch(
+                `/api/verification?username=${encodeURIComponent(deliverTo)}${token ? `&token=${encodeURIComponent(token)}` : ""}`
+            );
+            const data = await res.json();
+            if (!res.ok || !data.required || data.verified) return true;
+
+            // Keep showing a code that still works for this name
+            if (
+                verification?.username === deliverTo &&
+                !verification.verified &&
+                new Date(verification.expiresAt) > new Date()
+            ) {
+                return false;
+            }
+
+            const started = await fetch("/api/verification", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ username: deliverTo }),
+            });
+            const code = await started.json();
+            if (!started.ok) {
+                setUsernameError(code.error || "Failed to create a verification code.");
+                return false;
+            }
+            setVerification({ ...code, verified: false });
+            return false;
+        } catch {
+            // Checkout enforces it anyway
+            return true;
+        }
     };
 
     /** Username → back to Cart */
@@ -169,21 +373,82 @@ export default function CartSidebar() {
         setUsernameError("");
     };
 
-    /** Username → Payment step (validates username first) */
-    const goToPayment = () => {
-        const trimmed = username.trim();
-
-        if (!trimmed) {
-            setUsernameError("Please enter your Minecraft username.");
+    /** Username → Payment step (validates username, then loads
+     *  upgrade prices / purchase limits for that player) */
+    const goToPayment = async () => {
+        const error = checkUsername(username) ||
+            (isGift ? checkUsername(recipient, "the recipient's") : "");
+        if (error) {
+            setUsernameError(error);
             return;
         }
-        if (trimmed.length < 3 || trimmed.length > 16) {
-            setUsernameError("Username must be 3–16 characters.");
+        if (isGift && finalRecipient.toLowerCase() === finalUsername.toLowerCase()) {
+            setUsernameError("A gift needs a different recipient — untick \"Buy as a gift\" to buy for yourself.");
             return;
         }
-        if (!/^[a-zA-Z0-9_ ]+$/.test(trimmed)) {
-            setUsernameError("Only letters, numbers, underscores, and spaces allowed.");
-            return;
+
+        // The store may want proof the name is theirs first
+        setIsProcessing(true);
+        const canContinue = await checkVerification();
+        setIsProcessing(false);
+        if (!canContinue) return;
+
+        // Prices may change for this player (rank upgrades), and some
+        // items may be off limits — catch that before they pay
+        setIsProcessing(true);
+        const pricing = await setPlayer(deliverTo);
+        setIsProcessing(false);
+
+        for (const item of items) {
+            const rules = pricing[item.id];
+            if (rules?.blocked) {
+                setUsernameError(rules.blocked);
+                return;
+            }
+            if (rules && rules.remaining !== null && item.quantity > rules.remaining) {
+                setUsernameError(`${deliverTo} can buy only ${rules.remaining} more of ${item.name}.`);
+                return;
+            }
+        }
+
+        // Coupons may have per-player rules (first order, uses per
+        // player) and prices may have changed — check them again
+        if (appliedCoupons.length > 0) {
+            setIsProcessing(true);
+            try {
+                const data = await validateCoupons(appliedCoupons.map((c) => c.code), {
+                    username: finalUsername,
+                    ...(isGift && { recipient: finalRecipient }),
+                });
+                if (!data.valid) {
+                    setUsernameError(`Coupon ${data.code}: ${data.error} Remove it from your cart to continue.`);
+                    return;
+                }
+                setAppliedCoupons(data.coupons);
+                setCouponDiscount(data.discount);
+            } catch {
+                setUsernameError("Failed to check your coupon. Please try again.");
+                return;
+            } finally {
+                setIsProcessing(false);
+            }
+        }
+
+        // Points can be spent on the buyer's own orders only, once
+        // the name is verified or linked to their account
+        setUsePoints(false);
+        setPointsBalance(0);
+        if (!isGift) {
+            try {
+                const token = verifiedPlayers[finalUsername.toLowerCase()];
+                const res = await fetch(
+                    `/api/loyalty/balance?username=${encodeURIComponent(finalUsername)}${token ? `&token=${encodeURIComponent(token)}` : ""}`
+                );
+                const data = await res.json();
+                if (res.ok && data.spendable) setPointsBalance(data.balance);
+            } catch {
+                // No points offered — checkout still works
+            }
         }
 
         setUsernameError("");
@@ -200,13 +465,13 @@ export default function CartSidebar() {
 
     /** Payment → Place Order (validates UTR, then POSTs to API) */
     const handlePlaceOrder = async () => {
-        // Validate UTR: must be exactly 12 digits
+        // Validate UTR: must be exactly 12 digits (unless a gift card pays it all)
         const trimmedUtr = utrNumber.trim();
-        if (!trimmedUtr) {
+        if (amountDue > 0 && !trimmedUtr) {
             setUtrError("Please enter your UTR / Transaction ID.");
             return;
         }
-        if (!/^\d{12}$/.test(trimmedUtr)) {
+        if (amountDue > 0 && !/^\d{12}$/.test(trimmedUtr)) {
             setUtrError("UTR must be exactly 12 digits.");
             return;
         }
@@ -222,8 +487,18 @@ export default function CartSidebar() {
                 body: JSON.stringify({
                     minecraftUsername: finalUsername,
                     edition,
-                    utrNumber: trimmedUtr,
-                    couponCode: appliedCoupon || undefined,
+                    utrNumber: amountDue > 0 ? trimmedUtr : undefined,
+                    couponCodes: appliedCoupons.length > 0 ? appliedCoupons.map((c) => c.code) : undefined,
+                    giftCardCode: appliedGiftCard?.code,
+                    usePoints: usePoints && pointsRedeemable > 0 ? true : undefined,
+                    verificationToken: verifiedPlayers[deliverTo.toLowerCase()],
+                    gift: isGift
+                        ? {
+                            recipientUsername: finalRecipient,
+                            recipientEdition,
+                            message: giftMessage.trim() || undefined,
+                        }
+                        : undefined,
                     items: items.map((item) => ({
                         id: item.id,
                         quantity: item.quantity,
@@ -239,7 +514,7 @@ export default function CartSidebar() {
                 setOrderResult({
                     orderId: data.orderId,
                     total: data.total,
-                    username: finalUsername,
+                    username: deliverTo,
                 });
                 clearCart();
             } else {
@@ -263,10 +538,18 @@ export default function CartSidebar() {
         setEdition("java");
         setUsername("");
         setUsernameError("");
+        setIsGift(false);
+        setRecipient("");
+        setRecipientEdition("java");
+        setGiftMessage("");
         setUtrNumber("");
         setUtrError("");
         setOrderResult(null);
+        setPointsBalance(0);
+        setUsePoints(false);
+        setVerification(null);
         removeCoupon();
+        removeGiftCard();
         closeCart();
     };
 
@@ -438,7 +721,7 @@ export default function CartSidebar() {
                                                         if (usernameError) setUsernameError("");
                                                     }}
                                                     onKeyDown={(e) => {
-                                                        if (e.key === "Enter") goToPayment();
+                                                        if (e.key === "Enter" && !isProcessing) goToPayment();
                                                     }}
                                                     placeholder={
                                                         edition === "bedrock"
@@ -455,9 +738,14 @@ export default function CartSidebar() {
                                                 {/* Submit arrow button inside input */}
                                                 <button
                                                     onClick={goToPayment}
-                                                    className="absolute right-2 top-1/2 -translate-y-1/2 flex h-8 w-8 items-center justify-center rounded-lg bg-neon-green text-black hover:bg-neon-green/90 transition-colors cursor-pointer"
+                                                    disabled={isProcessing}
+                                                    className="absolute right-2 top-1/2 -translate-y-1/2 flex h-8 w-8 items-center justify-center rounded-lg bg-neon-green text-black hover:bg-neon-green/90 transition-colors cursor-pointer disabled:opacity-60"
                                                 >
-                                                    <ArrowRight className="h-4 w-4" />
+                                                    {isProcessing ? (
+                                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                                    ) : (
+                                                        <ArrowRight className="h-4 w-4" />
+                                                    )}
                                                 </button>
                                             </div>
 
@@ -469,6 +757,33 @@ export default function CartSidebar() {
                                                 </p>
                                             )}
 
+                                            {/* Username verification — run the code in-game */}
+                                            {verification?.username === deliverTo && (
+                                                verification.verified ? (
+                                                    <div className="w-full flex items-center gap-2 rounded-xl border border-neon-green/20 bg-neon-green/5 px-4 py-3">
+                                                        <ShieldCheck className="h-4 w-4 shrink-0 text-neon-green" />
+                                                        <p className="text-xs text-white/60">
+                                                            <span className="font-bold text-neon-green">{deliverTo}</span> is verified —
+                                                            press the arrow to continue.
+                                                        </p>
+                                                    </div>
+                                                ) : (
+                                                    <div className="w-full rounded-xl border border-neon-cyan/20 bg-neon-cyan/5 px-4 py-3 text-center">
+                                                        <p className="text-xs text-white/60">
+                                                            Join the server as{" "}
+                                                            <span className="font-bold text-white">{deliverTo}</span> and type:
+                                                        </p>
+                                                        <p className="my-2 font-mono text-lg font-bold tracking-wider text-neon-cyan select-all">
+                                                            /verifystore {verification.code}
+                                                        </p>
+                                                        <p className="flex items-center justify-center gap-1.5 text-[11px] text-white/30">
+                                                            <Loader2 className="h-3 w-3 animate-spin" />
+                                                            Waiting for the server… The code expires in 10 minutes.
+                                                        </p>
+                                                    </div>
+                                                )
+                                            )}
+
                                             {/* Bedrock auto-period preview */}
                                             {edition === "bedrock" && username.trim() && (
                                                 <div className="w-full rounded-xl border border-neon-green/10 bg-neon-green/5 px-4 py-2">
@@ -481,6 +796,68 @@ export default function CartSidebar() {
                                                 </div>
                                             )}
 
+                                            {/* Buy as a gift */}
+                                            <div className="w-full rounded-xl border border-white/5 bg-surface-secondary/30 p-3">
+                                                <label className="flex items-center gap-2 text-sm font-semibold text-white/70 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={isGift}
+                                                        onChange={(e) => {
+                                                            setIsGift(e.target.checked);
+                                                            if (usernameError) setUsernameError("");
+                                                        }}
+                                                        className="accent-neon-green"
+                                                    />
+                                                    <Gift className="h-4 w-4 text-neon-amber" />
+                                                    Buy as a gift for another player
+                                                </label>
+
+                                                {isGift && (
+                                                    <div className="mt-3 flex flex-col gap-2.5">
+                                                        <div className="flex gap-2">
+                                                            {(["java", "bedrock"] as const).map((ed) => (
+                                                                <button
+                                                                    key={ed}
+                                                                    onClick={() => setRecipientEdition(ed)}
+                                                                    className={`flex-1 rounded-lg py-2 text-xs font-semibold transition-all cursor-pointer border ${recipientEdition === ed
+                                                                        ? "bg-neon-amber/10 border-neon-amber/40 text-neon-amber"
+                                                                        : "bg-surface-secondary/40 border-white/10 text-white/40 hover:text-white/60"
+                                                                        }`}
+                                                                >
+                                                                    {ed === "java" ? "Java" : "Bedrock"}
+                                                                </button>
+                                                            ))}
+                                                        </div>
+                                                        <input
+                                                            type="text"
+                                                            value={recipient}
+                                                            onChange={(e) => {
+                                                                setRecipient(e.target.value);
+                                                                if (usernameError) setUsernameError("");
+                                                            }}
+                                                            placeholder="Recipient's username"
+                                                            maxLength={16}
+                                                            className="w-full rounded-lg border border-white/10 bg-surface-secondary/60 px-3 py-2.5 text-sm text-white placeholder-white/20 outline-none focus:border-neon-amber/30"
+                                                        />
+                                                        <textarea
+                                                            value={giftMessage}
+                                                            onChange={(e) => setGiftMessage(e.target.value)}
+                                                            placeholder="Gift message (optional)"
+                                                            maxLength={GIFT_MESSAGE_MAX}
+                                                            rows={2}
+                                                            className="w-full resize-none rounded-lg border border-white/10 bg-surface-secondary/60 px-3 py-2.5 text-sm text-white placeholder-white/20 outline-none focus:border-neon-amber/30"
+                                                        />
+                                                        {recipient.trim() && (
+                                                            <p className="text-xs text-white/30">
+                                                                Items go to{" "}
+                                                                <span className="text-neon-amber font-bold font-mono">{finalRecipient}</span>
+                                                                , paid for by you.
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </div>
+
                                             {/* Footer disclaimer */}
                                             <p className="text-[10px] text-white/20 text-center leading-relaxed px-2">
                                                 Minecraft Bedrock Edition users will automatically have a
@@ -501,8 +878,18 @@ export default function CartSidebar() {
                                                     Amount to Pay
                                                 </p>
                                                 <p className="text-3xl font-black text-neon-green">
-                                                    ₹{total.toFixed(2)}
+                                                    ₹{amountDue.toFixed(2)}
                                                 </p>
+                                                {pointsAmount > 0 && (
+                                                    <p className="text-xs text-neon-amber/70 mt-1">
+                                                        ₹{pointsAmount.toFixed(2)} paid with {pointsRedeemable} points
+                                                    </p>
+                                                )}
+                                                {giftCardAmount > 0 && (
+                                                    <p className="text-xs text-neon-pink/70 mt-1">
+                                                        ₹{giftCardAmount.toFixed(2)} paid with gift card
+                                                    </p>
+                                                )}
                                                 <p className="text-xs text-white/30 mt-1">
                                                     {itemCount} item{itemCount > 1 ? "s" : ""} · Player:{" "}
                                                     <span className="text-white/50 font-mono">
@@ -511,6 +898,30 @@ export default function CartSidebar() {
                                                 </p>
                                             </div>
 
+                                            {/* Loyalty points — the buyer's own orders only */}
+                                            {pointsRedeemable > 0 && (
+                                                <button
+                                                    onClick={() => setUsePoints(!usePoints)}
+                                                    className={`w-full flex items-center justify-between gap-3 rounded-xl border px-4 py-3 text-left transition-all cursor-pointer ${usePoints
+                                                        ? "border-neon-amber/30 bg-neon-amber/10"
+                                                        : "border-white/5 bg-surface-secondary/40 hover:border-neon-amber/20"
+                                                        }`}
+                                                >
+                                                    <span className="flex items-center gap-2.5">
+                                                        <Star className={`h-4 w-4 ${usePoints ? "text-neon-amber" : "text-white/30"}`} />
+                                                        <span>
+                                                            <span className="block text-sm font-semibold text-white">
+                                                                Use {pointsRedeemable} points
+                                                            </span>
+                                                            <span className="block text-xs text-white/30">
+                                                                You have {pointsBalance} · −₹{pointsValue(pointsRedeemable).toFixed(2)}
+                                                            </span>
+                                                        </span>
+                                                    </span>
+                                                    <span className={`h-4 w-4 rounded border ${usePoints ? "border-neon-amber bg-neon-amber" : "border-white/20"}`} />
+                                                </button>
+                                            )}
+                                            {amountDue > 0 ? (<>
                                             {/* Dynamic UPI QR Code —
                                                Encodes a UPI deep link with locked amount.
                                                Format: upi://pay?pa=UPI_ID&pn=NAME&am=AMOUNT&cu=INR
@@ -518,7 +929,7 @@ export default function CartSidebar() {
                                             <div className="flex flex-col items-center gap-3">
                                                 <div className="rounded-2xl border border-white/10 bg-white p-4 shadow-lg">
                                                     <QRCodeSVG
-                                                        value={`upi://pay?pa=${UPI_ID}&pn=${PAYEE_NAME}&am=${total.toFixed(2)}&cu=INR`}
+                                                        value={`upi://pay?pa=${UPI_ID}&pn=${PAYEE_NAME}&am=${amountDue.toFixed(2)}&cu=INR`}
                                                         size={200}
                                                         bgColor="#ffffff"
                                                         fgColor="#000000"
@@ -611,6 +1022,17 @@ export default function CartSidebar() {
                                                     your payment and deliver items in-game.
                                                 </p>
                                             </div>
+                                            </>) : (
+                                                /* Gift card covers everything — nothing to pay over UPI */
+                                                <div className="w-full rounded-xl border border-neon-pink/15 bg-neon-pink/5 px-4 py-3 flex items-start gap-2">
+                                                    <CreditCard className="h-4 w-4 shrink-0 text-neon-pink mt-0.5" />
+                                                    <p className="text-[11px] text-neon-pink/80 leading-relaxed">
+                                                        Your gift card covers this whole order — no UPI payment
+                                                        needed. Place the order and we&apos;ll deliver your items
+                                                        in-game once it&apos;s approved.
+                                                    </p>
+                                                </div>
+                                            )}
                                         </div>
                                     )}
 
@@ -687,14 +1109,53 @@ export default function CartSidebar() {
                             <div className="border-t border-white/5 px-6 py-4 space-y-3">
                                 {/* Coupon Code Input */}
                                 <div>
-                                    {appliedCoupon ? (
-                                        <div className="flex items-center justify-between px-3 py-2.5 bg-neon-green/5 border border-neon-green/20 rounded-xl">
+                                    {appliedCoupons.map((coupon) => (
+                                        <div key={coupon.code} className="flex items-center justify-between px-3 py-2.5 mb-2 bg-neon-green/5 border border-neon-green/20 rounded-xl">
                                             <div className="flex items-center gap-2">
                                                 <Ticket className="h-3.5 w-3.5 text-neon-green" />
-                                                <span className="text-xs font-bold font-mono text-neon-green">{appliedCoupon}</span>
-                                                <span className="text-xs text-neon-green/60">−₹{couponDiscount.toFixed(2)}</span>
+                                                <span className="text-xs font-bold font-mono text-neon-green">{coupon.code}</span>
+                                                <span className="text-xs text-neon-green/60">−₹{coupon.discount.toFixed(2)}</span>
                                             </div>
-                                            <button onClick={removeCoupon} className="text-white/40 hover:text-red-400 transition-colors cursor-pointer">
+                                            <button onClick={() => removeCoupon(coupon.code)} className="text-white/40 hover:text-red-400 transition-colors cursor-pointer">
+                                                <X className="h-3.5 w-3.5" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={couponCode}
+                                            onChange={(e) => { setCouponCode(e.target.value.toUpperCase()); setCouponError(""); }}
+                                            onKeyDown={(e) => { if (e.key === "Enter") applyCoupon(); }}
+                                            placeholder={appliedCoupons.length > 0 ? "Add another coupon" : "Coupon code"}
+                                            className="flex-1 px-3 py-2 bg-surface-secondary/60 border border-white/10 rounded-xl text-xs text-white placeholder-white/20 outline-none focus:border-neon-green/30 font-mono"
+                                        />
+                                        <button
+                                            onClick={applyCoupon}
+                                            disabled={validatingCoupon || !couponCode.trim()}
+                                            className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-medium text-white/60 hover:text-neon-green hover:border-neon-green/30 transition-all cursor-pointer disabled:opacity-40"
+                                        >
+                                            {validatingCoupon ? "..." : "Apply"}
+                                        </button>
+                                    </div>
+                                    {couponError && (
+                                        <p className="text-[10px] text-red-400 mt-1 flex items-center gap-1">
+                                            <AlertCircle className="h-3 w-3" />
+                                            {couponError}
+                                        </p>
+                                    )}
+                                </div>
+
+                                {/* Gift Card Input */}
+                                <div>
+                                    {appliedGiftCard ? (
+                                        <div className="flex items-center justify-between px-3 py-2.5 bg-neon-pink/5 border border-neon-pink/20 rounded-xl">
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                <CreditCard className="h-3.5 w-3.5 shrink-0 text-neon-pink" />
+                                                <span className="text-xs font-bold font-mono text-neon-pink truncate">{appliedGiftCard.code}</span>
+                                                <span className="text-xs text-neon-pink/60 shrink-0">₹{appliedGiftCard.balance.toFixed(2)} left</span>
+                                            </div>
+                                            <button onClick={removeGiftCard} className="text-white/40 hover:text-red-400 transition-colors cursor-pointer">
                                                 <X className="h-3.5 w-3.5" />
                                             </button>
                                         </div>
@@ -702,31 +1163,31 @@ export default function CartSidebar() {
                                         <div className="flex gap-2">
                                             <input
                                                 type="text"
-                                                value={couponCode}
-                                                onChange={(e) => { setCouponCode(e.target.value.toUpperCase()); setCouponError(""); }}
-                                                onKeyDown={(e) => { if (e.key === "Enter") applyCoupon(); }}
-                                                placeholder="Coupon code"
-                                                className="flex-1 px-3 py-2 bg-surface-secondary/60 border border-white/10 rounded-xl text-xs text-white placeholder-white/20 outline-none focus:border-neon-green/30 font-mono"
+                                                value={giftCardCode}
+                                                onChange={(e) => { setGiftCardCode(e.target.value.toUpperCase()); setGiftCardError(""); }}
+                                                onKeyDown={(e) => { if (e.key === "Enter") applyGiftCard(); }}
+                                                placeholder="Gift card code"
+                                                className="flex-1 px-3 py-2 bg-surface-secondary/60 border border-white/10 rounded-xl text-xs text-white placeholder-white/20 outline-none focus:border-neon-pink/30 font-mono"
                                             />
                                             <button
-                                                onClick={applyCoupon}
-                                                disabled={validatingCoupon || !couponCode.trim()}
-                                                className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-medium text-white/60 hover:text-neon-green hover:border-neon-green/30 transition-all cursor-pointer disabled:opacity-40"
+                                                onClick={applyGiftCard}
+                                                disabled={checkingGiftCard || !giftCardCode.trim()}
+                                                className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-medium text-white/60 hover:text-neon-pink hover:border-neon-pink/30 transition-all cursor-pointer disabled:opacity-40"
                                             >
-                                                {validatingCoupon ? "..." : "Apply"}
+                                                {checkingGiftCard ? "..." : "Apply"}
                                             </button>
                                         </div>
                                     )}
-                                    {couponError && (
+                                    {giftCardError && (
                                         <p className="text-[10px] text-red-400 mt-1 flex items-center gap-1">
                                             <AlertCircle className="h-3 w-3" />
-                                            {couponError}
+                                            {giftCardError}
                                         </p>
                                     )}
                                 </div>
 
                                 {/* Total */}
-                                {couponDiscount > 0 && (
+                                {(couponDiscount > 0 || giftCardAmount > 0) && (
                                     <div className="flex items-center justify-between text-xs">
                                         <span className="text-white/40">Subtotal:</span>
                                         <span className="text-white/40">₹{subtotal.toFixed(2)}</span>
@@ -738,10 +1199,16 @@ export default function CartSidebar() {
                                         <span className="text-neon-green/60">−₹{couponDiscount.toFixed(2)}</span>
                                     </div>
                                 )}
+                                {giftCardAmount > 0 && (
+                                    <div className="flex items-center justify-between text-xs">
+                                        <span className="text-neon-pink/60">Gift card:</span>
+                                        <span className="text-neon-pink/60">−₹{giftCardAmount.toFixed(2)}</span>
+                                    </div>
+                                )}
                                 <div className="flex items-center justify-between">
                                     <span className="text-base font-semibold text-white">Total:</span>
                                     <span className="text-xl font-black text-neon-green">
-                                        ₹{total.toFixed(2)}
+                                        ₹{amountDue.toFixed(2)}
                                     </span>
                                 </div>
 
@@ -3,7 +3,7 @@
 // PURPOSE: Fixed top navigation bar with:
 //          - Brand logo (Sword icon + "DevZen")
 //          - Desktop category tabs with animated active indicator
-//          - Cart button
+//          - Track Order / Account links + Cart button
 //          - Responsive mobile menu (hamburger → slide-down)
 // LOCATION: src/components/Navbar.tsx
 // ═══════════════════════════════════════════════════════════════
@@ -13,7 +13,7 @@
 // ─── Imports ───────────────────────────────────────────────────
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Menu, X, ShoppingCart, MapPin } from "lucide-react";
+import { Menu, X, ShoppingCart, MapPin, User } from "lucide-react";
 import { categories, type Category } from "@/lib/data";
 import { useCartStore } from "@/store/useCartStore";
 import Image from "next/image";
@@ -96,7 +96,7 @@ export default function Navbar({ activeCategory, onCategoryChange }: NavbarProps
                         ))}
                     </div>
 
-                    {/* ── Right Side: Track Order + Cart + Mobile Toggle ── */}
+                    {/* ── Right Side: Track Order + Account + Cart + Mobile Toggle ── */}
                     <div className="flex items-center gap-2 sm:gap-3">
                         {/* Track Order link */}
                         <Link
@@ -106,6 +106,14 @@ export default function Navbar({ activeCategory, onCategoryChange }: NavbarProps
                             <MapPin className="h-3.5 w-3.5" />
                             Track Order
                         </Link>
+                        {/* Account link (optional login — guests can still check out) */}
+                        <Link
+                            href="/account"
+                            aria-label="My Account"
+                            className="hidden sm:flex items-center rounded-lg border border-white/10 px-2.5 py-2 text-white/50 hover:text-white hover:border-white/20 hover:bg-white/5 transition-all"
+                        >
+                            <User className="h-3.5 w-3.5" />
+                        </Link>
                         <button
                             onClick={toggleCart}
                             className="relative flex items-center gap-2 rounded-lg bg-neon-green/10 border border-neon-green/30 px-4 py-2 text-sm font-medium text-neon-green hover:bg-neon-green/20 hover:shadow-glow-green transition-all duration-300 cursor-pointer"
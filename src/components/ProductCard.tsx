@@ -2,7 +2,8 @@
 // FILE: ProductCard.tsx
 // PURPOSE: A single product card displayed in the store grid.
 //          Shows the product image area, name, price, description,
-//          perks list, badge, and an "Add to Cart" button.
+//          perks list, badge, stock label ("Only 3 left" /
+//          "Sold out"), bundle contents and an "Add to Cart" button.
 //          Each card has category-specific accent colors and
 //          entrance/hover animations via Framer Motion.
 // LOCATION: src/components/ProductCard.tsx
@@ -15,8 +16,9 @@ import { useState } from "react";
 import Image from "next/image";
 import { motion } from "framer-motion";                        // For entrance + hover animations
 import { ShoppingCart, Check, Star } from "lucide-react";      // Icons
-import { type Product, isProductOnSale, getEffectivePrice } from "@/lib/data";
+import { type Product, isProductOnSale, getEffectivePrice, isSoldOut, isLowStock } from "@/lib/data";
 import { useCartStore } from "@/store/useCartStore";
+import { type BundleLine, describeBundle, getBundleValue, isBundleSoldOut } from "@/lib/bundles";
 import FlashSaleBadge from "./FlashSaleBadge";
 
 // ─── Props Interface ───────────────────────────────────────────
@@ -25,9 +27,11 @@ import FlashSaleBadge from "./FlashSaleBadge";
  * ProductCardProps
  * @prop product — The product data object to display
  * @prop index   — Position in the grid (used to stagger animation delays)
+ * @prop bundleLines — Live contents if the product is a bundle (null = broken bundle)
  */
 interface ProductCardProps {
     product: Product;
+    bundleLines?: BundleLine[] | null;
     index: number;
     onCardClick?: () => void; // Opens the product detail modal
 }
@@ -45,6 +49,8 @@ const badgeColors: Record<string, string> = {
     Value: "bg-neon-cyan/15 text-neon-cyan border-neon-cyan/30",
     Hot: "bg-red-500/15 text-red-400 border-red-500/30",
     New: "bg-neon-green/15 text-neon-green border-neon-green/30",
+    Bundle: "bg-neon-amber/15 text-neon-amber border-neon-amber/30",
+    Gift: "bg-neon-pink/15 text-neon-pink border-neon-pink/30",
 };
 
 // ─── Category Accent Colors ───────────────────────────────────
@@ -80,7 +86,7 @@ const categoryAccent: Record<string, { border: string; glow: string; price: stri
 // COMPONENT: ProductCard
 // ═══════════════════════════════════════════════════════════════
 
-export default function ProductCard({ product, index, onCardClick }: ProductCardProps) {
+export default function ProductCard({ product, bundleLines, index, onCardClick }: ProductCardProps) {
     // Look up the accent colors for this product's category (fallback to misc)
     const accent = categoryAccent[product.category] || categoryAccent.misc;
 
@@ -88,13 +94,23 @@ export default function ProductCard({ product, index, onCardClick }: ProductCard
     const addToCart = useCartStore((s) => s.addToCart);
     const [added, setAdded] = useState(false); // Brief "Added ✓" feedback state
 
+    // Upgrade price / "already owned" for the remembered player
+    const pricing = useCartStore((s) => s.playerPricing[product.id]);
+    const owned = Boolean(pricing?.blocked);
+
     // Handles the "Add to Cart" button click
     // Uses stopPropagation so clicking the button doesn't also open the modal
+    // A bundle is sold out when any product inside it is
+    const soldOut = isSoldOut(product) ||
+        (bundleLines !== undefined && (bundleLines === null || isBundleSoldOut(bundleLines)));
+    const bundleValue = bundleLines ? getBundleValue(bundleLines) : 0;
+
     const handleAddToCart = (e: React.MouseEvent) => {
         e.stopPropagation();    // Prevent card click (modal) from firing
+        if (soldOut || owned) return;
         // If product is on sale, pass the effective (discounted) price to cart
         const effectivePrice = getEffectivePrice(product);
-        addToCart({ ...product, price: effectivePrice });
+        if (!addToCart({ ...product, price: effectivePrice })) return;
         setAdded(true);         // Show "Added ✓" feedback
         setTimeout(() => setAdded(false), 1500); // Revert after 1.5s
     };
@@ -175,6 +191,15 @@ export default function ProductCard({ product, index, onCardClick }: ProductCard
                     </div>
                 )}
 
+                {/* Sold out overlay */}
+                {soldOut && (
+                    <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/55">
+                        <span className="rounded-full border border-red-500/40 bg-red-500/15 px-2 md:px-3 py-0.5 md:py-1 text-[8px] md:text-xs font-bold uppercase tracking-wider text-red-400">
+                            Sold Out
+                        </span>
+                    </div>
+                )}
+
                 {/* Bottom gradient: blends image area into content below */}
                 <div className="absolute bottom-0 inset-x-0 h-8 md:h-16 bg-gradient-to-t from-surface-secondary/60 to-transparent" />
             </div>
@@ -204,6 +229,31 @@ export default function ProductCard({ product, index, onCardClick }: ProductCard
                     </div>
                 </div>
 
+                {/* Upgrade price for a player who owns a lower tier */}
+                {pricing?.upgradeFrom && !owned && (
+                    <p className="mt-1 text-[9px] md:text-xs font-semibold text-neon-cyan">
+                        Upgrade for ₹{pricing.price.toFixed(2)}
+                    </p>
+                )}
+
+                {/* Low stock nudge */}
+                {isLowStock(product) && (
+                    <p className="mt-1 text-[9px] md:text-xs font-semibold text-neon-amber">
+                        Only {product.stock} left
+                    </p>
+                )}
+
+                {/* Bundle contents + what they'd cost separately */}
+                {bundleLines && (
+                    <p className="mt-1 text-[9px] md:text-xs text-white/55 line-clamp-2">
+                        <span className="font-semibold text-neon-amber">Includes:</span>{" "}
+                        {describeBundle(bundleLines).join(" • ")}
+                        {bundleValue > getEffectivePrice(product) && (
+                            <span className="text-white/30"> (worth ₹{bundleValue.toFixed(2)})</span>
+                        )}
+                    </p>
+                )}
+
                 {/* Short description */}
                 <p className="mt-1 md:mt-2 text-[10px] md:text-xs text-white/40 leading-relaxed line-clamp-2 hidden md:block">
                     {product.description}
@@ -228,12 +278,20 @@ export default function ProductCard({ product, index, onCardClick }: ProductCard
                 {/* Add to Cart button — shows "Added ✓" feedback after clicking */}
                 <button
                     onClick={handleAddToCart}
-                    className={`mt-auto pt-2 md:pt-0 md:mt-5 flex w-full items-center justify-center gap-1 md:gap-2 rounded-lg md:rounded-xl border py-1.5 px-2 md:py-3 md:px-4 text-[10px] md:text-sm font-semibold transition-all duration-300 active:scale-[0.98] cursor-pointer ${added
-                        ? "bg-neon-green/20 border-neon-green/40 text-neon-green shadow-glow-green"
-                        : "bg-gradient-to-r from-neon-green/15 to-neon-green/5 border-neon-green/20 text-neon-green hover:from-neon-green/25 hover:to-neon-green/15 hover:border-neon-green/40 hover:shadow-glow-green"
+                    disabled={soldOut || owned}
+                    title={pricing?.blocked ?? undefined}
+                    className={`mt-auto pt-2 md:pt-0 md:mt-5 flex w-full items-center justify-center gap-1 md:gap-2 rounded-lg md:rounded-xl border py-1.5 px-2 md:py-3 md:px-4 text-[10px] md:text-sm font-semibold transition-all duration-300 active:scale-[0.98] cursor-pointer disabled:cursor-not-allowed disabled:active:scale-100 ${soldOut || owned
+                        ? "bg-white/5 border-white/10 text-white/30"
+                        : added
+                            ? "bg-neon-green/20 border-neon-green/40 text-neon-green shadow-glow-green"
+                            : "bg-gradient-to-r from-neon-green/15 to-neon-green/5 border-neon-green/20 text-neon-green hover:from-neon-green/25 hover:to-neon-green/15 hover:border-neon-green/40 hover:shadow-glow-green"
                         }`}
                 >
-                    {added ? (
+                    {soldOut ? (
+                        <>Sold Out</>
+                    ) : owned ? (
+                        <>Owned</>
+                    ) : added ? (
                         <>
                             <Check className="h-3 w-3 md:h-4 md:w-4" />
                             <span className="hidden md:inline">Added</span> ✓
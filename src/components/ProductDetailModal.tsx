@@ -1,8 +1,8 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: ProductDetailModal.tsx
 // PURPOSE: Full-screen modal overlay showing a product's complete
-//          details: large image, full perks list, price, and
-//          "Add to Cart" button. Animated with Framer Motion.
+//          details: large image, full perks list, bundle contents,
+//          price, and "Add to Cart" button. Animated with Framer Motion.
 // LOCATION: src/components/ProductDetailModal.tsx
 // ═══════════════════════════════════════════════════════════════
 
@@ -12,14 +12,16 @@ import { useState } from "react";
 import Image from "next/image";
 import { motion, AnimatePresence } from "framer-motion";
 import { X, ShoppingCart, Check, Star } from "lucide-react";
-import { type Product, isProductOnSale, getEffectivePrice } from "@/lib/data";
+import { type Product, isProductOnSale, getEffectivePrice, isSoldOut, isLowStock } from "@/lib/data";
 import { useCartStore } from "@/store/useCartStore";
+import { type BundleLine, getBundleValue, isBundleSoldOut } from "@/lib/bundles";
 import FlashSaleBadge from "./FlashSaleBadge";
 
 // ─── Props ─────────────────────────────────────────────────────
 
 interface ProductDetailModalProps {
     product: Product | null;
+    bundleLines?: BundleLine[] | null;   // Live contents if it's a bundle (null = broken bundle)
     onClose: () => void;
 }
 
@@ -45,15 +47,23 @@ const accentColors: Record<string, string> = {
 // COMPONENT
 // ═══════════════════════════════════════════════════════════════
 
-export default function ProductDetailModal({ product, onClose }: ProductDetailModalProps) {
+export default function ProductDetailModal({ product, bundleLines, onClose }: ProductDetailModalProps) {
     const addToCart = useCartStore((s) => s.addToCart);
     const [added, setAdded] = useState(false);
 
+    // Upgrade price / "already owned" for the remembered player
+    const pricing = useCartStore((s) => (product ? s.playerPricing[product.id] : undefined));
+    const owned = Boolean(pricing?.blocked);
+
+    // A bundle is sold out when any product inside it is
+    const soldOut = !!product && (isSoldOut(product) ||
+        (bundleLines !== undefined && (bundleLines === null || isBundleSoldOut(bundleLines))));
+
     const handleAdd = () => {
-        if (!product) return;
+        if (!product || soldOut || owned) return;
         // Pass effective (discounted) price to cart
         const effectivePrice = getEffectivePrice(product);
-        addToCart({ ...product, price: effectivePrice });
+        if (!addToCart({ ...product, price: effectivePrice })) return;
         setAdded(true);
         setTimeout(() => setAdded(false), 1500);
     };
@@ -161,11 +171,60 @@ export default function ProductDetailModal({ product, onClose }: ProductDetailMo
                                 </div>
                             )}
 
+                            {/* Stock state */}
+                            {soldOut && (
+                                <p className="mb-4 inline-block rounded-full border border-red-500/30 bg-red-500/10 px-3 py-1 text-xs font-bold uppercase tracking-wider text-red-400">
+                                    Sold Out
+                                </p>
+                            )}
+                            {pricing?.blocked && (
+                                <p className="mb-4 text-sm font-semibold text-white/50">
+                                    {pricing.blocked}
+                                </p>
+                            )}
+                            {pricing?.upgradeFrom && !owned && (
+                                <p className="mb-4 text-sm font-semibold text-neon-cyan">
+                                    Upgrade from {pricing.upgradeFrom.name} for ₹{pricing.price.toFixed(2)}
+                                </p>
+                            )}
+                            {isLowStock(product) && (
+                                <p className="mb-4 text-sm font-semibold text-neon-amber">
+                                    Only {product.stock} left — grab it before it&apos;s gone
+                                </p>
+                            )}
+
                             {/* Description */}
                             <p className="text-sm text-white/50 leading-relaxed mb-5">
                                 {product.description}
                             </p>
 
+                            {/* Bundle contents */}
+                            {bundleLines && bundleLines.length > 0 && (
+                                <div className="mb-5 rounded-xl border border-neon-amber/15 bg-neon-amber/5 p-4">
+                                    <p className="mb-2 text-[10px] font-bold uppercase tracking-widest text-neon-amber/80">
+                                        Bundle Includes
+                                    </p>
+                                    <ul className="space-y-1.5">
+                                        {bundleLines.map((line) => (
+                                            <li key={line.product.id} className="flex items-center justify-between text-sm text-white/70">
+                                                <span>
+                                                    {line.quantity > 1 && <span className="font-bold text-white">{line.quantity}x </span>}
+                                                    {line.product.name}
+                                                </span>
+                                                <span className="text-xs text-white/30">
+                                                    ₹{(getEffectivePrice(line.product) * line.quantity).toFixed(2)}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    {getBundleValue(bundleLines) > getEffectivePrice(product) && (
+                                        <p className="mt-2 text-xs font-semibold text-neon-green">
+                                            Save ₹{(getBundleValue(bundleLines) - getEffectivePrice(product)).toFixed(2)} vs buying separately
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Category label */}
                             <div className="mb-3">
                                 <span className="text-[10px] font-bold uppercase tracking-widest text-white/25">
@@ -188,12 +247,19 @@ export default function ProductDetailModal({ product, onClose }: ProductDetailMo
                         <div className="flex-shrink-0 border-t border-white/5 px-5 py-4">
                             <button
                                 onClick={handleAdd}
-                                className={`flex w-full items-center justify-center gap-2 rounded-xl border py-3.5 text-sm font-bold transition-all duration-300 active:scale-[0.98] cursor-pointer ${added
-                                    ? "bg-neon-green/20 border-neon-green/40 text-neon-green shadow-glow-green"
-                                    : "bg-gradient-to-r from-neon-green/20 to-neon-green/10 border-neon-green/30 text-neon-green hover:from-neon-green/30 hover:to-neon-green/20 hover:shadow-glow-green"
+                                disabled={soldOut || owned}
+                                className={`flex w-full items-center justify-center gap-2 rounded-xl border py-3.5 text-sm font-bold transition-all duration-300 active:scale-[0.98] cursor-pointer disabled:cursor-not-allowed disabled:active:scale-100 ${soldOut || owned
+                                    ? "bg-white/5 border-white/10 text-white/30"
+                                    : added
+                                        ? "bg-neon-green/20 border-neon-green/40 text-neon-green shadow-glow-green"
+                                        : "bg-gradient-to-r from-neon-green/20 to-neon-green/10 border-neon-green/30 text-neon-green hover:from-neon-green/30 hover:to-neon-green/20 hover:shadow-glow-green"
                                     }`}
                             >
-                                {added ? (
+                                {soldOut ? (
+                                    <>Sold Out</>
+                                ) : owned ? (
+                                    <>Already Owned</>
+                                ) : added ? (
                                     <>
                                         <Check className="h-4 w-4" />
                                         Added to Cart ✓
@@ -201,7 +267,7 @@ export default function ProductDetailModal({ product, onClose }: ProductDetailMo
                                 ) : (
                                     <>
                                         <ShoppingCart className="h-4 w-4" />
-                                        Add to Cart — ₹{getEffectivePrice(product).toFixed(2)}
+                                        {pricing?.upgradeFrom ? "Upgrade" : "Add to Cart"} — ₹{(pricing?.upgradeFrom ? pricing.price : getEffectivePrice(product)).toFixed(2)}
                                     </>
                                 )}
                             </button>
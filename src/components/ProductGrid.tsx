@@ -4,6 +4,8 @@
 //          1. Search bar + sort dropdown for filtering
 //          2. If "All" is selected → groups products by category
 //          3. If a specific category is selected → shows one row
+//          Bundles get their own row under "All", with the items
+//          they include listed on the card.
 //          4. Product Detail Modal opens on card click
 //          Mobile: horizontal swipeable rows per category
 //          Desktop: grid layout per category section
@@ -18,6 +20,8 @@ import { AnimatePresence, motion } from "framer-motion";
 import { Package, Loader2, Search, ChevronDown, X } from "lucide-react";
 import { categories, type Category, type Product } from "@/lib/data";
 import { getLiveStoreProducts } from "@/app/actions/productActions";
+import { useCartStore } from "@/store/useCartStore";
+import { getBundleLines, isBundle } from "@/lib/bundles";
 import ProductCard from "./ProductCard";
 import ProductDetailModal from "./ProductDetailModal";
 
@@ -90,6 +94,14 @@ export default function ProductGrid({ activeCategory, initialProducts = [] }: Pr
         fetchProducts();
     }, [initialProducts]);
 
+    // ── Upgrade prices for a returning player ──
+    // The username is remembered from their last checkout
+    const player = useCartStore((s) => s.player);
+    const setPlayer = useCartStore((s) => s.setPlayer);
+    useEffect(() => {
+        if (player) setPlayer(player);
+    }, [player, setPlayer]);
+
     // ── Filter + Sort products ──
     const processedProducts = useMemo(() => {
         let result = [...products];
@@ -126,13 +138,14 @@ export default function ProductGrid({ activeCategory, initialProducts = [] }: Pr
         const realCategories = categories.filter((c) => c.key !== "all");
 
         if (activeCategory === "all") {
-            return realCategories
-                .map((cat) => ({
+            return [
+                { key: "bundles", label: "🎁 Bundles", items: processedProducts.filter(isBundle) },
+                ...realCategories.map((cat) => ({
                     key: cat.key,
                     label: categoryLabels[cat.key] || cat.label,
-                    items: processedProducts.filter((p) => p.category === cat.key),
-                }))
-                .filter((group) => group.items.length > 0);
+                    items: processedProducts.filter((p) => p.category === cat.key && !isBundle(p)),
+                })),
+            ].filter((group) => group.items.length > 0);
         }
 
         const filtered = processedProducts.filter((p) => p.category === activeCategory);
@@ -252,6 +265,7 @@ export default function ProductGrid({ activeCategory, initialProducts = [] }: Pr
                                         <ProductCard
                                             key={product.id}
                                             product={product}
+                                            bundleLines={isBundle(product) ? getBundleLines(product, products) : undefined}
                                             index={i}
                                             onCardClick={() => setSelectedProduct(product)}
                                         />
@@ -286,6 +300,7 @@ export default function ProductGrid({ activeCategory, initialProducts = [] }: Pr
             {/* ── Product Detail Modal ── */}
             <ProductDetailModal
                 product={selectedProduct}
+                bundleLines={selectedProduct && isBundle(selectedProduct) ? getBundleLines(selectedProduct, products) : undefined}
                 onClose={() => setSelectedProduct(null)}
             />
         </section>
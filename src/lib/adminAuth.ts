@@ -0,0 +1,263 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: adminAuth.ts
+// PURPOSE: Admin accounts in the `admins` MongoDB collection.
+//          Password hashing (scrypt), credential checks and the
+//          server-side session lookup used by every admin route
+//          handler and server action. Middleware only checks the
+//          token signature; this re-checks the account in the DB
+//          so deactivated admins and role changes apply at once.
+//          Also checks the second factor (TOTP or backup code)
+//          for admins who enabled two-factor login.
+// LOCATION: src/lib/adminAuth.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { MongoServerError, ObjectId } from "mongodb";
+import { connectToDatabase } from "@/lib/mongodb";
+import { hashBackupCode, verifyTotp } from "@/lib/totp";
+import {
+    ADMIN_SESSION_COOKIE,
+    can,
+    verifySession,
+    type AdminPermission,
+    type AdminRole,
+    type AdminSession,
+} from "@/lib/adminSession";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface AdminTotp {
+    secret: string;            // Base32 shared secret
+    lastCounter: number;       // Last accepted time step — stops code replay
+    backupCodes: string[];     // sha256 hashes, removed once used
+    enabledAt: Date;
+}
+
+export interface AdminAccount {
+    _id?: ObjectId;
+    username: string;          // Stored lowercase, unique
+    passwordHash: string;      // "scrypt$<salt hex>$<hash hex>"
+    role: AdminRole;
+    active: boolean;
+    sessionVersion: number;    // Bump to invalidate every session of this admin
+    createdAt: Date;
+    updatedAt: Date;
+    lastLoginAt?: Date | null;
+    totp?: AdminTotp | null;           // Set once two-factor login is enabled
+    pendingTotpSecret?: string | null; // Enrolment started, code not confirmed yet
+}
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+// ─── Passwords ─────────────────────────────────────────────────
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, 64);
+    return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, saltHex, hashHex] = stored.split("$");
+    if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+
+    const expected = Buffer.from(hashHex, "hex");
+    const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+export function normalizeUsername(username: string): string {
+    return username.trim().toLowerCase();
+}
+
+// ─── Accounts ──────────────────────────────────────────────────
+
+let indexReady = false;
+
+export async function getAdminsCollection() {
+    const db = await connectToDatabase();
+    const admins = db.collection<AdminAccount>("admins");
+    if (!indexReady) {
+        await admins.createIndex({ username: 1 }, { unique: true });
+        indexReady = true;
+    }
+    return admins;
+}
+
+/**
+ * Creates the first owner account. A marker document with a fixed
+ * _id is inserted first — only one insert can win, so two setup
+ * requests racing on an empty database can't both create an
+ * owner. Returns null if setup has already happened.
+ */
+export async function createFirstOwner(username: string, password: string): Promise<ObjectId | null> {
+    const admins = await getAdminsCollection();
+    if ((await admins.countDocuments({}, { limit: 1 })) > 0) return null;
+
+    const setup = (await connectToDatabase()).collection<{ _id: string; at: Date }>("adminSetup");
+    try {
+        await setup.insertOne({ _id: "first-owner", at: new Date() });
+    } catch (error) {
+        if (error instanceof MongoServerError && error.code === 11000) return null;
+        throw error;
+    }
+
+    const now = new Date();
+    try {
+        const result = await admins.insertOne({
+            username,
+            passwordHash: await hashPassword(password),
+            role: "owner",
+            active: true,
+            sessionVersion: 1,
+            createdAt: now,
+            updatedAt: now,
+            lastLoginAt: now,
+        });
+        return result.insertedId;
+    } catch (error) {
+        // Let setup be tried again
+        await setup.deleteOne({ _id: "first-owner" });
+        throw error;
+    }
+}
+
+/**
+ * Checks a username / password pair. Returns the account on
+ * success, null otherwise. Always runs a hash comparison so
+ * unknown usernames take as long as wrong passwords.
+ */
+export async function checkCredentials(username: string, password: string): Promise<AdminAccount | null> {
+    const admins = await getAdminsCollection();
+    const admin = await admins.findOne({ username: normalizeUsername(username), active: true });
+
+    // Dummy hash keeps the timing equal for unknown users
+    const ok = await verifyPassword(
+        password,
+        admin?.passwordHash ?? "scrypt$00000000000000000000000000000000$" + "0".repeat(128)
+    );
+    return admin && ok ? admin : null;
+}
+
+// ─── Two-Factor ────────────────────────────────────────────────
+
+/**
+ * Checks a second-factor code for an admin with two-factor login
+ * enabled. Accepts a 6-digit TOTP code (each time step only once)
+ * or one of the backup codes (each only once). Both are consumed
+ * with a conditional update so two requests racing with the same
+ * code can't both succeed.
+ */
+export async function verifySecondFactor(
+    admin: AdminAccount,
+    code: string
+): Promise<"totp" | "backup" | null> {
+    if (!admin._id || !admin.totp) return null;
+    const admins = await getAdminsCollection();
+
+    const counter = verifyTotp(admin.totp.secret, code, admin.totp.lastCounter);
+    if (counter !== null) {
+        const result = await admins.updateOne(
+            { _id: admin._id, "totp.lastCounter": { $lt: counter } },
+            { $set: { "totp.lastCounter": counter } }
+        );
+        return result.modifiedCount === 1 ? "totp" : null;
+    }
+
+    const hash = hashBackupCode(code);
+    const result = await admins.updateOne(
+        { _id: admin._id, "totp.backupCodes": hash },
+        { $pull: { "totp.backupCodes": hash } }
+    );
+    return result.modifiedCount === 1 ? "backup" : null;
+}
+
+// ─── Current Session ───────────────────────────────────────────
+
+/**
+ * Verifies the session cookie and loads its account. Returns
+ * null if the account was deactivated or its sessions revoked.
+ */
+async function loadSessionAccount(): Promise<{ session: AdminSession; admin: AdminAccount } | null> {
+    const cookieStore = await cookies();
+    const session = await verifySession(cookieStore.get(ADMIN_SESSION_COOKIE)?.value);
+    if (!session || !ObjectId.isValid(session.sub)) return null;
+
+    const admins = await getAdminsCollection();
+    const admin = await admins.findOne({ _id: new ObjectId(session.sub) });
+    if (!admin || !admin.active || admin.sessionVersion !== session.ver) return null;
+
+    return { session, admin };
+}
+
+/**
+ * Returns the signed-in admin for the current request, with the
+ * role as it is in the database right now. Null if not signed in,
+ * the account was deactivated, its sessions were revoked, or the
+ * two-factor step hasn't been completed yet.
+ */
+export async function getAdminSession(): Promise<AdminSession | null> {
+    const current = await loadSessionAccount();
+    if (!current || current.session.mfaPending) return null;
+
+    const { session, admin } = current;
+    return { ...session, username: admin.username, role: admin.role };
+}
+
+/**
+ * Returns the account behind a half-finished login — password
+ * accepted, TOTP code still needed. Null for any other state.
+ */
+export async function getPendingMfaAdmin(): Promise<AdminAccount | null> {
+    const current = await loadSessionAccount();
+    if (!current || !current.session.mfaPending || !current.admin.totp) return null;
+    return current.admin;
+}
+
+/**
+ * Logs the current admin out everywhere: bumps sessionVersion so
+ * this session token — and any copy of it — stops working, not
+ * just the cookie in this browser.
+ */
+export async function revokeCurrentSession() {
+    const cookieStore = await cookies();
+    const session = await verifySession(cookieStore.get(ADMIN_SESSION_COOKIE)?.value);
+    if (!session || !ObjectId.isValid(session.sub)) return;
+
+    const admins = await getAdminsCollection();
+    await admins.updateOne(
+        { _id: new ObjectId(session.sub), sessionVersion: session.ver },
+        { $inc: { sessionVersion: 1 }, $set: { updatedAt: new Date() } }
+    );
+}
+
+/**
+ * Returns the current admin if they hold `permission`, else null.
+ * Usage in server actions:
+ *   const admin = await requirePermission("orders.manage");
+ *   if (!admin) return { success: false, error: FORBIDDEN };
+ */
+export async function requirePermission(permission: AdminPermission): Promise<AdminSession | null> {
+    const session = await getAdminSession();
+    return session && can(session.role, permission) ? session : null;
+}
+
+/**
+ * For admin pages: the signed-in admin, re-checked against the
+ * database like requirePermission (the middleware only checks
+ * the token's signature). Signed out, revoked or deactivated →
+ * login page; missing `permission` → dashboard.
+ */
+export async function requireAdminPage(permission?: AdminPermission): Promise<AdminSession> {
+    const session = await getAdminSession();
+    if (!session) redirect("/admin/login");
+    if (permission && !can(session.role, permission)) redirect("/admin");
+    return session;
+}
+
+export const FORBIDDEN = "You don't have permission to do that.";
@@ -0,0 +1,149 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: adminSession.ts
+// PURPOSE: Signed admin session tokens and role permissions.
+//          Tokens are `base64url(payload).base64url(HMAC-SHA256)`
+//          stored in the HttpOnly `admin_token` cookie.
+//          Admins with two-factor login first get a short-lived
+//          `mfaPending` token that only the TOTP step accepts.
+//          Uses only Web Crypto so it runs in middleware (edge
+//          runtime) as well as in route handlers and actions.
+//          No DB access — see adminAuth.ts for that.
+// LOCATION: src/lib/adminSession.ts
+// ═══════════════════════════════════════════════════════════════
+
+// ─── Roles & Permissions ───────────────────────────────────────
+
+export type AdminRole = "owner" | "moderator" | "support";
+
+export const ADMIN_ROLES: AdminRole[] = ["owner", "moderator", "support"];
+
+const ROLE_RANK: Record<AdminRole, number> = {
+    support: 1,
+    moderator: 2,
+    owner: 3,
+};
+
+/** Minimum role needed for each kind of admin action. */
+export const PERMISSIONS = {
+    "orders.view": "support",
+    "orders.manage": "moderator",       // Approve / reject / retry delivery / reconcile / edit pending
+    "orders.notes": "support",          // Internal notes on an order
+    "products.edit": "moderator",
+    "products.delete": "owner",
+    "coupons.manage": "moderator",
+    "giftcards.manage": "owner",        // Issuing credit is as good as handing out money
+    "creators.manage": "owner",         // Commission rates and payouts
+    "loyalty.adjust": "moderator",      // Add / take a player's loyalty points
+    "settings.edit": "owner",
+    "admins.manage": "owner",
+    "delivery.keys": "owner",
+    "store.seed": "owner",
+} as const satisfies Record<string, AdminRole>;
+
+export type AdminPermission = keyof typeof PERMISSIONS;
+
+export function can(role: AdminRole | undefined, permission: AdminPermission): boolean {
+    if (!role || !(role in ROLE_RANK)) return false;
+    return ROLE_RANK[role] >= ROLE_RANK[PERMISSIONS[permission]];
+}
+
+// ─── Session Tokens ────────────────────────────────────────────
+
+export const ADMIN_SESSION_COOKIE = "admin_token";
+export const ADMIN_SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 7 days (seconds)
+export const MFA_PENDING_MAX_AGE = 60 * 5;              // 5 minutes to enter the code
+
+export interface AdminSession {
+    sub: string;          // admins._id as a string
+    username: string;
+    role: AdminRole;
+    ver: number;          // admins.sessionVersion — bumped to log out everywhere
+    mfaPending?: boolean; // Password checked, TOTP code still needed
+    exp: number;          // Expiry (unix seconds)
+}
+
+/**
+ * The session signing secret. Never ADMIN_SECRET_KEY: that value
+ * used to sit in the old admin_token cookie and is still the setup
+ * key, so anyone who saw it could forge sessions. Missing (or the
+ * same as the setup key) → no sessions at all.
+ */
+function getSessionSecret(): string | null {
+    const secret = process.env.ADMIN_SESSION_SECRET;
+    if (!secret || secret === process.env.ADMIN_SECRET_KEY) return null;
+    return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function getKey(secret: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"]
+    );
+}
+
+/**
+ * Signs a session for an admin. Throws if no signing secret is
+ * configured — logins must fail loudly rather than issue tokens
+ * nobody can verify.
+ */
+export async function signSession(
+    session: Omit<AdminSession, "exp">,
+    maxAge = ADMIN_SESSION_MAX_AGE
+): Promise<string> {
+    const secret = getSessionSecret();
+    if (!secret) throw new Error("ADMIN_SESSION_SECRET is not set (or is the same as ADMIN_SECRET_KEY).");
+
+    const payload: AdminSession = {
+        ...session,
+        exp: Math.floor(Date.now() / 1000) + maxAge,
+    };
+    const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+    const signature = await crypto.subtle.sign("HMAC", await getKey(secret), new TextEncoder().encode(body));
+
+    return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a token's signature and expiry. Returns the session,
+ * or null for anything malformed, tampered with or expired.
+ */
+export async function verifySession(token: string | undefined): Promise<AdminSession | null> {
+    const secret = getSessionSecret();
+    if (!token || !secret) return null;
+
+    const [body, signature] = token.split(".");
+    if (!body || !signature) return null;
+
+    try {
+        const valid = await crypto.subtle.verify(
+            "HMAC",
+            await getKey(secret),
+            fromBase64Url(signature),
+            new TextEncoder().encode(body)
+        );
+        if (!valid) return null;
+
+        const session = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as AdminSession;
+        if (!session.sub || !ADMIN_ROLES.includes(session.role)) return null;
+        if (session.exp < Date.now() / 1000) return null;
+
+        return session;
+    } catch {
+        return null;
+    }
+}
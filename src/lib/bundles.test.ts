@@ -0,0 +1,67 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: bundles.test.ts
+// PURPOSE: Unit tests for bundle value and how a paid bundle
+//          line is split into component lines in whole paise.
+// LOCATION: src/lib/bundles.test.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { describe, expect, it } from "vitest";
+import type { Product } from "@/lib/data";
+import { type BundleLine, getBundleValue, splitBundleLine } from "@/lib/bundles";
+import { toPaise } from "@/lib/pricing";
+
+// ─── Fixtures ──────────────────────────────────────────────────
+
+function line(id: string, price: number, quantity = 1): BundleLine {
+    const product: Product = {
+        id,
+        name: id,
+        price,
+        category: "misc",
+        image: "",
+        description: "",
+        perks: [],
+    };
+    return { product, quantity };
+}
+
+function paiseSum(values: number[]): number {
+    return values.reduce((sum, v) => sum + toPaise(v), 0);
+}
+
+// ─── Value ─────────────────────────────────────────────────────
+
+describe("getBundleValue", () => {
+    it("adds up the contents without float drift", () => {
+        expect(getBundleValue([line("a", 0.1, 3), line("b", 0.2)])).toBe(0.5);
+    });
+});
+
+// ─── Splitting ─────────────────────────────────────────────────
+
+describe("splitBundleLine", () => {
+    it("shares the line total by each component's value", () => {
+        const parts = splitBundleLine([line("kit", 30), line("key", 10, 3)], 2, 120);
+        expect(parts.map((p) => p.lineTotal)).toEqual([60, 60]);
+        expect(parts.map((p) => p.quantity)).toEqual([2, 6]);
+    });
+
+    it("puts the left-over paise on the last component", () => {
+        const parts = splitBundleLine([line("a", 1), line("b", 1), line("c", 1)], 1, 10);
+        expect(parts.map((p) => p.lineTotal)).toEqual([3.33, 3.33, 3.34]);
+    });
+
+    it("always adds up to exactly what was paid", () => {
+        const lines = [line("a", 19.99, 2), line("b", 7.49), line("c", 0.99, 7)];
+        for (const total of [0.01, 9.99, 33.33, 49.5, 1234.56]) {
+            const parts = splitBundleLine(lines, 1, total);
+            expect(paiseSum(parts.map((p) => p.lineTotal))).toBe(toPaise(total));
+            expect(parts.every((p) => p.lineTotal >= 0)).toBe(true);
+        }
+    });
+
+    it("splits evenly when the contents have no value", () => {
+        const parts = splitBundleLine([line("a", 0), line("b", 0)], 1, 5);
+        expect(parts.map((p) => p.lineTotal)).toEqual([2.5, 2.5]);
+    });
+});
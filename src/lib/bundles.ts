@@ -0,0 +1,120 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: bundles.ts
+// PURPOSE: Helpers for bundle products — one product with its
+//          own price that delivers several other products
+//          (e.g. Starter Kit + 3x Common Key + 5000 Coins).
+//          • Resolving bundle items against the live catalog
+//          • Stock / value of the contents
+//          • Splitting a paid bundle line into component lines,
+//            so delivery runs each product's commands and the
+//            analytics count what was actually sold
+//          Pure functions — safe to use on the client too.
+// LOCATION: src/lib/bundles.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { type Product, getEffectivePrice, hasLimitedStock } from "@/lib/data";
+import { fromPaise, toPaise } from "@/lib/pricing";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+/** A bundle item resolved to its live product. */
+export interface BundleLine {
+    product: Product;
+    quantity: number;      // Per one bundle
+}
+
+/** A component line stored on an order item for a bundle. */
+export interface OrderComponent {
+    id: string;
+    name: string;
+    quantity: number;      // Total for the order line (bundle qty × item qty)
+    lineTotal: number;     // This component's share of the bundle's line total
+    giftCardValue?: number; // Gift card inside the bundle — minted on approval
+}
+
+// ─── Resolving ─────────────────────────────────────────────────
+
+export function isBundle(product: Product): boolean {
+    return Array.isArray(product.bundle) && product.bundle.length > 0;
+}
+
+/** Finds a product by its id or, for seeded products, its slug. */
+export function findCatalogProduct(catalog: Product[], ref: string): Product | undefined {
+    return catalog.find((p) => p.id === ref) ?? catalog.find((p) => p.slug === ref);
+}
+
+/**
+ * The live products inside a bundle. Returns null if any of them
+ * no longer exists (or is itself a bundle) — such a bundle can't
+ * be sold until an admin fixes it.
+ */
+export function getBundleLines(bundle: Product, catalog: Product[]): BundleLine[] | null {
+    const lines: BundleLine[] = [];
+    for (const item of bundle.bundle ?? []) {
+        const product = findCatalogProduct(catalog, item.id);
+        if (!product || isBundle(product)) return null;
+        lines.push({ product, quantity: Math.max(1, Math.floor(item.quantity) || 1) });
+    }
+    return lines;
+}
+
+/** Short list for cards, e.g. ["Starter Kit", "3x Common Crate Key"]. */
+export function describeBundle(lines: BundleLine[]): string[] {
+    return lines.map((line) =>
+        line.quantity > 1 ? `${line.quantity}x ${line.product.name}` : line.product.name
+    );
+}
+
+// ─── Stock & Value ─────────────────────────────────────────────
+
+/** Whether `bundles` of this bundle can't be filled from component stock. */
+export function isBundleSoldOut(lines: BundleLine[], bundles = 1): boolean {
+    return lines.some(
+        (line) => hasLimitedStock(line.product) && line.product.stock < line.quantity * bundles
+    );
+}
+
+/** What the contents would cost bought separately (for "Save X%"). */
+export function getBundleValue(lines: BundleLine[]): number {
+    return fromPaise(bundleValuePaise(lines));
+}
+
+function bundleValuePaise(lines: BundleLine[]): number {
+    return lines.reduce((sum, line) => sum + toPaise(getEffectivePrice(line.product)) * line.quantity, 0);
+}
+
+// ─── Order Lines ───────────────────────────────────────────────
+
+/**
+ * Splits a bundle's order line into its component lines. The
+ * line total is shared out in whole paise by each component's
+ * value, rounded down, with the left-over paise on the last line
+ * so the shares always add up to exactly what was paid.
+ */
+export function splitBundleLine(
+    lines: BundleLine[],
+    itemQuantity: number,
+    lineTotal: number
+): OrderComponent[] {
+    const totalPaise = toPaise(lineTotal);
+    const valuePaise = bundleValuePaise(lines);
+    let allocated = 0;
+
+    return lines.map((line, i) => {
+        const isLast = i === lines.length - 1;
+        const share = isLast
+            ? totalPaise - allocated
+            : valuePaise > 0
+                ? Math.floor((totalPaise * toPaise(getEffectivePrice(line.product)) * line.quantity) / valuePaise)
+                : Math.floor(totalPaise / lines.length);
+        allocated += share;
+
+        return {
+            id: line.product.id,
+            name: line.product.name,
+            quantity: line.quantity * itemQuantity,
+            lineTotal: fromPaise(share),
+            ...(line.product.giftCardValue && { giftCardValue: line.product.giftCardValue }),
+        };
+    });
+}
@@ -0,0 +1,144 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: couponCampaigns.ts
+// PURPOSE: Coupon campaigns — a batch of single-use codes made
+//          from one template (e.g. `DISCORD-XXXX`, every X a
+//          random character) that share one set of rules. Each
+//          code is a normal coupon with `campaignId` and
+//          maxUses 1, so checkout treats it like any other.
+//          Stats come from the codes' redemptions.
+// LOCATION: src/lib/couponCampaigns.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { randomBytes } from "crypto";
+import type { Db, ObjectId } from "mongodb";
+import type { Coupon, CouponRedemption, CouponRules } from "@/lib/coupons";
+import { isPaidStatus } from "@/lib/orderStatus";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface CouponCampaign {
+    _id?: ObjectId;
+    name: string;
+    template: string;
+    count: number;
+    type: Coupon["type"];
+    value: number;
+    minOrder: number;
+    expiresAt: Date | null;
+    rules: CouponRules;
+    createdBy: string;
+    createdAt: Date;
+}
+
+export interface CampaignStats {
+    redeemed: number;              // Codes used on orders that weren't rejected
+    paidOrders: number;            // …of which were paid (approved)
+    discount: number;              // ₹ given away on those orders
+    revenue: number;               // ₹ those paid orders brought in
+}
+
+// ─── Codes ─────────────────────────────────────────────────────
+
+export const CAMPAIGN_MAX_CODES = 1000;
+
+// No 0/O or 1/I — codes get typed in from Discord screenshots
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const TEMPLATE_PATTERN = /^[A-Z0-9-]{1,32}$/;
+const MIN_RANDOM = 4;
+
+/**
+ * Normalizes a template and checks it has enough X's to make
+ * codes that can't be guessed. Returns null if it's unusable.
+ */
+export function normalizeCodeTemplate(raw: unknown): string | null {
+    const template = typeof raw === "string" ? raw.toUpperCase().trim() : "";
+    if (!TEMPLATE_PATTERN.test(template)) return null;
+    if ((template.match(/X/g) ?? []).length < MIN_RANDOM) return null;
+    return template;
+}
+
+/** One code from a template — every X becomes a random character. */
+export function fillCodeTemplate(template: string): string {
+    const bytes = randomBytes(template.length);
+    return template.replace(/X/g, (_, i: number) => CODE_ALPHABET[bytes[i] & 31]);
+}
+
+/**
+ * `count` distinct codes from a template that no coupon uses
+ * yet. Gives up (null) if the template runs out of free codes.
+ */
+export async function generateCampaignCodes(db: Db, template: string, count: number): Promise<string[] | null> {
+    const codes = new Set<string>();
+
+    for (let attempt = 0; attempt < 5 && codes.size < count; attempt++) {
+        // Twice what's missing, so a few clashes don't need another round
+        const batch = new Set<string>();
+        for (let i = 0; i < (count - codes.size) * 2; i++) {
+            const code = fillCodeTemplate(template);
+            if (!codes.has(code)) batch.add(code);
+        }
+
+        const taken = await db
+            .collection("coupons")
+            .find({ code: { $in: [...batch] } }, { projection: { code: 1 } })
+            .toArray();
+        const takenCodes = new Set(taken.map((c) => c.code as string));
+        for (const code of batch) {
+            if (codes.size >= count) break;
+            if (!takenCodes.has(code)) codes.add(code);
+        }
+    }
+
+    return codes.size === count ? [...codes] : null;
+}
+
+// ─── Stats ─────────────────────────────────────────────────────
+
+/**
+ * Redemptions, discount and revenue per campaign. A redemption
+ * counts once its order exists and wasn't rejected; revenue is
+ * what approved orders paid (UPI + gift card credit).
+ */
+export async function getCampaignStats(db: Db, campaignIds: string[]): Promise<Map<string, CampaignStats>> {
+    const stats = new Map<string, CampaignStats>(
+        campaignIds.map((id) => [id, { redeemed: 0, paidOrders: 0, discount: 0, revenue: 0 }])
+    );
+
+    const codes = await db
+        .collection("coupons")
+        .find({ campaignId: { $in: campaignIds } }, { projection: { code: 1, campaignId: 1 } })
+        .toArray();
+    const campaignOf = new Map(codes.map((c) => [c.code as string, c.campaignId as string]));
+
+    const redemptions = await db
+        .collection<CouponRedemption>("couponRedemptions")
+        .find({ code: { $in: [...campaignOf.keys()] }, status: "reserved" })
+        .toArray();
+    const orders = await db
+        .collection("orders")
+        .find(
+            { orderId: { $in: redemptions.map((r) => r.orderId) } },
+            { projection: { orderId: 1, status: 1, total: 1, giftCard: 1 } }
+        )
+        .toArray();
+    const orderById = new Map(orders.map((o) => [o.orderId as string, o]));
+
+    for (const redemption of redemptions) {
+        const entry = stats.get(campaignOf.get(redemption.code) ?? "");
+        const order = orderById.get(redemption.orderId);
+        if (!entry || !order || order.status === "rejected") continue;
+
+        entry.redeemed++;
+        entry.discount += redemption.discount;
+        if (isPaidStatus(order.status)) {
+            entry.paidOrders++;
+            entry.revenue += (order.total ?? 0) + (order.giftCard?.amount ?? 0);
+        }
+    }
+
+    for (const entry of stats.values()) {
+        entry.discount = parseFloat(entry.discount.toFixed(2));
+        entry.revenue = parseFloat(entry.revenue.toFixed(2));
+    }
+    return stats;
+}
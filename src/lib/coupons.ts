@@ -0,0 +1,371 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: coupons.ts
+// PURPOSE: Coupon rules, shared by /api/coupons/validate (the
+//          cart preview) and /api/checkout (what is charged), so
+//          both accept a coupon the same way. The discount itself
+//          is worked out by priceCart (pricing.ts).
+//          A coupon is `percentage | flat` plus optional rules:
+//          • categories / productIds — only those cart lines count
+//          • startsAt / expiresAt — when it can be used
+//          • maxUses (everyone) and maxUsesPerPlayer (per buyer)
+//          • maxDiscount — cap in ₹, e.g. "20% off, up to ₹50"
+//          • firstOrderOnly — buyer has no earlier orders
+//          • stackable — may be combined with other coupons
+//          Gift card lines never get a coupon discount.
+//          Each use is a `couponRedemptions` document tied to its
+//          order. Checkout reserves uses with a conditional $inc
+//          (so the last use goes once); rejecting the order
+//          releases them again.
+// LOCATION: src/lib/coupons.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { MongoServerError, type Db, type ObjectId } from "mongodb";
+import type { Category } from "@/lib/data";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface Coupon {
+    code: string;
+    type: "percentage" | "flat";
+    value: number;
+    minOrder: number;              // Of the lines the coupon applies to
+    maxUses: number;               // -1 = unlimited
+    usedCount: number;
+    expiresAt: Date | null;
+    active: boolean;
+    // ─── Rules (missing = no restriction) ──────────────────
+    startsAt?: Date | null;
+    categories?: string[];         // Only lines in these categories
+    productIds?: string[];         // Only these products (database ids)
+    maxUsesPerPlayer?: number;     // Per buyer username
+    maxDiscount?: number;          // Cap in ₹ (percentage coupons)
+    firstOrderOnly?: boolean;
+    stackable?: boolean;
+}
+
+/** One cart line, as the coupon sees it. */
+export interface CouponLine {
+    id: string;
+    category: string;
+    giftCard?: boolean;            // Gift cards are never discounted
+}
+
+/** What the buyer has done before — needed for per-player rules. */
+export interface CouponPlayer {
+    username: string;
+    orderCount: number;            // Earlier orders that weren't rejected
+    uses: Map<string, number>;     // Coupon code → times used
+}
+
+/** One use of a coupon by one order. */
+export interface CouponRedemption {
+    _id?: ObjectId;
+    code: string;
+    orderId: string;               // ORD-… id
+    username: string;              // Buyer (not the gift recipient)
+    playerSlot?: string;           // "<buyer>#<n>" — the nth per-player use it holds
+    discount: number;              // ₹ it took off that order
+    status: "reserved" | "released";
+    createdAt: Date;
+    releasedAt?: Date;
+}
+
+export interface AppliedCoupon {
+    code: string;
+    type: Coupon["type"];
+    value: number;
+    discount: number;              // ₹ taken off by this coupon
+}
+
+// ─── Codes ─────────────────────────────────────────────────────
+
+export function normalizeCouponCode(raw: unknown): string {
+    return typeof raw === "string" ? raw.toUpperCase().trim() : "";
+}
+
+/**
+ * Coupon codes from a request — `couponCodes` (several, when
+ * stacking) or the older single `couponCode`. Duplicates dropped.
+ */
+export function readCouponCodes(body: { couponCode?: unknown; couponCodes?: unknown }): string[] {
+    const raw = Array.isArray(body.couponCodes) ? body.couponCodes : [body.couponCode];
+    return [...new Set(raw.map(normalizeCouponCode).filter(Boolean))];
+}
+
+// ─── Rules ─────────────────────────────────────────────────────
+
+/** Whether a coupon discounts this cart line. */
+export function couponAppliesToLine(coupon: Coupon, line: CouponLine): boolean {
+    if (line.giftCard) return false;
+    if (coupon.categories?.length && !coupon.categories.includes(line.category)) return false;
+    if (coupon.productIds?.length && !coupon.productIds.includes(line.id)) return false;
+    return true;
+}
+
+/**
+ * Why this coupon can't be used right now, or null if it can.
+ * `base` is what the coupon's lines add up to. Per-player rules
+ * are only checked when the player is known.
+ */
+export function checkCoupon(
+    coupon: Coupon,
+    base: number,
+    now: Date,
+    player: CouponPlayer | null
+): string | null {
+    if (!coupon.active) return "Invalid coupon code.";
+    if (coupon.startsAt && new Date(coupon.startsAt) > now) return "This coupon isn't active yet.";
+    if (coupon.expiresAt && new Date(coupon.expiresAt) < now) return "This coupon has expired.";
+    if (coupon.maxUses !== -1 && coupon.usedCount >= coupon.maxUses) {
+        return "This coupon has reached its usage limit.";
+    }
+    if (base <= 0) return "This coupon doesn't apply to anything in your cart.";
+    if (base < (coupon.minOrder || 0)) {
+        return `Minimum order of ₹${coupon.minOrder.toFixed(2)} required.`;
+    }
+
+    if (player) {
+        if (coupon.firstOrderOnly && player.orderCount > 0) {
+            return "This coupon is only for a player's first order.";
+        }
+        const used = player.uses.get(coupon.code) ?? 0;
+        if (coupon.maxUsesPerPlayer && used >= coupon.maxUsesPerPlayer) {
+            return `${player.username} has already used this coupon${coupon.maxUsesPerPlayer > 1 ? ` ${coupon.maxUsesPerPlayer} times` : ""}.`;
+        }
+    }
+    return null;
+}
+
+// ─── Admin Input ───────────────────────────────────────────────
+
+export type CouponRules = Required<Pick<
+    Coupon,
+    "startsAt" | "categories" | "productIds" | "maxUsesPerPlayer" | "maxDiscount" | "firstOrderOnly" | "stackable"
+>>;
+
+const RULE_CATEGORIES: Exclude<Category, "all">[] = ["ranks", "kits", "keys", "misc"];
+
+/**
+ * Reads the optional rules from an admin request body, for
+ * single coupons and campaigns alike. 0 / empty means "no
+ * restriction".
+ */
+export function readCouponRules(body: Record<string, unknown>): { rules: CouponRules } | { error: string } {
+    const startsAt = body.startsAt ? new Date(String(body.startsAt)) : null;
+    if (startsAt && isNaN(startsAt.getTime())) {
+        return { error: "Start date is invalid." };
+    }
+
+    const cats = Array.isArray(body.categories) ? body.categories.map(String) : [];
+    if (cats.some((c) => !(RULE_CATEGORIES as string[]).includes(c))) {
+        return { error: `Categories must be one of: ${RULE_CATEGORIES.join(", ")}.` };
+    }
+
+    const productIds = Array.isArray(body.productIds) ? body.productIds.map(String).filter(Boolean) : [];
+
+    const maxUsesPerPlayer = Number(body.maxUsesPerPlayer) || 0;
+    if (!Number.isInteger(maxUsesPerPlayer) || maxUsesPerPlayer < 0) {
+        return { error: "Uses per player must be a whole number." };
+    }
+
+    const maxDiscount = Number(body.maxDiscount) || 0;
+    if (maxDiscount < 0) {
+        return { error: "Max discount cannot be negative." };
+    }
+
+    return {
+        rules: {
+            startsAt,
+            categories: [...new Set(cats)],
+            productIds: [...new Set(productIds)],
+            maxUsesPerPlayer,
+            maxDiscount: parseFloat(maxDiscount.toFixed(2)),
+            firstOrderOnly: body.firstOrderOnly === true,
+            stackable: body.stackable === true,
+        },
+    };
+}
+
+/** Checks a discount type + value. Returns an error message or null. */
+export function checkCouponValue(type: unknown, value: unknown): string | null {
+    if (type !== "percentage" && type !== "flat") return "Type must be 'percentage' or 'flat'.";
+    if (typeof value !== "number" || value <= 0) return "Value must be a positive number.";
+    if (type === "percentage" && value > 100) return "Percentage discount cannot exceed 100%.";
+    return null;
+}
+
+// ─── Database ──────────────────────────────────────────────────
+
+/** Loads coupons in the order given. Missing codes are returned in `missing`. */
+export async function findCoupons(db: Db, codes: string[]): Promise<{ coupons: Coupon[]; missing: string[] }> {
+    const docs = await db
+        .collection<Coupon>("coupons")
+        .find({ code: { $in: codes } }, { projection: { _id: 0 } })
+        .toArray();
+    const coupons: Coupon[] = [];
+    const missing: string[] = [];
+    for (const code of codes) {
+        const coupon = docs.find((c) => c.code === code);
+        if (coupon) coupons.push(coupon);
+        else missing.push(code);
+    }
+    return { coupons, missing };
+}
+
+/**
+ * The buyer's earlier orders (not rejected): how many there are
+ * and how often each coupon was used. For gifts the buyer is
+ * `gift.buyerUsername`, not the recipient.
+ */
+export async function getCouponPlayer(db: Db, username: string): Promise<CouponPlayer> {
+    const orders = await db
+        .collection("orders")
+        .find(
+            {
+                status: { $ne: "rejected" },
+                $or: [
+                    { minecraftUsername: username, gift: { $exists: false } },
+                    { "gift.buyerUsername": username },
+                ],
+            },
+            {
+                projection: { couponCode: 1, coupons: 1 },
+                // Minecraft names are case-insensitive
+                collation: { locale: "en", strength: 2 },
+            }
+        )
+        .toArray();
+
+    const uses = new Map<string, number>();
+    for (const order of orders) {
+        const codes: string[] = Array.isArray(order.coupons)
+            ? order.coupons.map((c: { code: string }) => c.code)
+            : order.couponCode ? [order.couponCode] : [];
+        for (const code of codes) uses.set(code, (uses.get(code) ?? 0) + 1);
+    }
+
+    return { username, orderCount: orders.length, uses };
+}
+
+/** Whether any of these coupons needs to know who the buyer is. */
+export function needsPlayer(coupons: Coupon[]): boolean {
+    return coupons.some((c) => c.firstOrderOnly || (c.maxUsesPerPlayer ?? 0) > 0);
+}
+
+// ─── Redemptions ───────────────────────────────────────────────
+
+let indexReady = false;
+
+async function getRedemptions(db: Db) {
+    const redemptions = db.collection<CouponRedemption>("couponRedemptions");
+    if (!indexReady) {
+        await redemptions.createIndex({ code: 1, orderId: 1 }, { unique: true });
+        await redemptions.createIndex({ orderId: 1 });
+        // One live redemption per per-player use, so two checkouts
+        // can't both take a player's last use of a coupon
+        await redemptions.createIndex(
+            { code: 1, playerSlot: 1 },
+            { unique: true, partialFilterExpression: { status: "reserved", playerSlot: { $exists: true } } }
+        );
+        indexReady = true;
+    }
+    return redemptions;
+}
+
+/**
+ * Takes one use of each coupon for an order. The $inc only
+ * matches while a use is left, so two checkouts racing for the
+ * last use can't both get it. Coupons limited per player also
+ * take one of the buyer's numbered slots — a unique redemption
+ * per coupon + player + slot — so racing checkouts by the same
+ * player can't go over the limit either (firstOrderOnly counts
+ * as one slot). All-or-nothing: on failure the uses already
+ * taken are put back and the coupon is returned.
+ */
+export async function reserveCoupons(
+    db: Db,
+    applied: { code: string; discount: number }[],
+    orderId: string,
+    username: string
+): Promise<{ ok: true } | { ok: false; code: string; error: string }> {
+    const redemptions = await getRedemptions(db);
+    const coupons = db.collection<Coupon>("coupons");
+
+    for (const coupon of applied) {
+        const taken = await coupons.findOneAndUpdate(
+            {
+                code: coupon.code,
+                active: true,
+                $or: [{ maxUses: -1 }, { $expr: { $lt: ["$usedCount", "$maxUses"] } }],
+            },
+            { $inc: { usedCount: 1 } }
+        );
+        if (!taken) {
+            await releaseCoupons(db, orderId);
+            return { ok: false, code: coupon.code, error: "This coupon has just reached its usage limit." };
+        }
+
+        const perPlayer = taken.firstOrderOnly ? 1 : taken.maxUsesPerPlayer ?? 0;
+        const redemption: CouponRedemption = {
+            code: coupon.code,
+            orderId,
+            username,
+            discount: coupon.discount,
+            status: "reserved",
+            createdAt: new Date(),
+        };
+
+        let reserved = perPlayer <= 0;
+        if (reserved) {
+            await redemptions.insertOne(redemption);
+        }
+        for (let slot = 1; !reserved && slot <= perPlayer; slot++) {
+            try {
+                await redemptions.insertOne({ ...redemption, playerSlot: `${username.toLowerCase()}#${slot}` });
+                reserved = true;
+            } catch (error) {
+                if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+            }
+        }
+        if (!reserved) {
+            // Every slot is held by another order — give this use back
+            await coupons.updateOne({ code: coupon.code, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+            await releaseCoupons(db, orderId);
+            return { ok: false, code: coupon.code, error: `${username} has already used this coupon.` };
+        }
+    }
+
+    return { ok: true };
+}
+
+/**
+ * Gives back an order's coupon uses (order rejected or never
+ * saved). Each redemption flips to "released" before its use is
+ * returned, so running this twice doesn't return it twice.
+ */
+export async function releaseCoupons(db: Db, orderId: string) {
+    const redemptions = await getRedemptions(db);
+    const reserved = await redemptions.find({ orderId, status: "reserved" }).toArray();
+
+    for (const redemption of reserved) {
+        const released = await redemptions.updateOne(
+            { _id: redemption._id, status: "reserved" },
+            { $set: { status: "released", releasedAt: new Date() } }
+        );
+        if (released.modifiedCount !== 1) continue;
+        await db.collection("coupons").updateOne(
+            { code: redemption.code, usedCount: { $gt: 0 } },
+            { $inc: { usedCount: -1 } }
+        );
+    }
+}
+
+/** Redemptions of the given coupons, newest first — for the admin panel. */
+export async function getCouponRedemptions(db: Db, codes: string[]): Promise<CouponRedemption[]> {
+    const redemptions = await getRedemptions(db);
+    return redemptions
+        .find({ code: { $in: codes } })
+        .sort({ createdAt: -1 })
+        .limit(2000)
+        .toArray();
+}
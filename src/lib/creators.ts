@@ -0,0 +1,183 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: creators.ts
+// PURPOSE: Creator (referral) codes. A creator code is a normal
+//          coupon with a `creator` block: the buyer gets the
+//          coupon's discount, the creator earns a commission
+//          when the order is approved.
+//          • Commission is stored on the order itself
+//            (`creatorCommission`) when it is approved
+//          • Payouts mark those orders paid — no extra ledger
+//          • Creators see their earnings at /creator/<token>;
+//            only a SHA-256 hash of the link token is stored
+// LOCATION: src/lib/creators.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { createHash, randomBytes } from "crypto";
+import type { Db, ObjectId, WithId } from "mongodb";
+import type { Coupon } from "@/lib/coupons";
+import { earningBasePaise } from "@/lib/giftCards";
+import { fromPaise, toPaise } from "@/lib/pricing";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+/** The `creator` block on a coupon. */
+export interface CreatorInfo {
+    name: string;
+    commissionPercent: number;     // Of what the buyer paid
+    tokenHash: string;             // sha256 of the dashboard link token
+    tokenPrefix: string;           // First characters, to tell links apart
+    createdAt: Date;
+}
+
+export type CreatorCoupon = WithId<Coupon & { creator: CreatorInfo }>;
+
+/** Stored on an approved order that used a creator code. */
+export interface CreatorCommission {
+    couponId: string;              // coupons._id — survives renaming the code
+    code: string;
+    creator: string;
+    percent: number;
+    base: number;                  // ₹ UPI paid, less gift card lines (earningBasePaise)
+    amount: number;                // ₹ owed to the creator
+    earnedAt: Date;
+    paidAt: Date | null;
+    paidBy?: string;
+}
+
+export interface CreatorEarnings {
+    orders: number;
+    sales: number;                 // ₹ of those orders
+    earned: number;
+    paid: number;
+    owed: number;
+    lastPayoutAt: Date | null;
+}
+
+export const COMMISSION_MAX_PERCENT = 50;
+
+// ─── Link Tokens ───────────────────────────────────────────────
+
+const TOKEN_PREFIX = "crt_";
+
+export function hashCreatorToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+/** A new dashboard token. Only its hash is saved. */
+export function generateCreatorToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+    const token = TOKEN_PREFIX + randomBytes(24).toString("hex");
+    return { token, tokenHash: hashCreatorToken(token), tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+/** The creator coupon behind a dashboard link, or null. */
+export async function findCreatorByToken(db: Db, token: string): Promise<CreatorCoupon | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+    return db
+        .collection<Coupon & { creator: CreatorInfo }>("coupons")
+        .findOne({ "creator.tokenHash": hashCreatorToken(token) });
+}
+
+// ─── Commission ────────────────────────────────────────────────
+
+/**
+ * Records the creator's commission on an approved order, if it
+ * used a creator code. Runs once per order — the $exists check
+ * makes a second approval attempt a no-op.
+ */
+export async function creditCreatorCommission(db: Db, orderMongoId: ObjectId) {
+    const order = await db.collection("orders").findOne({ _id: orderMongoId, creatorCommission: { $exists: false } });
+    if (!order) return;
+
+    const codes: string[] = Array.isArray(order.coupons)
+        ? order.coupons.map((c: { code: string }) => c.code)
+        : order.couponCode ? [order.couponCode] : [];
+    if (codes.length === 0) return;
+
+    const coupon = await db
+        .collection<Coupon & { creator: CreatorInfo }>("coupons")
+        .findOne({ code: { $in: codes }, creator: { $exists: true } });
+    if (!coupon) return;
+
+    // Gift card credit and gift card lines earn no commission
+    const base = earningBasePaise({ total: order.total, items: order.items });
+    const commission: CreatorCommission = {
+        couponId: coupon._id.toString(),
+        code: coupon.code,
+        creator: coupon.creator.name,
+        percent: coupon.creator.commissionPercent,
+        base: fromPaise(base),
+        amount: fromPaise(Math.round((base * coupon.creator.commissionPercent) / 100)),
+        earnedAt: new Date(),
+        paidAt: null,
+    };
+
+    await db.collection("orders").updateOne(
+        { _id: orderMongoId, creatorCommission: { $exists: false } },
+        { $set: { creatorCommission: commission } }
+    );
+}
+
+/** Earnings per creator coupon (keyed by coupons._id string). */
+export async function getCreatorEarnings(db: Db, couponIds: string[]): Promise<Map<string, CreatorEarnings>> {
+    const earnings = new Map<string, CreatorEarnings>(
+        couponIds.map((id) => [id, { orders: 0, sales: 0, earned: 0, paid: 0, owed: 0, lastPayoutAt: null }])
+    );
+
+    const orders = await db
+        .collection("orders")
+        .find(
+            { "creatorCommission.couponId": { $in: couponIds } },
+            { projection: { creatorCommission: 1 } }
+        )
+        .toArray();
+
+    for (const order of orders) {
+        const commission = order.creatorCommission as CreatorCommission;
+        const entry = earnings.get(commission.couponId);
+        if (!entry) continue;
+        entry.orders++;
+        entry.sales += toPaise(commission.base);
+        entry.earned += toPaise(commission.amount);
+        if (commission.paidAt) {
+            entry.paid += toPaise(commission.amount);
+            if (!entry.lastPayoutAt || commission.paidAt > entry.lastPayoutAt) entry.lastPayoutAt = commission.paidAt;
+        }
+    }
+
+    // Summed in paise above
+    for (const entry of earnings.values()) {
+        entry.owed = fromPaise(entry.earned - entry.paid);
+        entry.sales = fromPaise(entry.sales);
+        entry.earned = fromPaise(entry.earned);
+        entry.paid = fromPaise(entry.paid);
+    }
+    return earnings;
+}
+
+/**
+ * Marks every unpaid commission for a creator as paid out now.
+ * Returns how many orders and how much that covered.
+ */
+export async function recordCreatorPayout(
+    db: Db,
+    couponId: string,
+    paidBy: string
+): Promise<{ orders: number; amount: number }> {
+    const unpaid = await db
+        .collection("orders")
+        .find(
+            { "creatorCommission.couponId": couponId, "creatorCommission.paidAt": null },
+            { projection: { creatorCommission: 1 } }
+        )
+        .toArray();
+    if (unpaid.length === 0) return { orders: 0, amount: 0 };
+
+    // Only the orders summed above — a commission earned meanwhile waits for the next payout
+    await db.collection("orders").updateMany(
+        { _id: { $in: unpaid.map((o) => o._id) }, "creatorCommission.paidAt": null },
+        { $set: { "creatorCommission.paidAt": new Date(), "creatorCommission.paidBy": paidBy } }
+    );
+
+    const amount = unpaid.reduce((sum, o) => sum + toPaise((o.creatorCommission as CreatorCommission).amount), 0);
+    return { orders: unpaid.length, amount: fromPaise(amount) };
+}
@@ -8,6 +8,8 @@
 // LOCATION: src/lib/data.ts
 // ============================================================================
 
+import { fromPaise, isSaleActive, salePricePaise } from "@/lib/pricing";
+
 // ─── Type Definitions ──────────────────────────────────────────
 
 /**
@@ -42,6 +44,72 @@ export interface Product {
   salePercent?: number;    // Discount percentage, e.g. 50 means "50% OFF"
   saleStartAt?: string;    // When the sale starts (ISO date string). Optional.
   saleEndAt?: string;      // When the sale ends (ISO date string). Optional.
+
+  // ─── Delivery Commands (set via Admin Panel) ────────────
+  // Console commands run over RCON when an order is approved.
+  // Placeholders: {username}, {quantity}, {orderId}, {edition}, {product}, {uuid}
+  // Example: "lp user {username} parent add king"
+  commands?: string[];
+
+  // ─── Inventory (set via Admin Panel) ────────────────────
+  // How many are left. Missing / null means unlimited.
+  // Decremented when an order is placed, restored if rejected.
+  stock?: number | null;
+
+  // ─── Purchase Rules (set via Admin Panel) ───────────────
+  // Products on the same ladder replace each other: a player who
+  // owns a lower tier pays only the difference for a higher one
+  // and can't buy a tier at or below what they already own.
+  ladder?: string;         // e.g. "ranks"
+  tier?: number;           // Position on the ladder (1 = lowest)
+  maxPerPlayer?: number;   // Times one player may buy it. Missing = no limit
+
+  // ─── Bundle (set via Admin Panel) ───────────────────────
+  // A bundle is sold at its own `price` but delivers the listed
+  // products. Items refer to other products by id or slug.
+  bundle?: BundleItem[];
+
+  // ─── Gift Card (set via Admin Panel) ────────────────────
+  // Buying this mints a redeemable store-credit code worth this
+  // many ₹ when the order is approved. See giftCards.ts.
+  giftCardValue?: number;
+
+  // Original slug of a product loaded from MongoDB, where `id`
+  // is the database id. Lets bundles refer to seeded products.
+  slug?: string;
+}
+
+/** One product inside a bundle, e.g. { id: "key-common", quantity: 3 } */
+export interface BundleItem {
+  id: string;
+  quantity: number;
+}
+
+/**
+ * LOW_STOCK_THRESHOLD — At or below this many left, cards show
+ * "Only X left" to nudge buyers.
+ */
+export const LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * hasLimitedStock — True if the admin set a stock count for this product.
+ */
+export function hasLimitedStock(product: Product): product is Product & { stock: number } {
+  return typeof product.stock === "number";
+}
+
+/**
+ * isSoldOut — True if the product has limited stock and none is left.
+ */
+export function isSoldOut(product: Product): boolean {
+  return hasLimitedStock(product) && product.stock <= 0;
+}
+
+/**
+ * isLowStock — True if only a few are left (but not sold out).
+ */
+export function isLowStock(product: Product): boolean {
+  return hasLimitedStock(product) && product.stock > 0 && product.stock <= LOW_STOCK_THRESHOLD;
 }
 
 /**
@@ -62,22 +130,13 @@ export interface Product {
  *   - If salePercent + saleStartAt + saleEndAt → active only within the window
  *
  * @param product — The product to check
+ * @param now — The moment to check against (defaults to now)
  * @returns true if the sale is currently active, false otherwise
  */
-export function isProductOnSale(product: Product): boolean {
-  // Step 1: No discount or 0% discount? → no sale
-  if (!product.salePercent || product.salePercent <= 0) return false;
-
-  const now = Date.now(); // Current time in milliseconds
-
-  // Step 2: Sale hasn't started yet?
-  if (product.saleStartAt && now < new Date(product.saleStartAt).getTime()) return false;
-
-  // Step 3: Sale has already ended?
-  if (product.saleEndAt && now > new Date(product.saleEndAt).getTime()) return false;
-
-  // Step 4: All checks passed — the sale is active! 🎉
-  return true;
+export function isProductOnSale(product: Product, now: Date = new Date()): boolean {
+  // The actual checks live in pricing.ts, so the cart, coupon check
+  // and checkout all agree on whether a sale is running
+  return isSaleActive(product, now);
 }
 
 /**
@@ -90,17 +149,15 @@ export function isProductOnSale(product: Product): boolean {
  *   Original price: ₹100, Sale: 30% OFF
  *   Effective price: ₹100 × (1 - 30/100) = ₹100 × 0.70 = ₹70.00
  *
+ * The math is done in whole paise by pricing.ts (₹70.00 = 7000 paise),
+ * so it never drifts from what checkout charges.
+ *
  * @param product — The product to calculate price for
+ * @param now — The moment to check the sale against (defaults to now)
  * @returns The final price in ₹ (with discount applied if applicable)
  */
-export function getEffectivePrice(product: Product): number {
-  if (isProductOnSale(product)) {
-    // Calculate discounted price: originalPrice × (1 - discountPercent/100)
-    // parseFloat + toFixed(2) ensures we get a clean number like 70.00
-    return parseFloat((product.price * (1 - product.salePercent! / 100)).toFixed(2));
-  }
-  // No sale active → return the original price as-is
-  return product.price;
+export function getEffectivePrice(product: Product, now: Date = new Date()): number {
+  return fromPaise(salePricePaise(product, now));
 }
 
 /**
@@ -148,6 +205,10 @@ export const products: Product[] = [
       "Priority queue access",
     ],
     badge: "Starter",
+    commands: ["lp user {username} parent add warrior"],
+    ladder: "ranks",
+    tier: 1,
+    maxPerPlayer: 1,
   },
   {
     id: "rank-knight",
@@ -166,6 +227,10 @@ export const products: Product[] = [
     ],
     popular: true,
     badge: "Popular",
+    commands: ["lp user {username} parent add knight"],
+    ladder: "ranks",
+    tier: 2,
+    maxPerPlayer: 1,
   },
   {
     id: "rank-king",
@@ -185,6 +250,10 @@ export const products: Product[] = [
       "Priority support access",
     ],
     badge: "Premium",
+    commands: ["lp user {username} parent add king"],
+    ladder: "ranks",
+    tier: 3,
+    maxPerPlayer: 1,
   },
   {
     id: "rank-emperor",
@@ -206,6 +275,10 @@ export const products: Product[] = [
     ],
     badge: "Legendary",
     popular: true,
+    commands: ["lp user {username} parent add emperor"],
+    ladder: "ranks",
+    tier: 4,
+    maxPerPlayer: 1,
   },
 
   // ══════════════════════
@@ -277,6 +350,7 @@ export const products: Product[] = [
       "Small money reward",
       "Common cosmetic chance",
     ],
+    commands: ["crate key give {username} common {quantity}"],
   },
   {
     id: "key-rare",
@@ -293,6 +367,7 @@ export const products: Product[] = [
       "Experience bottle x32",
     ],
     badge: "Value",
+    commands: ["crate key give {username} rare {quantity}"],
   },
   {
     id: "key-legendary",
@@ -311,6 +386,27 @@ export const products: Product[] = [
     ],
     popular: true,
     badge: "Hot",
+    commands: ["crate key give {username} legendary {quantity}"],
+  },
+
+  {
+    id: "bundle-starter",
+    name: "Starter Bundle",
+    price: 8.99,
+    category: "kits",
+    image: "/images/starter-kit.png",
+    description: "Everything a new player needs — kit, keys and coins in one.",
+    perks: [
+      "Starter Kit",
+      "3x Common Crate Key",
+      "5000 Server Coins",
+    ],
+    badge: "Bundle",
+    bundle: [
+      { id: "kit-starter", quantity: 1 },
+      { id: "key-common", quantity: 3 },
+      { id: "misc-coins", quantity: 1 },
+    ],
   },
 
   // ══════════════════════
@@ -360,6 +456,21 @@ export const products: Product[] = [
       "Change anytime with /nick",
     ],
   },
+  {
+    id: "misc-giftcard",
+    name: "₹10 Gift Card",
+    price: 10,
+    category: "misc",
+    image: "/images/giftcard.png",
+    description: "Store credit for a friend — or for later.",
+    perks: [
+      "Code emailed and added to your account once approved",
+      "Use it for part or all of any order",
+      "Leftover balance stays on the card",
+    ],
+    badge: "Gift",
+    giftCardValue: 10,
+  },
 ];
 
 // ─── Recent Purchases (Mock Ticker Data) ───────────────────────
@@ -0,0 +1,311 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: delivery.ts
+// PURPOSE: In-game delivery of approved orders. Expands each
+//          product's command templates for the order, runs them
+//          over RCON and records a result per command on the
+//          order document so failed commands can be retried
+//          without re-running the ones that already worked.
+//          Commands that timed out are "unknown" — they may have
+//          run — and wait for staff instead of being retried.
+//          Retries and order status changes are owned by the
+//          delivery queue (see deliveryQueue.ts).
+// LOCATION: src/lib/delivery.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { ObjectId } from "mongodb";
+import { connectToDatabase } from "@/lib/mongodb";
+import { runRconCommands, type RconConfig } from "@/lib/rcon";
+import { getLiveStoreProducts } from "@/app/actions/productActions";
+import type { Product } from "@/lib/data";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+// unknown = sent but never answered; staff check in-game
+export type DeliveryCommandStatus = "pending" | "success" | "failed" | "unknown";
+
+export interface DeliveryCommand {
+    command: string;             // Fully rendered command (no templates left)
+    productId: string;
+    status: DeliveryCommandStatus;
+    response?: string;
+    error?: string;
+    executedAt?: Date | string;
+}
+
+export interface OrderDelivery {
+    attempts: number;
+    commands: DeliveryCommand[];
+    lastAttemptAt?: Date | string;
+    lastError?: string;
+}
+
+interface DeliverableOrder {
+    orderId: string;
+    minecraftUsername: string;
+    edition: string;
+    playerId?: string;           // Java UUID / Bedrock XUID, when checkout resolved it
+    items: (DeliverableLine & { components?: DeliverableLine[] })[];
+    delivery?: OrderDelivery;
+}
+
+interface DeliverableLine {
+    id: string;
+    name: string;
+    quantity: number;
+}
+
+// ─── Settings ──────────────────────────────────────────────────
+
+/**
+ * Reads RCON connection details from the environment.
+ * Returns null when RCON is not configured so callers can skip
+ * delivery instead of failing the approval.
+ */
+export function getRconConfig(): RconConfig | null {
+    const host = process.env.RCON_HOST;
+    const password = process.env.RCON_PASSWORD;
+    if (!host || !password) return null;
+
+    return {
+        host,
+        port: parseInt(process.env.RCON_PORT || "25575"),
+        password,
+    };
+}
+
+// ─── Command Templates ─────────────────────────────────────────
+
+/**
+ * Replaces {placeholders} in a command template.
+ * Supported: {username}, {quantity}, {orderId}, {edition}, {product},
+ * {uuid} (the player's UUID / XUID — the username if unknown)
+ * Unknown placeholders are left untouched so typos are visible
+ * in the recorded command instead of silently disappearing.
+ */
+export function renderCommand(template: string, vars: Record<string, string | number>): string {
+    return template
+        .replace(/^\//, "") // RCON commands are sent without the leading slash
+        .replace(/\{(\w+)\}/g, (match, key: string) =>
+            key in vars ? String(vars[key]) : match
+        );
+}
+
+/**
+ * Expands every order item into its rendered delivery commands.
+ * A bundle runs its own commands (if any), then those of every
+ * product inside it with the bundled quantity.
+ */
+export function buildDeliveryCommands(order: DeliverableOrder, products: Product[]): DeliveryCommand[] {
+    const commands: DeliveryCommand[] = [];
+    const lines = order.items.flatMap((item) => [item, ...(item.components ?? [])]);
+
+    for (const item of lines) {
+        const product = products.find((p) => p.id === item.id);
+        for (const template of product?.commands || []) {
+            if (!template.trim()) continue;
+            commands.push({
+                command: renderCommand(template.trim(), {
+                    username: order.minecraftUsername,
+                    quantity: item.quantity,
+                    orderId: order.orderId,
+                    edition: order.edition,
+                    product: item.name,
+                    uuid: order.playerId ?? order.minecraftUsername,
+                }),
+                productId: item.id,
+                status: "pending",
+            });
+        }
+    }
+
+    return commands;
+}
+
+/**
+ * Servers answer failed commands with a normal text reply, so we
+ * look for the usual vanilla / plugin error phrases.
+ */
+export function looksLikeCommandError(response: string): boolean {
+    return /unknown (or incomplete )?command|incorrect argument|no player was found|player not found|could not find/i.test(response);
+}
+
+// ─── Deliver Order ─────────────────────────────────────────────
+
+/**
+ * Returns the commands snapshotted on the order, or renders them
+ * from the live products on the first attempt. The snapshot means
+ * later product edits never change what an order delivers.
+ */
+export async function getOrderCommands(order: DeliverableOrder): Promise<DeliveryCommand[]> {
+    return order.delivery?.commands
+        ?? buildDeliveryCommands(order, await getLiveStoreProducts());
+}
+
+/**
+ * Runs the pending commands of an order over RCON once and saves
+ * the per-command results. Commands that succeeded — or may have,
+ * "unknown" — are never sent again. Returns whether everything is
+ * now delivered, and whether staff must check unknown commands
+ * before anything is retried.
+ */
+export async function attemptDelivery(
+    mongoId: string
+): Promise<{ delivered: boolean; needsReview: boolean; delivery: OrderDelivery } | null> {
+    const db = await connectToDatabase();
+    const ordersCol = db.collection("orders");
+    const order = await ordersCol.findOne({ _id: new ObjectId(mongoId) });
+    if (!order) return null;
+
+    let commands = await getOrderCommands(order as unknown as DeliverableOrder);
+    const attempts = ((order.delivery as OrderDelivery | undefined)?.attempts ?? 0) + 1;
+    const now = new Date();
+
+    const toRun = commands.filter((c) => c.status === "pending" || c.status === "failed");
+    let lastError: string | undefined;
+
+    if (toRun.length > 0) {
+        const config = getRconConfig();
+        if (!config) {
+            lastError = "RCON is not configured (RCON_HOST / RCON_PASSWORD).";
+        } else {
+            try {
+                const results = await runRconCommands(config, toRun.map((c) => c.command));
+                let r = 0;
+                commands = commands.map((c) => {
+                    if (c.status === "success" || c.status === "unknown") return c;
+                    const result = results[r++];
+                    const failed = !result.ok || looksLikeCommandError(result.response || "");
+                    return {
+                        ...c,
+                        status: result.unknown ? "unknown" : failed ? "failed" : "success",
+                        response: result.response,
+                        error: result.error,
+                        executedAt: now,
+                    };
+                });
+            } catch (error) {
+                lastError = error instanceof Error ? error.message : String(error);
+            }
+        }
+    }
+
+    const allDone = !lastError && commands.every((c) => c.status === "success");
+    const unknown = commands.filter((c) => c.status === "unknown").length;
+    if (unknown > 0) {
+        lastError = `${unknown} command(s) got no reply — check in-game whether they ran`;
+    } else if (!allDone && !lastError) {
+        lastError = `${commands.filter((c) => c.status !== "success").length} command(s) failed`;
+    }
+
+    const delivery: OrderDelivery = {
+        attempts,
+        commands,
+        lastAttemptAt: now,
+        ...(lastError && { lastError }),
+    };
+
+    await ordersCol.updateOne(
+        { _id: order._id },
+        { $set: { delivery, updatedAt: now } }
+    );
+
+    return { delivered: allDone, needsReview: unknown > 0, delivery };
+}
+
+/**
+ * Settles an order's "unknown" commands once staff have checked
+ * in-game: `ran` marks them delivered, otherwise they go back to
+ * "failed" so the next retry sends them again. Returns how many
+ * commands changed.
+ */
+export async function resolveUnknownCommands(mongoId: string, ran: boolean): Promise<number> {
+    const db = await connectToDatabase();
+    const ordersCol = db.collection("orders");
+    const order = await ordersCol.findOne({ _id: new ObjectId(mongoId) });
+    const delivery = order?.delivery as OrderDelivery | undefined;
+    if (!order || !delivery) return 0;
+
+    let changed = 0;
+    const commands = delivery.commands.map((c) => {
+        if (c.status !== "unknown") return c;
+        changed++;
+        return { ...c, status: ran ? "success" as const : "failed" as const };
+    });
+    if (changed === 0) return 0;
+
+    // Only if nothing changed meanwhile
+    const result = await ordersCol.updateOne(
+        { _id: order._id, "delivery.lastAttemptAt": delivery.lastAttemptAt },
+        { $set: { "delivery.commands": commands, updatedAt: new Date() } }
+    );
+    return result.modifiedCount === 1 ? changed : 0;
+}
+
+// ─── Plugin Delivery ───────────────────────────────────────────
+
+/**
+ * Loads an order for a plugin and snapshots its commands on the
+ * first hand-out, so every retry sends exactly the same list.
+ */
+export async function prepareOrderCommands(
+    mongoId: string
+): Promise<{ order: DeliverableOrder; commands: DeliveryCommand[] } | null> {
+    const db = await connectToDatabase();
+    const ordersCol = db.collection("orders");
+    const doc = await ordersCol.findOne({ _id: new ObjectId(mongoId) });
+    if (!doc) return null;
+
+    const order = doc as unknown as DeliverableOrder;
+    const commands = await getOrderCommands(order);
+    if (!order.delivery) {
+        await ordersCol.updateOne(
+            { _id: doc._id, delivery: { $exists: false } },
+            { $set: { delivery: { attempts: 0, commands } } }
+        );
+    }
+
+    return { order, commands };
+}
+
+/**
+ * Saves the outcome of a delivery that a server-side plugin ran
+ * itself (pull mode). `failedCommands` lists the commands the
+ * plugin reported as failed; everything else counts as done.
+ */
+export async function recordPluginDelivery(
+    mongoId: string,
+    success: boolean,
+    failedCommands: string[] = [],
+    error?: string
+): Promise<OrderDelivery | null> {
+    const db = await connectToDatabase();
+    const ordersCol = db.collection("orders");
+    const order = await ordersCol.findOne({ _id: new ObjectId(mongoId) });
+    if (!order) return null;
+
+    const now = new Date();
+    const commands = (await getOrderCommands(order as unknown as DeliverableOrder)).map((c) => {
+        if (c.status === "success") return c;
+        const failed = !success && (failedCommands.length === 0 || failedCommands.includes(c.command));
+        return {
+            ...c,
+            status: failed ? "failed" as const : "success" as const,
+            ...(failed && error && { error }),
+            executedAt: now,
+        };
+    });
+
+    const delivery: OrderDelivery = {
+        attempts: ((order.delivery as OrderDelivery | undefined)?.attempts ?? 0) + 1,
+        commands,
+        lastAttemptAt: now,
+        ...(!success && { lastError: error || "Plugin reported a failed delivery" }),
+    };
+
+    await ordersCol.updateOne(
+        { _id: order._id },
+        { $set: { delivery, updatedAt: now } }
+    );
+
+    return delivery;
+}
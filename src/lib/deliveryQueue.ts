@@ -0,0 +1,370 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: deliveryQueue.ts
+// PURPOSE: Persisted delivery job queue in the `deliveryJobs`
+//          MongoDB collection. One job per approved order.
+//          Jobs are claimed atomically, retried with exponential
+//          backoff, and moved to the dead-letter state ("dead")
+//          after too many failures so staff can requeue them
+//          from the admin panel.
+//          Jobs run over one of two channels:
+//            rcon   — the worker pushes commands over RCON
+//            plugin — a server-side plugin pulls them from
+//                     /api/delivery/pending and acks the result.
+//                     A lease that expires without an ack goes back
+//                     to the same server under the same deliveryId
+//                     (the plugin may have run it and crashed), and
+//                     is dead-lettered after MAX_LEASES tries
+// LOCATION: src/lib/deliveryQueue.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { ObjectId, type Db, type Filter } from "mongodb";
+import { connectToDatabase } from "@/lib/mongodb";
+import { attemptDelivery } from "@/lib/delivery";
+import {
+    statusesThatCanBecome,
+    type OrderEventActor,
+    type OrderStatus,
+    type OrderStatusEvent,
+} from "@/lib/orderStatus";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type DeliveryJobStatus = "queued" | "running" | "done" | "dead";
+
+export type DeliveryChannel = "rcon" | "plugin";
+
+export interface DeliveryJob {
+    _id?: ObjectId;
+    orderMongoId: string;     // orders._id as a string
+    orderId: string;          // Human-readable "ORD-..." id
+    channel: DeliveryChannel;
+    status: DeliveryJobStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextRunAt: Date;
+    lockedUntil?: Date | null;
+    claimedBy?: string | null;  // Plugin server name holding the lease
+    deliveryId?: string;      // Stable for an attempt, across expired leases — plugins dedupe on it
+    leases?: number;          // Times the current attempt was handed out
+    lastError?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/** The fields of an order that a status transition touches. */
+interface OrderStatusFields {
+    status: OrderStatus;
+    updatedAt: Date;
+    statusHistory?: OrderStatusEvent[];
+}
+
+// ─── Settings ──────────────────────────────────────────────────
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 30 * 1000;          // 30s, 1m, 2m, 4m, 8m ...
+const MAX_BACKOFF_MS = 60 * 60 * 1000;      // Never wait more than 1 hour
+export const LOCK_MS = 2 * 60 * 1000;       // A crashed worker frees its job after 2 min
+export const MAX_LEASES = 3;                // Expired leases of one attempt before dead-lettering
+const ORPHANED_LEASE_MS = 30 * 60 * 1000;   // Holder never came back for it → dead-letter
+
+/**
+ * Exponential backoff: 30s × 2^(attempts - 1), capped at 1 hour.
+ */
+export function backoffDelay(attempts: number): number {
+    return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+// ─── Order Status Transitions ──────────────────────────────────
+
+/**
+ * Moves an order to a new status, but only if its current status
+ * is allowed to transition there, and appends the transition to
+ * the order's `statusHistory`. Returns false if the order was
+ * not in a valid "from" state (e.g. already handled by someone).
+ */
+export async function transitionOrder(
+    db: Db,
+    orderMongoId: string,
+    to: OrderStatus,
+    event: Pick<OrderStatusEvent, "by" | "reasonCode" | "reason">
+): Promise<boolean> {
+    const now = new Date();
+    // One guarded update per possible "from" so the event records
+    // the status the order actually left
+    for (const from of statusesThatCanBecome(to)) {
+        const entry: OrderStatusEvent = { from, to, at: now, ...event };
+        const result = await db.collection<OrderStatusFields>("orders").updateOne(
+            { _id: new ObjectId(orderMongoId), status: from },
+            { $set: { status: to, updatedAt: now }, $push: { statusHistory: entry } }
+        );
+        if (result.modifiedCount === 1) return true;
+    }
+    return false;
+}
+
+/** The actor recorded for transitions made by delivery workers. */
+function deliveryActor(job: DeliveryJob): OrderEventActor {
+    return { type: "system", name: `delivery (${job.claimedBy ?? job.channel ?? "rcon"})` };
+}
+
+// ─── Enqueue ───────────────────────────────────────────────────
+
+/**
+ * Creates (or resets) the delivery job for an order so it runs
+ * as soon as a worker picks it up.
+ */
+export async function enqueueDelivery(
+    orderMongoId: string,
+    orderId: string,
+    channel: DeliveryChannel = "rcon"
+) {
+    const db = await connectToDatabase();
+    const now = new Date();
+
+    await db.collection<DeliveryJob>("deliveryJobs").updateOne(
+        { orderMongoId },
+        {
+            $set: {
+                orderId,
+                channel,
+                status: "queued",
+                attempts: 0,
+                maxAttempts: MAX_DELIVERY_ATTEMPTS,
+                nextRunAt: now,
+                lockedUntil: null,
+                claimedBy: null,
+                updatedAt: now,
+            },
+            $unset: { lastError: "", deliveryId: "", leases: "" },
+            $setOnInsert: { createdAt: now },
+        },
+        { upsert: true }
+    );
+}
+
+// ─── Process Jobs ──────────────────────────────────────────────
+
+/**
+ * Filter matching jobs that are due: queued with nextRunAt in the
+ * past, or left "running" by `claimedBy` with its lease expired.
+ * An expired lease only goes back to the worker / server that held
+ * it — it may have run the commands already — and only until it
+ * has been handed out MAX_LEASES times.
+ */
+export function dueJobFilter(now = new Date(), claimedBy: string | null = null): Filter<DeliveryJob> {
+    return {
+        $or: [
+            { status: "queued", nextRunAt: { $lte: now } },
+            { status: "running", lockedUntil: { $lte: now }, claimedBy, leases: { $not: { $gte: MAX_LEASES } } },
+        ],
+    };
+}
+
+/**
+ * Atomically claims the next due job and takes a lease on it.
+ * Without a channel filter only RCON jobs are claimed — plugin
+ * jobs are only ever handed out through the pull API.
+ * A fresh claim starts a new attempt with a new deliveryId; taking
+ * back an expired lease keeps both and just counts the lease.
+ */
+export async function claimNextJob(
+    db: Db,
+    filter: Filter<DeliveryJob> = {},
+    claimedBy: string | null = null
+) {
+    const now = new Date();
+    const reLeasing = { $eq: ["$status", "running"] };
+    const newDeliveryId = new ObjectId().toHexString();
+    return db.collection<DeliveryJob>("deliveryJobs").findOneAndUpdate(
+        {
+            channel: { $ne: "plugin" },
+            ...filter,
+            ...dueJobFilter(now, claimedBy),
+        },
+        [
+            {
+                $set: {
+                    attempts: { $cond: [reLeasing, "$attempts", { $add: ["$attempts", 1] }] },
+                    leases: { $cond: [reLeasing, { $add: [{ $ifNull: ["$leases", 1] }, 1] }, 1] },
+                    deliveryId: { $cond: [reLeasing, { $ifNull: ["$deliveryId", newDeliveryId] }, newDeliveryId] },
+                    status: "running",
+                    lockedUntil: new Date(now.getTime() + LOCK_MS),
+                    claimedBy: { $literal: claimedBy },
+                    updatedAt: now,
+                },
+            },
+        ],
+        { sort: { nextRunAt: 1 }, returnDocument: "after" }
+    );
+}
+
+/**
+ * Dead-letters running jobs whose lease expired MAX_LEASES times,
+ * or whose holder never came back for it. Nobody knows whether
+ * their commands ran, so staff check in-game before requeueing.
+ */
+export async function deadLetterExpiredLeases(db: Db): Promise<number> {
+    const jobsCol = db.collection<DeliveryJob>("deliveryJobs");
+    const now = new Date();
+    let count = 0;
+
+    for (;;) {
+        const job = await jobsCol.findOneAndUpdate(
+            {
+                status: "running",
+                $or: [
+                    { lockedUntil: { $lte: now }, leases: { $gte: MAX_LEASES } },
+                    { lockedUntil: { $lte: new Date(now.getTime() - ORPHANED_LEASE_MS) } },
+                ],
+            },
+            {
+                // claimedBy is kept so a late ack from that server still counts
+                $set: {
+                    status: "dead",
+                    lockedUntil: null,
+                    lastError: "Delivery was never acknowledged — check in-game whether the items arrived before retrying",
+                    updatedAt: now,
+                },
+            }
+        );
+        if (!job) return count;
+        await transitionOrder(db, job.orderMongoId, "delivery-failed", { by: deliveryActor(job) });
+        count++;
+    }
+}
+
+/**
+ * Runs one claimed job and records the outcome on both the job
+ * and the order.
+ */
+async function runJob(db: Db, job: DeliveryJob): Promise<DeliveryJobStatus> {
+    let delivered = false;
+    let retry = true;
+    let lastError: string | undefined;
+
+    try {
+        const result = await attemptDelivery(job.orderMongoId);
+        if (!result) {
+            lastError = "Order not found";
+        } else {
+            delivered = result.delivered;
+            // Commands that may have run are never retried blindly
+            retry = !result.needsReview;
+            lastError = result.delivery.lastError;
+        }
+    } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    return finishJob(db, job, delivered, lastError, retry);
+}
+
+/**
+ * Records the outcome of one attempt on a claimed job: done,
+ * back in the queue with backoff, or dead-lettered (out of
+ * attempts, or `retry` false). Also moves the order to the
+ * matching status.
+ */
+export async function finishJob(
+    db: Db,
+    job: DeliveryJob,
+    delivered: boolean,
+    lastError?: string,
+    retry = true
+): Promise<DeliveryJobStatus> {
+    const jobsCol = db.collection<DeliveryJob>("deliveryJobs");
+    const now = new Date();
+
+    // ── Delivered → done ──
+    if (delivered) {
+        await jobsCol.updateOne(
+            { _id: job._id },
+            { $set: { status: "done", lockedUntil: null, claimedBy: null, updatedAt: now }, $unset: { lastError: "" } }
+        );
+        await transitionOrder(db, job.orderMongoId, "delivered", { by: deliveryActor(job) });
+        return "done";
+    }
+
+    // ── Out of attempts (or not safe to retry) → dead letter ──
+    if (!retry || job.attempts >= job.maxAttempts) {
+        await jobsCol.updateOne(
+            { _id: job._id },
+            // claimedBy stays so only that server can still ack a late success
+            { $set: { status: "dead", lockedUntil: null, lastError, updatedAt: now } }
+        );
+        await transitionOrder(db, job.orderMongoId, "delivery-failed", { by: deliveryActor(job) });
+        return "dead";
+    }
+
+    // ── Try again later ──
+    await jobsCol.updateOne(
+        { _id: job._id },
+        {
+            $set: {
+                status: "queued",
+                lockedUntil: null,
+                claimedBy: null,
+                nextRunAt: new Date(now.getTime() + backoffDelay(job.attempts)),
+                lastError,
+                updatedAt: now,
+            },
+            // The next attempt gets a new deliveryId
+            $unset: { deliveryId: "", leases: "" },
+        }
+    );
+    return "queued";
+}
+
+/**
+ * Processes the delivery job of a single order right away if it
+ * is due. Called straight after approval so players usually get
+ * their items without waiting for the next worker run.
+ */
+export async function processOrderDelivery(orderMongoId: string): Promise<DeliveryJobStatus | null> {
+    const db = await connectToDatabase();
+    const job = await claimNextJob(db, { orderMongoId });
+    if (!job) return null;
+    return runJob(db, job);
+}
+
+/**
+ * Processes up to `limit` due jobs. Called by the delivery
+ * worker endpoint on a schedule.
+ */
+export async function processDueDeliveries(limit = 10) {
+    const db = await connectToDatabase();
+    const summary = { processed: 0, done: 0, queued: 0, dead: 0 };
+    summary.dead += await deadLetterExpiredLeases(db);
+
+    for (let i = 0; i < limit; i++) {
+        const job = await claimNextJob(db);
+        if (!job) break;
+
+        const outcome = await runJob(db, job);
+        summary.processed++;
+        if (outcome === "done") summary.done++;
+        else if (outcome === "dead") summary.dead++;
+        else summary.queued++;
+    }
+
+    return summary;
+}
+
+// ─── Dead Letter ───────────────────────────────────────────────
+
+/**
+ * Puts a dead (or stuck) job back in the queue with a fresh set
+ * of attempts and moves its order back to "pending-delivery".
+ */
+export async function requeueDelivery(orderMongoId: string, by: OrderEventActor): Promise<boolean> {
+    const db = await connectToDatabase();
+    const job = await db.collection<DeliveryJob>("deliveryJobs").findOne({ orderMongoId });
+    if (!job || job.status === "done") return false;
+    // Never reset a job a worker is running right now — that could
+    // send the same commands twice
+    if (job.status === "running" && job.lockedUntil && job.lockedUntil > new Date()) return false;
+
+    await transitionOrder(db, orderMongoId, "pending-delivery", { by });
+    await enqueueDelivery(orderMongoId, job.orderId, job.channel ?? "rcon");
+    return true;
+}
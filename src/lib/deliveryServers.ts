@@ -0,0 +1,85 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: deliveryServers.ts
+// PURPOSE: API keys for server-side delivery plugins, stored in
+//          the `deliveryServers` MongoDB collection. Only a
+//          SHA-256 hash of each key is saved — the plain key is
+//          shown to the admin once when it is created.
+//          Plugins send it as: Authorization: Bearer <key>
+// LOCATION: src/lib/deliveryServers.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { createHash, randomBytes } from "crypto";
+import { ObjectId } from "mongodb";
+import { connectToDatabase } from "@/lib/mongodb";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface DeliveryServer {
+    _id?: ObjectId;
+    name: string;            // e.g. "Survival", "Lobby"
+    keyHash: string;         // sha256 of the plain key
+    keyPrefix: string;       // First characters, to tell keys apart in the UI
+    active: boolean;
+    createdAt: Date;
+    lastSeenAt?: Date | null;
+}
+
+const KEY_PREFIX = "dzk_";
+
+function hashKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+}
+
+// ─── Create / Revoke ───────────────────────────────────────────
+
+/**
+ * Creates a new plugin server and returns its plain API key.
+ * The key cannot be recovered later — only regenerated.
+ */
+export async function createDeliveryServer(name: string): Promise<{ id: string; key: string }> {
+    const key = KEY_PREFIX + randomBytes(24).toString("hex");
+    const db = await connectToDatabase();
+
+    const result = await db.collection<DeliveryServer>("deliveryServers").insertOne({
+        name,
+        keyHash: hashKey(key),
+        keyPrefix: key.slice(0, KEY_PREFIX.length + 6),
+        active: true,
+        createdAt: new Date(),
+        lastSeenAt: null,
+    });
+
+    return { id: result.insertedId.toString(), key };
+}
+
+export async function revokeDeliveryServer(id: string): Promise<boolean> {
+    const db = await connectToDatabase();
+    const result = await db.collection<DeliveryServer>("deliveryServers").updateOne(
+        { _id: new ObjectId(id), active: true },
+        { $set: { active: false } }
+    );
+    return result.modifiedCount === 1;
+}
+
+// ─── Authenticate ──────────────────────────────────────────────
+
+/**
+ * Resolves the plugin server behind a request from its API key
+ * (`Authorization: Bearer <key>` or `x-api-key: <key>`).
+ * Returns null for a missing, unknown or revoked key.
+ */
+export async function authenticateDeliveryServer(request: Request): Promise<DeliveryServer | null> {
+    const header = request.headers.get("authorization") || "";
+    const key = header.startsWith("Bearer ")
+        ? header.slice("Bearer ".length).trim()
+        : request.headers.get("x-api-key")?.trim();
+
+    if (!key || !key.startsWith(KEY_PREFIX)) return null;
+
+    const db = await connectToDatabase();
+    return db.collection<DeliveryServer>("deliveryServers").findOneAndUpdate(
+        { keyHash: hashKey(key), active: true },
+        { $set: { lastSeenAt: new Date() } },
+        { returnDocument: "after" }
+    );
+}
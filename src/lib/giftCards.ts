@@ -0,0 +1,341 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: giftCards.ts
+// PURPOSE: Gift cards / store credit, stored in the `giftCards`
+//          MongoDB collection (_id = the code).
+//          • Minting — buying a gift card product mints one code
+//            per card when the order is approved; admins can also
+//            issue cards by hand
+//          • Redeeming — checkout takes part or all of a card's
+//            balance with one conditional $inc (`balancePaise >=
+//            amount`). Balances are whole paise, like the pricing
+//            engine, so repeated spends can't drift by a fraction,
+//            so two orders racing for the same credit can't both
+//            spend it
+//          • Refunds — a rejected (or never saved) order gets its
+//            credit back exactly once
+// LOCATION: src/lib/giftCards.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { randomBytes } from "crypto";
+import { MongoServerError, type Collection, type Db, type ObjectId } from "mongodb";
+import { toPaise } from "@/lib/pricing";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type GiftCardStatus = "active" | "void";
+
+export interface GiftCardRedemption {
+    orderId: string;       // "ORD-..." that spent it
+    amountPaise: number;
+    at: Date;
+}
+
+export interface GiftCard {
+    _id: string;           // The code, e.g. "GC-7KQ2-M9XD-4HTP"
+    initialBalancePaise: number;
+    balancePaise: number;  // Whole paise — fromPaise() for display
+    status: GiftCardStatus;
+    source: "order" | "admin";
+    orderId?: string;      // Order that bought it (source "order")
+    mintKey?: string;      // "<orderId>:<line>:<component>:<n>" — one card per bought card
+    issuedBy?: string;     // Admin username (source "admin")
+    note?: string;
+    redemptions: GiftCardRedemption[];
+    createdAt: Date;
+    updatedAt: Date;
+    voidedAt?: Date;
+}
+
+/** A gift card line on an order (item or bundle component). */
+interface GiftCardLine {
+    quantity: number;
+    giftCardValue?: number;
+}
+
+/** What an order line cost, for working out the earning base. */
+interface PaidLine {
+    lineTotal: number;
+    discount?: number;     // Its share of the coupon discount
+    giftCardValue?: number;
+    components?: PaidLine[];
+}
+
+// No 0/O or 1/I — codes get read out and typed by hand
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_PATTERN = /^GC-[A-Z0-9]{4}-[A-Z0-9]{4}-[A-Z0-9]{4}$/;
+
+export const GIFT_CARD_MAX_VALUE = 10_000;
+
+// ─── Codes ─────────────────────────────────────────────────────
+
+export function generateGiftCardCode(): string {
+    // 32 letters → every byte maps evenly with & 31
+    const chars = Array.from(randomBytes(12), (b) => CODE_ALPHABET[b & 31]).join("");
+    return `GC-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+/**
+ * "GC-••••-••••-4HTP" — enough to tell cards apart on public
+ * pages without giving away a code that spends like cash.
+ */
+export function maskGiftCardCode(code: string): string {
+    return `GC-••••-••••-${code.slice(-4)}`;
+}
+
+/**
+ * Tidies a code typed by a player ("gc 7kq2 m9xd 4htp" →
+ * "GC-7KQ2-M9XD-4HTP"). Returns null if it can't be a code.
+ */
+export function normalizeGiftCardCode(raw: unknown): string | null {
+    if (typeof raw !== "string") return null;
+    const compact = raw.toUpperCase().replace(/[^A-Z0-9]/g, "");
+    const body = compact.startsWith("GC") ? compact.slice(2) : compact;
+    if (body.length !== 12) return null;
+    const code = `GC-${body.slice(0, 4)}-${body.slice(4, 8)}-${body.slice(8, 12)}`;
+    return CODE_PATTERN.test(code) ? code : null;
+}
+
+// ─── Collection ────────────────────────────────────────────────
+
+let paiseReady = false;
+let indexReady = false;
+
+/**
+ * The `giftCards` collection. The first call moves cards saved
+ * with float ₹ balances (balance / initialBalance / amount) over
+ * to whole paise, and makes each order card's `mintKey` unique.
+ */
+export async function getGiftCardsCollection(db: Db) {
+    const collection = db.collection<GiftCard>("giftCards");
+    if (!paiseReady) {
+        await collection.updateMany({ balancePaise: { $exists: false } }, [
+            {
+                $set: {
+                    balancePaise: { $round: [{ $multiply: [{ $ifNull: ["$balance", 0] }, 100] }, 0] },
+                    initialBalancePaise: { $round: [{ $multiply: [{ $ifNull: ["$initialBalance", 0] }, 100] }, 0] },
+                    redemptions: {
+                        $map: {
+                            input: { $ifNull: ["$redemptions", []] },
+                            as: "r",
+                            in: {
+                                orderId: "$$r.orderId",
+                                amountPaise: { $round: [{ $multiply: ["$$r.amount", 100] }, 0] },
+                                at: "$$r.at",
+                            },
+                        },
+                    },
+                },
+            },
+            { $unset: ["balance", "initialBalance"] },
+        ]);
+        paiseReady = true;
+    }
+    if (!indexReady) {
+        await collection.createIndex(
+            { mintKey: 1 },
+            { unique: true, partialFilterExpression: { mintKey: { $exists: true } } }
+        );
+        indexReady = true;
+    }
+    return collection;
+}
+
+// ─── Issuing ───────────────────────────────────────────────────
+
+/** Creates a card worth `amount` ₹ with a fresh code (retrying the rare clash). */
+export async function createGiftCard(
+    db: Db,
+    card: Pick<GiftCard, "source" | "orderId" | "mintKey" | "issuedBy" | "note"> & { amount: number }
+): Promise<GiftCard> {
+    const { amount, ...rest } = card;
+    const collection = await getGiftCardsCollection(db);
+
+    for (let attempt = 0; ; attempt++) {
+        const now = new Date();
+        const doc: GiftCard = {
+            _id: generateGiftCardCode(),
+            initialBalancePaise: toPaise(amount),
+            balancePaise: toPaise(amount),
+            status: "active",
+            ...rest,
+            redemptions: [],
+            createdAt: now,
+            updatedAt: now,
+        };
+        try {
+            await collection.insertOne(doc);
+            return doc;
+        } catch (error) {
+            // Only a code clash is retried — a taken mintKey means the card exists
+            const clash = error instanceof MongoServerError && error.code === 11000 && !error.keyPattern?.mintKey;
+            if (!clash || attempt >= 4) throw error;
+        }
+    }
+}
+
+/**
+ * Mints the cards bought on an order — one per gift card, bundle
+ * contents included — and stores their codes on the order as
+ * `giftCardsIssued`. Each card has a fixed `mintKey`, so a run
+ * that stopped halfway can be repeated: cards already minted are
+ * reused and only the missing ones are created. Returns the codes
+ * to the call that finished the order, and [] to any other.
+ */
+export async function mintOrderGiftCards(db: Db, orderMongoId: ObjectId): Promise<string[]> {
+    const orders = db.collection("orders");
+    // [] was left by older runs that claimed the field before minting
+    const unfinished = { $or: [{ giftCardsIssued: { $exists: false } }, { giftCardsIssued: { $size: 0 } }] };
+    const order = await orders.findOne({ _id: orderMongoId, ...unfinished });
+    if (!order) return [];
+
+    const collection = await getGiftCardsCollection(db);
+    const codes: string[] = [];
+    const items = (order.items ?? []) as (GiftCardLine & { components?: GiftCardLine[] })[];
+    for (const [itemIndex, item] of items.entries()) {
+        const lines: [string, GiftCardLine][] = [
+            [`${itemIndex}:-`, item],
+            ...(item.components ?? []).map((c, i): [string, GiftCardLine] => [`${itemIndex}:${i}`, c]),
+        ];
+        for (const [lineKey, line] of lines) {
+            if (!line.giftCardValue || line.giftCardValue <= 0) continue;
+            for (let n = 0; n < (line.quantity || 1); n++) {
+                const mintKey = `${order.orderId}:${lineKey}:${n}`;
+                codes.push(await mintCard(collection, db, mintKey, line.giftCardValue, order.orderId));
+            }
+        }
+    }
+    if (codes.length === 0) return [];
+
+    const result = await orders.updateOne(
+        { _id: orderMongoId, ...unfinished },
+        { $set: { giftCardsIssued: codes } }
+    );
+    return result.modifiedCount === 1 ? codes : [];
+}
+
+/** The card for `mintKey` — the one already minted, or a new one. */
+async function mintCard(
+    collection: Collection<GiftCard>,
+    db: Db,
+    mintKey: string,
+    amount: number,
+    orderId: string
+): Promise<string> {
+    const existing = await collection.findOne({ mintKey });
+    if (existing) return existing._id;
+    try {
+        return (await createGiftCard(db, { amount, source: "order", orderId, mintKey }))._id;
+    } catch (error) {
+        // Another run minted it first
+        if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+        const raced = await collection.findOne({ mintKey });
+        if (!raced) throw error;
+        return raced._id;
+    }
+}
+
+// ─── Earning Base ──────────────────────────────────────────────
+
+/**
+ * The part of an order's UPI payment that bought real items, in
+ * paise — what loyalty points and creator commission are worked
+ * out on. Gift card money earns once: credit spent from a card
+ * isn't counted (`order.total` is the UPI amount only), and the
+ * UPI share of gift card lines isn't either, since that credit
+ * is spent on another order later.
+ */
+export function earningBasePaise(order: { total?: number; items?: PaidLine[] }): number {
+    let gross = 0;
+    let giftCards = 0;
+    for (const item of order.items ?? []) {
+        const net = toPaise(item.lineTotal) - toPaise(item.discount ?? 0);
+        gross += net;
+        if (item.giftCardValue) {
+            giftCards += net;
+        } else if (item.lineTotal > 0) {
+            // Bundles: each gift card inside takes its share of the net
+            for (const component of item.components ?? []) {
+                if (!component.giftCardValue) continue;
+                giftCards += Math.round((net * toPaise(component.lineTotal)) / toPaise(item.lineTotal));
+            }
+        }
+    }
+
+    const paid = toPaise(order.total ?? 0);
+    if (gross <= 0 || giftCards <= 0) return paid;
+    if (giftCards >= gross) return 0;
+    // UPI, gift card credit and points pay for every line alike
+    return Math.round((paid * (gross - giftCards)) / gross);
+}
+
+// ─── Redeeming ─────────────────────────────────────────────────
+
+export async function findGiftCard(db: Db, code: string): Promise<GiftCard | null> {
+    return (await getGiftCardsCollection(db)).findOne({ _id: code });
+}
+
+/**
+ * Takes `amountPaise` off an active card for an order. Returns
+ * false if the card is void or no longer holds that much.
+ */
+export async function redeemGiftCard(
+    db: Db,
+    code: string,
+    amountPaise: number,
+    orderId: string
+): Promise<boolean> {
+    const now = new Date();
+    const result = await (await getGiftCardsCollection(db)).updateOne(
+        { _id: code, status: "active", balancePaise: { $gte: amountPaise } },
+        {
+            $inc: { balancePaise: -amountPaise },
+            $push: { redemptions: { orderId, amountPaise, at: now } },
+            $set: { updatedAt: now },
+        }
+    );
+    return result.modifiedCount === 1;
+}
+
+/**
+ * Gives an order's credit back to the card. The redemption is
+ * pulled in the same update, so calling this twice refunds once.
+ * A voided card gets the balance back but stays void.
+ */
+export async function refundGiftCard(db: Db, code: string, orderId: string) {
+    const collection = await getGiftCardsCollection(db);
+    const card = await collection.findOne({ _id: code, "redemptions.orderId": orderId });
+    const amountPaise = card?.redemptions
+        .filter((r) => r.orderId === orderId)
+        .reduce((sum, r) => sum + r.amountPaise, 0);
+    if (!card || !amountPaise) return;
+
+    await collection.updateOne(
+        { _id: code, "redemptions.orderId": orderId },
+        {
+            $inc: { balancePaise: amountPaise },
+            $pull: { redemptions: { orderId } },
+            $set: { updatedAt: new Date() },
+        }
+    );
+}
+
+/** Refunds the credit a rejected order spent, if any. */
+export async function releaseOrderGiftCard(db: Db, orderMongoId: ObjectId) {
+    const order = await db
+        .collection("orders")
+        .findOne({ _id: orderMongoId }, { projection: { orderId: 1, giftCard: 1 } });
+    if (order?.giftCard?.code) {
+        await refundGiftCard(db, order.giftCard.code, order.orderId);
+    }
+}
+
+// ─── Admin ─────────────────────────────────────────────────────
+
+/** Voids an active card. Its remaining balance can't be spent. */
+export async function voidGiftCard(db: Db, code: string): Promise<GiftCard | null> {
+    const now = new Date();
+    return (await getGiftCardsCollection(db)).findOneAndUpdate(
+        { _id: code, status: "active" },
+        { $set: { status: "void", voidedAt: now, updatedAt: now } }
+    );
+}
@@ -0,0 +1,134 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: inventory.ts
+// PURPOSE: Stock bookkeeping for limited-stock products.
+//          Checkout reserves stock with one conditional $inc per
+//          product (`stock >= quantity`), so two buyers racing
+//          for the last item can't both get it. Rejecting the
+//          order puts the stock back.
+//          Products without a `stock` number are unlimited and
+//          never touched. Editing a pending order moves its
+//          reservation without ever freeing stock in between.
+// LOCATION: src/lib/inventory.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { ObjectId, type Db } from "mongodb";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+/** What was taken from stock for an order (stored on the order). */
+export interface StockReservation {
+    id: string;          // products._id as a string
+    quantity: number;
+}
+
+export type ReserveResult =
+    | { ok: true; reserved: StockReservation[] }
+    | { ok: false; productId: string };
+
+// ─── Reserve ───────────────────────────────────────────────────
+
+/**
+ * Takes `quantity` of every limited-stock item out of stock.
+ * All-or-nothing: if any item runs out, whatever was already
+ * taken is put back and the failing product is returned.
+ */
+export async function reserveStock(
+    db: Db,
+    items: { id: string; quantity: number }[]
+): Promise<ReserveResult> {
+    const products = db.collection("products");
+    const reserved: StockReservation[] = [];
+
+    for (const item of items) {
+        if (!ObjectId.isValid(item.id)) continue;
+        const _id = new ObjectId(item.id);
+
+        const result = await products.updateOne(
+            { _id, stock: { $type: "number", $gte: item.quantity } },
+            { $inc: { stock: -item.quantity } }
+        );
+        if (result.modifiedCount === 1) {
+            reserved.push({ id: item.id, quantity: item.quantity });
+            continue;
+        }
+
+        // No match: either unlimited (fine) or not enough left
+        const product = await products.findOne({ _id }, { projection: { stock: 1 } });
+        if (product && typeof product.stock === "number") {
+            await restoreStock(db, reserved);
+            return { ok: false, productId: item.id };
+        }
+    }
+
+    return { ok: true, reserved };
+}
+
+/**
+ * Moves an order's reservation over to a new list of items (a
+ * pending order edited by staff). Only the extra quantities are
+ * taken from stock; what the order no longer needs comes back in
+ * `freed`, to be restored once the edit is saved — nothing is
+ * given back before the new items are secured. `taken` is what to
+ * restore if the edit can't be saved after all.
+ */
+export async function reserveStockChange(
+    db: Db,
+    reserved: StockReservation[],
+    items: { id: string; quantity: number }[]
+): Promise<
+    | { ok: true; reserved: StockReservation[]; taken: StockReservation[]; freed: StockReservation[] }
+    | { ok: false; productId: string }
+> {
+    const sum = (lines: { id: string; quantity: number }[]) => {
+        const totals = new Map<string, number>();
+        for (const line of lines) totals.set(line.id, (totals.get(line.id) ?? 0) + line.quantity);
+        return totals;
+    };
+    const held = sum(reserved);
+    const wanted = sum(items);
+
+    const extra = [...wanted]
+        .map(([id, quantity]) => ({ id, quantity: quantity - (held.get(id) ?? 0) }))
+        .filter((line) => line.quantity > 0);
+    const claim = await reserveStock(db, extra);
+    if (!claim.ok) return claim;
+
+    const freed = [...held]
+        .map(([id, quantity]) => ({ id, quantity: quantity - (wanted.get(id) ?? 0) }))
+        .filter((line) => line.quantity > 0);
+    const kept = [...held]
+        .map(([id, quantity]) => ({ id, quantity: Math.min(quantity, wanted.get(id) ?? 0) }))
+        .filter((line) => line.quantity > 0);
+
+    const next = [...sum([...kept, ...claim.reserved])].map(([id, quantity]) => ({ id, quantity }));
+
+    return { ok: true, reserved: next, taken: claim.reserved, freed };
+}
+
+// ─── Restore ───────────────────────────────────────────────────
+
+/** Puts reserved stock back (order rejected or never saved). */
+export async function restoreStock(db: Db, reserved: StockReservation[]) {
+    const products = db.collection("products");
+    for (const item of reserved) {
+        await products.updateOne(
+            { _id: new ObjectId(item.id), stock: { $type: "number" } },
+            { $inc: { stock: item.quantity } }
+        );
+    }
+}
+
+/**
+ * Restores an order's stock exactly once. The reservation is
+ * removed from the order in the same step, so rejecting twice
+ * (or a retried request) can't add the stock back twice.
+ */
+export async function releaseOrderStock(db: Db, orderMongoId: ObjectId) {
+    const before = await db.collection("orders").findOneAndUpdate(
+        { _id: orderMongoId, stockReserved: { $exists: true } },
+        { $unset: { stockReserved: "" } }
+    );
+    if (before?.stockReserved?.length) {
+        await restoreStock(db, before.stockReserved as StockReservation[]);
+    }
+}
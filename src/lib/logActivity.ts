@@ -1,37 +1,129 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: logActivity.ts
 // PURPOSE: Shared helper to log admin actions to the
-//          `activityLogs` MongoDB collection.
+//          `activityLogs` MongoDB collection. Every entry is
+//          attributed to the signed-in admin (plus IP and user
+//          agent) and can carry a before/after diff of the
+//          document that changed.
 // LOCATION: src/lib/logActivity.ts
 // ═══════════════════════════════════════════════════════════════
 
+import { headers } from "next/headers";
+import type { Filter, Document } from "mongodb";
 import { connectToDatabase } from "@/lib/mongodb";
+import { getAdminSession } from "@/lib/adminAuth";
+import { getClientIp } from "@/lib/rateLimit";
+import type { AdminRole } from "@/lib/adminSession";
 
 export type ActivityAction =
     | "order_approved"
     | "order_rejected"
+    | "order_edited"
+    | "order_note_added"
     | "product_created"
     | "product_updated"
     | "product_deleted"
+    | "products_seeded"
     | "coupon_created"
     | "coupon_updated"
     | "coupon_deleted"
     | "settings_updated"
-    | "stock_updated";
+    | "stock_updated"
+    | "delivery_requeued"
+    | "delivery_commands_settled"
+    | "delivery_server_created"
+    | "delivery_server_revoked"
+    | "payments_reconciled"
+    | "admin_created"
+    | "admin_updated"
+    | "login_locked_out"
+    | "gift_card_issued"
+    | "gift_card_voided"
+    | "coupon_campaign_created"
+    | "coupon_campaign_deleted"
+    | "creator_created"
+    | "creator_updated"
+    | "creator_link_reset"
+    | "creator_payout_recorded"
+    | "loyalty_points_adjusted";
+
+export interface ActivityActor {
+    id: string;
+    username: string;
+    role: AdminRole;
+}
+
+/** One changed field: value before → value after. */
+export type ActivityChanges = Record<string, { from: unknown; to: unknown }>;
 
 interface LogActivityParams {
     action: ActivityAction;
     entity: string;      // e.g. "ORD-123", "King Rank", "SAVE10"
     details?: string;    // e.g. "Set stock to 50", "10% off"
+    before?: object | null;   // Document before the change (omit for creates)
+    after?: object | null;    // Document after the change (omit for deletes)
+}
+
+// Bookkeeping / secret fields never worth showing in a diff
+const IGNORED_FIELDS = new Set(["_id", "createdAt", "updatedAt", "passwordHash"]);
+
+/**
+ * Shallow diff of two documents. Nested values are compared by
+ * their JSON form so arrays (perks, commands, items) show up as
+ * one changed field.
+ */
+export function diffDocuments(
+    before: object | null | undefined,
+    after: object | null | undefined
+): ActivityChanges {
+    const from = (before ?? {}) as Record<string, unknown>;
+    const to = (after ?? {}) as Record<string, unknown>;
+    const changes: ActivityChanges = {};
+
+    for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (IGNORED_FIELDS.has(key)) continue;
+        if (JSON.stringify(from[key]) === JSON.stringify(to[key])) continue;
+        changes[key] = { from: from[key] ?? null, to: to[key] ?? null };
+    }
+
+    return changes;
 }
 
-export async function logActivity({ action, entity, details }: LogActivityParams) {
+/**
+ * Who is making this request. Returns nulls outside a request
+ * (e.g. the delivery worker) instead of throwing.
+ */
+async function getRequestContext() {
     try {
+        const [session, headerList] = await Promise.all([getAdminSession(), headers()]);
+        const ip = getClientIp(headerList);
+
+        return {
+            actor: session
+                ? { id: session.sub, username: session.username, role: session.role }
+                : null,
+            ip: ip === "unknown" ? null : ip,
+            userAgent: headerList.get("user-agent") || null,
+        };
+    } catch {
+        return { actor: null, ip: null, userAgent: null };
+    }
+}
+
+export async function logActivity({ action, entity, details, before, after }: LogActivityParams) {
+    try {
+        const context = await getRequestContext();
+        const changes = before !== undefined || after !== undefined
+            ? diffDocuments(before, after)
+            : undefined;
+
         const db = await connectToDatabase();
         await db.collection("activityLogs").insertOne({
             action,
             entity,
             details: details || "",
+            ...context,
+            ...(changes && Object.keys(changes).length > 0 && { changes }),
             timestamp: new Date(),
         });
     } catch (error) {
@@ -39,3 +131,29 @@ export async function logActivity({ action, entity, details }: LogActivityParams
         console.error("Activity log error:", error);
     }
 }
+
+// ─── Querying ──────────────────────────────────────────────────
+
+export interface ActivityFilters {
+    admin?: string;      // Actor username
+    action?: string;
+    from?: string;       // YYYY-MM-DD (inclusive)
+    to?: string;         // YYYY-MM-DD (inclusive)
+}
+
+/**
+ * Builds the MongoDB filter for the activity log page and API.
+ */
+export function buildActivityFilter({ admin, action, from, to }: ActivityFilters): Filter<Document> {
+    const filter: Filter<Document> = {};
+
+    if (admin) filter["actor.username"] = admin;
+    if (action) filter.action = action;
+
+    const timestamp: Record<string, Date> = {};
+    if (from && !isNaN(Date.parse(from))) timestamp.$gte = new Date(`${from}T00:00:00`);
+    if (to && !isNaN(Date.parse(to))) timestamp.$lte = new Date(`${to}T23:59:59.999`);
+    if (Object.keys(timestamp).length > 0) filter.timestamp = timestamp;
+
+    return filter;
+}
@@ -0,0 +1,197 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: loginThrottle.ts
+// PURPOSE: Brute-force protection for the admin login. Failed
+//          attempts are counted per IP and per username in the
+//          `loginAttempts` MongoDB collection (so limits hold
+//          across server instances and restarts).
+//          • Progressive delay — from the 3rd failure on, each
+//            retry must wait 1s, 2s, 4s … (max 30s)
+//          • Lockout — too many failures in 15 minutes lock the
+//            username / IP; every repeat lockout doubles (max 24h)
+//          Lockouts are written to the activity log and emailed
+//          to the owner.
+// LOCATION: src/lib/loginThrottle.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { connectToDatabase } from "@/lib/mongodb";
+import { logActivity } from "@/lib/logActivity";
+import { sendLockoutEmail } from "@/lib/sendSecurityEmail";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+type AttemptKind = "account" | "ip";
+
+interface LoginAttempt {
+    _id: string;               // "account:<username>" or "ip:<address>"
+    kind: AttemptKind;
+    key: string;
+    failures: number;          // Failures in the current window
+    windowStart: Date;
+    lastFailureAt: Date;
+    lockedUntil: Date | null;
+    lockouts: number;          // Lockouts so far — each one doubles the next
+    expiresAt: Date;           // TTL — forgotten a day after the last failure
+}
+
+export type LoginCheck =
+    | { allowed: true }
+    | { allowed: false; retryAfter: number; locked: boolean };  // retryAfter in seconds
+
+// ─── Policy ────────────────────────────────────────────────────
+
+const WINDOW_MS = 15 * 60 * 1000;
+const MAX_LOCK_MS = 24 * 60 * 60 * 1000;
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// One IP may try several usernames, so it gets more room
+const POLICY: Record<AttemptKind, { maxFailures: number; lockMs: number }> = {
+    account: { maxFailures: 5, lockMs: 15 * 60 * 1000 },
+    ip: { maxFailures: 20, lockMs: 30 * 60 * 1000 },
+};
+
+/** Wait before the next attempt is allowed after `failures` failures. */
+function delayFor(failures: number): number {
+    if (failures < 3) return 0;
+    return Math.min(1000 * 2 ** (failures - 3), 30_000);
+}
+
+function attemptId(kind: AttemptKind, key: string): string {
+    return `${kind}:${key.trim().toLowerCase()}`;
+}
+
+// ─── Collection ────────────────────────────────────────────────
+
+let indexReady = false;
+
+async function getAttemptsCollection() {
+    const db = await connectToDatabase();
+    const attempts = db.collection<LoginAttempt>("loginAttempts");
+    if (!indexReady) {
+        await attempts.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        indexReady = true;
+    }
+    return attempts;
+}
+
+// ─── Check ─────────────────────────────────────────────────────
+
+/**
+ * Whether a login attempt from `ip` for `username` may go ahead.
+ * Call before checking the password so locked-out attempts never
+ * reach the (slow, guessable) hash comparison.
+ */
+export async function checkLoginAllowed(ip: string, username: string): Promise<LoginCheck> {
+    const attempts = await getAttemptsCollection();
+    const docs = await attempts
+        .find({ _id: { $in: [attemptId("ip", ip), attemptId("account", username)] } })
+        .toArray();
+
+    const now = Date.now();
+    let waitUntil = 0;
+    let locked = false;
+
+    for (const doc of docs) {
+        if (doc.lockedUntil && doc.lockedUntil.getTime() > now) {
+            waitUntil = Math.max(waitUntil, doc.lockedUntil.getTime());
+            locked = true;
+            continue;
+        }
+        if (doc.windowStart.getTime() > now - WINDOW_MS) {
+            waitUntil = Math.max(waitUntil, doc.lastFailureAt.getTime() + delayFor(doc.failures));
+        }
+    }
+
+    if (waitUntil <= now) return { allowed: true };
+    return { allowed: false, retryAfter: Math.ceil((waitUntil - now) / 1000), locked };
+}
+
+// ─── Record Results ────────────────────────────────────────────
+
+/**
+ * Counts one failure against the username and the IP. Locks
+ * either one that crossed its limit and reports the lockout.
+ */
+export async function recordLoginFailure(ip: string, username: string, userAgent: string | null = null) {
+    await Promise.all([
+        recordFailure("ip", ip, ip, userAgent),
+        recordFailure("account", username.trim().toLowerCase(), ip, userAgent),
+    ]);
+}
+
+async function recordFailure(kind: AttemptKind, key: string, ip: string, userAgent: string | null) {
+    const attempts = await getAttemptsCollection();
+    const now = new Date();
+    const windowOpen = { $gt: ["$windowStart", new Date(now.getTime() - WINDOW_MS)] };
+
+    // One atomic upsert: bump the count, or start a new window
+    const doc = await attempts.findOneAndUpdate(
+        { _id: attemptId(kind, key) },
+        [
+            {
+                $set: {
+                    kind,
+                    key,
+                    failures: { $cond: [windowOpen, { $add: [{ $ifNull: ["$failures", 0] }, 1] }, 1] },
+                    windowStart: { $cond: [windowOpen, "$windowStart", now] },
+                    lastFailureAt: now,
+                    lockedUntil: { $ifNull: ["$lockedUntil", null] },
+                    lockouts: { $ifNull: ["$lockouts", 0] },
+                    expiresAt: new Date(now.getTime() + FORGET_AFTER_MS),
+                },
+            },
+        ],
+        { upsert: true, returnDocument: "after" }
+    );
+    if (!doc || doc.failures < POLICY[kind].maxFailures) return;
+
+    // Crossed the limit → lock. The filter makes sure racing
+    // requests produce a single lockout (and a single email).
+    const lockMs = Math.min(POLICY[kind].lockMs * 2 ** doc.lockouts, MAX_LOCK_MS);
+    const lockedUntil = new Date(now.getTime() + lockMs);
+    const result = await attempts.updateOne(
+        {
+            _id: doc._id,
+            lockouts: doc.lockouts,
+            $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+        },
+        {
+            $set: { lockedUntil, failures: 0, windowStart: now, expiresAt: new Date(lockedUntil.getTime() + FORGET_AFTER_MS) },
+            $inc: { lockouts: 1 },
+        }
+    );
+    if (result.modifiedCount !== 1) return;
+
+    const minutes = Math.round(lockMs / 60000);
+    await logActivity({
+        action: "login_locked_out",
+        entity: kind === "account" ? key : `IP ${key}`,
+        details: `${doc.failures} failed logins — locked for ${minutes} min`,
+    });
+
+    try {
+        await sendLockoutEmail({ kind, key, failures: doc.failures, lockedUntil, ip, userAgent });
+    } catch (error) {
+        console.error("Lockout email error:", error);
+    }
+}
+
+/**
+ * Resets the username's and the IP's failure counts after a
+ * successful login. Earlier lockouts stay on record
+ * so a repeat offender still escalates.
+ */
+export async function recordLoginSuccess(ip: string, username: string) {
+    const attempts = await getAttemptsCollection();
+    await Promise.all([
+        attempts.updateOne({ _id: attemptId("account", username) }, { $set: { failures: 0 } }),
+        attempts.updateOne({ _id: attemptId("ip", ip) }, { $set: { failures: 0 } }),
+    ]);
+}
+
+// ─── Messages ──────────────────────────────────────────────────
+
+export function throttleMessage(check: Extract<LoginCheck, { allowed: false }>): string {
+    if (!check.locked) return `Too many attempts. Wait ${check.retryAfter}s and try again.`;
+    const minutes = Math.ceil(check.retryAfter / 60);
+    return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
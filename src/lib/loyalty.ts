@@ -0,0 +1,223 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: loyalty.ts
+// PURPOSE: Loyalty points. Each player (by Minecraft username,
+//          case-insensitive) has a balance in `loyaltyAccounts`
+//          and every change is a line in `loyaltyLedger`.
+//          • Earning — an approved order credits its buyer
+//            (pointsEarnedFor in pricing.ts)
+//          • Redeeming — checkout spends points with one
+//            conditional $inc (`balance >= points`), like gift cards
+//          • Refunds — a rejected order gets its points back
+//          • Adjustments — admins add or take points by hand
+//          Order-linked lines are unique per (orderId, type), so
+//          earning or refunding twice is a no-op.
+// LOCATION: src/lib/loyalty.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { MongoServerError, type Db, type ObjectId } from "mongodb";
+import { earningBasePaise } from "@/lib/giftCards";
+import { fromPaise, pointsEarnedFor } from "@/lib/pricing";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type LoyaltyEntryType = "earn" | "redeem" | "refund" | "adjust";
+
+export interface LoyaltyAccount {
+    _id: string;           // Lowercased username
+    username: string;      // As last seen on an order
+    balance: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface LoyaltyEntry {
+    _id?: ObjectId;
+    account: string;       // loyaltyAccounts._id
+    type: LoyaltyEntryType;
+    points: number;        // Signed: + earned/refunded, − redeemed
+    orderId?: string;      // "ORD-..." for earn / redeem / refund
+    reason?: string;       // Adjustments
+    by?: string;           // Admin username (adjustments)
+    createdAt: Date;
+}
+
+export const POINTS_ADJUST_MAX = 100_000;
+
+let indexReady = false;
+
+async function getLedger(db: Db) {
+    const ledger = db.collection<LoyaltyEntry>("loyaltyLedger");
+    if (!indexReady) {
+        await ledger.createIndex({ account: 1, createdAt: -1 });
+        await ledger.createIndex(
+            { orderId: 1, type: 1 },
+            { unique: true, partialFilterExpression: { orderId: { $exists: true } } }
+        );
+        indexReady = true;
+    }
+    return ledger;
+}
+
+export function loyaltyAccountKey(username: string): string {
+    return username.trim().toLowerCase();
+}
+
+/**
+ * Writes an order's ledger line. Returns false if that order
+ * already has a line of this type.
+ */
+async function claimOrderEntry(db: Db, entry: LoyaltyEntry): Promise<boolean> {
+    try {
+        await (await getLedger(db)).insertOne(entry);
+        return true;
+    } catch (error) {
+        if (error instanceof MongoServerError && error.code === 11000) return false;
+        throw error;
+    }
+}
+
+/** Adds (or with a negative amount, takes) points — no balance check. */
+async function creditAccount(db: Db, username: string, points: number) {
+    const now = new Date();
+    await db.collection<LoyaltyAccount>("loyaltyAccounts").updateOne(
+        { _id: loyaltyAccountKey(username) },
+        {
+            $inc: { balance: points },
+            $set: { username, updatedAt: now },
+            $setOnInsert: { createdAt: now },
+        },
+        { upsert: true }
+    );
+}
+
+// ─── Balances ──────────────────────────────────────────────────
+
+export async function getPointsBalance(db: Db, username: string): Promise<number> {
+    const account = await db
+        .collection<LoyaltyAccount>("loyaltyAccounts")
+        .findOne({ _id: loyaltyAccountKey(username) });
+    return account?.balance ?? 0;
+}
+
+/** Balances keyed by lowercased username. Missing players have none. */
+export async function getPointsBalances(db: Db, usernames: string[]): Promise<Map<string, number>> {
+    const accounts = await db
+        .collection<LoyaltyAccount>("loyaltyAccounts")
+        .find({ _id: { $in: usernames.map(loyaltyAccountKey) } })
+        .toArray();
+    return new Map(accounts.map((a) => [a._id, a.balance]));
+}
+
+export async function getLoyaltyHistory(db: Db, username: string, limit = 20): Promise<LoyaltyEntry[]> {
+    return (await getLedger(db))
+        .find({ account: loyaltyAccountKey(username) })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .toArray();
+}
+
+// ─── Orders ────────────────────────────────────────────────────
+
+/**
+ * Credits the points an approved order earned to whoever paid
+ * for it (the buyer on gifts) and stores them on the order as
+ * `pointsEarned`. Runs once per order. Gift card credit and gift
+ * card purchases earn nothing (see earningBasePaise).
+ */
+export async function earnOrderPoints(db: Db, orderMongoId: ObjectId) {
+    const order = await db.collection("orders").findOne({ _id: orderMongoId });
+    if (!order) return;
+
+    const points = pointsEarnedFor(fromPaise(earningBasePaise({ total: order.total, items: order.items })));
+    if (points <= 0) return;
+
+    const username: string = order.gift?.buyerUsername ?? order.minecraftUsername;
+    const claimed = await claimOrderEntry(db, {
+        account: loyaltyAccountKey(username),
+        type: "earn",
+        points,
+        orderId: order.orderId,
+        createdAt: new Date(),
+    });
+    if (!claimed) return;
+
+    await creditAccount(db, username, points);
+    await db.collection("orders").updateOne({ _id: orderMongoId }, { $set: { pointsEarned: points } });
+}
+
+/**
+ * Spends `points` of a player's balance on an order. Returns
+ * false if they no longer have that many.
+ */
+export async function redeemPoints(db: Db, username: string, points: number, orderId: string): Promise<boolean> {
+    const result = await db.collection<LoyaltyAccount>("loyaltyAccounts").updateOne(
+        { _id: loyaltyAccountKey(username), balance: { $gte: points } },
+        { $inc: { balance: -points }, $set: { updatedAt: new Date() } }
+    );
+    if (result.modifiedCount !== 1) return false;
+
+    await claimOrderEntry(db, {
+        account: loyaltyAccountKey(username),
+        type: "redeem",
+        points: -points,
+        orderId,
+        createdAt: new Date(),
+    });
+    return true;
+}
+
+/**
+ * Gives back the points an order spent. The refund line is
+ * unique per order, so calling this twice refunds once.
+ */
+export async function refundPoints(db: Db, orderId: string) {
+    const ledger = await getLedger(db);
+    const spent = await ledger.findOne({ orderId, type: "redeem" });
+    if (!spent) return;
+
+    const claimed = await claimOrderEntry(db, {
+        account: spent.account,
+        type: "refund",
+        points: -spent.points,
+        orderId,
+        createdAt: new Date(),
+    });
+    if (!claimed) return;
+
+    await db.collection<LoyaltyAccount>("loyaltyAccounts").updateOne(
+        { _id: spent.account },
+        { $inc: { balance: -spent.points }, $set: { updatedAt: new Date() } }
+    );
+}
+
+// ─── Admin ─────────────────────────────────────────────────────
+
+/**
+ * Adds (positive) or takes (negative) points by hand. Returns
+ * the new balance, or null if that would take it below zero.
+ */
+export async function adjustPoints(
+    db: Db,
+    username: string,
+    points: number,
+    reason: string,
+    by: string
+): Promise<number | null> {
+    const account = loyaltyAccountKey(username);
+    const now = new Date();
+
+    if (points < 0) {
+        const taken = await db.collection<LoyaltyAccount>("loyaltyAccounts").findOneAndUpdate(
+            { _id: account, balance: { $gte: -points } },
+            { $inc: { balance: points }, $set: { updatedAt: now } },
+            { returnDocument: "after" }
+        );
+        if (!taken) return null;
+        await (await getLedger(db)).insertOne({ account, type: "adjust", points, reason, by, createdAt: now });
+        return taken.balance;
+    }
+
+    await creditAccount(db, username, points);
+    await (await getLedger(db)).insertOne({ account, type: "adjust", points, reason, by, createdAt: now });
+    return getPointsBalance(db, username);
+}
@@ -0,0 +1,53 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: mailer.ts
+// PURPOSE: Shared Nodemailer transport (Gmail SMTP with a Google
+//          App Password, or any SMTP server when SMTP_HOST is set —
+//          e.g. fake-smtp.mjs for local testing) used by every
+//          email the store sends, the From address, and HTML
+//          escaping for anything user-typed in those emails.
+// LOCATION: src/lib/mailer.ts
+// ═══════════════════════════════════════════════════════════════
+
+import nodemailer from "nodemailer";
+
+// ─── SMTP Transport ────────────────────────────────────────────
+
+let transporter: nodemailer.Transporter | null = null;
+
+export function getTransporter() {
+    if (!transporter) {
+        transporter = process.env.SMTP_HOST
+            ? nodemailer.createTransport({
+                host: process.env.SMTP_HOST,
+                port: parseInt(process.env.SMTP_PORT || "587"),
+                secure: process.env.SMTP_PORT === "465",
+                ...(process.env.SMTP_USER && {
+                    auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD },
+                }),
+            })
+            : nodemailer.createTransport({
+                service: "gmail",
+                auth: {
+                    user: process.env.GMAIL_USER,
+                    pass: process.env.GMAIL_APP_PASSWORD,
+                },
+            });
+    }
+    return transporter;
+}
+
+/** The store's From address. */
+export function getMailSender(): string {
+    return `"⚔️ DevZen" <${process.env.MAIL_FROM || process.env.GMAIL_USER}>`;
+}
+
+// ─── HTML Escaping ─────────────────────────────────────────────
+
+/** For user-typed text (usernames, gift messages, user agents). */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,132 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: orderEdits.ts
+// PURPOSE: Re-pricing the items of a pending order that staff
+//          edit from the order page (wrong rank picked, quantity
+//          typo...). Lines the player already had keep the unit
+//          price they were charged; added products are priced
+//          like the cart would today. Coupon, points and gift
+//          card amounts stay as they were, so the new amount due
+//          is the new subtotal minus the same deductions.
+//          Pure functions — the stock and the order document are
+//          updated by the admin action.
+// LOCATION: src/lib/orderEdits.ts
+// ═══════════════════════════════════════════════════════════════
+
+import type { Product } from "@/lib/data";
+import { type OrderComponent, getBundleLines, isBundle, splitBundleLine } from "@/lib/bundles";
+import { fromPaise, priceCart, toPaise } from "@/lib/pricing";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+/** An item line as checkout stores it on the order. */
+export interface OrderLine {
+    id: string;
+    name: string;
+    price: number;           // Unit price charged
+    quantity: number;
+    lineTotal: number;
+    upgradeFrom?: string;
+    fullPrice?: number;
+    giftCardValue?: number;
+    components?: OrderComponent[];
+}
+
+export interface OrderItemEdit {
+    id: string;
+    quantity: number;
+}
+
+export type RepriceResult =
+    | { ok: true; items: OrderLine[]; subtotal: number }
+    | { ok: false; error: string };
+
+export const EDIT_QUANTITY_MAX = 99;
+
+// ─── Re-price ──────────────────────────────────────────────────
+
+/**
+ * The order's new item lines for `wanted`, or why they can't be
+ * built (unknown product, bundle whose contents are gone, bad
+ * quantity). Stock is not checked here — reserving it is.
+ */
+export function repriceOrderItems(
+    current: OrderLine[],
+    wanted: OrderItemEdit[],
+    products: Product[],
+    now: Date
+): RepriceResult {
+    if (wanted.length === 0) return { ok: false, error: "An order needs at least one item." };
+
+    const items: OrderLine[] = [];
+    const seen = new Set<string>();
+
+    for (const { id, quantity } of wanted) {
+        if (seen.has(id)) return { ok: false, error: "Each product can only be listed once." };
+        seen.add(id);
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > EDIT_QUANTITY_MAX) {
+            return { ok: false, error: `Quantities must be whole numbers from 1 to ${EDIT_QUANTITY_MAX}.` };
+        }
+
+        const existing = current.find((line) => line.id === id);
+        if (existing && existing.quantity === quantity) {
+            items.push(existing);
+            continue;
+        }
+
+        const product = products.find((p) => p.id === id);
+        if (!product && !existing) {
+            return { ok: false, error: "A product in the list is no longer in the store." };
+        }
+
+        // Kept lines keep what the player was charged per unit
+        let line: OrderLine;
+        if (existing) {
+            line = {
+                ...existing,
+                quantity,
+                lineTotal: fromPaise(toPaise(existing.price) * quantity),
+            };
+        } else {
+            const quote = priceCart({ items: [{ id, quantity }], products, now });
+            const priced = quote.ok ? quote.lines[0] : undefined;
+            if (!priced) return { ok: false, error: `${product!.name} can't be priced.` };
+            line = {
+                id,
+                name: product!.name,
+                price: priced.unitPrice,
+                quantity,
+                lineTotal: priced.lineTotal,
+                ...(product!.giftCardValue && { giftCardValue: product!.giftCardValue }),
+            };
+        }
+
+        if (product && isBundle(product)) {
+            const bundleLines = getBundleLines(product, products);
+            if (!bundleLines) return { ok: false, error: `${product.name} is not available right now.` };
+            line.components = splitBundleLine(bundleLines, quantity, line.lineTotal);
+        } else if (line.components) {
+            // Contents can't be re-split without the live bundle
+            return { ok: false, error: `${line.name} is no longer sold as a bundle.` };
+        }
+
+        items.push(line);
+    }
+
+    const subtotal = fromPaise(items.reduce((sum, line) => sum + toPaise(line.lineTotal), 0));
+    return { ok: true, items, subtotal };
+}
+
+/**
+ * What the player owes over UPI after an edit: the new subtotal
+ * minus whatever coupons, points and gift card took off before.
+ */
+export function editedAmountDue(oldItems: OrderLine[], oldTotal: number, newSubtotal: number): number {
+    const oldSubtotal = oldItems.reduce((sum, line) => sum + toPaise(line.lineTotal), 0);
+    const deductions = oldSubtotal - toPaise(oldTotal);
+    return fromPaise(Math.max(0, toPaise(newSubtotal) - deductions));
+}
+
+/** "King ×1, Legendary Key ×3" — for the activity log. */
+export function describeItems(items: { name: string; quantity: number }[]): string {
+    return items.map((i) => `${i.name} ×${i.quantity}`).join(", ");
+}
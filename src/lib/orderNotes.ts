@@ -0,0 +1,49 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: orderNotes.ts
+// PURPOSE: Internal staff notes on orders, in the `orderNotes`
+//          MongoDB collection ("player says UTR was typed wrong",
+//          "refunded on Discord"...). Kept apart from the order
+//          document so nothing that reads orders for players
+//          (tracking page, account history) can ever show them.
+// LOCATION: src/lib/orderNotes.ts
+// ═══════════════════════════════════════════════════════════════
+
+import type { Db, ObjectId } from "mongodb";
+import type { AdminRole } from "@/lib/adminSession";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface OrderNote {
+    _id?: ObjectId;
+    orderId: string;         // Public order ID, e.g. "ORD-..."
+    text: string;
+    author: { id: string; username: string; role: AdminRole };
+    createdAt: Date;
+}
+
+export const ORDER_NOTE_MAX = 1000;
+
+let indexReady = false;
+
+async function getCollection(db: Db) {
+    const collection = db.collection<OrderNote>("orderNotes");
+    if (!indexReady) {
+        await collection.createIndex({ orderId: 1, createdAt: 1 });
+        indexReady = true;
+    }
+    return collection;
+}
+
+// ─── Read / Write ──────────────────────────────────────────────
+
+export async function getOrderNotes(db: Db, orderId: string): Promise<OrderNote[]> {
+    const collection = await getCollection(db);
+    return collection.find({ orderId }).sort({ createdAt: 1 }).toArray();
+}
+
+export async function addOrderNote(db: Db, note: Omit<OrderNote, "_id" | "createdAt">): Promise<OrderNote> {
+    const collection = await getCollection(db);
+    const doc: OrderNote = { ...note, createdAt: new Date() };
+    const result = await collection.insertOne(doc);
+    return { ...doc, _id: result.insertedId };
+}
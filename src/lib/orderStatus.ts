@@ -0,0 +1,113 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: orderStatus.ts
+// PURPOSE: The order state machine. Lists every order status,
+//          which transitions are allowed, which statuses count as
+//          "paid" for revenue stats, and the shape of the status
+//          history each order keeps. Safe to import from both
+//          server and client components (no DB access).
+// LOCATION: src/lib/orderStatus.ts
+// ═══════════════════════════════════════════════════════════════
+
+// ─── Statuses ──────────────────────────────────────────────────
+//
+//   pending ──approve──▶ pending-delivery ──▶ delivered
+//      │                       │   ▲              ▲
+//      └──reject──▶ rejected   ▼   │ (requeue)    │ (late plugin ack)
+//                        delivery-failed ─────────┘
+//
+// "success" is the legacy approved state from before in-game
+// delivery existed. Old orders keep it and are treated as paid.
+
+export type OrderStatus =
+    | "pending"
+    | "pending-delivery"
+    | "delivered"
+    | "delivery-failed"
+    | "rejected"
+    | "success";
+
+/** Statuses whose payment was verified — used for revenue stats. */
+export const PAID_ORDER_STATUSES: OrderStatus[] = [
+    "success",
+    "pending-delivery",
+    "delivered",
+    "delivery-failed",
+];
+
+/** Allowed transitions: from → list of possible next statuses. */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ["pending-delivery", "rejected"],
+    "pending-delivery": ["delivered", "delivery-failed"],
+    "delivery-failed": ["pending-delivery", "delivered"],
+    delivered: [],
+    rejected: [],
+    success: [],
+};
+
+/**
+ * Returns every status that may move into `to`.
+ * Used as the `status: { $in: [...] }` guard on updates so two
+ * admins (or an admin and the delivery worker) can't race.
+ */
+export function statusesThatCanBecome(to: OrderStatus): OrderStatus[] {
+    return (Object.keys(ORDER_TRANSITIONS) as OrderStatus[]).filter((from) =>
+        ORDER_TRANSITIONS[from].includes(to)
+    );
+}
+
+export function isPaidStatus(status: string): boolean {
+    return PAID_ORDER_STATUSES.includes(status as OrderStatus);
+}
+
+// ─── Status History ────────────────────────────────────────────
+//
+// Every transition is appended to the order's `statusHistory`
+// array in the same update that changes `status`, so the two
+// can never disagree. Orders from before this have no history.
+
+/** Who moved the order — a staff member or the store itself. */
+export type OrderEventActor =
+    | { type: "admin"; id: string; username: string }
+    | { type: "system"; name: string };     // e.g. "delivery (rcon)"
+
+export interface OrderStatusEvent {
+    from: OrderStatus;
+    to: OrderStatus;
+    at: Date;
+    by: OrderEventActor;
+    reasonCode?: RejectionReasonCode;
+    reason?: string;         // Shown to the player on the tracking page
+}
+
+/** The reason given when the order was rejected, if it was. */
+export function rejectionReasonOf(
+    history: Pick<OrderStatusEvent, "to" | "reason">[] | undefined
+): string | undefined {
+    return history?.findLast((e) => e.to === "rejected")?.reason;
+}
+
+// ─── Rejection Reasons ─────────────────────────────────────────
+
+export const REJECTION_REASONS = [
+    { code: "utr-not-found", label: "UTR not found" },
+    { code: "amount-mismatch", label: "Amount mismatch" },
+    { code: "duplicate-utr", label: "UTR already used" },
+    { code: "wrong-username", label: "Wrong username" },
+    { code: "other", label: "Other" },
+] as const;
+
+export type RejectionReasonCode = (typeof REJECTION_REASONS)[number]["code"];
+
+export function isRejectionReasonCode(code: unknown): code is RejectionReasonCode {
+    return REJECTION_REASONS.some((r) => r.code === code);
+}
+
+/**
+ * The text the player sees: the reason's label, followed by the
+ * admin's details if any. "Other" is just the details.
+ */
+export function rejectionReasonText(code: RejectionReasonCode, details?: string): string {
+    const label = REJECTION_REASONS.find((r) => r.code === code)!.label;
+    if (code === "other") return details || label;
+    return details ? `${label} — ${details}` : label;
+}
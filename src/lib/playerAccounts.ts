@@ -0,0 +1,326 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: playerAccounts.ts
+// PURPOSE: Optional player accounts in the `playerAccounts`
+//          MongoDB collection. Guests can still check out with
+//          just a username — an account adds order history,
+//          reorder and saved details.
+//          • Login is by email magic link: a one-time token in
+//            `playerLoginTokens`, valid for 15 minutes
+//          • A session is a random token in an HttpOnly cookie;
+//            only its SHA-256 hash is kept in `playerSessions`
+//          • An account links one or more Java/Bedrock usernames;
+//            a username can belong to one account at a time, and
+//            only after the player proves it in-game with
+//            /verifystore (see usernameVerification.ts) — a link
+//            shows that player's orders
+// LOCATION: src/lib/playerAccounts.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import { MongoServerError, ObjectId, type Db } from "mongodb";
+import { connectToDatabase } from "@/lib/mongodb";
+import { isUsernameVerified } from "@/lib/usernameVerification";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type Edition = "java" | "bedrock";
+
+export interface LinkedUsername {
+    username: string;      // As typed at checkout ("." prefix for Bedrock)
+    key: string;           // Lowercased — unique across accounts
+    edition: Edition;
+    linkedAt: Date;
+    verifiedAt?: Date;     // Proven in-game; links from before proofs have none
+}
+
+export interface PlayerAccount {
+    _id: ObjectId;
+    email: string;                 // Lowercased, unique
+    usernames: LinkedUsername[];
+    defaultUsername: string | null; // Prefilled at checkout
+    createdAt: Date;
+    lastLoginAt: Date | null;
+}
+
+interface PlayerLoginToken {
+    tokenHash: string;
+    email: string;
+    expiresAt: Date;
+    usedAt: Date | null;
+}
+
+interface PlayerSession {
+    tokenHash: string;
+    accountId: ObjectId;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+export const PLAYER_SESSION_COOKIE = "player_session";
+export const PLAYER_SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days (seconds)
+export const MAX_LINKED_USERNAMES = 5;
+
+const LOGIN_TOKEN_MINUTES = 15;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^\.?[a-zA-Z0-9_]{3,16}$/;
+
+let indexReady = false;
+
+async function getCollections(db: Db) {
+    const accounts = db.collection<PlayerAccount>("playerAccounts");
+    const loginTokens = db.collection<PlayerLoginToken>("playerLoginTokens");
+    const sessions = db.collection<PlayerSession>("playerSessions");
+    if (!indexReady) {
+        await accounts.createIndex({ email: 1 }, { unique: true });
+        // Partial, not sparse — accounts with no usernames would clash on the empty array
+        await accounts.createIndex(
+            { "usernames.key": 1 },
+            { unique: true, partialFilterExpression: { "usernames.key": { $exists: true } } }
+        );
+        await loginTokens.createIndex({ tokenHash: 1 }, { unique: true });
+        await loginTokens.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        await sessions.createIndex({ tokenHash: 1 }, { unique: true });
+        await sessions.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        indexReady = true;
+    }
+    return { accounts, loginTokens, sessions };
+}
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+// ─── Validation ────────────────────────────────────────────────
+
+/** Lowercased email, or null if it doesn't look like one. */
+export function normalizeEmail(raw: unknown): string | null {
+    if (typeof raw !== "string") return null;
+    const email = raw.trim().toLowerCase();
+    return email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null;
+}
+
+export function isValidUsername(username: string): boolean {
+    return USERNAME_PATTERN.test(username);
+}
+
+// ─── Magic Links ───────────────────────────────────────────────
+
+/** A one-time login token for `email`. Only its hash is saved. */
+export async function createLoginToken(db: Db, email: string): Promise<string> {
+    const { loginTokens } = await getCollections(db);
+    const token = randomBytes(32).toString("hex");
+    await loginTokens.insertOne({
+        tokenHash: hashToken(token),
+        email,
+        expiresAt: new Date(Date.now() + LOGIN_TOKEN_MINUTES * 60_000),
+        usedAt: null,
+    });
+    return token;
+}
+
+/**
+ * Uses up a login token and returns the account it logs into —
+ * created on first login. Null if the token is unknown, used or
+ * expired.
+ */
+export async function redeemLoginToken(db: Db, token: string): Promise<PlayerAccount | null> {
+    const { accounts, loginTokens } = await getCollections(db);
+    const now = new Date();
+    const login = await loginTokens.findOneAndUpdate(
+        { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: now } },
+        { $set: { usedAt: now } }
+    );
+    if (!login) return null;
+
+    return accounts.findOneAndUpdate(
+        { email: login.email },
+        {
+            $set: { lastLoginAt: now },
+            $setOnInsert: { email: login.email, usernames: [], defaultUsername: null, createdAt: now },
+        },
+        { upsert: true, returnDocument: "after" }
+    );
+}
+
+// ─── Sessions ──────────────────────────────────────────────────
+
+export async function createPlayerSession(db: Db, accountId: ObjectId): Promise<string> {
+    const { sessions } = await getCollections(db);
+    const token = randomBytes(32).toString("hex");
+    const now = new Date();
+    await sessions.insertOne({
+        tokenHash: hashToken(token),
+        accountId,
+        expiresAt: new Date(now.getTime() + PLAYER_SESSION_MAX_AGE * 1000),
+        createdAt: now,
+    });
+    return token;
+}
+
+export async function deletePlayerSession(db: Db, token: string) {
+    const { sessions } = await getCollections(db);
+    await sessions.deleteOne({ tokenHash: hashToken(token) });
+}
+
+/**
+ * The logged-in player's account for this request, or null for
+ * guests. Safe to call from pages, route handlers and actions.
+ */
+export async function getPlayerAccount(): Promise<PlayerAccount | null> {
+    const token = (await cookies()).get(PLAYER_SESSION_COOKIE)?.value;
+    if (!token) return null;
+
+    const db = await connectToDatabase();
+    const { accounts, sessions } = await getCollections(db);
+    const session = await sessions.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+    return session ? accounts.findOne({ _id: session.accountId }) : null;
+}
+
+// ─── Linked Usernames ──────────────────────────────────────────
+
+export type LinkResult = { ok: true } | { ok: false; error: string; needsVerification?: boolean };
+
+/**
+ * Links `username` to the account once `verificationToken` proves
+ * the player ran /verifystore for it. The proof wins over an older
+ * link on another account (that link is removed), and re-linking
+ * an unverified name marks it verified.
+ */
+export async function linkUsername(
+    db: Db,
+    accountId: ObjectId,
+    username: string,
+    edition: Edition,
+    verificationToken: unknown
+): Promise<LinkResult> {
+    if (!(await isUsernameVerified(db, username, verificationToken))) {
+        return { ok: false, error: "Verify this username in-game first.", needsVerification: true };
+    }
+
+    const { accounts } = await getCollections(db);
+    const key = username.toLowerCase();
+    const now = new Date();
+
+    const previousOwner = await accounts.findOne({ _id: { $ne: accountId }, "usernames.key": key });
+    if (previousOwner) await unlinkUsername(db, previousOwner._id, key);
+
+    // Already linked here from before proofs existed
+    const marked = await accounts.updateOne(
+        { _id: accountId, "usernames.key": key },
+        { $set: { "usernames.$.username": username, "usernames.$.edition": edition, "usernames.$.verifiedAt": now } }
+    );
+    if (marked.matchedCount === 1) return { ok: true };
+
+    try {
+        const result = await accounts.updateOne(
+            {
+                _id: accountId,
+                "usernames.key": { $ne: key },
+                [`usernames.${MAX_LINKED_USERNAMES - 1}`]: { $exists: false },
+            },
+            {
+                $push: { usernames: { username, key, edition, linkedAt: now, verifiedAt: now } },
+            }
+        );
+        if (result.modifiedCount === 1) {
+            // The first username becomes the default
+            await accounts.updateOne({ _id: accountId, defaultUsername: null }, { $set: { defaultUsername: username } });
+            return { ok: true };
+        }
+    } catch (error) {
+        if (error instanceof MongoServerError && error.code === 11000) {
+            return { ok: false, error: "This username is already linked to another account." };
+        }
+        throw error;
+    }
+
+    const account = await accounts.findOne({ _id: accountId });
+    if (account?.usernames.some((u) => u.key === key)) {
+        return { ok: false, error: "You've already linked this username." };
+    }
+    return { ok: false, error: `You can link up to ${MAX_LINKED_USERNAMES} usernames.` };
+}
+
+export async function unlinkUsername(db: Db, accountId: ObjectId, username: string) {
+    const { accounts } = await getCollections(db);
+    const key = username.toLowerCase();
+    const before = await accounts.findOneAndUpdate(
+        { _id: accountId },
+        { $pull: { usernames: { key } } }
+    );
+    // Unlinking the default falls back to whatever is linked first
+    if (before && before.defaultUsername?.toLowerCase() === key) {
+        const next = before.usernames.find((u) => u.key !== key)?.username ?? null;
+        await accounts.updateOne({ _id: accountId }, { $set: { defaultUsername: next } });
+    }
+    return !!before?.usernames.some((u) => u.key === key);
+}
+
+/** True if `username` is linked to the account and was proven in-game. */
+export function hasVerifiedUsername(account: PlayerAccount | null, username: string): boolean {
+    const key = username.toLowerCase();
+    return !!account?.usernames.some((u) => u.key === key && u.verifiedAt);
+}
+
+/** Account email per verified linked username (keyed lowercase), for the admin customers page. */
+export async function getAccountEmails(db: Db, usernames: string[]): Promise<Map<string, string>> {
+    const { accounts } = await getCollections(db);
+    const keys = usernames.map((u) => u.toLowerCase());
+    const found = await accounts
+        .find(
+            { usernames: { $elemMatch: { key: { $in: keys }, verifiedAt: { $exists: true } } } },
+            { projection: { email: 1, usernames: 1 } }
+        )
+        .toArray();
+
+    const emails = new Map<string, string>();
+    for (const account of found) {
+        for (const u of account.usernames) {
+            if (u.verifiedAt) emails.set(u.key, account.email);
+        }
+    }
+    return emails;
+}
+
+/** The email of the account an order was placed from, e.g. to send it gift card codes. */
+export async function getAccountEmailById(db: Db, accountId: ObjectId): Promise<string | null> {
+    const { accounts } = await getCollections(db);
+    const account = await accounts.findOne({ _id: accountId }, { projection: { email: 1 } });
+    return account?.email ?? null;
+}
+
+export async function setDefaultUsername(db: Db, accountId: ObjectId, username: string): Promise<boolean> {
+    const { accounts } = await getCollections(db);
+    const account = await accounts.findOne({ _id: accountId });
+    const linked = account?.usernames.find((u) => u.key === username.toLowerCase());
+    if (!linked) return false;
+    await accounts.updateOne({ _id: accountId }, { $set: { defaultUsername: linked.username } });
+    return true;
+}
+
+// ─── Order History ─────────────────────────────────────────────
+
+/**
+ * Orders placed while logged in, plus every order for or bought
+ * by a verified linked username (compared case-insensitively).
+ */
+export async function getAccountOrders(db: Db, account: PlayerAccount, limit = 100) {
+    const names = account.usernames.filter((u) => u.verifiedAt).map((u) => u.username);
+    return db
+        .collection("orders")
+        .find(
+            {
+                $or: [
+                    { accountId: account._id },
+                    ...(names.length > 0
+                        ? [{ minecraftUsername: { $in: names } }, { "gift.buyerUsername": { $in: names } }]
+                        : []),
+                ],
+            },
+            { collation: { locale: "en", strength: 2 } }
+        )
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .toArray();
+}
@@ -0,0 +1,136 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: playerIds.ts
+// PURPOSE: Resolves the username typed at checkout to the
+//          player's permanent account ID, so orders still point
+//          at the right player after a name change.
+//          • Java    → Mojang UUID (dashed, e.g. 069a79f4-…)
+//          • Bedrock → Xbox XUID (a decimal string), looked up
+//            through the GeyserMC API by gamertag
+//          • Resolvers — "mojang" (the public APIs above) or
+//            "offline" (no network: the UUID an offline-mode
+//            server gives the name, and a stable fake XUID — for
+//            tests / local dev with PLAYER_ID_RESOLVER=offline)
+//          Fails open: a lookup that errors or finds nothing just
+//          leaves the order without an ID.
+// LOCATION: src/lib/playerIds.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { createHash } from "crypto";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type PlayerIdType = "uuid" | "xuid";
+
+export interface ResolvedPlayerId {
+    type: PlayerIdType;
+    id: string;
+}
+
+/** Turns a checkout username into an account ID. */
+export interface PlayerIdResolver {
+    name: string;
+    /** Null when no such player exists. Throws on lookup errors. */
+    resolve(username: string, edition: "java" | "bedrock"): Promise<ResolvedPlayerId | null>;
+}
+
+const LOOKUP_TIMEOUT_MS = 3000;
+
+/** 32 hex digits → the usual 8-4-4-4-12 form, lowercased. */
+function dashUuid(hex: string): string {
+    const h = hex.replace(/-/g, "").toLowerCase();
+    return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+}
+
+/**
+ * ".Steve_123" → "Steve 123". Floodgate adds the "." and swaps
+ * spaces for "_"; gamertags can't contain "_" themselves.
+ */
+export function bedrockGamertag(username: string): string {
+    return username.replace(/^\./, "").replace(/_/g, " ");
+}
+
+// ─── Resolvers ─────────────────────────────────────────────────
+
+/** Live lookups against Mojang (Java) and GeyserMC (Bedrock). */
+export function createMojangResolver(timeoutMs = LOOKUP_TIMEOUT_MS): PlayerIdResolver {
+    return {
+        name: "mojang",
+        async resolve(username, edition) {
+            if (edition === "java") {
+                const res = await fetch(
+                    `https://api.mojang.com/users/profiles/minecraft/${encodeURIComponent(username)}`,
+                    { signal: AbortSignal.timeout(timeoutMs), cache: "no-store" }
+                );
+                // 204 / 404 — nobody owns this name
+                if (res.status === 204 || res.status === 404) return null;
+                if (!res.ok) throw new Error(`Mojang API returned ${res.status}`);
+                const data = await res.json();
+                return typeof data?.id === "string" ? { type: "uuid", id: dashUuid(data.id) } : null;
+            }
+
+            const res = await fetch(
+                `https://api.geysermc.org/v2/xbox/xuid/${encodeURIComponent(bedrockGamertag(username))}`,
+                { signal: AbortSignal.timeout(timeoutMs), cache: "no-store" }
+            );
+            if (res.status === 400 || res.status === 404) return null;
+            if (!res.ok) throw new Error(`GeyserMC API returned ${res.status}`);
+            const data = await res.json();
+            return data?.xuid ? { type: "xuid", id: String(data.xuid) } : null;
+        },
+    };
+}
+
+/**
+ * No network. Java names get the UUID an offline-mode server
+ * would give them (v3 of "OfflinePlayer:<name>"); Bedrock names
+ * a made-up but stable 16-digit XUID.
+ */
+export function createOfflineResolver(): PlayerIdResolver {
+    return {
+        name: "offline",
+        async resolve(username, edition) {
+            if (edition === "java") {
+                const bytes = createHash("md5").update(`OfflinePlayer:${username}`).digest();
+                bytes[6] = (bytes[6] & 0x0f) | 0x30;   // Version 3
+                bytes[8] = (bytes[8] & 0x3f) | 0x80;   // RFC 4122 variant
+                return { type: "uuid", id: dashUuid(bytes.toString("hex")) };
+            }
+
+            // Gamertags are case-insensitive, like real XUID lookups
+            const hash = createHash("sha256").update(bedrockGamertag(username).toLowerCase()).digest();
+            const digits = (hash.readUIntBE(0, 6) % 1_000_000_000_000).toString().padStart(12, "0");
+            return { type: "xuid", id: `2535${digits}` };
+        },
+    };
+}
+
+let defaultResolver: PlayerIdResolver | null = null;
+
+export function getPlayerIdResolver(): PlayerIdResolver {
+    if (!defaultResolver) {
+        defaultResolver = process.env.PLAYER_ID_RESOLVER === "offline"
+            ? createOfflineResolver()
+            : createMojangResolver();
+    }
+    return defaultResolver;
+}
+
+// ─── Resolve ───────────────────────────────────────────────────
+
+/**
+ * The account ID behind a checkout username, or null if it
+ * can't be found right now. Never throws — checkout goes ahead
+ * without an ID rather than failing.
+ */
+export async function resolvePlayerId(
+    username: string,
+    edition: "java" | "bedrock",
+    resolver: PlayerIdResolver = getPlayerIdResolver()
+): Promise<ResolvedPlayerId | null> {
+    try {
+        return await resolver.resolve(username, edition);
+    } catch (error) {
+        console.error(`Player ID lookup (${resolver.name}) failed for ${username}:`, error);
+        return null;
+    }
+}
@@ -0,0 +1,150 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: playerPricing.ts
+// PURPOSE: Per-player prices and purchase rules, based on what
+//          the player has bought before:
+//          • Ladders — owning a tier means paying only the
+//            difference for a higher one ("Upgrade for ₹X"), and
+//            never buying the same or a lower tier again
+//          • maxPerPlayer — lifetime cap per player
+//          Used by /api/checkout (to charge the right amount)
+//          and /api/player-pricing (to show it in the store).
+// LOCATION: src/lib/playerPricing.ts
+// ═══════════════════════════════════════════════════════════════
+
+import type { Db } from "mongodb";
+import type { Product } from "@/lib/data";
+import { fromPaise, salePricePaise, toPaise } from "@/lib/pricing";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+/** How one product is priced / restricted for one player. */
+export interface PlayerProductPricing {
+    price: number;                 // What this player pays for one
+    upgradeFrom: { id: string; name: string } | null;
+    blocked: string | null;        // Why they can't buy it, if they can't
+    remaining: number | null;      // More they may buy (null = no limit)
+}
+
+/** Only products that differ from the normal price / rules. */
+export type PlayerPricing = Record<string, PlayerProductPricing>;
+
+interface PurchaseHistory {
+    quantities: Map<string, number>;     // productId → bought (paid or awaiting review)
+    owned: Set<string>;                  // productIds on paid orders
+}
+
+// ─── History ───────────────────────────────────────────────────
+
+/**
+ * What a player has bought. Paid orders count as owned (they
+ * unlock upgrade pricing); orders still awaiting review count
+ * towards limits too, so two pending orders can't both slip past.
+ */
+async function getPurchaseHistory(db: Db, username: string): Promise<PurchaseHistory> {
+    const orders = await db
+        .collection("orders")
+        .find(
+            {
+                minecraftUsername: username,
+                status: { $in: [...PAID_ORDER_STATUSES, "pending"] },
+            },
+            {
+                projection: { items: 1, status: 1 },
+                // Minecraft names are case-insensitive
+                collation: { locale: "en", strength: 2 },
+            }
+        )
+        .toArray();
+
+    const quantities = new Map<string, number>();
+    const owned = new Set<string>();
+
+    for (const order of orders) {
+        const paid = order.status !== "pending";
+        // Products inside a bundle count as bought too
+        const lines = ((order.items ?? []) as { id: string; quantity: number; components?: { id: string; quantity: number }[] }[])
+            .flatMap((item) => [item, ...(item.components ?? [])]);
+        for (const item of lines) {
+            quantities.set(item.id, (quantities.get(item.id) ?? 0) + (item.quantity || 1));
+            if (paid) owned.add(item.id);
+        }
+    }
+
+    return { quantities, owned };
+}
+
+// ─── Pricing ───────────────────────────────────────────────────
+
+/**
+ * Prices and restrictions for every product that isn't simply
+ * "normal price, no limit" for this player.
+ */
+export async function getPlayerPricing(
+    db: Db,
+    username: string,
+    catalog: Product[]
+): Promise<PlayerPricing> {
+    const history = await getPurchaseHistory(db, username);
+    const pricing: PlayerPricing = {};
+    const now = new Date();
+
+    // Highest owned tier on each ladder
+    const topTier = new Map<string, Product>();
+    for (const product of catalog) {
+        if (!product.ladder || !product.tier || !history.owned.has(product.id)) continue;
+        const current = topTier.get(product.ladder);
+        if (!current || (current.tier ?? 0) < product.tier) topTier.set(product.ladder, product);
+    }
+
+    for (const product of catalog) {
+        const bought = history.quantities.get(product.id) ?? 0;
+        const remaining = product.maxPerPlayer ? Math.max(0, product.maxPerPlayer - bought) : null;
+        const owned = product.ladder ? topTier.get(product.ladder) : undefined;
+
+        let blocked: string | null = null;
+        let upgradeFrom: PlayerProductPricing["upgradeFrom"] = null;
+        let price = fromPaise(salePricePaise(product, now));
+
+        if (owned && product.tier && owned.tier && product.tier <= owned.tier) {
+            blocked = owned.id === product.id
+                ? `${username} already owns ${product.name}.`
+                : `${username} already owns ${owned.name}, which includes this.`;
+        } else if (remaining === 0) {
+            blocked = `${username} has already bought ${product.name} the maximum number of times.`;
+        } else if (owned && product.tier) {
+            // Upgrade: pay the difference to the owned tier's price
+            upgradeFrom = { id: owned.id, name: owned.name };
+            price = fromPaise(Math.max(0, salePricePaise(product, now) - toPaise(owned.price)));
+        }
+
+        if (blocked || upgradeFrom || remaining !== null) {
+            pricing[product.id] = { price, upgradeFrom, blocked, remaining };
+        }
+    }
+
+    return pricing;
+}
+
+/**
+ * Cart-level rule: at most one product per ladder per order —
+ * buying Knight and King together makes no sense. Returns an
+ * error message or null.
+ */
+export function findLadderConflict(
+    items: { id: string }[],
+    catalog: Product[]
+): string | null {
+    const seen = new Map<string, Product>();
+    for (const item of items) {
+        const product = catalog.find((p) => p.id === item.id);
+        if (!product?.ladder) continue;
+
+        const other = seen.get(product.ladder);
+        if (other && other.id !== product.id) {
+            return `${other.name} and ${product.name} can't be bought together — pick one.`;
+        }
+        seen.set(product.ladder, product);
+    }
+    return null;
+}
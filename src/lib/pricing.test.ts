@@ -0,0 +1,284 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: pricing.test.ts
+// PURPOSE: Unit tests for the shared pricing engine — sale
+//          windows, paise rounding and how coupon discounts are
+//          capped, scoped and spread over cart lines.
+// LOCATION: src/lib/pricing.test.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "@/lib/coupons";
+import type { Product } from "@/lib/data";
+import { priceCart, type PriceCartInput } from "@/lib/pricing";
+
+// ─── Fixtures ──────────────────────────────────────────────────
+
+const NOW = new Date("2026-06-15T12:00:00Z");
+
+function product(id: string, price: number, extra: Partial<Product> = {}): Product {
+    return {
+        id,
+        name: id,
+        price,
+        category: "ranks",
+        image: "",
+        description: "",
+        perks: [],
+        ...extra,
+    };
+}
+
+function coupon(code: string, extra: Partial<Coupon> = {}): Coupon {
+    return {
+        code,
+        type: "percentage",
+        value: 10,
+        minOrder: 0,
+        maxUses: -1,
+        usedCount: 0,
+        expiresAt: null,
+        active: true,
+        ...extra,
+    };
+}
+
+function quote(input: Partial<PriceCartInput> & Pick<PriceCartInput, "items" | "products">) {
+    const result = priceCart({ now: NOW, ...input });
+    if (!result.ok) throw new Error(`priceCart failed: ${result.error}`);
+    return result;
+}
+
+// ─── Sale Windows ──────────────────────────────────────────────
+
+describe("sale windows", () => {
+    const sale = product("vip", 100, {
+        salePercent: 25,
+        saleStartAt: "2026-06-10T00:00:00Z",
+        saleEndAt: "2026-06-20T00:00:00Z",
+    });
+
+    it("applies the sale inside the window", () => {
+        const { lines, total } = quote({ items: [{ id: "vip", quantity: 1 }], products: [sale] });
+        expect(lines[0].onSale).toBe(true);
+        expect(lines[0].unitPrice).toBe(75);
+        expect(total).toBe(75);
+    });
+
+    it("charges full price before the sale starts", () => {
+        const { lines } = quote({
+            items: [{ id: "vip", quantity: 1 }],
+            products: [sale],
+            now: new Date("2026-06-09T23:59:59Z"),
+        });
+        expect(lines[0].onSale).toBe(false);
+        expect(lines[0].unitPrice).toBe(100);
+    });
+
+    it("charges full price after the sale ends", () => {
+        const { lines } = quote({
+            items: [{ id: "vip", quantity: 1 }],
+            products: [sale],
+            now: new Date("2026-06-20T00:00:01Z"),
+        });
+        expect(lines[0].onSale).toBe(false);
+        expect(lines[0].unitPrice).toBe(100);
+    });
+
+    it("treats missing dates as an open-ended sale", () => {
+        const { lines } = quote({
+            items: [{ id: "vip", quantity: 1 }],
+            products: [product("vip", 100, { salePercent: 10 })],
+        });
+        expect(lines[0].unitPrice).toBe(90);
+    });
+});
+
+// ─── Paise Rounding ────────────────────────────────────────────
+
+describe("paise rounding", () => {
+    it("keeps line totals free of float noise", () => {
+        const { lines, subtotal } = quote({
+            items: [{ id: "key", quantity: 3 }],
+            products: [product("key", 19.99)],
+        });
+        expect(lines[0].lineTotal).toBe(59.97);
+        expect(subtotal).toBe(59.97);
+    });
+
+    it("rounds a sale price to whole paise", () => {
+        // 999 × 0.67 = 669.33 paise → 669
+        const { lines } = quote({
+            items: [{ id: "key", quantity: 1 }],
+            products: [product("key", 9.99, { salePercent: 33 })],
+        });
+        expect(lines[0].unitPrice).toBe(6.69);
+    });
+
+    it("rounds a percentage discount to whole paise", () => {
+        // 15% of 333 paise = 49.95 → 50
+        const { discount, total } = quote({
+            items: [{ id: "key", quantity: 1 }],
+            products: [product("key", 3.33)],
+            coupons: [coupon("SAVE15", { value: 15 })],
+        });
+        expect(discount).toBe(0.5);
+        expect(total).toBe(2.83);
+    });
+});
+
+// ─── Discount Split ────────────────────────────────────────────
+
+describe("coupon discount split", () => {
+    const products = [product("a", 1), product("b", 1), product("c", 1)];
+    const items = [
+        { id: "a", quantity: 1 },
+        { id: "b", quantity: 1 },
+        { id: "c", quantity: 1 },
+    ];
+
+    it("spreads the discount by each line's share", () => {
+        const { lines } = quote({
+            items: [{ id: "a", quantity: 3 }, { id: "b", quantity: 1 }],
+            products,
+            coupons: [coupon("FLAT2", { type: "flat", value: 2 })],
+        });
+        expect(lines.map((l) => l.discount)).toEqual([1.5, 0.5]);
+    });
+
+    it("gives the rounding remainder to the last line", () => {
+        // ₹1 over three ₹1 lines: 33 + 34 + 33 paise
+        const { lines, discount, total } = quote({
+            items,
+            products,
+            coupons: [coupon("FLAT1", { type: "flat", value: 1 })],
+        });
+        expect(lines.map((l) => l.discount)).toEqual([0.33, 0.34, 0.33]);
+        expect(discount).toBe(1);
+        expect(total).toBe(2);
+    });
+
+    it("makes the line shares add up to the coupon discount", () => {
+        const { lines, coupons, discount } = quote({
+            items: [{ id: "a", quantity: 7 }, { id: "b", quantity: 3 }, { id: "c", quantity: 1 }],
+            products: [product("a", 4.99), product("b", 12.49), product("c", 0.99)],
+            coupons: [coupon("SAVE17", { value: 17 })],
+        });
+        const shares = lines.reduce((sum, l) => sum + Math.round(l.discount * 100), 0);
+        expect(shares).toBe(Math.round(coupons[0].discount * 100));
+        expect(discount).toBe(coupons[0].discount);
+    });
+
+    it("applies stacked coupons to what each line still costs", () => {
+        const { coupons, total } = quote({
+            items: [{ id: "a", quantity: 100 }],
+            products,
+            coupons: [
+                coupon("TEN", { value: 10, stackable: true }),
+                coupon("FIVE", { type: "flat", value: 5, stackable: true }),
+            ],
+        });
+        expect(coupons.map((c) => c.discount)).toEqual([10, 5]);
+        expect(total).toBe(85);
+    });
+
+    it("refuses to stack a coupon that isn't stackable", () => {
+        const result = priceCart({
+            items,
+            products,
+            now: NOW,
+            coupons: [coupon("TEN", { stackable: true }), coupon("SOLO")],
+        });
+        expect(result).toMatchObject({ ok: false, code: "SOLO" });
+    });
+});
+
+// ─── Caps ──────────────────────────────────────────────────────
+
+describe("discount caps", () => {
+    const products = [product("vip", 100)];
+    const items = [{ id: "vip", quantity: 1 }];
+
+    it("caps a percentage coupon at maxDiscount", () => {
+        const { discount, total } = quote({
+            items,
+            products,
+            coupons: [coupon("HALF", { value: 50, maxDiscount: 20 })],
+        });
+        expect(discount).toBe(20);
+        expect(total).toBe(80);
+    });
+
+    it("never takes a flat coupon below zero", () => {
+        const { discount, total } = quote({
+            items,
+            products,
+            coupons: [coupon("BIG", { type: "flat", value: 500 })],
+        });
+        expect(discount).toBe(100);
+        expect(total).toBe(0);
+    });
+
+    it("checks minOrder against the lines the coupon applies to", () => {
+        const result = priceCart({
+            items,
+            products,
+            now: NOW,
+            coupons: [coupon("MIN", { minOrder: 150 })],
+        });
+        expect(result.ok).toBe(false);
+    });
+});
+
+// ─── Scoped Coupons ────────────────────────────────────────────
+
+describe("scoped coupons", () => {
+    const products = [
+        product("vip", 100),
+        product("crate", 50, { category: "keys" }),
+        product("gift-50", 50, { category: "misc", giftCardValue: 50 }),
+    ];
+    const items = [
+        { id: "vip", quantity: 1 },
+        { id: "crate", quantity: 1 },
+        { id: "gift-50", quantity: 1 },
+    ];
+
+    it("only discounts lines in the coupon's categories", () => {
+        const { lines, discount } = quote({
+            items,
+            products,
+            coupons: [coupon("KEYS", { value: 20, categories: ["keys"] })],
+        });
+        expect(lines.map((l) => l.discount)).toEqual([0, 10, 0]);
+        expect(discount).toBe(10);
+    });
+
+    it("only discounts the coupon's products", () => {
+        const { lines } = quote({
+            items,
+            products,
+            coupons: [coupon("VIP", { type: "flat", value: 30, productIds: ["vip"] })],
+        });
+        expect(lines.map((l) => l.discount)).toEqual([30, 0, 0]);
+    });
+
+    it("never discounts gift cards", () => {
+        const { lines, total } = quote({
+            items,
+            products,
+            coupons: [coupon("ALL", { value: 10 })],
+        });
+        expect(lines[2].discount).toBe(0);
+        expect(total).toBe(185);
+    });
+
+    it("fails when the coupon applies to nothing in the cart", () => {
+        const result = priceCart({
+            items: [{ id: "gift-50", quantity: 1 }],
+            products,
+            now: NOW,
+            coupons: [coupon("ALL")],
+        });
+        expect(result).toMatchObject({ ok: false, code: "ALL" });
+    });
+});
@@ -0,0 +1,219 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: pricing.ts
+// PURPOSE: The one place a cart gets its price. Takes the cart,
+//          the products, the coupons and the clock and returns
+//          line prices, coupon discounts and totals:
+//          1. Unit price = flash sale price (if running) or the
+//             player's upgrade price (playerPricing.ts)
+//          2. Line total = unit price × quantity
+//          3. Coupons, in order (rules in coupons.ts)
+//          Loyalty points are valued here too (loyalty.ts keeps
+//          the balances).
+//          All math is in whole paise, so the cart sidebar,
+//          /api/coupons/validate and /api/checkout always land on
+//          the same rupee amount. Pure — no database, no Date.now().
+// LOCATION: src/lib/pricing.ts
+// ═══════════════════════════════════════════════════════════════
+
+import type { Product } from "@/lib/data";
+import type { PlayerPricing } from "@/lib/playerPricing";
+import {
+    type AppliedCoupon,
+    type Coupon,
+    type CouponPlayer,
+    checkCoupon,
+    couponAppliesToLine,
+} from "@/lib/coupons";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+/** What the cart asks for. */
+export interface CartLineInput {
+    id: string;
+    quantity: number;
+}
+
+export interface PriceCartInput {
+    items: CartLineInput[];
+    products: Product[];
+    now: Date;
+    coupons?: Coupon[];
+    player?: CouponPlayer | null;          // For per-player coupon rules
+    playerPricing?: PlayerPricing;         // Upgrade prices for the receiving player
+}
+
+/** One cart line, priced. Amounts are in ₹. */
+export interface PricedLine {
+    id: string;
+    product: Product;
+    quantity: number;
+    unitPrice: number;             // What one costs (sale / upgrade applied)
+    fullPrice: number;             // Sale price before any upgrade credit
+    upgradeFrom: string | null;    // Name of the owned tier, for upgrades
+    onSale: boolean;
+    lineTotal: number;             // unitPrice × quantity
+    discount: number;              // This line's share of the coupon discount
+}
+
+export interface CartQuote {
+    lines: PricedLine[];
+    subtotal: number;
+    coupons: AppliedCoupon[];
+    discount: number;
+    total: number;
+}
+
+export type PriceCartResult =
+    | ({ ok: true } & CartQuote)
+    | { ok: false; code: string; error: string };
+
+// ─── Paise ─────────────────────────────────────────────────────
+
+/** ₹ → whole paise. Rounds away float noise (19.99 → 1999). */
+export function toPaise(rupees: number): number {
+    return Math.round(rupees * 100);
+}
+
+/** Whole paise → ₹. */
+export function fromPaise(paise: number): number {
+    return paise / 100;
+}
+
+// ─── Product Prices ────────────────────────────────────────────
+
+/**
+ * Whether a product's flash sale is running at `now`. Only a
+ * percentage is required; the start and end dates are optional.
+ */
+export function isSaleActive(product: Product, now: Date): boolean {
+    if (!product.salePercent || product.salePercent <= 0) return false;
+    const time = now.getTime();
+    if (product.saleStartAt && time < new Date(product.saleStartAt).getTime()) return false;
+    if (product.saleEndAt && time > new Date(product.saleEndAt).getTime()) return false;
+    return true;
+}
+
+/** One unit at the sale price (if running), in paise. */
+export function salePricePaise(product: Product, now: Date): number {
+    const base = toPaise(product.price);
+    if (!isSaleActive(product, now)) return base;
+    return Math.round((base * (100 - product.salePercent!)) / 100);
+}
+
+// ─── Loyalty Points ────────────────────────────────────────────
+
+/** Earned per whole ₹ paid on an approved order. */
+export const POINTS_PER_RUPEE = 1;
+/** What one point takes off at checkout. */
+export const POINT_VALUE_PAISE = 5;
+
+/** Points an order earns for its earning base (see earningBasePaise). */
+export function pointsEarnedFor(paidRupees: number): number {
+    return Math.floor((toPaise(paidRupees) / 100) * POINTS_PER_RUPEE);
+}
+
+/** ₹ that `points` take off. */
+export function pointsValue(points: number): number {
+    return fromPaise(points * POINT_VALUE_PAISE);
+}
+
+/** How many of `balance` points can go toward `totalRupees`. */
+export function redeemablePoints(balance: number, totalRupees: number): number {
+    return Math.max(0, Math.min(Math.floor(balance), Math.floor(toPaise(totalRupees) / POINT_VALUE_PAISE)));
+}
+
+// ─── Cart ──────────────────────────────────────────────────────
+
+/**
+ * Prices a cart. Items whose product isn't in `products` are
+ * left out — callers that must refuse them check first. Fails
+ * only when a coupon can't be used.
+ */
+export function priceCart({
+    items,
+    products,
+    now,
+    coupons = [],
+    player = null,
+    playerPricing = {},
+}: PriceCartInput): PriceCartResult {
+    const priced: { line: Omit<PricedLine, "discount">; paise: number }[] = [];
+
+    for (const item of items) {
+        const product = products.find((p) => p.id === item.id);
+        const quantity = Math.floor(item.quantity);
+        if (!product || !(quantity >= 1)) continue;
+
+        const full = salePricePaise(product, now);
+        const upgrade = playerPricing[product.id]?.upgradeFrom ? playerPricing[product.id] : null;
+        const unit = upgrade ? toPaise(upgrade.price) : full;
+
+        priced.push({
+            paise: unit * quantity,
+            line: {
+                id: product.id,
+                product,
+                quantity,
+                unitPrice: fromPaise(unit),
+                fullPrice: fromPaise(full),
+                upgradeFrom: upgrade?.upgradeFrom?.name ?? null,
+                onSale: isSaleActive(product, now),
+                lineTotal: fromPaise(unit * quantity),
+            },
+        });
+    }
+
+    // ── Coupons, in order, on what each line still costs ──
+    const remaining = priced.map((p) => p.paise);
+    const applied: AppliedCoupon[] = [];
+
+    if (coupons.length > 1) {
+        const loner = coupons.find((c) => !c.stackable);
+        if (loner) return { ok: false, code: loner.code, error: `${loner.code} can't be combined with other coupons.` };
+    }
+
+    for (const coupon of coupons) {
+        const eligible = priced
+            .map((p, i) => (couponAppliesToLine(coupon, {
+                id: p.line.id,
+                category: p.line.product.category,
+                giftCard: !!p.line.product.giftCardValue,
+            }) ? i : -1))
+            .filter((i) => i !== -1);
+        const base = eligible.reduce((sum, i) => sum + remaining[i], 0);
+
+        const error = checkCoupon(coupon, fromPaise(base), now, player);
+        if (error) return { ok: false, code: coupon.code, error };
+
+        let discount = coupon.type === "percentage"
+            ? Math.round((base * coupon.value) / 100)
+            : toPaise(coupon.value);
+        if (coupon.maxDiscount && coupon.maxDiscount > 0) discount = Math.min(discount, toPaise(coupon.maxDiscount));
+        discount = Math.min(discount, base);
+
+        // Spread over its lines by share. Rounding the running
+        // total keeps every share whole and within its line.
+        let before = 0;
+        let cumulative = 0;
+        for (const i of eligible) {
+            cumulative += remaining[i];
+            const upTo = Math.round((discount * cumulative) / base);
+            remaining[i] -= upTo - before;
+            before = upTo;
+        }
+
+        applied.push({ code: coupon.code, type: coupon.type, value: coupon.value, discount: fromPaise(discount) });
+    }
+
+    const subtotal = priced.reduce((sum, p) => sum + p.paise, 0);
+    const total = remaining.reduce((sum, paise) => sum + paise, 0);
+
+    return {
+        ok: true,
+        lines: priced.map((p, i) => ({ ...p.line, discount: fromPaise(p.paise - remaining[i]) })),
+        subtotal: fromPaise(subtotal),
+        coupons: applied,
+        discount: fromPaise(subtotal - total),
+        total: fromPaise(total),
+    };
+}
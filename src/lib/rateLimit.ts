@@ -0,0 +1,247 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: rateLimit.ts
+// PURPOSE: Shared rate limiter for the public API routes.
+//          • Strategies — "fixed" window (simple counter per
+//            window) or "sliding" window (current count plus a
+//            weighted share of the previous window, so bursts
+//            across a window edge are still caught)
+//          • Stores — MongoDB (`rateLimits` collection, shared by
+//            every serverless instance, survives cold starts) or
+//            in-memory (tests / local dev with RATE_LIMIT_STORE=memory)
+//          • getClientIp — the address our own proxy saw, not the
+//            spoofable left-most x-forwarded-for entry
+//          Fails open: if the store is down, requests go through.
+// LOCATION: src/lib/rateLimit.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type RateLimitStrategy = "fixed" | "sliding";
+
+/** Where hit counters live. Keys expire on their own. */
+export interface RateLimitStore {
+    /** Adds one hit to `key` and returns the new count. */
+    increment(key: string, expiresAt: Date): Promise<number>;
+    /** Current count for `key` (0 if missing or expired). */
+    get(key: string): Promise<number>;
+}
+
+export interface RateLimitOptions {
+    name: string;                  // Namespace, e.g. "checkout"
+    limit: number;                 // Max requests per window
+    windowMs: number;
+    strategy?: RateLimitStrategy;  // Default "sliding"
+    store?: RateLimitStore;        // Default from RATE_LIMIT_STORE
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number;               // Unix ms when the current window ends
+    retryAfter: number;            // Seconds until a request would pass (0 if allowed)
+}
+
+// ─── Client IP ─────────────────────────────────────────────────
+
+/**
+ * The client's IP address as seen by our nearest trusted proxy.
+ *
+ * Each proxy appends the address it received the request from to
+ * x-forwarded-for, so only the right-most TRUSTED_PROXY_HOPS
+ * entries (default 1 — Vercel / a single reverse proxy) were
+ * written by infrastructure we control; anything further left
+ * can be typed in by the client.
+ */
+export function getClientIp(source: Request | Headers): string {
+    const headers = source instanceof Headers ? source : source.headers;
+    const hops = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+    const forwarded = (headers.get("x-forwarded-for") || "")
+        .split(",")
+        .map((part) => part.trim())
+        .filter(Boolean);
+
+    if (forwarded.length > 0) {
+        return forwarded[Math.max(0, forwarded.length - hops)];
+    }
+    return headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+// ─── Stores ────────────────────────────────────────────────────
+
+/** Per-process store — counts reset on restart. */
+export function createMemoryStore(): RateLimitStore {
+    const entries = new Map<string, { count: number; expiresAt: number }>();
+
+    const sweep = (now: number) => {
+        for (const [key, entry] of entries) {
+            if (entry.expiresAt <= now) entries.delete(key);
+        }
+    };
+
+    return {
+        async increment(key, expiresAt) {
+            const now = Date.now();
+            if (entries.size > 10_000) sweep(now);
+
+            const entry = entries.get(key);
+            if (!entry || entry.expiresAt <= now) {
+                entries.set(key, { count: 1, expiresAt: expiresAt.getTime() });
+                return 1;
+            }
+            entry.count++;
+            return entry.count;
+        },
+        async get(key) {
+            const entry = entries.get(key);
+            return entry && entry.expiresAt > Date.now() ? entry.count : 0;
+        },
+    };
+}
+
+interface RateLimitDoc {
+    _id: string;
+    count: number;
+    expiresAt: Date;
+}
+
+/** Shared store in MongoDB, cleaned up by a TTL index. */
+export function createMongoStore(collectionName = "rateLimits"): RateLimitStore {
+    let indexReady = false;
+
+    const getCollection = async () => {
+        const db = await connectToDatabase();
+        const collection = db.collection<RateLimitDoc>(collectionName);
+        if (!indexReady) {
+            await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+            indexReady = true;
+        }
+        return collection;
+    };
+
+    return {
+        async increment(key, expiresAt) {
+            const collection = await getCollection();
+            const doc = await collection.findOneAndUpdate(
+                { _id: key },
+                { $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+                { upsert: true, returnDocument: "after" }
+            );
+            return doc?.count ?? 1;
+        },
+        async get(key) {
+            const collection = await getCollection();
+            const doc = await collection.findOne({ _id: key });
+            // TTL cleanup runs once a minute, so check expiry ourselves
+            return doc && doc.expiresAt > new Date() ? doc.count : 0;
+        },
+    };
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+function getDefaultStore(): RateLimitStore {
+    if (!defaultStore) {
+        defaultStore = process.env.RATE_LIMIT_STORE === "memory"
+            ? createMemoryStore()
+            : createMongoStore();
+    }
+    return defaultStore;
+}
+
+// ─── Limiter ───────────────────────────────────────────────────
+
+/**
+ * Creates a limiter. Call `check(id)` once per request, where
+ * `id` is usually the client IP.
+ *
+ *   const limiter = createRateLimiter({ name: "search", limit: 30, windowMs: 60_000 });
+ *   const result = await limiter.check(getClientIp(request));
+ *   if (!result.allowed) return rateLimitResponse(result);
+ */
+export function createRateLimiter({
+    name,
+    limit,
+    windowMs,
+    strategy = "sliding",
+    store,
+}: RateLimitOptions) {
+    return {
+        async check(id: string): Promise<RateLimitResult> {
+            const now = Date.now();
+            const window = Math.floor(now / windowMs);
+            const windowStart = window * windowMs;
+            const resetAt = windowStart + windowMs;
+            const keyFor = (w: number) => `${name}:${id}:${w}`;
+
+            try {
+                const activeStore = store ?? getDefaultStore();
+                // Kept one extra window so the sliding strategy can read it
+                const count = await activeStore.increment(keyFor(window), new Date(resetAt + windowMs));
+
+                if (strategy === "fixed") {
+                    const allowed = count <= limit;
+                    return {
+                        allowed,
+                        limit,
+                        remaining: Math.max(0, limit - count),
+                        resetAt,
+                        retryAfter: allowed ? 0 : Math.ceil((resetAt - now) / 1000),
+                    };
+                }
+
+                // Sliding: the previous window counts for the part of
+                // it still inside the last `windowMs`
+                const previous = await activeStore.get(keyFor(window - 1));
+                const elapsed = (now - windowStart) / windowMs;
+                const estimated = previous * (1 - elapsed) + count;
+                const allowed = estimated <= limit;
+
+                let retryAfter = 0;
+                if (!allowed) {
+                    // Wait until the previous window's share has decayed
+                    // enough — or the window ends, if this one is full
+                    const waitUntil = count >= limit || previous === 0
+                        ? resetAt
+                        : windowStart + windowMs * (1 - (limit - count) / previous);
+                    retryAfter = Math.max(1, Math.ceil((waitUntil - now) / 1000));
+                }
+
+                return {
+                    allowed,
+                    limit,
+                    remaining: Math.max(0, Math.floor(limit - estimated)),
+                    resetAt,
+                    retryAfter,
+                };
+            } catch (error) {
+                console.error(`Rate limit (${name}) error:`, error);
+                return { allowed: true, limit, remaining: limit, resetAt, retryAfter: 0 };
+            }
+        },
+    };
+}
+
+// ─── Response ──────────────────────────────────────────────────
+
+/** Standard 429 with Retry-After and X-RateLimit-* headers. */
+export function rateLimitResponse(
+    result: RateLimitResult,
+    message = "Too many requests. Please wait a moment."
+) {
+    return NextResponse.json(
+        { error: message },
+        {
+            status: 429,
+            headers: {
+                "Retry-After": String(result.retryAfter),
+                "X-RateLimit-Limit": String(result.limit),
+                "X-RateLimit-Remaining": String(result.remaining),
+                "X-RateLimit-Reset": String(Math.ceil(result.resetAt / 1000)),
+            },
+        }
+    );
+}
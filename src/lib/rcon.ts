@@ -0,0 +1,228 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: rcon.ts
+// PURPOSE: Minimal Source RCON protocol client used to run
+//          delivery commands on the Minecraft server. Opens one
+//          TCP connection, authenticates, runs each command in
+//          order and closes the socket again.
+//          Packet layout (little-endian):
+//            int32 size | int32 id | int32 type | body\0 | \0
+// LOCATION: src/lib/rcon.ts
+// ═══════════════════════════════════════════════════════════════
+
+import net from "net";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface RconConfig {
+    host: string;
+    port: number;
+    password: string;
+    timeoutMs?: number;   // Per-step timeout (connect, auth, each command)
+}
+
+export interface RconPacket {
+    id: number;
+    type: number;
+    body: string;
+}
+
+export interface RconCommandResult {
+    command: string;
+    ok: boolean;
+    unknown?: boolean;   // Sent, but no reply came back — it may have run
+    response?: string;   // Raw text the server sent back
+    error?: string;      // Connection / protocol error, if any
+}
+
+// ─── Protocol Constants ────────────────────────────────────────
+
+export const RCON_PACKET_TYPE = {
+    AUTH: 3,
+    AUTH_RESPONSE: 2,
+    EXEC_COMMAND: 2,
+    RESPONSE_VALUE: 0,
+} as const;
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const AUTH_REQUEST_ID = 1;
+
+// ─── Packet Encoding ───────────────────────────────────────────
+
+/**
+ * Encodes a single RCON packet. Exported so a fake RCON server
+ * can speak the exact same wire format.
+ */
+export function encodePacket({ id, type, body }: RconPacket): Buffer {
+    const bodyBuffer = Buffer.from(body, "utf8");
+    // id (4) + type (4) + body + two null terminators
+    const size = 4 + 4 + bodyBuffer.length + 2;
+    const packet = Buffer.alloc(4 + size);
+
+    packet.writeInt32LE(size, 0);
+    packet.writeInt32LE(id, 4);
+    packet.writeInt32LE(type, 8);
+    bodyBuffer.copy(packet, 12);
+    // The last two bytes are already zeroed by Buffer.alloc
+
+    return packet;
+}
+
+/**
+ * Decodes as many complete packets as the buffer holds and
+ * returns them together with the unconsumed remainder.
+ */
+export function decodePackets(buffer: Buffer): { packets: RconPacket[]; rest: Buffer } {
+    const packets: RconPacket[] = [];
+    let offset = 0;
+
+    while (buffer.length - offset >= 4) {
+        const size = buffer.readInt32LE(offset);
+        if (buffer.length - offset - 4 < size) break; // Wait for more data
+
+        const id = buffer.readInt32LE(offset + 4);
+        const type = buffer.readInt32LE(offset + 8);
+        const body = buffer.toString("utf8", offset + 12, offset + 4 + size - 2);
+
+        packets.push({ id, type, body });
+        offset += 4 + size;
+    }
+
+    return { packets, rest: buffer.subarray(offset) };
+}
+
+// ─── Run Commands ──────────────────────────────────────────────
+
+/**
+ * Connects to the RCON server, authenticates and runs every
+ * command sequentially. A failure on one command does not stop
+ * the others — each gets its own result. A command that was sent
+ * but never answered (timeout, dropped connection) comes back as
+ * `unknown`: the server may well have run it. Connection or auth
+ * failures reject the whole call.
+ */
+export async function runRconCommands(
+    config: RconConfig,
+    commands: string[]
+): Promise<RconCommandResult[]> {
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const socket = net.createConnection({ host: config.host, port: config.port });
+    socket.setNoDelay(true);
+
+    let buffer: Buffer = Buffer.alloc(0);
+    let waiting: {
+        id: number;
+        type: number;     // Packet type we expect back
+        resolve: (packet: RconPacket) => void;
+        reject: (error: Error) => void;
+        timer: NodeJS.Timeout;
+    } | null = null;
+    let socketError: Error | null = null;
+
+    const failWaiting = (error: Error) => {
+        socketError = error;
+        if (waiting) {
+            clearTimeout(waiting.timer);
+            waiting.reject(error);
+            waiting = null;
+        }
+    };
+
+    socket.on("data", (chunk) => {
+        const decoded = decodePackets(Buffer.concat([buffer, chunk]));
+        buffer = decoded.rest;
+
+        for (const packet of decoded.packets) {
+            // Auth failures come back with id -1, so accept those too.
+            // Some servers send an empty RESPONSE_VALUE before the
+            // AUTH_RESPONSE, which the type check skips over.
+            if (
+                waiting &&
+                packet.type === waiting.type &&
+                (packet.id === waiting.id || packet.id === -1)
+            ) {
+                clearTimeout(waiting.timer);
+                waiting.resolve(packet);
+                waiting = null;
+            }
+        }
+    });
+    socket.on("error", (err) => failWaiting(err));
+    socket.on("close", () => failWaiting(new Error("RCON connection closed")));
+
+    const send = (packet: RconPacket, expectType: number, label: string) =>
+        new Promise<RconPacket>((resolve, reject) => {
+            if (socketError) {
+                reject(socketError);
+                return;
+            }
+            const timer = setTimeout(() => {
+                waiting = null;
+                reject(new Error(`RCON ${label} timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
+            waiting = { id: packet.id, type: expectType, resolve, reject, timer };
+            socket.write(encodePacket(packet));
+        });
+
+    try {
+        // ── 1. Wait for the TCP connection ──
+        await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(
+                () => reject(new Error(`RCON connect timed out after ${timeoutMs}ms`)),
+                timeoutMs
+            );
+            socket.once("connect", () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            socket.once("error", (err) => {
+                clearTimeout(timer);
+                reject(err);
+            });
+        });
+
+        // ── 2. Authenticate ──
+        const auth = await send(
+            { id: AUTH_REQUEST_ID, type: RCON_PACKET_TYPE.AUTH, body: config.password },
+            RCON_PACKET_TYPE.AUTH_RESPONSE,
+            "auth"
+        );
+        if (auth.id === -1) {
+            throw new Error("RCON authentication failed (wrong password)");
+        }
+
+        // ── 3. Run each command ──
+        const results: RconCommandResult[] = [];
+        let nextId = AUTH_REQUEST_ID + 1;
+
+        for (const command of commands) {
+            // A dead socket means every remaining command would fail too
+            if (socketError) break;
+            try {
+                const reply = await send(
+                    { id: nextId++, type: RCON_PACKET_TYPE.EXEC_COMMAND, body: command },
+                    RCON_PACKET_TYPE.RESPONSE_VALUE,
+                    "command"
+                );
+                results.push({ command, ok: true, response: reply.body });
+            } catch (error) {
+                // The command went out — whether it ran is unknown
+                results.push({
+                    command,
+                    ok: false,
+                    unknown: true,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        // Mark anything we never got to as failed
+        for (const command of commands.slice(results.length)) {
+            results.push({ command, ok: false, error: "Not executed (connection lost)" });
+        }
+
+        return results;
+    } finally {
+        socket.removeAllListeners("close");
+        socket.destroy();
+    }
+}
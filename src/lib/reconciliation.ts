@@ -0,0 +1,357 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: reconciliation.ts
+// PURPOSE: Payment reconciliation for UPI orders.
+//          1. UTR uniqueness — every UTR is registered in the
+//             `utrRegistry` collection (_id = UTR) so the same
+//             transaction can't pay for two orders.
+//          2. Statement import — parses a bank / UPI statement
+//             CSV and matches its UTRs and amounts against
+//             pending orders, proposing approvals or rejections.
+// LOCATION: src/lib/reconciliation.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { MongoServerError, type Db } from "mongodb";
+import type { RejectionReasonCode } from "@/lib/orderStatus";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+interface UtrRegistryEntry {
+    _id: string;          // The 12-digit UTR
+    orderId: string;      // "ORD-..." of the order that owns it
+    createdAt: Date;
+    updatedAt: Date;      // When `orderId` claimed it
+}
+
+export type UtrClaimResult =
+    | { ok: true; duplicateOf?: string }     // duplicateOf = earlier (rejected) order with this UTR
+    | { ok: false; existingOrderId: string };
+
+export interface StatementRow {
+    utr: string;
+    amount: number | null;
+    date: Date | null;
+    line: number;          // 1-based line in the CSV, for error messages
+}
+
+export interface ReconciliationProposal {
+    orderMongoId: string;
+    orderId: string;
+    minecraftUsername: string;
+    utrNumber: string;
+    orderTotal: number;
+    statementAmount: number | null;
+    action: "approve" | "reject";
+    reason: string;
+    rejection?: { code: RejectionReasonCode; details?: string };  // What the player is told if rejected
+}
+
+export interface ReconciliationResult {
+    proposals: ReconciliationProposal[];
+    unmatchedRows: { utr: string; amount: number | null; line: number }[];
+    alreadyProcessed: number;    // Rows whose order was already approved / rejected
+    rowCount: number;
+    errors: string[];
+}
+
+// ─── UTR Uniqueness ────────────────────────────────────────────
+
+// Checkout claims the UTR, then emails the store and only then
+// saves the order — a claim without an order is a checkout still
+// running until it is this old. Every failed checkout releases
+// its claim, so only a crashed one leaves a stale entry behind.
+const UTR_CLAIM_STALE_MS = 10 * 60_000;
+
+/**
+ * Registers a UTR for a new order. Fails if another live order
+ * already uses it, or a checkout claimed it in the last
+ * UTR_CLAIM_STALE_MS and hasn't saved its order yet. A UTR whose
+ * earlier order was rejected (or whose checkout died) may be
+ * reused — a rejected one flags the new order with `duplicateOf`
+ * so staff can double-check it.
+ */
+export async function claimUtr(db: Db, utr: string, orderId: string): Promise<UtrClaimResult> {
+    const registry = db.collection<UtrRegistryEntry>("utrRegistry");
+    const orders = db.collection("orders");
+    const now = new Date();
+
+    // Orders placed before the registry existed are only in `orders`
+    const legacy = await orders.findOne(
+        { utrNumber: utr, status: { $ne: "rejected" } },
+        { projection: { orderId: 1 } }
+    );
+    if (legacy) return { ok: false, existingOrderId: legacy.orderId };
+
+    try {
+        await registry.insertOne({ _id: utr, orderId, createdAt: now, updatedAt: now });
+        return { ok: true };
+    } catch (error) {
+        if (!(error instanceof MongoServerError) || error.code !== 11000) throw error;
+    }
+
+    // ── Already registered — can the earlier order give it up? ──
+    const entry = await registry.findOne({ _id: utr });
+    if (!entry) return claimUtr(db, utr, orderId);
+
+    const owner = await orders.findOne({ orderId: entry.orderId }, { projection: { status: 1 } });
+    if (owner && owner.status !== "rejected") {
+        return { ok: false, existingOrderId: entry.orderId };
+    }
+    if (!owner && now.getTime() - entry.updatedAt.getTime() < UTR_CLAIM_STALE_MS) {
+        return { ok: false, existingOrderId: entry.orderId };
+    }
+
+    // Compare-and-set so two checkouts can't both take it over
+    const taken = await registry.updateOne(
+        { _id: utr, orderId: entry.orderId, updatedAt: entry.updatedAt },
+        { $set: { orderId, updatedAt: now } }
+    );
+    if (taken.modifiedCount !== 1) {
+        return { ok: false, existingOrderId: entry.orderId };
+    }
+
+    return { ok: true, ...(owner && { duplicateOf: entry.orderId }) };
+}
+
+/**
+ * Frees a UTR that was claimed for an order that never got saved.
+ */
+export async function releaseUtr(db: Db, utr: string, orderId: string) {
+    await db.collection<UtrRegistryEntry>("utrRegistry").deleteOne({ _id: utr, orderId });
+}
+
+// ─── CSV Parsing ───────────────────────────────────────────────
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes,
+ * commas and newlines inside quotes).
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/** "₹1,234.50", "1234.50 CR" → 1234.5 */
+function parseAmount(value: string): number | null {
+    const cleaned = value.replace(/[₹,\s]|INR|Rs\.?|CR|Cr/g, "");
+    if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+    return Math.abs(parseFloat(cleaned));
+}
+
+/** Accepts ISO dates and the DD/MM/YYYY or DD-MM-YYYY used by Indian banks. */
+function parseDate(value: string): Date | null {
+    const trimmed = value.trim();
+    const dmy = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})/);
+    if (dmy) {
+        const year = dmy[3].length === 2 ? 2000 + parseInt(dmy[3]) : parseInt(dmy[3]);
+        const date = new Date(year, parseInt(dmy[2]) - 1, parseInt(dmy[1]));
+        return isNaN(date.getTime()) ? null : date;
+    }
+    const date = new Date(trimmed);
+    return trimmed && !isNaN(date.getTime()) ? date : null;
+}
+
+const UTR_HEADERS = /utr|rrn|reference|ref\.? ?no|transaction id|txn id/i;
+const AMOUNT_HEADERS = /amount|credit|deposit/i;
+const DATE_HEADERS = /date/i;
+
+/**
+ * Parses a statement CSV into rows with a UTR. Columns are found
+ * by header name (UTR / Reference / RRN, Amount / Credit, Date);
+ * without a recognisable header every cell is scanned for a
+ * 12-digit UTR instead.
+ */
+export function parseStatement(csv: string): { rows: StatementRow[]; errors: string[] } {
+    const table = parseCsv(csv);
+    const rows: StatementRow[] = [];
+    const errors: string[] = [];
+    if (table.length === 0) return { rows, errors: ["The file is empty."] };
+
+    const header = table[0].map((h) => h.trim());
+    const utrCol = header.findIndex((h) => UTR_HEADERS.test(h));
+    const amountCol = header.findIndex((h) => AMOUNT_HEADERS.test(h));
+    const dateCol = header.findIndex((h) => DATE_HEADERS.test(h));
+    const hasHeader = utrCol !== -1 || amountCol !== -1;
+
+    table.slice(hasHeader ? 1 : 0).forEach((cells, index) => {
+        const line = index + (hasHeader ? 2 : 1);
+
+        // Narrations often embed the UTR, e.g. "UPI/412345678901/..."
+        const utrSource = utrCol !== -1 ? cells[utrCol] || "" : cells.join(" ");
+        const utr = utrSource.match(/(?<!\d)\d{12}(?!\d)/)?.[0];
+        if (!utr) {
+            if (utrCol !== -1) errors.push(`Line ${line}: no 12-digit UTR found.`);
+            return;
+        }
+
+        const amount = amountCol !== -1
+            ? parseAmount(cells[amountCol] || "")
+            : cells.map(parseAmount).find((a) => a !== null && String(a) !== utr) ?? null;
+
+        rows.push({
+            utr,
+            amount,
+            date: dateCol !== -1 ? parseDate(cells[dateCol] || "") : null,
+            line,
+        });
+    });
+
+    return { rows, errors };
+}
+
+// ─── Matching ──────────────────────────────────────────────────
+
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Matches statement rows against pending orders:
+ *   - UTR found, amount covers the total   → approve
+ *   - UTR found, amount too low            → reject (underpaid)
+ *   - Same UTR on several pending orders   → approve one, reject the rest
+ *   - Pending order inside the statement's date range whose UTR
+ *     is not in the statement              → reject (payment not received)
+ */
+export async function reconcileStatement(db: Db, csv: string): Promise<ReconciliationResult> {
+    const { rows, errors } = parseStatement(csv);
+    const result: ReconciliationResult = {
+        proposals: [],
+        unmatchedRows: [],
+        alreadyProcessed: 0,
+        rowCount: rows.length,
+        errors,
+    };
+    if (rows.length === 0) return result;
+
+    const orders = await db
+        .collection("orders")
+        .find({ utrNumber: { $in: rows.map((r) => r.utr) } })
+        .sort({ createdAt: 1 })
+        .toArray();
+
+    const toProposal = (
+        order: (typeof orders)[number],
+        statementAmount: number | null,
+        action: ReconciliationProposal["action"],
+        reason: string,
+        rejection?: ReconciliationProposal["rejection"]
+    ): ReconciliationProposal => ({
+        orderMongoId: order._id.toString(),
+        orderId: order.orderId,
+        minecraftUsername: order.minecraftUsername,
+        utrNumber: order.utrNumber,
+        orderTotal: order.total,
+        statementAmount,
+        action,
+        reason,
+        ...(rejection && { rejection }),
+    });
+
+    const seenUtrs = new Set<string>();
+    for (const row of rows) {
+        if (seenUtrs.has(row.utr)) continue;
+        seenUtrs.add(row.utr);
+
+        const matches = orders.filter((o) => o.utrNumber === row.utr);
+        const pending = matches.filter((o) => o.status === "pending");
+        if (matches.length === 0) {
+            result.unmatchedRows.push({ utr: row.utr, amount: row.amount, line: row.line });
+            continue;
+        }
+        if (pending.length === 0) {
+            result.alreadyProcessed++;
+            continue;
+        }
+
+        // Only one order may be paid by a transaction — a live order
+        // already holding this UTR means the pending ones are reuses
+        const alreadyPaid = matches.some((o) => o.status !== "pending" && o.status !== "rejected");
+        let approved = alreadyPaid;
+
+        for (const order of pending) {
+            if (approved) {
+                result.proposals.push(toProposal(order, row.amount, "reject", "UTR already used by another order", { code: "duplicate-utr" }));
+            } else if (row.amount === null) {
+                result.proposals.push(toProposal(order, row.amount, "approve", "UTR found (no amount in statement)"));
+                approved = true;
+            } else if (row.amount + AMOUNT_TOLERANCE < order.total) {
+                const underpaid = `received ₹${row.amount}, expected ₹${order.total}`;
+                result.proposals.push(toProposal(order, row.amount, "reject", `Underpaid: ${underpaid}`, {
+                    code: "amount-mismatch",
+                    details: underpaid,
+                }));
+            } else {
+                result.proposals.push(toProposal(
+                    order,
+                    row.amount,
+                    "approve",
+                    row.amount - order.total > AMOUNT_TOLERANCE ? "UTR found, paid more than the total" : "UTR and amount match"
+                ));
+                approved = true;
+            }
+        }
+    }
+
+    // ── Pending orders the statement should have covered ──
+    const dates = rows.map((r) => r.date).filter((d): d is Date => d !== null);
+    if (dates.length > 0) {
+        const from = new Date(Math.min(...dates.map((d) => d.getTime())));
+        const to = new Date(Math.max(...dates.map((d) => d.getTime())));
+        to.setHours(23, 59, 59, 999);
+
+        const missing = await db
+            .collection("orders")
+            .find({
+                status: "pending",
+                createdAt: { $gte: from, $lte: to },
+                // Orders paid in full by gift card have no UTR to find
+                utrNumber: { $type: "string", $nin: [...seenUtrs] },
+            })
+            .sort({ createdAt: 1 })
+            .toArray();
+
+        for (const order of missing) {
+            result.proposals.push(toProposal(order, null, "reject", "UTR not found in statement", { code: "utr-not-found" }));
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,48 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: sendGiftCardEmail.ts
+// PURPOSE: Emails the buyer the gift card codes minted when their
+//          order is approved. Codes spend like cash, so this email
+//          and the buyer's account page are the only places players
+//          see them in full — the tracking page shows them masked.
+// LOCATION: src/lib/sendGiftCardEmail.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { escapeHtml, getMailSender, getTransporter } from "@/lib/mailer";
+
+// ─── Send Gift Card Codes ──────────────────────────────────────
+
+export async function sendGiftCardEmail(email: string, orderId: string, codes: string[]) {
+    const safeOrderId = escapeHtml(orderId);
+    const codeRows = codes
+        .map((code) => `<p style="margin:0 0 8px;color:#fff;font-family:monospace;font-size:16px;letter-spacing:2px;">${escapeHtml(code)}</p>`)
+        .join("");
+
+    const html = `
+    <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:500px;margin:0 auto;background:#1a1a2e;border-radius:16px;overflow:hidden;border:1px solid #2a2a3e;">
+
+        <!-- Header -->
+        <div style="background:linear-gradient(135deg,#3e0f2f,#2e1628);padding:24px;text-align:center;">
+            <h1 style="margin:0;color:#ff55cc;font-size:22px;letter-spacing:1px;">🎟️ Your Gift Card Codes</h1>
+            <p style="margin:6px 0 0;color:#888;font-size:12px;">Order ${safeOrderId}</p>
+        </div>
+
+        <!-- Codes -->
+        <div style="padding:24px;text-align:center;">
+            <p style="margin:0 0 20px;color:#ccc;font-size:14px;">Your payment was approved. Enter a code at checkout to spend its balance.</p>
+            ${codeRows}
+        </div>
+
+        <!-- Footer -->
+        <div style="padding:16px 24px;text-align:center;border-top:1px solid #2a2a3e;">
+            <p style="margin:0;color:#555;font-size:11px;">Keep these private — anyone with a code can spend it. They're also on your account page.</p>
+        </div>
+    </div>
+    `;
+
+    await getTransporter().sendMail({
+        from: getMailSender(),
+        to: email,
+        subject: `🎟️ Your DevZen gift card codes (${orderId})`,
+        html,
+    });
+}
@@ -0,0 +1,44 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: sendLoginEmail.ts
+// PURPOSE: Emails a player their one-time login link for the
+//          store's account page.
+// LOCATION: src/lib/sendLoginEmail.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { escapeHtml, getMailSender, getTransporter } from "@/lib/mailer";
+
+// ─── Send Login Link ───────────────────────────────────────────
+
+export async function sendLoginEmail(email: string, link: string) {
+    const safeLink = escapeHtml(link);
+
+    const html = `
+    <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:500px;margin:0 auto;background:#1a1a2e;border-radius:16px;overflow:hidden;border:1px solid #2a2a3e;">
+
+        <!-- Header -->
+        <div style="background:linear-gradient(135deg,#0f3e1f,#162e1e);padding:24px;text-align:center;">
+            <h1 style="margin:0;color:#55ff55;font-size:22px;letter-spacing:1px;">🔑 Your Login Link</h1>
+            <p style="margin:6px 0 0;color:#888;font-size:12px;">DevZen</p>
+        </div>
+
+        <!-- Link -->
+        <div style="padding:24px;text-align:center;">
+            <p style="margin:0 0 20px;color:#ccc;font-size:14px;">Click below to log in to your store account. The link works once and expires in 15 minutes.</p>
+            <a href="${safeLink}" style="display:inline-block;background:#55ff55;color:#000;font-weight:bold;font-size:14px;text-decoration:none;padding:12px 28px;border-radius:10px;">Log In</a>
+            <p style="margin:20px 0 0;color:#666;font-size:11px;word-break:break-all;">${safeLink}</p>
+        </div>
+
+        <!-- Footer -->
+        <div style="padding:16px 24px;text-align:center;border-top:1px solid #2a2a3e;">
+            <p style="margin:0;color:#555;font-size:11px;">If you didn't ask for this, you can ignore this email.</p>
+        </div>
+    </div>
+    `;
+
+    await getTransporter().sendMail({
+        from: getMailSender(),
+        to: email,
+        subject: "🔑 Your DevZen login link",
+        html,
+    });
+}
@@ -1,12 +1,13 @@
 // ═══════════════════════════════════════════════════════════════
 // FILE: sendOrderEmail.ts
 // PURPOSE: Sends a beautiful HTML email notification to the store
-//          owner whenever a new order is placed. Uses Nodemailer
-//          with Gmail SMTP and Google App Password.
+//          owner whenever a new order is placed (showing buyer and
+//          recipient for gifts). Uses the shared Gmail SMTP
+//          transport from mailer.ts.
 // LOCATION: src/lib/sendOrderEmail.ts
 // ═══════════════════════════════════════════════════════════════
 
-import nodemailer from "nodemailer";
+import { escapeHtml, getMailSender, getTransporter } from "@/lib/mailer";
 
 // ─── Types ─────────────────────────────────────────────────────
 
@@ -21,26 +22,17 @@ interface OrderEmailData {
     orderId: string;
     username: string;
     edition: string;
-    utrNumber: string;
+    utrNumber: string | null;      // null when a gift card paid for everything
     items: OrderItem[];
-    total: number;
-}
-
-// ─── Gmail SMTP Transport ──────────────────────────────────────
-
-let transporter: nodemailer.Transporter | null = null;
-
-function getTransporter() {
-    if (!transporter) {
-        transporter = nodemailer.createTransport({
-            service: "gmail",
-            auth: {
-                user: process.env.GMAIL_USER,
-                pass: process.env.GMAIL_APP_PASSWORD,
-            },
-        });
-    }
-    return transporter;
+    total: number;                 // Amount to verify over UPI
+    giftCard?: {
+        code: string;
+        amount: number;
+    };
+    gift?: {
+        buyerUsername: string;
+        message?: string;
+    };
 }
 
 // ─── Send Order Notification ───────────────────────────────────
@@ -57,6 +49,35 @@ export async function sendOrderEmail(order: OrderEmailData) {
         )
         .join("");
 
+    // Gift: who paid, plus their note to the recipient
+    const giftBlock = order.gift
+        ? `
+            <div style="background:#2a1f0a;border-radius:10px;padding:14px;margin-bottom:16px;border:1px solid #fbbf2433;">
+                <p style="margin:0;color:#fbbf24;font-size:11px;text-transform:uppercase;letter-spacing:1px;">🎁 Gift from</p>
+                <p style="margin:4px 0 0;color:#fff;font-size:15px;font-weight:bold;font-family:monospace;">${escapeHtml(order.gift.buyerUsername)}</p>
+                ${order.gift.message
+                    ? `<p style="margin:8px 0 0;color:#ccc;font-size:13px;font-style:italic;white-space:pre-wrap;">“${escapeHtml(order.gift.message)}”</p>`
+                    : ""}
+            </div>`
+        : "";
+
+    // UTR to check — or a note that store credit covered the order
+    const utrBlock = order.utrNumber
+        ? `
+            <div style="background:#16213e;border-radius:10px;padding:14px;margin-bottom:16px;border:1px solid #2a2a3e;">
+                <p style="margin:0;color:#888;font-size:11px;text-transform:uppercase;letter-spacing:1px;">UTR / Transaction ID</p>
+                <p style="margin:4px 0 0;color:#fbbf24;font-size:18px;font-weight:bold;font-family:monospace;letter-spacing:2px;">${order.utrNumber}</p>
+            </div>`
+        : `
+            <div style="background:#16213e;border-radius:10px;padding:14px;margin-bottom:16px;border:1px solid #2a2a3e;">
+                <p style="margin:0;color:#888;font-size:11px;text-transform:uppercase;letter-spacing:1px;">UTR / Transaction ID</p>
+                <p style="margin:4px 0 0;color:#888;font-size:14px;">None — paid in full with a gift card</p>
+            </div>`;
+
+    const giftCardLine = order.giftCard
+        ? `<p style="margin:6px 0 0;color:#6ee7b7;font-size:12px;">+ ₹${order.giftCard.amount.toFixed(2)} gift card <span style="font-family:monospace;">${order.giftCard.code}</span></p>`
+        : "";
+
     const html = `
     <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:500px;margin:0 auto;background:#1a1a2e;border-radius:16px;overflow:hidden;border:1px solid #2a2a3e;">
         
@@ -78,7 +99,7 @@ export async function sendOrderEmail(order: OrderEmailData) {
             <!-- Player Details -->
             <div style="display:flex;gap:12px;margin-bottom:16px;">
                 <div style="flex:1;background:#16213e;border-radius:10px;padding:14px;border:1px solid #2a2a3e;">
-                    <p style="margin:0;color:#888;font-size:11px;text-transform:uppercase;letter-spacing:1px;">Player</p>
+                    <p style="margin:0;color:#888;font-size:11px;text-transform:uppercase;letter-spacing:1px;">${order.gift ? "Recipient" : "Player"}</p>
                     <p style="margin:4px 0 0;color:#fff;font-size:15px;font-weight:bold;font-family:monospace;">${order.username}</p>
                 </div>
                 <div style="flex:1;background:#16213e;border-radius:10px;padding:14px;border:1px solid #2a2a3e;">
@@ -87,11 +108,10 @@ export async function sendOrderEmail(order: OrderEmailData) {
                 </div>
             </div>
 
+            ${giftBlock}
+
             <!-- UTR -->
-            <div style="background:#16213e;border-radius:10px;padding:14px;margin-bottom:16px;border:1px solid #2a2a3e;">
-                <p style="margin:0;color:#888;font-size:11px;text-transform:uppercase;letter-spacing:1px;">UTR / Transaction ID</p>
-                <p style="margin:4px 0 0;color:#fbbf24;font-size:18px;font-weight:bold;font-family:monospace;letter-spacing:2px;">${order.utrNumber}</p>
-            </div>
+            ${utrBlock}
 
             <!-- Items Table -->
             <table style="width:100%;border-collapse:collapse;background:#16213e;border-radius:10px;overflow:hidden;border:1px solid #2a2a3e;">
@@ -111,6 +131,7 @@ export async function sendOrderEmail(order: OrderEmailData) {
             <div style="margin-top:16px;background:linear-gradient(135deg,#064e3b,#065f46);border-radius:10px;padding:16px;text-align:center;border:1px solid #00ff8833;">
                 <p style="margin:0;color:#6ee7b7;font-size:12px;text-transform:uppercase;letter-spacing:1px;">Total Amount</p>
                 <p style="margin:4px 0 0;color:#00ff88;font-size:28px;font-weight:900;">₹${order.total.toFixed(2)}</p>
+                ${giftCardLine}
             </div>
         </div>
 
@@ -122,9 +143,11 @@ export async function sendOrderEmail(order: OrderEmailData) {
     `;
 
     const mailOptions = {
-        from: `"⚔️ DevZen" <${process.env.GMAIL_USER}>`,
+        from: getMailSender(),
         to: process.env.NOTIFY_EMAIL,
-        subject: `📦 New Order — ${order.username} — ₹${order.total.toFixed(2)}`,
+        subject: order.gift
+            ? `🎁 New Gift Order — ${order.gift.buyerUsername} → ${order.username} — ₹${order.total.toFixed(2)}`
+            : `📦 New Order — ${order.username} — ₹${order.total.toFixed(2)}`,
         html,
     };
 
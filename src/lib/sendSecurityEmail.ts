@@ -0,0 +1,66 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: sendSecurityEmail.ts
+// PURPOSE: Emails the store owner (NOTIFY_EMAIL) when the admin
+//          login locks out an account or IP address after too
+//          many failed attempts.
+// LOCATION: src/lib/sendSecurityEmail.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { escapeHtml, getMailSender, getTransporter } from "@/lib/mailer";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+interface LockoutEmailData {
+    kind: "account" | "ip";
+    key: string;          // Username or IP address
+    failures: number;
+    lockedUntil: Date;
+    ip: string;           // IP of the attempt that triggered it
+    userAgent: string | null;
+}
+
+// ─── Send Lockout Alert ────────────────────────────────────────
+
+export async function sendLockoutEmail(event: LockoutEmailData) {
+    const target = event.kind === "account" ? `Admin account “${event.key}”` : `IP address ${event.key}`;
+    const safeTarget = escapeHtml(target);
+    const until = event.lockedUntil.toLocaleString("en-IN", { timeZone: "Asia/Kolkata" });
+
+    const html = `
+    <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:500px;margin:0 auto;background:#1a1a2e;border-radius:16px;overflow:hidden;border:1px solid #2a2a3e;">
+
+        <!-- Header -->
+        <div style="background:linear-gradient(135deg,#3e0f0f,#2e1616);padding:24px;text-align:center;">
+            <h1 style="margin:0;color:#ff5555;font-size:22px;letter-spacing:1px;">🔒 Admin Login Locked</h1>
+            <p style="margin:6px 0 0;color:#888;font-size:12px;">DevZen</p>
+        </div>
+
+        <!-- Details -->
+        <div style="padding:20px 24px;">
+            <div style="background:#16213e;border-radius:10px;padding:14px;margin-bottom:16px;border:1px solid #2a2a3e;">
+                <p style="margin:0;color:#888;font-size:11px;text-transform:uppercase;letter-spacing:1px;">Locked</p>
+                <p style="margin:4px 0 0;color:#fff;font-size:15px;font-weight:bold;">${safeTarget}</p>
+                <p style="margin:4px 0 0;color:#aaa;font-size:13px;">${event.failures} failed attempts • locked until ${until}</p>
+            </div>
+
+            <div style="background:#16213e;border-radius:10px;padding:14px;border:1px solid #2a2a3e;">
+                <p style="margin:0;color:#888;font-size:11px;text-transform:uppercase;letter-spacing:1px;">Last attempt from</p>
+                <p style="margin:4px 0 0;color:#ccc;font-size:14px;font-family:monospace;">${escapeHtml(event.ip)}</p>
+                <p style="margin:4px 0 0;color:#666;font-size:12px;">${escapeHtml(event.userAgent ?? "Unknown browser")}</p>
+            </div>
+        </div>
+
+        <!-- Footer -->
+        <div style="padding:16px 24px;text-align:center;border-top:1px solid #2a2a3e;">
+            <p style="margin:0;color:#555;font-size:11px;">If this wasn't one of your admins, consider turning on two-factor login under Admin → Security.</p>
+        </div>
+    </div>
+    `;
+
+    await getTransporter().sendMail({
+        from: getMailSender(),
+        to: process.env.NOTIFY_EMAIL,
+        subject: `🔒 Admin login locked — ${target}`,
+        html,
+    });
+}
@@ -0,0 +1,163 @@
+// ═══════════════════════════════════════════════════════════════
+// FILE: usernameVerification.ts
+// PURPOSE: Proves a buyer typed a username they can actually log
+//          in as, in the `usernameVerifications` MongoDB
+//          collection. Turned on with the "Username Verification"
+//          store setting.
+//          • The cart asks for a short code for a username
+//          • The player runs /verifystore <code> in-game; the
+//            server plugin reports it to /api/delivery/verify
+//          • The browser that asked gets a token — only its
+//            SHA-256 hash is kept — that checkout accepts as
+//            proof for that username for VERIFIED_DAYS
+// LOCATION: src/lib/usernameVerification.ts
+// ═══════════════════════════════════════════════════════════════
+
+import { createHash, randomBytes, randomInt } from "crypto";
+import { MongoServerError, type Db } from "mongodb";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface UsernameVerification {
+    username: string;        // As typed at checkout ("." prefix for Bedrock)
+    key: string;             // Lowercased — matched against the in-game name
+    code: string;            // What the player types after /verifystore
+    tokenHash: string;       // sha256 of the browser's token
+    status: "pending" | "verified";
+    createdAt: Date;
+    codeExpiresAt: Date;     // The code only works until then
+    expiresAt: Date;         // Document removed after this (TTL)
+    verifiedAt: Date | null;
+    serverName: string | null; // Plugin server the command ran on
+}
+
+export const VERIFY_CODE_MINUTES = 10;
+const VERIFIED_DAYS = 90;
+
+// No 0/O or 1/I/L — the code is read off a screen and typed in chat
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+let indexReady = false;
+
+async function getCollection(db: Db) {
+    const collection = db.collection<UsernameVerification>("usernameVerifications");
+    if (!indexReady) {
+        // Two pending codes can't be the same; used codes may repeat
+        await collection.createIndex(
+            { code: 1 },
+            { unique: true, partialFilterExpression: { status: "pending" } }
+        );
+        await collection.createIndex({ tokenHash: 1 });
+        await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        indexReady = true;
+    }
+    return collection;
+}
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+function generateCode(): string {
+    let code = "";
+    for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    return code;
+}
+
+/** Upper-cased code with spaces dropped, or null if it can't be one. */
+export function normalizeVerifyCode(raw: unknown): string | null {
+    if (typeof raw !== "string") return null;
+    const code = raw.replace(/\s/g, "").toUpperCase();
+    return code.length === CODE_LENGTH && [...code].every((c) => CODE_ALPHABET.includes(c)) ? code : null;
+}
+
+// ─── Start ─────────────────────────────────────────────────────
+
+/**
+ * A new code for `username`, plus the token the browser keeps to
+ * prove it was verified. The token only counts once the code has
+ * been run in-game.
+ */
+export async function startVerification(
+    db: Db,
+    username: string
+): Promise<{ code: string; token: string; codeExpiresAt: Date }> {
+    const collection = await getCollection(db);
+    const token = randomBytes(32).toString("hex");
+    const now = new Date();
+    const codeExpiresAt = new Date(now.getTime() + VERIFY_CODE_MINUTES * 60_000);
+
+    // A clash with another pending code is rare — just draw again
+    for (let attempt = 0; ; attempt++) {
+        const code = generateCode();
+        try {
+            await collection.insertOne({
+                username,
+                key: username.toLowerCase(),
+                code,
+                tokenHash: hashToken(token),
+                status: "pending",
+                createdAt: now,
+                codeExpiresAt,
+                expiresAt: codeExpiresAt,
+                verifiedAt: null,
+                serverName: null,
+            });
+            return { code, token, codeExpiresAt };
+        } catch (error) {
+            if (error instanceof MongoServerError && error.code === 11000 && attempt < 4) continue;
+            throw error;
+        }
+    }
+}
+
+// ─── Confirm (in-game) ─────────────────────────────────────────
+
+/**
+ * Marks a code as run by `inGameUsername`. The name must be the
+ * one the code was issued for (case-insensitive) — a player can
+ * only ever verify themselves. False for an unknown, expired or
+ * already used code, or someone else's.
+ */
+export async function confirmVerification(
+    db: Db,
+    code: string,
+    inGameUsername: string,
+    serverName: string
+): Promise<boolean> {
+    const collection = await getCollection(db);
+    const now = new Date();
+    const result = await collection.updateOne(
+        {
+            code,
+            key: inGameUsername.toLowerCase(),
+            status: "pending",
+            codeExpiresAt: { $gt: now },
+        },
+        {
+            $set: {
+                status: "verified",
+                verifiedAt: now,
+                serverName,
+                expiresAt: new Date(now.getTime() + VERIFIED_DAYS * 86_400_000),
+            },
+        }
+    );
+    return result.modifiedCount === 1;
+}
+
+// ─── Check ─────────────────────────────────────────────────────
+
+/** True if `token` verified `username` and that hasn't expired. */
+export async function isUsernameVerified(db: Db, username: string, token: unknown): Promise<boolean> {
+    if (typeof token !== "string" || !token) return false;
+    const collection = await getCollection(db);
+    const found = await collection.findOne({
+        tokenHash: hashToken(token),
+        key: username.toLowerCase(),
+        status: "verified",
+        expiresAt: { $gt: new Date() },
+    });
+    return found !== null;
+}
@@ -2,15 +2,37 @@
 // FILE: middleware.ts
 // PURPOSE: Protects all /admin/* routes (except /admin/login)
 //          and /api/admin/* API routes (except /api/admin/auth).
-//          Checks for a valid admin_token cookie.
+//          Checks for a validly signed admin_token session cookie
+//          and keeps owner-only pages away from other roles.
+//          A session still waiting for its TOTP code counts as
+//          signed out everywhere except the login flow.
 //          Pages redirect to /admin/login, APIs return 401 JSON.
+//          Pages, route handlers and server actions re-check the
+//          account, session version and role against the database
+//          (requireAdminPage / requirePermission in lib/adminAuth.ts)
+//          — a signature alone doesn't survive logout or demotion.
 // LOCATION: src/middleware.ts
 // ═══════════════════════════════════════════════════════════════
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import {
+    ADMIN_SESSION_COOKIE,
+    can,
+    verifySession,
+    type AdminPermission,
+} from "@/lib/adminSession";
 
-export function middleware(request: NextRequest) {
+// Pages only some roles may open — everything else is view-only
+// for lower roles and enforced again in the server actions
+const restrictedPages: { prefix: string; permission: AdminPermission }[] = [
+    { prefix: "/admin/settings", permission: "settings.edit" },
+    { prefix: "/admin/admins", permission: "admins.manage" },
+    { prefix: "/admin/gift-cards", permission: "giftcards.manage" },
+    { prefix: "/admin/creators", permission: "creators.manage" },
+];
+
+export async function middleware(request: NextRequest) {
     const { pathname } = request.nextUrl;
 
     // Allow the login page and auth API through without checks
@@ -21,10 +43,10 @@ export function middleware(request: NextRequest) {
         return NextResponse.next();
     }
 
-    // Check for admin_token cookie
-    const adminToken = request.cookies.get("admin_token")?.value;
+    // Check the signed session cookie
+    const session = await verifySession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
 
-    if (!adminToken || adminToken !== process.env.ADMIN_SECRET_KEY) {
+    if (!session || session.mfaPending) {
         // API routes → return 401 JSON
         if (pathname.startsWith("/api/admin")) {
             return NextResponse.json(
@@ -37,6 +59,12 @@ export function middleware(request: NextRequest) {
         return NextResponse.redirect(loginUrl);
     }
 
+    // Role-restricted pages → back to the dashboard
+    const restricted = restrictedPages.find((p) => pathname.startsWith(p.prefix));
+    if (restricted && !can(session.role, restricted.permission)) {
+        return NextResponse.redirect(new URL("/admin", request.url));
+    }
+
     return NextResponse.next();
 }
 
@@ -3,6 +3,13 @@
 // PURPOSE: Global cart state management using Zustand.
 //          Provides actions to add/remove/update cart items,
 //          toggle the cart sidebar, and compute totals.
+//          Remembers the player's username so prices can reflect
+//          what they already own (rank upgrades, purchase limits),
+//          and the tokens of usernames verified in-game.
+//          Prices come from priceCart (pricing.ts) — the same code
+//          checkout charges with, flash sales included. Cart items
+//          are saved product snapshots, so refreshProducts swaps
+//          in the live catalog before the cart is shown.
 //          Uses persist middleware to save cart to localStorage.
 //          Any component can import `useCartStore` to read or
 //          modify the cart without prop drilling.
@@ -11,7 +18,10 @@
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { type Product } from "@/lib/data";
+import { getLiveStoreProducts } from "@/app/actions/productActions";
+import { type Product, hasLimitedStock } from "@/lib/data";
+import type { PlayerPricing } from "@/lib/playerPricing";
+import { priceCart } from "@/lib/pricing";
 
 // ─── Types ─────────────────────────────────────────────────────
 
@@ -32,9 +42,12 @@ interface CartState {
     items: CartItem[];       // All items currently in the cart
     isCartOpen: boolean;     // Whether the sidebar is visible
     toasts: Toast[];         // Active toast notifications
+    player: string | null;   // Last username entered at checkout
+    playerPricing: PlayerPricing;   // Upgrade prices / limits for that player
+    verifiedPlayers: Record<string, string>;   // Lowercased username → verification token
 
     // ── Actions ──
-    addToCart: (product: Product) => void;
+    addToCart: (product: Product) => boolean;   // false if out of stock
     removeFromCart: (productId: string) => void;
     updateQuantity: (productId: string, quantity: number) => void;
     clearCart: () => void;
@@ -43,8 +56,12 @@ interface CartState {
     closeCart: () => void;
     addToast: (message: string) => void;
     removeToast: (id: number) => void;
+    setPlayer: (username: string) => Promise<PlayerPricing>;
+    setVerifiedPlayer: (username: string, token: string) => void;
+    refreshProducts: () => Promise<void>;
 
     // ── Computed Helpers ──
+    getItemPrice: (item: CartItem) => number;
     getTotal: () => number;
     getItemCount: () => number;
 }
@@ -60,11 +77,25 @@ export const useCartStore = create<CartState>()(
             items: [],
             isCartOpen: false,
             toasts: [],
+            player: null,
+            playerPricing: {},
+            verifiedPlayers: {},
 
             // ── addToCart ──
             // If the product is already in the cart, increment its quantity.
             // Otherwise, add it as a new item with quantity = 1.
+            // Limited-stock products can't go past what's left.
             addToCart: (product: Product) => {
+                const inCart = get().items.find((item) => item.id === product.id)?.quantity ?? 0;
+                if (hasLimitedStock(product) && inCart >= product.stock) {
+                    get().addToast(
+                        product.stock <= 0
+                            ? `${product.name} is sold out.`
+                            : `Only ${product.stock} of ${product.name} left.`
+                    );
+                    return false;
+                }
+
                 set((state) => {
                     const existingItem = state.items.find((item) => item.id === product.id);
 
@@ -85,6 +116,7 @@ export const useCartStore = create<CartState>()(
 
                 // Show a toast notification
                 get().addToast(`${product.name} added to cart!`);
+                return true;
             },
 
             // ── removeFromCart ──
@@ -97,7 +129,7 @@ export const useCartStore = create<CartState>()(
 
             // ── updateQuantity ──
             // Sets the quantity of a specific item. If quantity becomes 0 or less,
-            // the item is removed entirely.
+            // the item is removed entirely. Capped at the stock left.
             updateQuantity: (productId: string, quantity: number) => {
                 set((state) => {
                     if (quantity <= 0) {
@@ -105,7 +137,9 @@ export const useCartStore = create<CartState>()(
                     }
                     return {
                         items: state.items.map((item) =>
-                            item.id === productId ? { ...item, quantity } : item
+                            item.id === productId
+                                ? { ...item, quantity: hasLimitedStock(item) ? Math.min(quantity, Math.max(item.stock, 1)) : quantity }
+                                : item
                         ),
                     };
                 });
@@ -136,13 +170,80 @@ export const useCartStore = create<CartState>()(
                 }));
             },
 
+            // ── setPlayer ──
+            // Loads upgrade prices / purchase limits for a username.
+            // Checkout charges the same amounts, so a failed lookup
+            // just falls back to the normal prices.
+            setPlayer: async (username: string) => {
+                set({ player: username });
+                try {
+                    const res = await fetch(`/api/player-pricing?username=${encodeURIComponent(username)}`);
+                    const data = await res.json();
+                    const pricing: PlayerPricing = res.ok ? data.pricing : {};
+                    // Ignore the answer if the username changed meanwhile
+                    if (get().player === username) set({ playerPricing: pricing });
+                    return pricing;
+                } catch {
+                    set({ playerPricing: {} });
+                    return {};
+                }
+            },
+
+            // ── setVerifiedPlayer ──
+            // Keeps the token from /api/verification once a username
+            // is verified in-game, so checkout can send it as proof.
+            setVerifiedPlayer: (username: string, token: string) => {
+                set((state) => ({
+                    verifiedPlayers: { ...state.verifiedPlayers, [username.toLowerCase()]: token },
+                }));
+            },
+
+            // ── refreshProducts ──
+            // Replaces the saved snapshots with the live products, so
+            // prices, sales and stock match what checkout will charge.
+            // Products that were taken down leave the cart.
+            refreshProducts: async () => {
+                const liveProducts = await getLiveStoreProducts();
+                // An empty list means the catalog couldn't be loaded
+                if (liveProducts.length === 0) return;
+
+                const removed: string[] = [];
+                set((state) => ({
+                    items: state.items.flatMap((item) => {
+                        const live = liveProducts.find((p) => p.id === item.id);
+                        if (!live) {
+                            removed.push(item.name);
+                            return [];
+                        }
+                        const quantity = hasLimitedStock(live)
+                            ? Math.min(item.quantity, Math.max(live.stock, 1))
+                            : item.quantity;
+                        return [{ ...live, quantity }];
+                    }),
+                }));
+                for (const name of removed) get().addToast(`${name} is no longer available.`);
+            },
+
+            // ── Computed: Unit Price ──
+            // The sale price, or the upgrade price if this player
+            // owns a lower tier.
+            getItemPrice: (item: CartItem) => {
+                const quote = priceCart({
+                    items: [{ id: item.id, quantity: 1 }],
+                    products: [item],
+                    now: new Date(),
+                    playerPricing: get().playerPricing,
+                });
+                return quote.ok && quote.lines[0] ? quote.lines[0].unitPrice : item.price;
+            },
+
             // ── Computed: Total Price ──
-            // Sums up (price × quantity) for every item in the cart.
+            // What checkout charges before coupons / gift cards —
+            // as long as refreshProducts has run since the page loaded.
             getTotal: () => {
-                return get().items.reduce(
-                    (sum, item) => sum + item.price * item.quantity,
-                    0
-                );
+                const { items, playerPricing } = get();
+                const quote = priceCart({ items, products: items, now: new Date(), playerPricing });
+                return quote.ok ? quote.total : 0;
             },
 
             // ── Computed: Total Item Count ──
@@ -153,7 +254,11 @@ export const useCartStore = create<CartState>()(
         }),
         {
             name: "warden-cart",
-            partialize: (state: CartState) => ({ items: state.items }),
+            partialize: (state: CartState) => ({
+                items: state.items,
+                player: state.player,
+                verifiedPlayers: state.verifiedPlayers,
+            }),
         }
     )
 );